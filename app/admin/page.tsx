@@ -67,6 +67,7 @@ export default function AdminPage() {
       const { data: checkIns, error: checkInsError } = await supabase
         .from('check_in_outs')
         .select('beneficiary_id, action, timestamp')
+        .is('voided_at', null)
         .gte('timestamp', `${today}T00:00:00`)
         .lte('timestamp', `${today}T23:59:59`)
         .order('timestamp', { ascending: true });
@@ -1,6 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import bcrypt from 'bcryptjs';
-import { supabase } from '@/lib/supabase';
+import { createClient } from '@supabase/supabase-js';
+import { SessionUser, setSessionCookie } from '@/lib/session';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,7 +27,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Get user from database
-    const { data: user, error } = await supabase
+    const { data: user, error } = await supabaseAdmin
       .from('users')
       .select('*')
       .eq('email', email)
@@ -38,24 +51,60 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if user also exists in family_members table (for notification matching)
-    const { data: familyMember } = await supabase
+    const { data: familyMember } = await supabaseAdmin
       .from('family_members')
       .select('id')
       .eq('email', email)
       .eq('beneficiary_id', user.beneficiary_id)
       .single();
 
+    // Supabase session for the browser: row-level security identifies users by their auth user
+    // (users.auth_user_id); the one-time token is exchanged with verifyOtp by the client.
+    // The auth user must exist for a magic link token (already registered is fine)
+    if (!user.auth_user_id) {
+      await supabaseAdmin.auth.admin.createUser({
+        email: user.email,
+        email_confirm: true,
+        user_metadata: { user_id: user.id, beneficiary_id: user.beneficiary_id },
+      });
+    }
+
+    const { data: link, error: linkError } = await supabaseAdmin.auth.admin.generateLink({
+      type: 'magiclink',
+      email: user.email,
+    });
+
+    if (linkError || !link.user) {
+      console.error('Session link error:', linkError);
+      return NextResponse.json(
+        { error: 'Failed to start session' },
+        { status: 500 }
+      );
+    }
+
+    if (user.auth_user_id !== link.user.id) {
+      await supabaseAdmin
+        .from('users')
+        .update({ auth_user_id: link.user.id })
+        .eq('id', user.id);
+    }
+
     // Return user data (without password hash)
-    const userData = {
+    const userData: SessionUser = {
       id: familyMember?.id || user.id, // Use family_member_id if exists, otherwise user_id
       user_id: user.id, // Keep original user ID for reference
+      family_member_id: familyMember?.id || null,
       email: user.email,
       role: user.role,
       name: user.name,
       beneficiary_id: user.beneficiary_id,
     };
 
-    return NextResponse.json(userData);
+    // The signed session cookie is what pages and API routes trust, not the returned data
+    return setSessionCookie(
+      NextResponse.json({ ...userData, token_hash: link.properties.hashed_token }),
+      userData
+    );
   } catch (error) {
     console.error('Login error:', error);
     return NextResponse.json(
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { clearSessionCookie, getSessionUser, SessionUser, setSessionCookie } from '@/lib/session';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Signed-in account of the session cookie
+export async function GET(request: NextRequest) {
+  const user = getSessionUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json(user);
+}
+
+// Exchange a Supabase session (magic link) for the session cookie
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Access token required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: { user: authUser }, error: authError } = await supabaseAdmin.auth.getUser(accessToken);
+
+    if (authError || !authUser) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      );
+    }
+
+    // Accounts are linked to their auth user (migration_add_rls_policies.sql)
+    const { data: familyMember } = await supabaseAdmin
+      .from('family_members')
+      .select('id, name, email, beneficiary_id')
+      .eq('auth_user_id', authUser.id)
+      .limit(1)
+      .maybeSingle();
+
+    const { data: primaryUser } = await supabaseAdmin
+      .from('users')
+      .select('id, email, role, name, beneficiary_id')
+      .eq('auth_user_id', authUser.id)
+      .maybeSingle();
+
+    let userData: SessionUser;
+
+    if (primaryUser) {
+      // Same as password login: the family member row of the primary contact, if any
+      const ownFamilyMember = familyMember?.beneficiary_id === primaryUser.beneficiary_id ? familyMember : null;
+      userData = {
+        id: ownFamilyMember?.id || primaryUser.id,
+        user_id: primaryUser.id,
+        family_member_id: ownFamilyMember?.id || null,
+        email: primaryUser.email,
+        role: primaryUser.role,
+        name: primaryUser.name,
+        beneficiary_id: primaryUser.beneficiary_id,
+      };
+    } else if (familyMember) {
+      userData = {
+        id: familyMember.id,
+        family_member_id: familyMember.id,
+        email: familyMember.email,
+        role: 'family',
+        name: familyMember.name,
+        beneficiary_id: familyMember.beneficiary_id,
+      };
+    } else {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return setSessionCookie(NextResponse.json(userData), userData);
+  } catch (error) {
+    console.error('Session error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Sign out
+export async function DELETE() {
+  return clearSessionCookie(NextResponse.json({ success: true }));
+}
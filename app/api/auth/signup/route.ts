@@ -1,6 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import bcrypt from 'bcryptjs';
-import { supabase } from '@/lib/supabase';
+import { createClient } from '@supabase/supabase-js';
+import { geocodeAddress } from '@/lib/geocoding';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
 
 export async function POST(request: NextRequest) {
   try {
@@ -18,6 +31,8 @@ export async function POST(request: NextRequest) {
       regularRate,
       holidayRate,
       ticketModerateur,
+      vatRate,
+      ratesIncludeVat,
       familyMembers,
     } = await request.json();
 
@@ -38,7 +53,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if user already exists
-    const { data: existingUser } = await supabase
+    const { data: existingUser } = await supabaseAdmin
       .from('users')
       .select('id')
       .eq('email', email)
@@ -58,8 +73,11 @@ export async function POST(request: NextRequest) {
     const saltRounds = 10;
     const passwordHash = await bcrypt.hash(password, saltRounds);
 
+    // Home coordinates for the check-in geofence; signup goes on without them
+    const location = await geocodeAddress({ address, street, zip, city, country });
+
     // Create beneficiary record first
-    const { data: beneficiaryData, error: beneficiaryError } = await supabase
+    const { data: beneficiaryData, error: beneficiaryError } = await supabaseAdmin
       .from('beneficiaries')
       .insert({
         name: beneficiaryName,
@@ -70,6 +88,11 @@ export async function POST(request: NextRequest) {
         regular_rate: regularRate || 15.00,
         holiday_rate: holidayRate || 22.50,
         ticket_moderateur: ticketModerateur || 0,
+        vat_rate: vatRate ?? 5.5,
+        rates_include_vat: !!ratesIncludeVat,
+        latitude: location?.latitude ?? null,
+        longitude: location?.longitude ?? null,
+        location_source: location ? 'geocoder' : null,
       })
       .select()
       .single();
@@ -83,7 +106,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Create user record
-    const { data: userData, error: userError } = await supabase
+    const { data: userData, error: userError } = await supabaseAdmin
       .from('users')
       .insert({
         email,
@@ -98,7 +121,7 @@ export async function POST(request: NextRequest) {
     if (userError || !userData) {
       console.error('Error creating user:', userError);
       // Rollback - delete the beneficiary record
-      await supabase
+      await supabaseAdmin
         .from('beneficiaries')
         .delete()
         .eq('id', beneficiaryData.id);
@@ -126,7 +149,7 @@ export async function POST(request: NextRequest) {
         },
       }));
 
-      const { error: familyMemberError } = await supabase
+      const { error: familyMemberError } = await supabaseAdmin
         .from('family_members')
         .insert(familyMemberRecords);
 
@@ -137,7 +160,7 @@ export async function POST(request: NextRequest) {
       }
     } else {
       // Fallback: Create a single family member record with the user who signed up
-      const { error: familyMemberError } = await supabase
+      const { error: familyMemberError } = await supabaseAdmin
         .from('family_members')
         .insert({
           beneficiary_id: beneficiaryData.id,
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { geocodeAddress } from '@/lib/geocoding';
+import { checkBeneficiaryAccess } from '@/lib/session';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+/**
+ * Change a beneficiary's address and geocode it again
+ * When the new address cannot be geocoded the coordinates are cleared: keeping the
+ * old home would flag every check-in at the new one as out of zone.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { beneficiary_id, address } = await request.json();
+
+    // Validate required fields
+    if (!beneficiary_id || !address?.trim()) {
+      return NextResponse.json(
+        { error: 'Beneficiary ID and address are required' },
+        { status: 400 }
+      );
+    }
+
+    const denied = checkBeneficiaryAccess(request, beneficiary_id);
+    if (denied) return denied;
+
+    const { data: beneficiary } = await supabaseAdmin
+      .from('beneficiaries')
+      .select('id, country')
+      .eq('id', beneficiary_id)
+      .single();
+
+    if (!beneficiary) {
+      return NextResponse.json(
+        { error: 'Beneficiary not found' },
+        { status: 404 }
+      );
+    }
+
+    const location = await geocodeAddress({ address: address.trim(), country: beneficiary.country });
+
+    const { data, error } = await supabaseAdmin
+      .from('beneficiaries')
+      .update({
+        address: address.trim(),
+        latitude: location?.latitude ?? null,
+        longitude: location?.longitude ?? null,
+        location_source: location ? 'geocoder' : null,
+      })
+      .eq('id', beneficiary_id)
+      .select('address, latitude, longitude, location_source')
+      .single();
+
+    if (error || !data) {
+      console.error('Error updating address:', error);
+      return NextResponse.json(
+        { error: 'Failed to update address' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      geocoded: !!location,
+      beneficiary: data,
+    });
+  } catch (error) {
+    console.error('Update address error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { verifyChallengeToken } from '@/lib/challenge-token';
+import { evaluateGeofence, isPresenceVerified } from '@/lib/geofence';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+/**
+ * Add a caregiver from the check-in form
+ * A caregiver not yet in the list adds their name after a tap; the challenge token
+ * from /api/nfc/challenge is required, with a position inside the home's zone when the
+ * tap had no signed payload. An existing name (case-insensitive) is reused.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { qr_code, challenge_token, name, latitude, longitude, accuracy } = await request.json();
+
+    if (!qr_code || !challenge_token || !name?.trim()) {
+      return NextResponse.json(
+        { error: 'QR code, challenge token and name are required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: beneficiary } = await supabaseAdmin
+      .from('beneficiaries')
+      .select('id, latitude, longitude, geofence_radius_meters')
+      .eq('qr_code', qr_code)
+      .single();
+
+    if (!beneficiary) {
+      return NextResponse.json(
+        { error: 'Invalid beneficiary code' },
+        { status: 404 }
+      );
+    }
+
+    const challenge = verifyChallengeToken(challenge_token, beneficiary.id);
+    if (!challenge.valid) {
+      return NextResponse.json(
+        { error: 'Invalid or expired tap' },
+        { status: 403 }
+      );
+    }
+
+    if (!isPresenceVerified(challenge.claims.tap, evaluateGeofence({ latitude, longitude, accuracy }, beneficiary))) {
+      return NextResponse.json(
+        { error: 'Your position must be inside the home\'s zone to add a caregiver with this QR code.' },
+        { status: 403 }
+      );
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from('caregivers')
+      .select('name')
+      .eq('beneficiary_id', beneficiary.id)
+      .ilike('name', name.trim())
+      .maybeSingle();
+
+    if (!existing) {
+      const { error } = await supabaseAdmin
+        .from('caregivers')
+        .insert({
+          beneficiary_id: beneficiary.id,
+          name: name.trim(),
+        });
+
+      if (error) {
+        console.error('Error adding caregiver:', error);
+        return NextResponse.json(
+          { error: 'Failed to add caregiver' },
+          { status: 500 }
+        );
+      }
+    }
+
+    const { data: caregivers } = await supabaseAdmin
+      .from('caregivers')
+      .select('name')
+      .eq('beneficiary_id', beneficiary.id)
+      .eq('is_active', true)
+      .order('name');
+
+    return NextResponse.json({
+      success: true,
+      name: existing?.name ?? name.trim(),
+      caregivers: (caregivers || []).map(caregiver => caregiver.name),
+    });
+  } catch (error) {
+    console.error('Add caregiver error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { verifyChallengeToken } from '@/lib/challenge-token';
+import { evaluateGeofence, isPresenceVerified } from '@/lib/geofence';
+import { OPEN_VISIT_LOOKBACK_DAYS } from '@/lib/forgotten-check-outs';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+/**
+ * What the check-in form needs after a tap
+ * Caregivers are not signed in and cannot read the tables: the challenge token from
+ * /api/nfc/challenge gives access to the beneficiary's name, recent check-ins/outs
+ * (to tell who is at the home) and caregiver names, and nothing else. A QR code without a
+ * signed payload (possibly a photo of the card) only gets them with a position inside the
+ * home's zone: without a position the answer asks for it (locationRequired).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { qr_code, challenge_token, latitude, longitude, accuracy } = await request.json();
+
+    if (!qr_code || !challenge_token) {
+      return NextResponse.json(
+        { error: 'QR code and challenge token are required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: beneficiary } = await supabaseAdmin
+      .from('beneficiaries')
+      .select('id, name, forgotten_check_out_hours, latitude, longitude, geofence_radius_meters')
+      .eq('qr_code', qr_code)
+      .single();
+
+    if (!beneficiary) {
+      return NextResponse.json(
+        { error: 'Invalid beneficiary code' },
+        { status: 404 }
+      );
+    }
+
+    const challenge = verifyChallengeToken(challenge_token, beneficiary.id);
+    if (!challenge.valid) {
+      return NextResponse.json(
+        { error: 'Invalid or expired tap' },
+        { status: 403 }
+      );
+    }
+
+    // The home's coordinates stay on the server
+    const form = { id: beneficiary.id, name: beneficiary.name, forgotten_check_out_hours: beneficiary.forgotten_check_out_hours };
+
+    if (!challenge.claims.tap && (!latitude || !longitude)) {
+      return NextResponse.json({ beneficiary: form, checkIns: [], caregivers: [], locationRequired: true });
+    }
+
+    if (!isPresenceVerified(challenge.claims.tap, evaluateGeofence({ latitude, longitude, accuracy }, beneficiary))) {
+      return NextResponse.json(
+        { error: 'You are too far from the home to use this QR code. Please tap the NFC card or scan the code shown in the home.' },
+        { status: 403 }
+      );
+    }
+
+    // Recent check-ins/outs only: visits left open for days are forgotten check-outs, not active
+    const since = new Date(Date.now() - OPEN_VISIT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const [{ data: checkIns }, { data: caregivers }] = await Promise.all([
+      supabaseAdmin
+        .from('check_in_outs')
+        .select('id, caregiver_name, action, timestamp, is_training, corrected_check_out_at')
+        .is('voided_at', null)
+        .eq('beneficiary_id', beneficiary.id)
+        .gte('timestamp', since.toISOString())
+        .order('timestamp', { ascending: true }),
+      supabaseAdmin
+        .from('caregivers')
+        .select('name')
+        .eq('beneficiary_id', beneficiary.id)
+        .eq('is_active', true)
+        .order('name'),
+    ]);
+
+    return NextResponse.json({
+      beneficiary: form,
+      checkIns: checkIns || [],
+      caregivers: (caregivers || []).map(caregiver => caregiver.name),
+    });
+  } catch (error) {
+    console.error('Check-in context error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
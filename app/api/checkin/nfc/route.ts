@@ -1,26 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { createClient } from '@supabase/supabase-js';
 import { sendCheckInNotification, sendCheckOutNotification } from '@/lib/push-notification-service';
+import { notifyApaThresholds } from '@/lib/apa-alerts';
+import { evaluateGeofence, isPresenceVerified } from '@/lib/geofence';
+import { validateCheckInAction } from '@/lib/checkin-state';
+import { getForgottenCheckOutHours, OPEN_VISIT_LOOKBACK_DAYS } from '@/lib/forgotten-check-outs';
+import { verifyChallengeToken } from '@/lib/challenge-token';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Row already recorded for a submission, if any
+async function findSubmission(beneficiaryId: string, idempotencyKey: string) {
+  const { data } = await supabaseAdmin
+    .from('check_in_outs')
+    .select('*')
+    .eq('beneficiary_id', beneficiaryId)
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+  return data;
+}
+
+function replayedResponse(checkIn: { action: string }) {
+  return NextResponse.json({
+    success: true,
+    checkIn,
+    replayed: true,
+    message: `Successfully ${checkIn.action === 'check-in' ? 'checked in' : 'checked out'}`,
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const {
       beneficiary_qr_code,
-      secret,
       challenge_token,
-      tap_timestamp,
-      verification_method,
       caregiver_name,
       action,
       is_training,
       photo_url,
       latitude,
       longitude,
+      accuracy,
+      idempotency_key,
     } = body;
 
-    // Validate required fields
-    if (!beneficiary_qr_code || !tap_timestamp) {
+    // Validate required fields: every visit starts with a challenge token from /api/nfc/challenge
+    if (!beneficiary_qr_code || !challenge_token) {
       return NextResponse.json(
         { error: 'Please tap the beneficiary\'s card/QR code to start the visit.' },
         { status: 400 }
@@ -34,26 +70,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // QR code method (no secret) requires geolocation
-    if (verification_method === 'qr' && (!latitude || !longitude)) {
+    if (action !== 'check-in' && action !== 'check-out') {
       return NextResponse.json(
-        { error: 'Geolocation is required when using QR code. Please enable location services.' },
-        { status: 400 }
-      );
-    }
-
-    // NFC method (has secret) requires secret and challenge token
-    if (verification_method === 'nfc' && (!secret || !challenge_token)) {
-      return NextResponse.json(
-        { error: 'Invalid NFC credentials.' },
+        { error: 'Invalid action' },
         { status: 400 }
       );
     }
 
     // Find beneficiary
-    const { data: beneficiary, error: beneficiaryError } = await supabase
+    const { data: beneficiary, error: beneficiaryError } = await supabaseAdmin
       .from('beneficiaries')
-      .select('id, name, nfc_secret, country')
+      .select('id, name, country, latitude, longitude, geofence_radius_meters, forgotten_check_out_hours')
       .eq('qr_code', beneficiary_qr_code)
       .single();
 
@@ -64,62 +91,84 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Only validate secret for NFC method
-    if (verification_method === 'nfc') {
-      // Validate secret matches
-      if (beneficiary.nfc_secret !== secret) {
-        return NextResponse.json(
-          { error: 'Invalid NFC credentials. Please tap the card again.' },
-          { status: 403 }
-        );
-      }
+    // The token must have been signed by the challenge for this beneficiary, less than 15 minutes ago
+    const challenge = verifyChallengeToken(challenge_token, beneficiary.id);
+    if (!challenge.valid) {
+      return NextResponse.json(
+        { error: challenge.reason === 'expired'
+          ? 'Tap expired. Please tap the card or scan the QR code again.'
+          : 'Invalid card/QR code tap. Please tap the card or scan the QR code again.' },
+        { status: challenge.reason === 'expired' ? 400 : 403 }
+      );
+    }
+    const { claims } = challenge;
+    const tapTime = new Date(claims.iat * 1000);
 
-      // Check if challenge token was already used
-      const { data: usedToken } = await supabase
-        .from('nfc_used_tokens')
-        .select('id')
-        .eq('challenge_token', challenge_token)
-        .single();
+    // QR code method requires geolocation
+    if (claims.method === 'qr' && (!latitude || !longitude)) {
+      return NextResponse.json(
+        { error: 'Geolocation is required when using QR code. Please enable location services.' },
+        { status: 400 }
+      );
+    }
 
-      if (usedToken) {
-        return NextResponse.json(
-          { error: 'This NFC tap has already been used. Please tap the card again.' },
-          { status: 400 }
-        );
-      }
+    // Distance to the home: out-of-zone check-ins are recorded but flagged for the family
+    const geofence = evaluateGeofence({ latitude, longitude, accuracy }, beneficiary);
+
+    // A QR code without a signed payload may be a photo of the card
+    if (!claims.tap && geofence.geofence_score === 'unknown') {
+      return NextResponse.json(
+        { error: 'The home address has no location, so this QR code cannot be checked. Please tap the NFC card or scan the code shown in the home.' },
+        { status: 403 }
+      );
+    }
+    if (!isPresenceVerified(claims.tap, geofence)) {
+      return NextResponse.json(
+        { error: 'You are too far from the home to use this QR code. Please tap the NFC card or scan the code shown in the home.' },
+        { status: 403 }
+      );
+    }
 
-      // Validate tap timestamp is recent (within 15 minutes)
-      const tapTime = new Date(tap_timestamp).getTime();
-      const now = Date.now();
-      const minutesElapsed = (now - tapTime) / 1000 / 60;
+    // A retried submission (double tap, slow network) returns the row it already created
+    if (idempotency_key) {
+      const existing = await findSubmission(beneficiary.id, idempotency_key);
+      if (existing) return replayedResponse(existing);
+    }
 
-      if (minutesElapsed > 15) {
-        return NextResponse.json(
-          { error: 'NFC tap expired. Please tap the card again.' },
-          { status: 400 }
-        );
-      }
+    // The caregiver must be away to check in and at the home to check out
+    const since = new Date(Date.now() - OPEN_VISIT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const { data: caregiverCheckIns } = await supabaseAdmin
+      .from('check_in_outs')
+      .select('id, caregiver_name, action, timestamp, corrected_check_out_at')
+      .eq('beneficiary_id', beneficiary.id)
+      .eq('caregiver_name', caregiver_name.trim())
+      .is('voided_at', null)
+      .gte('timestamp', since.toISOString())
+      .order('timestamp', { ascending: true })
+      .order('id', { ascending: true });
 
-      if (minutesElapsed < 0) {
-        return NextResponse.json(
-          { error: 'Invalid tap timestamp' },
-          { status: 400 }
-        );
+    const stateError = validateCheckInAction(
+      caregiverCheckIns || [],
+      action,
+      getForgottenCheckOutHours(beneficiary)
+    );
+
+    if (stateError) {
+      // A copy of this submission was recorded since the lookup above
+      if (idempotency_key) {
+        const existing = await findSubmission(beneficiary.id, idempotency_key);
+        if (existing) return replayedResponse(existing);
       }
 
-      // Mark token as used (prevents replay attacks)
-      await supabase
-        .from('nfc_used_tokens')
-        .insert({
-          challenge_token,
-          beneficiary_id: beneficiary.id,
-        });
+      return NextResponse.json(
+        { error: stateError.message, code: stateError.code, checked_in_at: stateError.checkedInAt },
+        { status: 409 }
+      );
     }
-    // For QR code method, no secret validation needed - geolocation is the security measure
 
     // Look up caregiver ID from name
     let caregiverId = null;
-    const { data: caregiverData } = await supabase
+    const { data: caregiverData } = await supabaseAdmin
       .from('caregivers')
       .select('id')
       .eq('beneficiary_id', beneficiary.id)
@@ -130,34 +179,64 @@ export async function POST(request: NextRequest) {
       caregiverId = caregiverData.id;
     }
 
-    // Create the check-in/out record
-    const { data: checkIn, error: checkInError } = await supabase
-      .from('check_in_outs')
-      .insert({
-        beneficiary_id: beneficiary.id,
-        caregiver_id: caregiverId,
-        caregiver_name: caregiver_name.trim(),
-        action,
-        is_training: is_training || false,
-        photo_url,
-        latitude,
-        longitude,
-        verification_method: verification_method || 'nfc',
-        nfc_challenge_token: challenge_token,
-        tap_timestamp: tap_timestamp,
-        is_verified: true,
-        verification_flags: {
-          method: verification_method || 'nfc',
-          secret_validated: verification_method === 'nfc', // Only NFC has secret validation
-          has_geolocation: latitude && longitude ? true : false,
-          geolocation_required: verification_method === 'qr',
-          has_photo: photo_url ? true : false,
+    // Record the token and create the check-in/out in one transaction, unless another
+    // submission of the caregiver was recorded since the validation above (see
+    // migration_add_checkin_lock.sql): a second submission with the token hits the unique constraint
+    const { data: checkIn, error: checkInError } = await supabaseAdmin
+      .rpc('record_check_in_out', {
+        since: since.toISOString(),
+        last_seen_id: caregiverCheckIns?.length ? caregiverCheckIns[caregiverCheckIns.length - 1].id : null,
+        challenge_jti: claims.jti,
+        check_in: {
+          beneficiary_id: beneficiary.id,
+          caregiver_id: caregiverId,
+          caregiver_name: caregiver_name.trim(),
+          action,
+          is_training: is_training || false,
+          photo_url,
+          latitude,
+          longitude,
+          verification_method: claims.method,
+          nfc_challenge_token: claims.jti,
+          idempotency_key: idempotency_key || null,
+          tap_timestamp: tapTime.toISOString(),
+          is_verified: true,
+          verification_flags: {
+            method: claims.method,
+            secret_validated: !!claims.tap, // Tag payload checked by the challenge (always for NFC)
+            payload: claims.tap,
+            tag_key_id: claims.kid,
+            tap_counter: claims.ctr,
+            has_geolocation: latitude && longitude ? true : false,
+            geolocation_required: claims.method === 'qr',
+            has_photo: photo_url ? true : false,
+            ...geofence,
+          },
         },
-      })
-      .select()
-      .single();
+      });
 
     if (checkInError) {
+      // Two copies of the same submission raced: return the one that was recorded
+      if ((checkInError.code === '23505' || checkInError.code === '40001') && idempotency_key) {
+        const existing = await findSubmission(beneficiary.id, idempotency_key);
+        if (existing) return replayedResponse(existing);
+      }
+
+      if (checkInError.code === '23505') {
+        return NextResponse.json(
+          { error: 'This tap has already been used. Please tap the card or scan the QR code again.' },
+          { status: 400 }
+        );
+      }
+
+      // Nothing was recorded, the tap can be submitted again
+      if (checkInError.code === '40001') {
+        return NextResponse.json(
+          { error: 'Another check-in or check-out was just recorded for you. Please try again.' },
+          { status: 409 }
+        );
+      }
+
       console.error('Check-in error:', checkInError);
       return NextResponse.json(
         { error: 'Failed to record check-in' },
@@ -167,7 +246,7 @@ export async function POST(request: NextRequest) {
 
     // Send push notifications to family members with notifications enabled
     try {
-      const { data: familyMembers } = await supabase
+      const { data: familyMembers } = await supabaseAdmin
         .from('family_members')
         .select('id, notification_preferences')
         .eq('beneficiary_id', beneficiary.id);
@@ -191,7 +270,7 @@ export async function POST(request: NextRequest) {
               await sendCheckInNotification(
                 caregiver_name.trim(),
                 familyMemberIds,
-                new Date(tap_timestamp),
+                tapTime,
                 beneficiary.name,
                 beneficiary.country
               );
@@ -201,7 +280,7 @@ export async function POST(request: NextRequest) {
               await sendCheckOutNotification(
                 caregiver_name.trim(),
                 familyMemberIds,
-                new Date(tap_timestamp),
+                tapTime,
                 beneficiary.name,
                 beneficiary.country
               );
@@ -220,6 +299,15 @@ export async function POST(request: NextRequest) {
       console.error('Failed to send notifications:', notificationError);
     }
 
+    // Alert the family when the visit brings the APA/PCH plan to 80% / 100%
+    if (action === 'check-out') {
+      try {
+        await notifyApaThresholds(beneficiary.id, tapTime);
+      } catch (apaError) {
+        console.error('[CheckIn] Error checking APA plan usage:', apaError);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       checkIn,
@@ -1,5 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { createClient } from '@supabase/supabase-js';
+import { checkBeneficiaryAccess, getSessionUser } from '@/lib/session';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
 
 // GET - Fetch notes for a beneficiary and date range
 export async function GET(request: NextRequest) {
@@ -16,7 +29,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    let query = supabase
+    const denied = checkBeneficiaryAccess(request, beneficiaryId);
+    if (denied) return denied;
+
+    let query = supabaseAdmin
       .from('day_notes')
       .select('*')
       .eq('beneficiary_id', beneficiaryId);
@@ -49,9 +65,9 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { beneficiary_id, date, note_type, reason, created_by } = body;
+    const { beneficiary_id, date, note_type, reason } = body;
 
-    console.log('Received note data:', { beneficiary_id, date, note_type, reason, created_by });
+    console.log('Received note data:', { beneficiary_id, date, note_type, reason });
 
     if (!beneficiary_id || !date || !reason) {
       console.error('Missing required fields:', { beneficiary_id, date, reason });
@@ -61,8 +77,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = checkBeneficiaryAccess(request, beneficiary_id);
+    if (denied) return denied;
+
     // Check if note exists for this date
-    const { data: existing } = await supabase
+    const { data: existing } = await supabaseAdmin
       .from('day_notes')
       .select('id')
       .eq('beneficiary_id', beneficiary_id)
@@ -73,7 +92,7 @@ export async function POST(request: NextRequest) {
     if (existing) {
       // Update existing note
       console.log('Updating existing note:', existing.id);
-      result = await supabase
+      result = await supabaseAdmin
         .from('day_notes')
         .update({
           note_type: note_type || 'general',
@@ -85,14 +104,14 @@ export async function POST(request: NextRequest) {
     } else {
       // Insert new note
       console.log('Inserting new note');
-      result = await supabase
+      result = await supabaseAdmin
         .from('day_notes')
         .insert({
           beneficiary_id,
           date,
           note_type: note_type || 'general',
           reason: reason.trim(),
-          created_by,
+          created_by: getSessionUser(request)?.family_member_id || null,
         })
         .select()
         .single();
@@ -127,19 +146,22 @@ export async function DELETE(request: NextRequest) {
     const beneficiaryId = searchParams.get('beneficiary_id');
     const date = searchParams.get('date');
 
-    if (!noteId && (!beneficiaryId || !date)) {
+    if (!beneficiaryId || (!noteId && !date)) {
       return NextResponse.json(
-        { error: 'Either id or (beneficiary_id and date) is required' },
+        { error: 'beneficiary_id and either id or date are required' },
         { status: 400 }
       );
     }
 
-    let query = supabase.from('day_notes').delete();
+    const denied = checkBeneficiaryAccess(request, beneficiaryId);
+    if (denied) return denied;
+
+    let query = supabaseAdmin.from('day_notes').delete().eq('beneficiary_id', beneficiaryId);
 
     if (noteId) {
       query = query.eq('id', noteId);
     } else {
-      query = query.eq('beneficiary_id', beneficiaryId!).eq('date', date!);
+      query = query.eq('date', date!);
     }
 
     const { error } = await query;
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { checkBeneficiaryAccess } from '@/lib/session';
 
 // Create admin client with service role key
 const supabaseAdmin = createClient(
@@ -25,6 +26,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = checkBeneficiaryAccess(request, beneficiary_id);
+    if (denied) return denied;
+
     // Check if email already exists for this beneficiary
     const { data: existing } = await supabaseAdmin
       .from('family_members')
@@ -109,7 +113,7 @@ export async function POST(request: NextRequest) {
       const { error: magicLinkError } = await supabaseAdmin.auth.signInWithOtp({
         email,
         options: {
-          emailRedirectTo: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/${beneficiary_id}`,
+          emailRedirectTo: `${process.env.NEXT_PUBLIC_APP_URL}/auth/callback`,
         }
       });
 
@@ -1,50 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
-import { randomBytes } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { verifyTap } from '@/lib/nfc-tags';
+import { issueChallengeToken } from '@/lib/challenge-token';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { qr_code, secret, method, timestamp } = body;
-
-    if (!qr_code || !secret || !timestamp) {
-      return NextResponse.json(
-        { success: false, message: 'Missing required parameters' },
-        { status: 400 }
-      );
-    }
+    const { qr_code, secret, tag_payload, method } = body;
+    // Signed payload from the URL, or the legacy static secret
+    const payload = tag_payload || (secret ? { secret } : null);
 
     const verificationMethod = method === 'qr' ? 'qr' : 'nfc';
 
-    // Verify timestamp is recent (within 30 seconds)
-    // Allow 5 second tolerance for client clock being ahead of server clock
-    const tapTime = new Date(timestamp).getTime();
-    const now = Date.now();
-    const secondsElapsed = (now - tapTime) / 1000;
-
-    console.log('[Challenge API] Timestamp validation:');
-    console.log('  Client timestamp:', timestamp);
-    console.log('  Server time:', new Date(now).toISOString());
-    console.log('  Tap time ms:', tapTime);
-    console.log('  Server time ms:', now);
-    console.log('  Seconds elapsed:', secondsElapsed);
-    console.log('  Is valid?', secondsElapsed <= 30 && secondsElapsed >= -5);
-
-    // Allow -5 to +30 seconds to account for clock drift between client and server
-    if (secondsElapsed > 30 || secondsElapsed < -5) {
-      console.log('[Challenge API] REJECTED - Invalid or expired timestamp');
+    // NFC taps carry a payload; a QR code without one is only accepted inside the geofence at submission
+    if (!qr_code || (verificationMethod === 'nfc' && !payload)) {
       return NextResponse.json(
-        { success: false, message: 'Invalid or expired timestamp' },
+        { success: false, message: 'Missing required parameters' },
         { status: 400 }
       );
     }
 
-    console.log('[Challenge API] ACCEPTED - Timestamp valid');
-
-    // Find beneficiary by QR code and validate secret
-    const { data: beneficiary, error } = await supabase
+    // Find beneficiary by QR code
+    const { data: beneficiary, error } = await supabaseAdmin
       .from('beneficiaries')
-      .select('id, name, nfc_secret')
+      .select('id, name')
       .eq('qr_code', qr_code)
       .single();
 
@@ -55,25 +46,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate secret matches (same secret used for both NFC and QR code)
-    if (beneficiary.nfc_secret !== secret) {
+    // Validate the signature, or the secret for legacy cards, and record the tap
+    const tap = payload ? await verifyTap(beneficiary, qr_code, payload) : null;
+    if (tap && !tap.valid) {
       return NextResponse.json(
-        { success: false, message: 'Invalid secret' },
+        { success: false, message: tap.message },
         { status: 403 }
       );
     }
 
-    // Generate challenge token (random UUID + timestamp)
-    const challengeToken = `${randomBytes(16).toString('hex')}-${Date.now()}`;
-    const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
+    // Signed token binding the tap to this beneficiary; the tap time is the server's
+    const { token: challengeToken, claims } = issueChallengeToken({
+      bid: beneficiary.id,
+      method: verificationMethod,
+      tap: tap?.valid ? tap.kind : null,
+      kid: tap?.valid ? tap.tag?.key_id ?? null : null,
+      ctr: tap?.valid ? tap.counter ?? null : null,
+    });
 
     return NextResponse.json({
       success: true,
       challengeToken,
-      expiresAt: expiresAt.toISOString(),
+      tappedAt: new Date(claims.iat * 1000).toISOString(),
+      expiresAt: new Date(claims.exp * 1000).toISOString(),
       beneficiaryId: beneficiary.id,
       beneficiaryName: beneficiary.name,
       method: verificationMethod,
+      payload: claims.tap,
     });
   } catch (error: any) {
     console.error('Challenge error:', error);
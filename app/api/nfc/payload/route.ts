@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { buildCheckInUrl, HMAC_PAYLOAD_TTL_SECONDS, signHmacPayload } from '@/lib/nfc-payload';
+import { checkBeneficiaryAccess } from '@/lib/session';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+/**
+ * Issue a signed check-in URL for the rotating QR code shown at the home
+ * The signing key never leaves the server; the dashboard asks for a new URL before the
+ * previous one expires.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { beneficiary_id } = await request.json();
+
+    if (!beneficiary_id) {
+      return NextResponse.json(
+        { error: 'Beneficiary ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const denied = checkBeneficiaryAccess(request, beneficiary_id);
+    if (denied) return denied;
+
+    const { data: beneficiary } = await supabaseAdmin
+      .from('beneficiaries')
+      .select('id, qr_code')
+      .eq('id', beneficiary_id)
+      .single();
+
+    if (!beneficiary) {
+      return NextResponse.json(
+        { error: 'Beneficiary not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: tag } = await supabaseAdmin
+      .from('nfc_tags')
+      .select('key_id, hmac_key')
+      .eq('beneficiary_id', beneficiary.id)
+      .eq('kind', 'hmac')
+      .is('revoked_at', null)
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (!tag?.hmac_key) {
+      return NextResponse.json(
+        { error: 'No signing key for this beneficiary' },
+        { status: 404 }
+      );
+    }
+
+    const issuedAt = new Date();
+    const payload = signHmacPayload(tag.hmac_key, beneficiary.qr_code, tag.key_id, issuedAt);
+
+    return NextResponse.json({
+      success: true,
+      url: buildCheckInUrl(process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin, beneficiary.qr_code, payload, 'qr'),
+      expiresAt: new Date(issuedAt.getTime() + HMAC_PAYLOAD_TTL_SECONDS * 1000).toISOString(),
+    });
+  } catch (error) {
+    console.error('Payload error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
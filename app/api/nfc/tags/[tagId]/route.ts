@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { generateTagKeys, getSdmProvisioning, PUBLIC_TAG_COLUMNS } from '@/lib/nfc-tags';
+import { checkBeneficiaryAccess } from '@/lib/session';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+type RouteContext = { params: Promise<{ tagId: string }> };
+
+/**
+ * Rename a tag
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { tagId } = await params;
+    const { beneficiary_id, label } = await request.json();
+
+    const denied = checkBeneficiaryAccess(request, beneficiary_id);
+    if (denied) return denied;
+
+    const { data: tag, error } = await supabaseAdmin
+      .from('nfc_tags')
+      .update({ label: label?.trim() || null })
+      .eq('id', tagId)
+      .eq('beneficiary_id', beneficiary_id)
+      .select(PUBLIC_TAG_COLUMNS)
+      .maybeSingle();
+
+    if (error || !tag) {
+      return NextResponse.json(
+        { error: 'Tag not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, tag });
+  } catch (error) {
+    console.error('Rename NFC tag error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Rotate a tag's keys
+ * URLs signed with the previous keys are refused at once. An NTAG 424 DNA tag must be
+ * personalised again with the returned keys and URL.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { tagId } = await params;
+    const { beneficiary_id } = await request.json();
+
+    const denied = checkBeneficiaryAccess(request, beneficiary_id);
+    if (denied) return denied;
+
+    const { data: current } = await supabaseAdmin
+      .from('nfc_tags')
+      .select('id, kind, revoked_at')
+      .eq('id', tagId)
+      .eq('beneficiary_id', beneficiary_id)
+      .maybeSingle();
+
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Tag not found' },
+        { status: 404 }
+      );
+    }
+
+    if (current.revoked_at) {
+      return NextResponse.json(
+        { error: 'A revoked tag cannot be rotated. Register a new tag instead.' },
+        { status: 409 }
+      );
+    }
+
+    const keys = generateTagKeys(current.kind);
+    const { data: tag, error } = await supabaseAdmin
+      .from('nfc_tags')
+      .update({ ...keys, uid: null, last_counter: null })
+      .eq('id', tagId)
+      .select(PUBLIC_TAG_COLUMNS)
+      .single();
+
+    if (error || !tag) {
+      console.error('Error rotating NFC tag:', error);
+      return NextResponse.json(
+        { error: 'Failed to rotate the tag' },
+        { status: 500 }
+      );
+    }
+
+    if (current.kind !== 'sdm') {
+      return NextResponse.json({ success: true, tag });
+    }
+
+    const { data: beneficiary } = await supabaseAdmin
+      .from('beneficiaries')
+      .select('qr_code')
+      .eq('id', beneficiary_id)
+      .single();
+
+    return NextResponse.json({
+      success: true,
+      tag,
+      ...(beneficiary && getSdmProvisioning(
+        process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin,
+        beneficiary.qr_code,
+        keys
+      )),
+    });
+  } catch (error) {
+    console.error('Rotate NFC tag error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Revoke a lost or replaced tag
+ * The tag is kept for its tap history; /api/nfc/challenge refuses it from now on.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { tagId } = await params;
+    const beneficiaryId = request.nextUrl.searchParams.get('beneficiary_id');
+
+    const denied = checkBeneficiaryAccess(request, beneficiaryId);
+    if (denied) return denied;
+
+    const { data: tag, error } = await supabaseAdmin
+      .from('nfc_tags')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', tagId)
+      .eq('beneficiary_id', beneficiaryId)
+      .is('revoked_at', null)
+      .select(PUBLIC_TAG_COLUMNS)
+      .maybeSingle();
+
+    if (error || !tag) {
+      return NextResponse.json(
+        { error: 'Tag not found or already revoked' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, tag });
+  } catch (error) {
+    console.error('Revoke NFC tag error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { checkBeneficiaryAccess } from '@/lib/session';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+/**
+ * Revoke the static secret written on cards from before signed payloads
+ * Cards still carrying it stop working; it cannot be restored.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const beneficiaryId = request.nextUrl.searchParams.get('beneficiary_id');
+
+    if (!beneficiaryId) {
+      return NextResponse.json(
+        { error: 'Beneficiary ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const denied = checkBeneficiaryAccess(request, beneficiaryId);
+    if (denied) return denied;
+
+    const { error } = await supabaseAdmin
+      .from('beneficiary_nfc_secrets')
+      .delete()
+      .eq('beneficiary_id', beneficiaryId);
+
+    if (error) {
+      console.error('Error revoking legacy NFC secret:', error);
+      return NextResponse.json(
+        { error: 'Failed to revoke the secret' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Revoke legacy NFC secret error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
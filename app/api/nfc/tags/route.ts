@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { generateTagKeys, getSdmProvisioning, PUBLIC_TAG_COLUMNS } from '@/lib/nfc-tags';
+import { checkBeneficiaryAccess } from '@/lib/session';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+/**
+ * List a beneficiary's tags (without keys) and whether the legacy static secret still works
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const beneficiaryId = request.nextUrl.searchParams.get('beneficiary_id');
+
+    if (!beneficiaryId) {
+      return NextResponse.json(
+        { error: 'Beneficiary ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const denied = checkBeneficiaryAccess(request, beneficiaryId);
+    if (denied) return denied;
+
+    const [{ data: tags, error }, { data: legacySecret }] = await Promise.all([
+      supabaseAdmin
+        .from('nfc_tags')
+        .select(PUBLIC_TAG_COLUMNS)
+        .eq('beneficiary_id', beneficiaryId)
+        .order('created_at', { ascending: true }),
+      supabaseAdmin
+        .from('beneficiary_nfc_secrets')
+        .select('beneficiary_id')
+        .eq('beneficiary_id', beneficiaryId)
+        .maybeSingle(),
+    ]);
+
+    if (error) {
+      console.error('Error loading NFC tags:', error);
+      return NextResponse.json(
+        { error: 'Failed to load NFC tags' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      tags: tags || [],
+      legacySecretActive: !!legacySecret,
+    });
+  } catch (error) {
+    console.error('List NFC tags error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Register a tag
+ * For an NTAG 424 DNA tag the keys and the URL to write are returned once, to
+ * personalise the tag.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { beneficiary_id, kind, label } = await request.json();
+
+    if (!beneficiary_id || (kind !== 'hmac' && kind !== 'sdm')) {
+      return NextResponse.json(
+        { error: 'Beneficiary ID and tag kind (hmac or sdm) are required' },
+        { status: 400 }
+      );
+    }
+
+    const denied = checkBeneficiaryAccess(request, beneficiary_id);
+    if (denied) return denied;
+
+    const { data: beneficiary } = await supabaseAdmin
+      .from('beneficiaries')
+      .select('id, qr_code')
+      .eq('id', beneficiary_id)
+      .single();
+
+    if (!beneficiary) {
+      return NextResponse.json(
+        { error: 'Beneficiary not found' },
+        { status: 404 }
+      );
+    }
+
+    const keys = generateTagKeys(kind);
+    const { data: tag, error } = await supabaseAdmin
+      .from('nfc_tags')
+      .insert({
+        beneficiary_id,
+        kind,
+        label: label?.trim() || null,
+        ...keys,
+      })
+      .select(PUBLIC_TAG_COLUMNS)
+      .single();
+
+    if (error || !tag) {
+      console.error('Error creating NFC tag:', error);
+      return NextResponse.json(
+        { error: 'Failed to register the tag' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      tag,
+      ...(kind === 'sdm' && getSdmProvisioning(
+        process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin,
+        beneficiary.qr_code,
+        keys
+      )),
+    });
+  } catch (error) {
+    console.error('Create NFC tag error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
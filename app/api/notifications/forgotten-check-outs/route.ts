@@ -0,0 +1,34 @@
+/**
+ * API Route: Detect Forgotten Check-outs
+ * GET or POST /api/notifications/forgotten-check-outs
+ * Meant to be called periodically by a cron job (Vercel Cron, crontab + curl, ...).
+ * Requests must send `Authorization: Bearer <CRON_SECRET>`; without CRON_SECRET every call is refused.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { runForgottenCheckOutAlerts } from '@/lib/forgotten-check-out-alerts';
+
+async function handle(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await runForgottenCheckOutAlerts();
+
+    console.log(`[Forgotten Check-outs] ${result.flagged.length} visit(s) flagged`);
+    return NextResponse.json({ success: true, flagged: result.flagged.length });
+  } catch (error) {
+    console.error('[Forgotten Check-outs] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to check open visits' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,52 @@
+/**
+ * API Route: Detect Missed / Late Check-ins
+ * GET or POST /api/notifications/schedule-alerts
+ * Meant to be called every few minutes by a cron job (Vercel Cron, crontab + curl, ...).
+ * Requests must send `Authorization: Bearer <CRON_SECRET>`; without CRON_SECRET every call is refused.
+ * Optional query parameters: lateTolerance, earlyTolerance (minutes, default 15).
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { runScheduleAlerts } from '@/lib/schedule-alerts';
+
+function parseTolerance(value: string | null): number | undefined {
+  if (value === null) return undefined;
+  const minutes = parseInt(value, 10);
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : undefined;
+}
+
+async function handle(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const result = await runScheduleAlerts(new Date(), {
+      lateToleranceMinutes: parseTolerance(searchParams.get('lateTolerance')),
+      earlyToleranceMinutes: parseTolerance(searchParams.get('earlyTolerance')),
+    });
+
+    console.log(`[Schedule Alerts] ${result.plannedVisits} planned visits scanned, ${result.alerts.length} new alert(s)`);
+    // Counts only: the alerts name caregivers and beneficiaries of every family
+    return NextResponse.json({
+      success: true,
+      beneficiaries: result.beneficiaries,
+      plannedVisits: result.plannedVisits,
+      upcomingVisits: result.upcomingVisits,
+      alerts: result.alerts.length,
+    });
+  } catch (error) {
+    console.error('[Schedule Alerts] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to check schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -4,6 +4,7 @@
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { getSessionUser } from '@/lib/session';
 
 // Create admin client with service role key
 const supabase = createClient(
@@ -20,23 +21,28 @@ const supabase = createClient(
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { subscription, familyMemberId } = body;
+    const { subscription } = body;
 
-    if (!subscription || !familyMemberId) {
+    if (!subscription) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
 
-    // Verify the family member exists
-    const { data: familyMember, error: familyError } = await supabase
-      .from('family_members')
-      .select('id')
-      .eq('id', familyMemberId)
-      .single();
+    // The family member is the signed-in one, never an id from the request
+    const user = getSessionUser(request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+
+    const familyMemberId = user.family_member_id;
 
-    if (familyError || !familyMember) {
+    if (!familyMemberId) {
       return NextResponse.json(
         { error: 'Family member not found' },
         { status: 404 }
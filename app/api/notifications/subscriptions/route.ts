@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { checkBeneficiaryAccess } from '@/lib/session';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+/**
+ * Family members of a beneficiary with an active push subscription
+ * Members can only read their own subscriptions (RLS); the family page only needs to
+ * know who receives notifications, so the ids are returned without the endpoints or keys.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const beneficiaryId = request.nextUrl.searchParams.get('beneficiary_id');
+
+    if (!beneficiaryId) {
+      return NextResponse.json(
+        { error: 'Beneficiary ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const denied = checkBeneficiaryAccess(request, beneficiaryId);
+    if (denied) return denied;
+
+    const { data: subscriptions, error } = await supabaseAdmin
+      .from('push_subscriptions')
+      .select('family_member_id, family_members!inner(beneficiary_id)')
+      .eq('family_members.beneficiary_id', beneficiaryId)
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('Error loading push subscriptions:', error);
+      return NextResponse.json(
+        { error: 'Failed to load push subscriptions' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      familyMemberIds: [...new Set((subscriptions || []).map(subscription => subscription.family_member_id))],
+    });
+  } catch (error) {
+    console.error('List push subscriptions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { checkBeneficiaryAccess, getSessionUser } from '@/lib/session';
+import {
+  AdjustableCheckIn,
+  buildManualVisitRows,
+  getRecordedEnd,
+  CheckInOutUpdate,
+  PlannedAdjustment,
+  planVisitClose,
+  planVisitEdit,
+  planVisitVoid,
+  validateVisitChanges,
+  VisitChanges,
+} from '@/lib/visit-adjustments';
+import { VISIT_SELECT, visitToPair, VisitWithRows } from '@/lib/visits';
+
+// Create admin client with service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Visit of a check-in, as stored in the database
+async function findVisit(beneficiaryId: string, checkInId: string) {
+  const { data } = await supabaseAdmin
+    .from('visits')
+    .select(VISIT_SELECT)
+    .eq('beneficiary_id', beneficiaryId)
+    .eq('check_in_id', checkInId)
+    .maybeSingle();
+  return data ? visitToPair(data as unknown as VisitWithRows<AdjustableCheckIn>) : null;
+}
+
+// POST - Edit, add, void or close a forgotten visit; the changes are planned from the stored rows and
+// written with their audit entries in one transaction (see migration_apply_visit_adjustments.sql)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { beneficiary_id, adjustment_type, check_in_id, caregiver_name, start, end, reason } = body;
+
+    if (!beneficiary_id || !adjustment_type || !reason?.trim()) {
+      return NextResponse.json(
+        { error: 'beneficiary_id, adjustment_type and reason are required' },
+        { status: 400 }
+      );
+    }
+
+    const denied = checkBeneficiaryAccess(request, beneficiary_id);
+    if (denied) return denied;
+    const user = getSessionUser(request)!;
+
+    let updates: CheckInOutUpdate[] = [];
+    let adjustments: PlannedAdjustment[] = [];
+    let newRows: ReturnType<typeof buildManualVisitRows> = [];
+
+    if (adjustment_type === 'add' || adjustment_type === 'edit') {
+      const pair = adjustment_type === 'edit' && check_in_id ? await findVisit(beneficiary_id, check_in_id) : null;
+      if (adjustment_type === 'edit' && !pair) {
+        return NextResponse.json(
+          { error: 'Visit not found' },
+          { status: 404 }
+        );
+      }
+
+      const changes: VisitChanges = {
+        caregiverName: caregiver_name || '',
+        start: new Date(start),
+        end: end ? new Date(end) : undefined,
+        recordedEnd: pair ? getRecordedEnd(pair) : undefined,
+      };
+      const invalid = validateVisitChanges(changes, 'en');
+      if (invalid) {
+        return NextResponse.json(
+          { error: invalid },
+          { status: 400 }
+        );
+      }
+
+      if (pair) {
+        ({ updates, adjustments } = planVisitEdit(pair, changes));
+      } else {
+        newRows = buildManualVisitRows(beneficiary_id, changes, user.name);
+      }
+    } else if (adjustment_type === 'void') {
+      const pair = check_in_id ? await findVisit(beneficiary_id, check_in_id) : null;
+      if (!pair) {
+        return NextResponse.json(
+          { error: 'Visit not found' },
+          { status: 404 }
+        );
+      }
+      ({ updates, adjustments } = planVisitVoid(pair));
+    } else if (adjustment_type === 'close_visit') {
+      const pair = check_in_id ? await findVisit(beneficiary_id, check_in_id) : null;
+      if (!pair || pair.checkOut) {
+        return NextResponse.json(
+          { error: 'Open visit not found' },
+          { status: 404 }
+        );
+      }
+
+      const correctedEnd = new Date(end);
+      if (isNaN(correctedEnd.getTime()) || correctedEnd <= new Date(pair.checkIn.timestamp) || correctedEnd > new Date()) {
+        return NextResponse.json(
+          { error: 'The end time must be after the check-in and not in the future' },
+          { status: 400 }
+        );
+      }
+      ({ updates, adjustments } = planVisitClose(pair.checkIn, correctedEnd));
+    } else {
+      return NextResponse.json(
+        { error: 'Unknown adjustment_type' },
+        { status: 400 }
+      );
+    }
+
+    if (updates.length === 0 && newRows.length === 0) {
+      return NextResponse.json({ success: true, changed: false });
+    }
+
+    const { error } = await supabaseAdmin.rpc('apply_visit_adjustments', {
+      beneficiary_uuid: beneficiary_id,
+      updates,
+      new_rows: newRows,
+      adjustments,
+      adjustment_reason: reason.trim(),
+      author_id: user.id,
+      author_name: user.name,
+    });
+
+    if (error) {
+      console.error('Error applying visit adjustment:', error);
+      return NextResponse.json(
+        { error: 'Failed to save the visit' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, changed: true });
+  } catch (error) {
+    console.error('Visit adjustment error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
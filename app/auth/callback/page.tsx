@@ -48,60 +48,25 @@ export default function AuthCallbackPage() {
 
         console.log('[AuthCallback] Session found for:', session.user.email);
 
-        // Try to find the user in family_members or users table
-        const email = session.user.email!;
-
-        // Check family_members first
-        const { data: familyMember } = await supabase
-          .from('family_members')
-          .select('id, name, beneficiary_id')
-          .eq('email', email)
-          .single();
-
-        if (familyMember) {
-          console.log('[AuthCallback] Found family member, redirecting to dashboard');
-          const userData = {
-            id: familyMember.id,
-            email,
-            role: 'family' as const,
-            name: familyMember.name,
-            beneficiary_id: familyMember.beneficiary_id
-          };
-          localStorage.setItem('user', JSON.stringify(userData));
-          router.push(`/dashboard/${familyMember.beneficiary_id}`);
+        // Exchange the Supabase session for the session cookie
+        const response = await fetch('/api/auth/session', {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${session.access_token}` },
+        });
+
+        if (!response.ok) {
+          console.log('[AuthCallback] No user found for email:', session.user.email);
+          router.push('/login?error=user_not_found');
           return;
         }
 
-        // Check primary users
-        const { data: primaryUser } = await supabase
-          .from('users')
-          .select('id, email, role, name, beneficiary_id')
-          .eq('email', email)
-          .single();
+        const userData = await response.json();
 
-        if (primaryUser) {
-          console.log('[AuthCallback] Found primary user, redirecting to dashboard');
-          const userData = {
-            id: primaryUser.id,
-            email: primaryUser.email,
-            role: primaryUser.role as 'admin' | 'family',
-            name: primaryUser.name,
-            beneficiary_id: primaryUser.beneficiary_id
-          };
-          localStorage.setItem('user', JSON.stringify(userData));
-
-          if (primaryUser.role === 'admin') {
-            router.push('/admin');
-          } else {
-            router.push(`/dashboard/${primaryUser.beneficiary_id}`);
-          }
-          return;
+        if (userData.role === 'admin') {
+          router.push('/admin');
+        } else {
+          router.push(`/dashboard/${userData.beneficiary_id}`);
         }
-
-        // No user found
-        console.log('[AuthCallback] No user found for email:', email);
-        router.push('/login?error=user_not_found');
-
       } catch (error) {
         console.error('[AuthCallback] Unexpected error:', error);
         router.push('/login?error=unexpected');
@@ -2,11 +2,23 @@
 
 import { useState, useEffect, useRef, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabase';
 import { uploadPhoto } from '@/lib/storage';
 import { Camera, MapPin, LogIn, LogOut, Loader2, Plus, ChevronDown, AlertCircle } from 'lucide-react';
 import { useLanguage } from '@/contexts/LanguageContext';
 import LanguageToggle from '@/components/LanguageToggle';
+import { getActiveCaregivers, getForgottenCheckOutHours } from '@/lib/forgotten-check-outs';
+import type { BillableCheckIn } from '@/lib/billing';
+import type { TagPayload } from '@/lib/nfc-payload';
+
+// Proof of the tap carried by the URL (signed payload, SDM tag or legacy secret); null for a plain QR code
+function readTagPayload(params: { get: (name: string) => string | null }): TagPayload | null {
+  const payload: TagPayload = {};
+  (['secret', 'kid', 'ts', 'sig', 'picc_data', 'cmac'] as const).forEach(name => {
+    const value = params.get(name);
+    if (value) payload[name] = value;
+  });
+  return Object.keys(payload).length > 0 ? payload : null;
+}
 
 function CheckInContent() {
   const searchParams = useSearchParams();
@@ -15,7 +27,6 @@ function CheckInContent() {
 
   // NFC/QR parameters (extracted from URL, then cleared)
   const [beneficiaryQrCode, setBeneficiaryQrCode] = useState<string>('');
-  const [secret, setSecret] = useState<string>('');
   const [challengeToken, setChallengeToken] = useState<string>('');
   const [tapTimestamp, setTapTimestamp] = useState<string>('');
   const [validated, setValidated] = useState<boolean>(false);
@@ -27,7 +38,7 @@ function CheckInContent() {
   const [action, setAction] = useState<'check-in' | 'check-out'>('check-in');
   const [isTraining, setIsTraining] = useState(false);
   const [photo, setPhoto] = useState<string | null>(null);
-  const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [location, setLocation] = useState<{ lat: number; lng: number; accuracy?: number } | null>(null);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState('');
@@ -35,18 +46,21 @@ function CheckInContent() {
   const [cameraActive, setCameraActive] = useState(false);
   const [caregiverSuggestions, setCaregiverSuggestions] = useState<string[]>([]);
   const [activeCaregivers, setActiveCaregivers] = useState<string[]>([]);
+  const [forgottenCheckOuts, setForgottenCheckOuts] = useState<{ caregiverName: string; timestamp: string }[]>([]);
   const [showAddCaregiver, setShowAddCaregiver] = useState(false);
   const [newCaregiverName, setNewCaregiverName] = useState('');
   const [showPhotoSection, setShowPhotoSection] = useState(false);
   const [savingNewCaregiver, setSavingNewCaregiver] = useState(false);
   const [blocked, setBlocked] = useState(false);
   const [showLocationHelp, setShowLocationHelp] = useState(false);
+  const [contextNeedsLocation, setContextNeedsLocation] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const photoPreviewRef = useRef<HTMLDivElement>(null);
   const hasProcessedParams = useRef(false);
+  const submissionKey = useRef(''); // Idempotency key, kept until the server answers so retries are not recorded twice
 
   const TIME_WINDOW_MINUTES = 2;
 
@@ -57,10 +71,10 @@ function CheckInContent() {
     console.log('[CheckIn] Current URL:', typeof window !== 'undefined' ? window.location.href : 'SSR');
 
     const qrCode = searchParams.get('qr_code');
-    const secretParam = searchParams.get('secret');
+    const payloadParam = readTagPayload(searchParams);
     const method = searchParams.get('method');
 
-    console.log('[CheckIn] Raw params - QR Code:', qrCode, 'Secret:', secretParam ? 'EXISTS' : 'NONE', 'Method:', method);
+    console.log('[CheckIn] Raw params - QR Code:', qrCode, 'Payload:', payloadParam ? 'EXISTS' : 'NONE', 'Method:', method);
     console.log('[CheckIn] hasProcessedParams.current:', hasProcessedParams.current);
     console.log('[CheckIn] Current state - blocked:', blocked, 'validated:', validated, 'loading:', loading);
     console.log('[CheckIn] Current sessionStorage:');
@@ -70,7 +84,7 @@ function CheckInContent() {
     console.log('[CheckIn] Current tapTimestamp state:', tapTimestamp);
 
     // Reset processed flag if we have new URL parameters
-    if (qrCode && secretParam) {
+    if (qrCode && payloadParam) {
       console.log('[CheckIn] ⚡ NEW NFC TAP DETECTED - Resetting everything');
       hasProcessedParams.current = false;
       // Reset all state for new NFC tap
@@ -84,6 +98,7 @@ function CheckInContent() {
       sessionStorage.removeItem('card_tap_time');
       sessionStorage.removeItem('nfc_qr_code');
       sessionStorage.removeItem('verification_method');
+      sessionStorage.removeItem('challenge_token');
       console.log('[CheckIn] Old sessionStorage cleared');
     }
 
@@ -96,20 +111,19 @@ function CheckInContent() {
       hasProcessedParams.current = true;
       console.log('[CheckIn] Processing URL parameters...');
 
-      console.log('[CheckIn] QR Code:', qrCode, 'Secret:', secretParam ? 'exists' : 'none', 'Method:', method);
+      console.log('[CheckIn] QR Code:', qrCode, 'Payload:', payloadParam ? 'exists' : 'none', 'Method:', method);
 
-      if (qrCode && secretParam) {
+      if (qrCode && payloadParam) {
         console.log('[CheckIn] 🔐 NFC/Secret flow detected');
-        // NFC tap detected (has secret token)
+        // NFC tap or signed QR code detected (has a payload to verify)
         const detectedMethod = (method === 'qr' || method === 'nfc') ? method : 'nfc';
         const newTimestamp = new Date().toISOString();
 
         console.log('[CheckIn] Generated new timestamp:', newTimestamp);
         console.log('[CheckIn] Detected method:', detectedMethod);
-        console.log('[CheckIn] Setting state: beneficiaryQrCode, secret, verificationMethod, tapTimestamp');
+        console.log('[CheckIn] Setting state: beneficiaryQrCode, verificationMethod, tapTimestamp');
 
         setBeneficiaryQrCode(qrCode);
-        setSecret(secretParam);
         setVerificationMethod(detectedMethod);
         setTapTimestamp(newTimestamp);
 
@@ -127,8 +141,8 @@ function CheckInContent() {
 
         // Request challenge token from server
         console.log('[CheckIn] Requesting challenge token from server');
-        requestChallengeToken(qrCode, secretParam, detectedMethod);
-      } else if (qrCode && !secretParam) {
+        requestChallengeToken(qrCode, payloadParam, detectedMethod);
+      } else if (qrCode && !payloadParam) {
         // QR code scan detected (no secret) - geolocation is MANDATORY
         // Reset blocked state for new QR scan
         setBlocked(false);
@@ -137,10 +151,10 @@ function CheckInContent() {
         sessionStorage.removeItem('card_tap_time');
         sessionStorage.removeItem('nfc_qr_code');
         sessionStorage.removeItem('verification_method');
+        sessionStorage.removeItem('challenge_token');
 
         setBeneficiaryQrCode(qrCode);
         setVerificationMethod('qr');
-        setValidated(true); // Allow form to load, but geolocation required
         setTapTimestamp(new Date().toISOString());
 
         // Store in sessionStorage
@@ -150,19 +164,23 @@ function CheckInContent() {
 
         // Clean URL
         window.history.replaceState({}, '', '/checkin');
+
+        // Request challenge token from server (geolocation is still required at submission)
+        requestChallengeToken(qrCode, null, 'qr');
       } else {
         // No parameters - check if there's a recent tap in session
         console.log('[CheckIn] 📋 No URL parameters - checking sessionStorage');
         const recentTap = sessionStorage.getItem('card_tap_time');
         const storedQrCode = sessionStorage.getItem('nfc_qr_code');
         const storedMethod = sessionStorage.getItem('verification_method') as 'nfc' | 'qr';
+        const storedToken = sessionStorage.getItem('challenge_token');
 
         console.log('[CheckIn] sessionStorage values:');
         console.log('  - recentTap:', recentTap);
         console.log('  - storedQrCode:', storedQrCode);
         console.log('  - storedMethod:', storedMethod);
 
-        if (!recentTap || !storedQrCode) {
+        if (!recentTap || !storedQrCode || !storedToken) {
           // No valid tap, block the form
           console.log('[CheckIn] ❌ No valid tap in session - blocking form');
           setBlocked(true);
@@ -191,6 +209,7 @@ function CheckInContent() {
           sessionStorage.removeItem('card_tap_time');
           sessionStorage.removeItem('nfc_qr_code');
           sessionStorage.removeItem('verification_method');
+          sessionStorage.removeItem('challenge_token');
           setLoading(false);
           return;
         }
@@ -200,6 +219,9 @@ function CheckInContent() {
         setBeneficiaryQrCode(storedQrCode);
         setVerificationMethod(storedMethod || 'nfc');
         setTapTimestamp(recentTap); // Restore the tap timestamp from session
+        // The challenge token survives a reload, so the tap does not need to be repeated
+        setChallengeToken(storedToken);
+        setValidated(true);
         console.log('[CheckIn] State restored from session');
       }
     };
@@ -207,21 +229,17 @@ function CheckInContent() {
     processParams();
   }, [searchParams]);
 
-  const requestChallengeToken = async (qrCode: string, secret: string, method: 'nfc' | 'qr') => {
+  const requestChallengeToken = async (qrCode: string, payload: TagPayload | null, method: 'nfc' | 'qr') => {
     console.log('[Challenge] 🔑 Requesting challenge token');
     console.log('[Challenge] qrCode:', qrCode, 'method:', method);
     try {
-      const requestTimestamp = new Date().toISOString();
-      console.log('[Challenge] Request timestamp:', requestTimestamp);
-
       const response = await fetch('/api/nfc/challenge', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           qr_code: qrCode,
-          secret: secret,
+          tag_payload: payload,
           method: method,
-          timestamp: requestTimestamp,
         }),
       });
 
@@ -232,11 +250,13 @@ function CheckInContent() {
       if (data.success) {
         console.log('[Challenge] ✅ Challenge token received, setting validated=true');
         setChallengeToken(data.challengeToken);
+        sessionStorage.setItem('challenge_token', data.challengeToken);
         setValidated(true);
       } else {
         console.log('[Challenge] ❌ Challenge failed:', data.message);
         setError(data.message || (language === 'fr' ? 'Échec de la validation' : 'Validation failed'));
         setBlocked(true);
+        setLoading(false);
       }
     } catch (err) {
       console.error('[Challenge] ⚠️ Error requesting challenge token:', err);
@@ -244,6 +264,7 @@ function CheckInContent() {
         ? 'Impossible de valider la carte/code QR'
         : 'Failed to validate card/QR code');
       setBlocked(true);
+      setLoading(false);
     }
   };
 
@@ -251,7 +272,7 @@ function CheckInContent() {
     let isMounted = true;
 
     const loadData = async () => {
-      if (beneficiaryQrCode && !blocked && isMounted) {
+      if (beneficiaryQrCode && challengeToken && !blocked && isMounted) {
         await loadElderlyData();
         // Don't auto-request location for NFC (optional)
         // Location is only mandatory for QR code method
@@ -263,7 +284,7 @@ function CheckInContent() {
     return () => {
       isMounted = false;
     };
-  }, [beneficiaryQrCode, blocked]);
+  }, [beneficiaryQrCode, challengeToken, blocked]);
 
   // Show location modal for QR method if location not available
   useEffect(() => {
@@ -314,24 +335,7 @@ function CheckInContent() {
     };
   }, [tapTimestamp, validated, loading, t]);
 
-  // Load caregiver names after elderly data is loaded
-  useEffect(() => {
-    let isMounted = true;
-
-    const loadNames = async () => {
-      if (elderly?.id && isMounted) {
-        await loadCaregiverNames();
-      }
-    };
-
-    loadNames();
-
-    return () => {
-      isMounted = false;
-    };
-  }, [elderly?.id]);
-
-  const loadElderlyData = async (retryCount = 0) => {
+  const loadElderlyData = async (retryCount = 0, position = location) => {
     console.log('[CheckIn] Loading elderly data for QR:', beneficiaryQrCode, 'Retry:', retryCount);
 
     try {
@@ -339,27 +343,44 @@ function CheckInContent() {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
 
+      // Caregivers are not signed in: the form data comes from the server, for this tap only
       console.log('[CheckIn] Fetching beneficiary data...');
-      const { data, error } = await supabase
-        .from('beneficiaries')
-        .select('*')
-        .eq('qr_code', beneficiaryQrCode)
-        .abortSignal(controller.signal)
-        .single();
+      const response = await fetch('/api/checkin/context', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          qr_code: beneficiaryQrCode,
+          challenge_token: challengeToken,
+          latitude: position?.lat || null,
+          longitude: position?.lng || null,
+          accuracy: position?.accuracy ?? null,
+        }),
+        signal: controller.signal,
+      });
+      const data = await response.json();
 
       clearTimeout(timeoutId);
 
-      if (error) {
-        console.error('[CheckIn] Supabase error:', error);
-        throw error;
+      // Position outside the home's zone: the server's message says what to do
+      if (response.status === 403 && position) {
+        setError(data.error);
+        setBlocked(true);
+        return;
+      }
+
+      if (!response.ok) {
+        console.error('[CheckIn] Context error:', data.error);
+        throw new Error(data.error);
       }
 
-      console.log('[CheckIn] Elderly data loaded:', data.name);
-      setElderly(data);
+      console.log('[CheckIn] Elderly data loaded:', data.beneficiary.name);
+      setElderly(data.beneficiary);
+      setCaregiverSuggestions(data.caregivers);
+      setContextNeedsLocation(!!data.locationRequired);
 
       // Check for active caregivers
       console.log('[CheckIn] Checking active caregivers...');
-      await checkActiveCaregivers(data.id);
+      checkActiveCaregivers(data.checkIns, data.beneficiary);
       console.log('[CheckIn] Active caregivers check complete');
     } catch (err: any) {
       console.error('[CheckIn] Error loading elderly data:', err);
@@ -368,7 +389,7 @@ function CheckInContent() {
       if (retryCount === 0 && (err.name === 'AbortError' || err.message?.includes('network'))) {
         console.log('[CheckIn] Retrying query...');
         await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second
-        return loadElderlyData(1); // Retry
+        return loadElderlyData(1, position); // Retry
       }
 
       if (err.name === 'AbortError') {
@@ -385,39 +406,18 @@ function CheckInContent() {
     }
   };
 
-  const checkActiveCaregivers = async (beneficiaryId: string) => {
+  const checkActiveCaregivers = (checkIns: BillableCheckIn[], beneficiary?: { forgotten_check_out_hours?: number | null }) => {
     try {
-      // Get all check-ins/outs (not just today) to determine who's currently active
-      const { data: checkIns, error } = await supabase
-        .from('check_in_outs')
-        .select('*')
-        .eq('beneficiary_id', beneficiaryId)
-        .order('timestamp', { ascending: true });
-
-      if (error) throw error;
-
-      // Determine who is currently checked in (looking at ALL history, not just today)
-      const activeMap = new Map<string, boolean>();
-
-      checkIns?.forEach(ci => {
-        const name = ci.caregiver_name;
-        const action = ci.action;
-
-        if (action === 'check-in') {
-          activeMap.set(name, true);
-        } else if (action === 'check-out') {
-          activeMap.set(name, false);
-        }
-      });
-
-      // Get list of currently active caregivers
-      const active = Array.from(activeMap.entries())
-        .filter(([_, isActive]) => isActive)
-        .map(([name, _]) => name);
+      const { active, forgotten } = getActiveCaregivers(checkIns || [], getForgottenCheckOutHours(beneficiary));
 
       console.log('[CheckIn] Currently active caregivers:', active);
+      console.log('[CheckIn] Forgotten check-outs:', forgotten.length);
 
       setActiveCaregivers(active);
+      setForgottenCheckOuts(forgotten.map(visit => ({
+        caregiverName: visit.pair.checkIn.caregiver_name,
+        timestamp: visit.pair.checkIn.timestamp,
+      })));
 
       // Smart default logic
       if (active.length > 0) {
@@ -434,31 +434,6 @@ function CheckInContent() {
     }
   };
 
-  const loadCaregiverNames = async () => {
-    if (!elderly?.id) {
-      console.log('[CheckIn] Skipping caregiver load - no elderly ID');
-      return;
-    }
-
-    console.log('[CheckIn] Loading caregiver names for beneficiary:', elderly.id);
-    try {
-      const { data, error} = await supabase
-        .from('caregivers')
-        .select('name')
-        .eq('beneficiary_id', elderly.id)
-        .eq('is_active', true)
-        .order('name');
-
-      if (error) throw error;
-
-      const names = data.map(c => c.name);
-      console.log('[CheckIn] Loaded caregiver names:', names);
-      setCaregiverSuggestions(names);
-    } catch (err) {
-      console.error('[CheckIn] Error loading caregiver names:', err);
-    }
-  };
-
   const handleDropdownChange = (value: string) => {
     if (value === '__add_new__') {
       setShowAddCaregiver(true);
@@ -495,37 +470,29 @@ function CheckInContent() {
         ? nameParts[0].charAt(0).toUpperCase() + nameParts[0].slice(1).toLowerCase() + ' ' + nameParts[1].toUpperCase()
         : newCaregiverName.trim().charAt(0).toUpperCase() + newCaregiverName.trim().slice(1).toLowerCase();
 
-      const { data: existing } = await supabase
-        .from('caregivers')
-        .select('id, name')
-        .eq('beneficiary_id', elderly.id)
-        .ilike('name', normalizedName)
-        .single();
-
-      if (existing) {
-        setCaregiverName(existing.name);
-        if (activeCaregivers.includes(existing.name)) {
-          setAction('check-out');
-        } else {
-          setAction('check-in');
-        }
-      } else {
-        const { error } = await supabase
-          .from('caregivers')
-          .insert({
-            beneficiary_id: elderly.id,
-            name: normalizedName
-          });
+      const response = await fetch('/api/checkin/caregivers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          qr_code: beneficiaryQrCode,
+          challenge_token: challengeToken,
+          name: normalizedName,
+          latitude: location?.lat || null,
+          longitude: location?.lng || null,
+          accuracy: location?.accuracy ?? null,
+        }),
+      });
+      const data = await response.json();
 
-        if (error) throw error;
+      if (!response.ok) throw new Error(data.error);
 
-        setCaregiverName(normalizedName);
-        setAction('check-in');
-      }
+      // An existing caregiver keeps their spelling
+      setCaregiverName(data.name);
+      setCaregiverSuggestions(data.caregivers);
+      setAction(activeCaregivers.includes(data.name) ? 'check-out' : 'check-in');
 
       setShowAddCaregiver(false);
       setNewCaregiverName('');
-      await loadCaregiverNames();
     } catch (err: any) {
       console.error('Error adding caregiver:', err);
       setError(err?.message || (language === 'fr'
@@ -540,12 +507,20 @@ function CheckInContent() {
     if ('geolocation' in navigator) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          setLocation({
+          const current = {
             lat: position.coords.latitude,
             lng: position.coords.longitude,
-          });
+            accuracy: position.coords.accuracy,
+          };
+          setLocation(current);
           setLocationError('');
           setShowLocationHelp(false);
+
+          // A QR code without payload gets the visits and caregivers once the position is known
+          if (contextNeedsLocation) {
+            setContextNeedsLocation(false);
+            loadElderlyData(0, current);
+          }
         },
         (error) => {
           console.error('Error getting location:', error);
@@ -662,8 +637,8 @@ function CheckInContent() {
       return;
     }
 
-    // For NFC method (has secret), challenge token is required
-    if (verificationMethod === 'nfc' && !challengeToken) {
+    // Challenge token issued by the server for the tap is required
+    if (!challengeToken) {
       setError(language === 'fr'
         ? 'Tap NFC invalide. Veuillez taper à nouveau la carte.'
         : 'Invalid NFC tap. Please tap the card again.');
@@ -702,27 +677,45 @@ function CheckInContent() {
 
       // Submit with validation
       console.log('Submitting check-in with verification method:', verificationMethod);
+      if (!submissionKey.current) {
+        submissionKey.current = crypto.randomUUID();
+      }
       const response = await fetch('/api/checkin/nfc', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           beneficiary_qr_code: beneficiaryQrCode,
-          secret: secret,
           challenge_token: challengeToken,
-          tap_timestamp: tapTimestamp,
-          verification_method: verificationMethod,
           caregiver_name: caregiverName.trim(),
           action,
           is_training: isTraining,
           photo_url: photoUrl,
           latitude: location?.lat || null,
           longitude: location?.lng || null,
+          accuracy: location?.accuracy ?? null,
+          idempotency_key: submissionKey.current,
         }),
       });
 
       const data = await response.json();
+      submissionKey.current = '';
 
       if (!response.ok) {
+        if (data.code === 'ALREADY_CHECKED_IN') {
+          throw new Error(language === 'fr'
+            ? 'Vous êtes déjà arrivé(e). Enregistrez votre départ d\'abord.'
+            : 'You are already checked in. Please check out first.');
+        }
+        if (data.code === 'NOT_CHECKED_IN') {
+          throw new Error(language === 'fr'
+            ? 'Aucune arrivée en cours à votre nom. Enregistrez votre arrivée d\'abord.'
+            : 'You are not checked in. Please check in first.');
+        }
+        if (data.code === 'VISIT_TOO_SHORT') {
+          throw new Error(language === 'fr'
+            ? 'Votre arrivée date de moins de quelques minutes. En cas d\'erreur, la famille peut corriger la visite.'
+            : 'You checked in only a few minutes ago. If this was a mistake, the family can correct the visit.');
+        }
         throw new Error(data.error || 'Submission failed');
       }
 
@@ -732,6 +725,7 @@ function CheckInContent() {
       sessionStorage.removeItem('card_tap_time');
       sessionStorage.removeItem('nfc_qr_code');
       sessionStorage.removeItem('verification_method');
+      sessionStorage.removeItem('challenge_token');
 
       setTimeout(() => {
         router.push('/');
@@ -878,7 +872,6 @@ function CheckInContent() {
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* Hidden fields */}
             <input type="hidden" value={beneficiaryQrCode} />
-            <input type="hidden" value={secret} />
             <input type="hidden" value={challengeToken} />
             <input type="hidden" value={tapTimestamp} />
             <input type="hidden" value={verificationMethod} />
@@ -962,6 +955,20 @@ function CheckInContent() {
               )}
             </div>
 
+            {/* Forgotten check-out of the selected caregiver */}
+            {forgottenCheckOuts
+              .filter(visit => visit.caregiverName === caregiverName)
+              .map(visit => (
+                <div key={visit.timestamp} className="flex items-start gap-3 p-3 bg-orange-50 border border-orange-200 rounded-lg">
+                  <AlertCircle className="text-orange-600 flex-shrink-0 mt-0.5" size={20} />
+                  <p className="text-sm text-orange-800">
+                    {language === 'fr'
+                      ? `Vous n'avez pas pointé votre départ après votre arrivée du ${new Date(visit.timestamp).toLocaleString('fr-FR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}. Indiquez à la famille votre heure de départ réelle : elle corrigera la fin de la visite.`
+                      : `You did not check out after your check-in on ${new Date(visit.timestamp).toLocaleString('en-GB', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}. Tell the family when you actually left: they will correct the end of the visit.`}
+                  </p>
+                </div>
+              ))}
+
             {/* Action Selection */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
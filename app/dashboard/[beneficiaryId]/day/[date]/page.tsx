@@ -3,11 +3,18 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
+import { supabase, MajorationRuleSet } from '@/lib/supabase';
 import { format, parse } from 'date-fns';
 import { ArrowLeft, Clock, User, Camera, MapPin, CheckCircle, XCircle, LogOut, Download } from 'lucide-react';
 import { decimalToHHMM } from '@/lib/time-utils';
 import { exportFinancialSummaryToCSV, exportDetailedCheckInsToCSV } from '@/lib/export';
+import { pairCheckInOuts } from '@/lib/billing';
+import { getHolidayCalendarForBeneficiary } from '@/lib/holiday-calendars';
+import { getTimezoneForCountry } from '@/lib/timezone-utils';
+import { getVatSettingsForBeneficiary } from '@/lib/rate-utils';
+import { getPhotoUrl } from '@/lib/storage';
+import { fetchVisitPairs } from '@/lib/visits';
+import VisitEditor from '@/components/VisitEditor';
 
 type CheckInOut = {
   id: string;
@@ -18,6 +25,9 @@ type CheckInOut = {
   photo_url?: string;
   latitude?: number;
   longitude?: number;
+  corrected_check_out_at?: string | null;
+  verification_method?: string | null;
+  voided_at?: string | null;
 };
 
 type Elderly = {
@@ -28,6 +38,10 @@ type Elderly = {
   regular_rate: number;
   holiday_rate: number;
   currency: string;
+  country?: string;
+  holiday_region?: string;
+  vat_rate?: number;
+  rates_include_vat?: boolean;
 };
 
 export default function DayDetailPage() {
@@ -40,10 +54,16 @@ export default function DayDetailPage() {
   const [elderly, setElderly] = useState<Elderly | null>(null);
   const [checkIns, setCheckIns] = useState<CheckInOut[]>([]);
   const [allCheckIns, setAllCheckIns] = useState<CheckInOut[]>([]);
+  const [majorationRuleSets, setMajorationRuleSets] = useState<MajorationRuleSet[]>([]);
   const [selectedMonth, setSelectedMonth] = useState(new Date());
   const [loading, setLoading] = useState(true);
   const [showPhoto, setShowPhoto] = useState<string | null>(null);
 
+  // Photos are private: open them through a signed URL
+  const openPhoto = async (photoUrl: string) => {
+    setShowPhoto(await getPhotoUrl(photoUrl));
+  };
+
   useEffect(() => {
     loadData();
   }, [beneficiaryId, dateStr]);
@@ -69,7 +89,7 @@ export default function DayDetailPage() {
         const endOfDay = new Date(date);
         endOfDay.setHours(23, 59, 59, 999);
 
-        // Load check-ins for this day
+        // Load check-ins for this day (voided ones too, for the correction history)
         const { data: checkInsData } = await supabase
           .from('check_in_outs')
           .select('*')
@@ -87,12 +107,22 @@ export default function DayDetailPage() {
         const { data: allCheckInsData } = await supabase
           .from('check_in_outs')
           .select('*')
+          .is('voided_at', null)
           .eq('beneficiary_id', beneficiaryId)
           .gte('timestamp', startOfMonth.toISOString())
           .lte('timestamp', endOfMonth.toISOString())
           .order('timestamp', { ascending: false });
 
         setAllCheckIns(allCheckInsData || []);
+
+        // Load contract majoration rule sets (for export)
+        const { data: ruleSetData } = await supabase
+          .from('beneficiary_majoration_rule_sets')
+          .select('*')
+          .eq('beneficiary_id', beneficiaryId)
+          .order('effective_date', { ascending: false });
+
+        setMajorationRuleSets(ruleSetData || []);
       }
     } catch (error) {
       console.error('Error loading data:', error);
@@ -101,32 +131,43 @@ export default function DayDetailPage() {
     }
   };
 
-  const exportFinancialSummary = () => {
+  const exportFinancialSummary = async () => {
     if (!elderly) return;
+    const month = parse(dateStr, 'yyyy-MM-dd', new Date());
+    const pairs = await fetchVisitPairs<CheckInOut>(
+      supabase,
+      beneficiaryId,
+      new Date(month.getFullYear(), month.getMonth(), 1),
+      new Date(month.getFullYear(), month.getMonth() + 1, 0, 23, 59, 59, 999)
+    );
     exportFinancialSummaryToCSV(
       allCheckIns,
       elderly.name,
       selectedMonth,
       elderly.regular_rate,
-      elderly.holiday_rate,
-      elderly.currency
+      elderly.currency,
+      undefined,
+      getTimezoneForCountry(elderly.country),
+      getHolidayCalendarForBeneficiary(elderly),
+      majorationRuleSets,
+      getVatSettingsForBeneficiary(elderly),
+      pairs
     );
   };
 
   const exportDetailedCheckIns = () => {
     if (!elderly) return;
-    exportDetailedCheckInsToCSV(allCheckIns, elderly.name, selectedMonth);
+    exportDetailedCheckInsToCSV(allCheckIns, elderly.name, selectedMonth, getTimezoneForCountry(elderly.country));
   };
 
   const calculateDailyHours = () => {
     let totalHours = 0;
-    for (let i = 0; i < checkIns.length - 1; i++) {
-      if (checkIns[i].action === 'check-in' && checkIns[i + 1].action === 'check-out') {
-        const start = new Date(checkIns[i].timestamp).getTime();
-        const end = new Date(checkIns[i + 1].timestamp).getTime();
-        totalHours += (end - start) / (1000 * 60 * 60);
-      }
-    }
+    pairCheckInOuts(checkIns).forEach(({ checkIn, checkOut }) => {
+      if (!checkOut) return;
+      const start = new Date(checkIn.timestamp).getTime();
+      const end = new Date(checkOut.timestamp).getTime();
+      totalHours += (end - start) / (1000 * 60 * 60);
+    });
     return totalHours;
   };
 
@@ -154,6 +195,7 @@ export default function DayDetailPage() {
 
   const date = parse(dateStr, 'yyyy-MM-dd', new Date());
   const totalHours = calculateDailyHours();
+  const activeCheckIns = checkIns.filter(ci => !ci.voided_at);
 
   return (
     <div className="min-h-screen bg-gray-50 py-8 px-4">
@@ -229,7 +271,7 @@ export default function DayDetailPage() {
               <div className="flex items-center gap-2">
                 <User className="text-blue-600" size={20} />
                 <span className="text-gray-700">
-                  Check-ins: <span className="font-semibold">{checkIns.length}</span>
+                  Check-ins: <span className="font-semibold">{activeCheckIns.length}</span>
                 </span>
               </div>
             </div>
@@ -249,7 +291,7 @@ export default function DayDetailPage() {
                 key={ci.id}
                 className={`bg-white rounded-lg shadow-lg p-6 border-l-4 ${
                   ci.action === 'check-in' ? 'border-green-500' : 'border-red-500'
-                }`}
+                } ${ci.voided_at ? 'opacity-50' : ''}`}
               >
                 <div className="flex items-start justify-between">
                   <div className="flex items-start gap-4 flex-1">
@@ -266,14 +308,29 @@ export default function DayDetailPage() {
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-3">
                         <User size={20} className="text-gray-600" />
-                        <span className="text-xl font-semibold text-gray-800">
+                        <span className={`text-xl font-semibold text-gray-800 ${ci.voided_at ? 'line-through' : ''}`}>
                           {ci.caregiver_name}
                         </span>
+                        {ci.verification_method === 'manual' && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-700">
+                            Manual entry
+                          </span>
+                        )}
+                        {ci.voided_at && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                            Voided
+                          </span>
+                        )}
                       </div>
 
                       <div className="flex items-center gap-2 text-gray-700 mb-2">
                         <Clock size={18} />
                         <span className="font-medium">{format(new Date(ci.timestamp), 'HH:mm:ss')}</span>
+                        {ci.corrected_check_out_at && (
+                          <span className="text-sm text-orange-700">
+                            (corrected check-out {format(new Date(ci.corrected_check_out_at), 'HH:mm')})
+                          </span>
+                        )}
                       </div>
 
                       {ci.latitude && ci.longitude && (
@@ -287,7 +344,7 @@ export default function DayDetailPage() {
 
                       {ci.photo_url && (
                         <button
-                          onClick={() => setShowPhoto(ci.photo_url!)}
+                          onClick={() => openPhoto(ci.photo_url!)}
                           className="flex items-center gap-2 text-blue-600 hover:text-blue-700 font-medium transition-colors"
                         >
                           <Camera size={18} />
@@ -309,6 +366,18 @@ export default function DayDetailPage() {
             ))}
           </div>
         )}
+
+        {/* Manual corrections */}
+        <div className="mt-6">
+          <VisitEditor
+            beneficiaryId={beneficiaryId}
+            date={dateStr}
+            checkIns={checkIns}
+            timezone={getTimezoneForCountry(elderly.country)}
+            caregiverNames={Array.from(new Set(allCheckIns.map(ci => ci.caregiver_name)))}
+            onChange={loadData}
+          />
+        </div>
       </div>
 
       {/* Photo Modal */}
@@ -4,13 +4,21 @@ import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { supabase, BeneficiaryRateHistory } from '@/lib/supabase';
-import { format, startOfMonth, endOfMonth } from 'date-fns';
+import { supabase, BeneficiaryFunder, BeneficiaryRateHistory, LocationSource, MajorationRuleSet, ScheduleException, ScheduleSlot, VerificationFlags } from '@/lib/supabase';
+import { format, startOfMonth, endOfMonth, subMonths, addDays } from 'date-fns';
 import { fr, enUS } from 'date-fns/locale';
-import { exportFinancialSummaryToCSV, exportDetailedCheckInsToCSV } from '@/lib/export';
-import { exportFinancialSummaryToPDF, exportDetailedCheckInsToPDF } from '@/lib/pdf-export';
+import { fromZonedTime } from 'date-fns-tz';
+import { exportFinancialSummaryToCSV, exportDetailedCheckInsToCSV, exportTaxCreditStatementToCSV, exportVisitsToCSV } from '@/lib/export';
+import { exportFinancialSummaryToPDF, exportDetailedCheckInsToPDF, exportTaxCreditStatementToPDF } from '@/lib/pdf-export';
+import { computeTaxCreditStatement } from '@/lib/tax-credit';
+import { comparePlannedVisits, getPlannedVisits } from '@/lib/schedule';
+import { pairCheckInOuts, VisitPair } from '@/lib/billing';
+import { fetchVisitPairs, mergeVisitPairs, VISIT_SELECT, visitsToPairs, VisitWithRows } from '@/lib/visits';
+import { getForgottenCheckOutHours } from '@/lib/forgotten-check-outs';
+import { DEFAULT_GEOFENCE_RADIUS_METERS, getGeofenceRadius, isOutOfZone } from '@/lib/geofence';
 import { decimalToHHMM } from '@/lib/time-utils';
-import { getRateForDate } from '@/lib/rate-utils';
+import { describeFunderRule, FUNDER_TYPE_LABELS } from '@/lib/funders';
+import { applyVat, formatVatRate, getRateForDate, getVatSettingsForBeneficiary, rateToHT } from '@/lib/rate-utils';
 import {
   Clock,
   User,
@@ -32,15 +40,30 @@ import {
   X,
   CircleAlert,
   Copy,
+  PieChart,
+  FileText,
+  MapPinOff,
+  LocateFixed,
+  Pencil,
 } from 'lucide-react';
 import QRCodeGenerator from '@/components/QRCodeGenerator';
 import CalendarView from '@/components/CalendarView';
 import CaregiverBreakdown from '@/components/CaregiverBreakdown';
+import OverlapReport from '@/components/OverlapReport';
+import ApaPlanTracker from '@/components/ApaPlanTracker';
+import InvoiceReconciliation from '@/components/InvoiceReconciliation';
+import ScheduleManager from '@/components/ScheduleManager';
+import ForgottenCheckOuts from '@/components/ForgottenCheckOuts';
+import VisitEditor from '@/components/VisitEditor';
+import RotatingCheckInCode from '@/components/RotatingCheckInCode';
+import NfcTagManager from '@/components/NfcTagManager';
 import LanguageToggle from '@/components/LanguageToggle';
 import NotificationPermissionButton from '@/components/NotificationPermissionButton';
 import DailyNoteModal from '@/components/DailyNoteModal';
 import { createColorMap, type CaregiverColor } from '@/lib/caregiver-colors';
 import { getTimezoneForCountry, formatTimeWithDateFns, formatInBeneficiaryTimezone, convertToTimezone } from '@/lib/timezone-utils';
+import { getHolidayCalendarForBeneficiary } from '@/lib/holiday-calendars';
+import { getPhotoUrl } from '@/lib/storage';
 
 type CheckInOut = {
   id: string;
@@ -52,21 +75,30 @@ type CheckInOut = {
   latitude?: number;
   longitude?: number;
   is_training?: boolean;
+  corrected_check_out_at?: string | null;
+  verification_flags?: VerificationFlags;
 };
 
 type Elderly = {
   id: string;
   name: string;
   qr_code: string;
-  nfc_secret: string;
   address: string;
   country?: string;
+  holiday_region?: string; // Sub-region holiday calendar (e.g. 'ALSACE_MOSELLE')
   currency?: string;
   regular_rate?: number;
   holiday_rate?: number;
   ticket_moderateur?: number;
   conventioned_rate?: number; // Tarif de référence conventionné (HT) for copay split
   apa_monthly_hours?: number; // Monthly hours allocation from APA/PCH plan
+  vat_rate?: number; // VAT rate in percent (default 5.5)
+  rates_include_vat?: boolean; // Rates entered TTC instead of HT
+  forgotten_check_out_hours?: number; // Hours after which an open visit is a forgotten check-out
+  latitude?: number | null; // Home position used for geofence verification
+  longitude?: number | null;
+  geofence_radius_meters?: number; // Check-in zone radius around the home
+  location_source?: LocationSource | null;
 };
 
 type FamilyMember = {
@@ -98,6 +130,24 @@ type DailyNote = {
   updated_at: string;
 };
 
+// Warning badge for a check-in/out recorded away from the home
+function OutOfZoneBadge({ checkIn, language }: { checkIn: CheckInOut; language: 'fr' | 'en' }) {
+  if (!isOutOfZone(checkIn)) return null;
+
+  const distance = checkIn.verification_flags?.distance_meters;
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700"
+      title={distance != null
+        ? (language === 'fr' ? `À ${distance} m du domicile` : `${distance} m from the home`)
+        : undefined}
+    >
+      <MapPinOff size={12} />
+      {language === 'fr' ? 'Hors zone' : 'Out of zone'}
+    </span>
+  );
+}
+
 // Component for showing running time for active check-ins
 function RunningTimer({ checkInTime }: { checkInTime: Date }) {
   const [elapsed, setElapsed] = useState('');
@@ -134,21 +184,40 @@ export default function DashboardPage() {
 
   const [elderly, setElderly] = useState<Elderly | null>(null);
   const [rateHistory, setRateHistory] = useState<BeneficiaryRateHistory[]>([]);
+  const [majorationRuleSets, setMajorationRuleSets] = useState<MajorationRuleSet[]>([]);
+  const [funders, setFunders] = useState<BeneficiaryFunder[]>([]);
   const [checkIns, setCheckIns] = useState<CheckInOut[]>([]);
+  const [visits, setVisits] = useState<VisitWithRows<CheckInOut>[] | null>(null); // null: visits table unavailable
   const [familyMembers, setFamilyMembers] = useState<FamilyMember[]>([]);
   const [currentStatus, setCurrentStatus] = useState<CurrentStatus | null>(null);
   const [selectedMonth, setSelectedMonth] = useState(new Date());
   const [loading, setLoading] = useState(true);
   const [monthLoading, setMonthLoading] = useState(false);
   const [dailyNotes, setDailyNotes] = useState<DailyNote[]>([]);
+  const [scheduleSlots, setScheduleSlots] = useState<ScheduleSlot[]>([]);
+  const [scheduleExceptions, setScheduleExceptions] = useState<ScheduleException[]>([]);
   const [noteModalOpen, setNoteModalOpen] = useState(false);
   const [selectedNoteDate, setSelectedNoteDate] = useState<Date | null>(null);
   const [showPhoto, setShowPhoto] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'calendar' | 'history' | 'financial' | 'info'>('calendar');
+
+  // Photos are private: open them through a signed URL
+  const openPhoto = async (photoUrl: string) => {
+    setShowPhoto(await getPhotoUrl(photoUrl));
+  };
+  const [activeTab, setActiveTab] = useState<'calendar' | 'history' | 'financial' | 'apa' | 'invoice' | 'info'>('calendar');
+  const [apaCheckIns, setApaCheckIns] = useState<CheckInOut[]>([]);
+  const [apaVisits, setApaVisits] = useState<VisitPair<CheckInOut>[] | undefined>(undefined);
+  const [apaLoading, setApaLoading] = useState(false);
+  const [taxStatementLoading, setTaxStatementLoading] = useState(false);
   const [selectedDayView, setSelectedDayView] = useState<{ date: Date; checkIns: CheckInOut[] } | null>(null);
   const [showAddMemberModal, setShowAddMemberModal] = useState(false);
   const [showQRCode, setShowQRCode] = useState(false);
   const [showNFCCode, setShowNFCCode] = useState(false);
+  const [geofenceRadius, setGeofenceRadius] = useState<string | null>(null); // null: not being edited
+  const [savingGeofence, setSavingGeofence] = useState(false);
+  const [editedAddress, setEditedAddress] = useState<string | null>(null); // null: not being edited
+  const [savingAddress, setSavingAddress] = useState(false);
+  const [locating, setLocating] = useState(false);
   const [newMemberName, setNewMemberName] = useState('');
   const [newMemberEmail, setNewMemberEmail] = useState('');
   const [newMemberPhone, setNewMemberPhone] = useState('');
@@ -158,6 +227,24 @@ export default function DashboardPage() {
   // Get beneficiary's timezone
   const timezone = elderly ? getTimezoneForCountry(elderly.country) : 'Europe/Paris';
 
+  // Get beneficiary's public holiday calendar (country and optional region)
+  const holidayCalendar = getHolidayCalendarForBeneficiary(elderly);
+
+  // Get beneficiary's VAT rate and whether rates are entered HT or TTC
+  const vatSettings = getVatSettingsForBeneficiary(elderly);
+
+  // Planned visits of the selected month, compared with the recorded ones
+  const plannedVisits = comparePlannedVisits(
+    getPlannedVisits(
+      scheduleSlots,
+      scheduleExceptions,
+      format(startOfMonth(selectedMonth), 'yyyy-MM-dd'),
+      format(endOfMonth(selectedMonth), 'yyyy-MM-dd'),
+      timezone
+    ),
+    checkIns
+  ).matches;
+
   useEffect(() => {
     if (loading) {
       // Initial load
@@ -188,6 +275,41 @@ export default function DashboardPage() {
     };
   }, [beneficiaryId, selectedMonth]);
 
+  // 12 months of check-ins for the APA plan history, one query per month to stay under the row limit
+  const elderlyId = elderly?.id;
+  useEffect(() => {
+    if (activeTab !== 'apa' || !elderlyId) return;
+
+    const loadApaCheckIns = async () => {
+      setApaLoading(true);
+      try {
+        const months = Array.from({ length: 12 }, (_, i) => subMonths(selectedMonth, i));
+        const [results, visitPeriods] = await Promise.all([
+          Promise.all(months.map(month =>
+            supabase
+              .from('check_in_outs')
+              .select('*')
+              .is('voided_at', null)
+              .eq('beneficiary_id', elderlyId)
+              .gte('timestamp', startOfMonth(month).toISOString())
+              .lte('timestamp', endOfMonth(month).toISOString())
+          )),
+          Promise.all(months.map(month =>
+            fetchVisitPairs<CheckInOut>(supabase, elderlyId, startOfMonth(month), endOfMonth(month))
+          )),
+        ]);
+        setApaCheckIns(results.flatMap(({ data }) => data || []));
+        setApaVisits(mergeVisitPairs(visitPeriods));
+      } catch (error) {
+        console.error('Error loading APA history:', error);
+      } finally {
+        setApaLoading(false);
+      }
+    };
+
+    loadApaCheckIns();
+  }, [activeTab, selectedMonth, elderlyId]);
+
   const loadFamilyMembers = async () => {
     try {
       const { data: familyData } = await supabase
@@ -196,23 +318,15 @@ export default function DashboardPage() {
         .eq('beneficiary_id', beneficiaryId)
         .order('role');
 
-      // Check subscription status for each family member
+      // Subscription status of each family member (other members' subscriptions are not readable here)
       if (familyData) {
-        const familyWithStatus = await Promise.all(
-          familyData.map(async (member) => {
-            const { data: subscriptions } = await supabase
-              .from('push_subscriptions')
-              .select('id')
-              .eq('family_member_id', member.id)
-              .eq('is_active', true)
-              .limit(1);
-
-            return {
-              ...member,
-              has_push_subscription: (subscriptions && subscriptions.length > 0)
-            };
-          })
-        );
+        const response = await fetch(`/api/notifications/subscriptions?beneficiary_id=${beneficiaryId}`);
+        const { familyMemberIds = [] } = response.ok ? await response.json() : {};
+
+        const familyWithStatus = familyData.map((member) => ({
+          ...member,
+          has_push_subscription: familyMemberIds.includes(member.id)
+        }));
         setFamilyMembers(familyWithStatus);
       } else {
         setFamilyMembers([]);
@@ -245,6 +359,56 @@ export default function DashboardPage() {
     }
   };
 
+  // Recurring slots (all periods) and the selected month's exceptions
+  // Visits started in the selected month, paired server-side
+  const loadVisits = async () => {
+    const { data, error } = await supabase
+      .from('visits')
+      .select(VISIT_SELECT)
+      .eq('beneficiary_id', beneficiaryId)
+      .gte('started_at', startOfMonth(selectedMonth).toISOString())
+      .lte('started_at', endOfMonth(selectedMonth).toISOString())
+      .order('started_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading visits:', error);
+      setVisits(null);
+      return;
+    }
+    setVisits((data || []) as unknown as VisitWithRows<CheckInOut>[]);
+  };
+
+  const loadSchedule = async () => {
+    try {
+      const startDate = format(startOfMonth(selectedMonth), 'yyyy-MM-dd');
+      const endDate = format(endOfMonth(selectedMonth), 'yyyy-MM-dd');
+
+      const [{ data: slotData, error: slotError }, { data: exceptionData, error: exceptionError }] = await Promise.all([
+        supabase
+          .from('schedule_slots')
+          .select('*')
+          .eq('beneficiary_id', beneficiaryId)
+          .order('effective_date', { ascending: true }),
+        supabase
+          .from('schedule_exceptions')
+          .select('*')
+          .eq('beneficiary_id', beneficiaryId)
+          .gte('date', startDate)
+          .lte('date', endDate)
+          .order('date', { ascending: true }),
+      ]);
+
+      if (slotError || exceptionError) {
+        console.error('Error loading schedule:', slotError || exceptionError);
+      } else {
+        setScheduleSlots(slotData || []);
+        setScheduleExceptions(exceptionData || []);
+      }
+    } catch (error) {
+      console.error('Error loading schedule:', error);
+    }
+  };
+
   const handleAddNote = (date: Date) => {
     setSelectedNoteDate(date);
     setNoteModalOpen(true);
@@ -264,7 +428,6 @@ export default function DashboardPage() {
           date: dateStr,
           reason: data.note,
           note_type: data.noteType,
-          created_by: user?.id,
         }),
       });
 
@@ -304,6 +467,129 @@ export default function DashboardPage() {
     }
   };
 
+  const handleSaveGeofenceRadius = async () => {
+    if (!elderly || geofenceRadius === null) return;
+
+    const radius = parseInt(geofenceRadius, 10);
+    if (isNaN(radius) || radius <= 0) {
+      alert(language === 'fr' ? 'Le rayon doit être un nombre de mètres positif' : 'The radius must be a positive number of meters');
+      return;
+    }
+
+    setSavingGeofence(true);
+    try {
+      const { error } = await supabase
+        .from('beneficiaries')
+        .update({ geofence_radius_meters: radius })
+        .eq('id', elderly.id);
+
+      if (error) throw error;
+
+      setElderly({ ...elderly, geofence_radius_meters: radius });
+      setGeofenceRadius(null);
+    } catch (error) {
+      console.error('Error saving geofence radius:', error);
+      alert(language === 'fr' ? 'Erreur lors de l\'enregistrement du rayon' : 'Error saving the radius');
+    } finally {
+      setSavingGeofence(false);
+    }
+  };
+
+  const handleSaveAddress = async () => {
+    if (!elderly || editedAddress === null || !editedAddress.trim()) return;
+
+    setSavingAddress(true);
+    try {
+      const response = await fetch('/api/beneficiaries/address', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ beneficiary_id: elderly.id, address: editedAddress }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update address');
+      }
+
+      setElderly({ ...elderly, ...data.beneficiary });
+      setEditedAddress(null);
+      if (!data.geocoded) {
+        alert(language === 'fr'
+          ? 'Adresse introuvable : utilisez « Ma position actuelle » depuis le domicile pour activer la zone de pointage.'
+          : 'Address not found: use "My current position" at the home to enable the check-in zone.');
+      }
+    } catch (error) {
+      console.error('Error saving address:', error);
+      alert(language === 'fr' ? 'Erreur lors de l\'enregistrement de l\'adresse' : 'Error saving the address');
+    } finally {
+      setSavingAddress(false);
+    }
+  };
+
+  // Fallback when the address cannot be geocoded: a family member at the home uses their phone's position
+  const handleSetLocationFromDevice = () => {
+    if (!elderly) return;
+    if (!navigator.geolocation) {
+      alert(language === 'fr' ? 'La géolocalisation n\'est pas disponible sur cet appareil' : 'Geolocation is not available on this device');
+      return;
+    }
+    if (!confirm(language === 'fr'
+      ? 'Enregistrer votre position actuelle comme domicile du bénéficiaire ? Faites-le sur place.'
+      : 'Save your current position as the beneficiary\'s home? Do this on site.')) {
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        const location = {
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          location_source: 'device' as const,
+        };
+        const { error } = await supabase
+          .from('beneficiaries')
+          .update(location)
+          .eq('id', elderly.id);
+
+        if (error) {
+          console.error('Error saving home position:', error);
+          alert(language === 'fr' ? 'Erreur lors de l\'enregistrement de la position' : 'Error saving the position');
+        } else {
+          setElderly({ ...elderly, ...location });
+        }
+        setLocating(false);
+      },
+      (error) => {
+        console.error('Geolocation error:', error);
+        alert(language === 'fr' ? 'Position indisponible' : 'Position unavailable');
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  };
+
+  // Reload the open day view after a manual correction, then the month around it
+  const reloadSelectedDay = async () => {
+    if (!elderly || !selectedDayView) return;
+
+    const dayStr = format(selectedDayView.date, 'yyyy-MM-dd');
+    const dayStart = fromZonedTime(`${dayStr}T00:00:00`, timezone);
+    const dayEnd = fromZonedTime(`${format(addDays(selectedDayView.date, 1), 'yyyy-MM-dd')}T00:00:00`, timezone);
+
+    const { data: dayCheckIns } = await supabase
+      .from('check_in_outs')
+      .select('*')
+      .is('voided_at', null)
+      .eq('beneficiary_id', elderly.id)
+      .gte('timestamp', dayStart.toISOString())
+      .lt('timestamp', dayEnd.toISOString())
+      .order('timestamp', { ascending: true });
+
+    setSelectedDayView({ date: selectedDayView.date, checkIns: dayCheckIns || [] });
+    await loadMonthData();
+  };
+
   const loadMonthData = async () => {
     if (!elderly) return;
 
@@ -316,6 +602,7 @@ export default function DashboardPage() {
       const { data: checkInsData } = await supabase
         .from('check_in_outs')
         .select('*')
+        .is('voided_at', null)
         .eq('beneficiary_id', elderly.id)
         .gte('timestamp', startDate.toISOString())
         .lte('timestamp', endDate.toISOString())
@@ -323,8 +610,8 @@ export default function DashboardPage() {
 
       setCheckIns(checkInsData || []);
 
-      // Load daily notes
-      await loadDailyNotes();
+      // Load daily notes, visits and planned visits
+      await Promise.all([loadDailyNotes(), loadVisits(), loadSchedule()]);
     } catch (error) {
       console.error('Error loading month data:', error);
     } finally {
@@ -363,6 +650,22 @@ export default function DashboardPage() {
         })) || 'No rate history');
         setRateHistory(rateHistoryData || []);
 
+        // Load contract majoration rule sets (versioned by effective date)
+        const { data: ruleSetData } = await supabase
+          .from('beneficiary_majoration_rule_sets')
+          .select('*')
+          .eq('beneficiary_id', elderlyData.id)
+          .order('effective_date', { ascending: false });
+        setMajorationRuleSets(ruleSetData || []);
+
+        // Load funders (APA, PCH, caisse de retraite, mutuelle...) in priority order
+        const { data: funderData } = await supabase
+          .from('beneficiary_funders')
+          .select('*')
+          .eq('beneficiary_id', elderlyData.id)
+          .order('priority', { ascending: true });
+        setFunders(funderData || []);
+
         // Load family members
         await loadFamilyMembers();
 
@@ -373,6 +676,7 @@ export default function DashboardPage() {
         const { data: checkInsData } = await supabase
           .from('check_in_outs')
           .select('*')
+          .is('voided_at', null)
           .eq('beneficiary_id', elderlyData.id)
           .gte('timestamp', startDate.toISOString())
           .lte('timestamp', endDate.toISOString())
@@ -380,8 +684,8 @@ export default function DashboardPage() {
 
         setCheckIns(checkInsData || []);
 
-        // Load daily notes
-        await loadDailyNotes();
+        // Load daily notes, visits and planned visits
+        await Promise.all([loadDailyNotes(), loadVisits(), loadSchedule()]);
 
         // Load caregiver colors
         const { data: caregiversData } = await supabase
@@ -415,16 +719,23 @@ export default function DashboardPage() {
       elderly.name,
       selectedMonth,
       elderly.regular_rate || 15,
-      elderly.holiday_rate || 22.5,
       elderly.currency || 'EUR',
       rateHistory,
-      timezone
+      timezone,
+      holidayCalendar,
+      majorationRuleSets,
+      vatSettings,
+      visitPairs
     );
   };
 
   const exportDetailedCheckIns = () => {
     if (!elderly) return;
-    exportDetailedCheckInsToCSV(checkIns, elderly.name, selectedMonth);
+    if (visits) {
+      exportVisitsToCSV(visits, elderly.name, selectedMonth, timezone);
+    } else {
+      exportDetailedCheckInsToCSV(checkIns, elderly.name, selectedMonth, timezone);
+    }
   };
 
   const exportFinancialSummaryPDF = () => {
@@ -442,10 +753,66 @@ export default function DashboardPage() {
       timezone,
       rateHistory,
       elderly.conventioned_rate,
-      elderly.apa_monthly_hours
+      elderly.apa_monthly_hours,
+      holidayCalendar,
+      majorationRuleSets,
+      vatSettings,
+      funders,
+      visitPairs
     );
   };
 
+  // Annual tax credit statement for the year of the selected month
+  const exportTaxCreditStatement = async (fileType: 'pdf' | 'csv') => {
+    if (!elderly) return;
+
+    setTaxStatementLoading(true);
+    try {
+      const year = selectedMonth.getFullYear();
+      const months = Array.from({ length: 12 }, (_, i) => new Date(year, i, 1));
+      // One query per month to stay under the row limit
+      const [results, visitPeriods] = await Promise.all([
+        Promise.all(months.map(month =>
+          supabase
+            .from('check_in_outs')
+            .select('*')
+            .is('voided_at', null)
+            .eq('beneficiary_id', elderly.id)
+            .gte('timestamp', startOfMonth(month).toISOString())
+            .lte('timestamp', endOfMonth(month).toISOString())
+        )),
+        Promise.all(months.map(month =>
+          fetchVisitPairs<CheckInOut>(supabase, elderly.id, startOfMonth(month), endOfMonth(month))
+        )),
+      ]);
+
+      const statement = computeTaxCreditStatement({
+        checkIns: results.flatMap(({ data }) => data || []),
+        pairs: mergeVisitPairs(visitPeriods),
+        year,
+        copayPercentage: elderly.ticket_moderateur || 0,
+        conventionedRate: elderly.conventioned_rate,
+        funders,
+        rateHistory,
+        fallbackRate: elderly.regular_rate || 15,
+        timezone,
+        holidays: holidayCalendar,
+        majorationRuleSets,
+        vat: vatSettings,
+      });
+
+      if (fileType === 'pdf') {
+        exportTaxCreditStatementToPDF(statement, elderly.name, elderly.address, elderly.currency || 'EUR', language);
+      } else {
+        exportTaxCreditStatementToCSV(statement, elderly.name, elderly.currency || 'EUR');
+      }
+    } catch (error) {
+      console.error('Error exporting tax credit statement:', error);
+    } finally {
+      setTaxStatementLoading(false);
+    }
+  };
+
   const exportDetailedCheckInsPDF = () => {
     if (!elderly) return;
     exportDetailedCheckInsToPDF(
@@ -459,79 +826,45 @@ export default function DashboardPage() {
       elderly.ticket_moderateur || 0,
       timezone,
       rateHistory,
-      elderly.conventioned_rate
+      elderly.conventioned_rate,
+      holidayCalendar,
+      majorationRuleSets,
+      vatSettings,
+      funders,
+      visitPairs
     );
   };
 
-  const calculateDayHours = (dayCheckIns: CheckInOut[], includeTraining: boolean = true) => {
-    let totalHours = 0;
-    const sorted = [...dayCheckIns].sort((a, b) =>
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-
-    const processed = new Set<string>();
-
-    sorted.forEach((ci) => {
-      if (processed.has(ci.id)) return;
-
-      if (ci.action === 'check-in') {
-        // Skip or include training based on parameter
-        if (!includeTraining && ci.is_training) return;
-        if (includeTraining && !includeTraining && ci.is_training) return;
-
-        // Find matching check-out (next check-out from same caregiver)
-        const checkOut = sorted.find(
-          (co) =>
-            !processed.has(co.id) &&
-            co.action === 'check-out' &&
-            co.caregiver_name === ci.caregiver_name &&
-            new Date(co.timestamp).getTime() > new Date(ci.timestamp).getTime()
-        );
+  const visitPairs: VisitPair<CheckInOut>[] | undefined = visits ? visitsToPairs(visits) : undefined;
+
+  // Visits for display: billing pairs, plus check-outs without a check-in listed on their own
+  const pairForDisplay = (dayCheckIns: CheckInOut[]) => {
+    const dayIds = new Set(dayCheckIns.map(ci => ci.id));
+    const pairs: VisitPair<CheckInOut>[] = visitPairs
+      ? visitPairs.filter(pair => dayIds.has(pair.checkIn.id))
+      : pairCheckInOuts(dayCheckIns);
+    const paired = new Set(pairs.map(pair => pair.checkOut?.id));
+    dayCheckIns
+      .filter(ci => ci.action === 'check-out' && !paired.has(ci.id))
+      .forEach(ci => pairs.push({ checkIn: ci }));
+    return pairs.sort((a, b) => new Date(a.checkIn.timestamp).getTime() - new Date(b.checkIn.timestamp).getTime());
+  };
 
-        if (checkOut) {
-          const start = new Date(ci.timestamp).getTime();
-          const end = new Date(checkOut.timestamp).getTime();
-          totalHours += (end - start) / (1000 * 60 * 60);
-          processed.add(ci.id);
-          processed.add(checkOut.id);
-        }
-      }
-    });
+  // Same pairing as billing: same caregiver, corrected ends of forgotten check-outs
+  const sumVisitHours = (dayCheckIns: CheckInOut[], include: (checkIn: CheckInOut) => boolean) => {
+    return pairCheckInOuts(dayCheckIns)
+      .filter(pair => pair.checkOut && include(pair.checkIn))
+      .reduce((total, pair) =>
+        total + (new Date(pair.checkOut!.timestamp).getTime() - new Date(pair.checkIn.timestamp).getTime()) / (1000 * 60 * 60),
+      0);
+  };
 
-    return totalHours;
+  const calculateDayHours = (dayCheckIns: CheckInOut[], includeTraining: boolean = true) => {
+    return sumVisitHours(dayCheckIns, ci => includeTraining || !ci.is_training);
   };
 
   const calculateTrainingHours = (dayCheckIns: CheckInOut[]) => {
-    let totalHours = 0;
-    const sorted = [...dayCheckIns].sort((a, b) =>
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-
-    const processed = new Set<string>();
-
-    sorted.forEach((ci) => {
-      if (processed.has(ci.id)) return;
-
-      if (ci.action === 'check-in' && ci.is_training) {
-        const checkOut = sorted.find(
-          (co) =>
-            !processed.has(co.id) &&
-            co.action === 'check-out' &&
-            co.caregiver_name === ci.caregiver_name &&
-            new Date(co.timestamp).getTime() > new Date(ci.timestamp).getTime()
-        );
-
-        if (checkOut) {
-          const start = new Date(ci.timestamp).getTime();
-          const end = new Date(checkOut.timestamp).getTime();
-          totalHours += (end - start) / (1000 * 60 * 60);
-          processed.add(ci.id);
-          processed.add(checkOut.id);
-        }
-      }
-    });
-
-    return totalHours;
+    return sumVisitHours(dayCheckIns, ci => !!ci.is_training);
   };
 
   const groupByDate = () => {
@@ -609,41 +942,23 @@ export default function DashboardPage() {
     }
   };
 
+  // Caregiver-aware: another caregiver's check-out never closes a visit
   const hasDiscrepancy = (dayCheckIns: CheckInOut[]) => {
-    const sorted = [...dayCheckIns].sort((a, b) =>
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
+    const pairs = pairCheckInOuts(dayCheckIns);
+    const paired = new Set(pairs.map(pair => pair.checkOut?.id));
 
-    // Check for missing check-out
-    if (sorted.length % 2 !== 0) return true;
-
-    // Check for unusual patterns
-    for (let i = 0; i < sorted.length - 1; i++) {
-      if (sorted[i].action === sorted[i + 1].action) return true;
-    }
-
-    return false;
+    // Missing check-out, or a check-out without its check-in
+    return pairs.some(pair => !pair.checkOut)
+      || dayCheckIns.some(ci => ci.action === 'check-out' && !paired.has(ci.id));
   };
 
   const isActiveCheckIn = (checkIn: CheckInOut, allCheckInsForDay: CheckInOut[]): boolean => {
     // Only check-ins can be active
     if (checkIn.action !== 'check-in') return false;
 
-    const sorted = [...allCheckInsForDay].sort((a, b) =>
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-
-    // Find this check-in in the sorted array
-    const index = sorted.findIndex(ci => ci.id === checkIn.id);
-    if (index === -1) return false;
-
-    // Check if the next action is a check-out
-    // If there's no next action or next action is another check-in, this is active
-    if (index === sorted.length - 1 || sorted[index + 1].action === 'check-in') {
-      return true;
-    }
-
-    return false;
+    // Active until the same caregiver checks out
+    const pair = pairCheckInOuts(allCheckInsForDay).find(p => p.checkIn.id === checkIn.id);
+    return !!pair && !pair.checkOut;
   };
 
   if (loading) {
@@ -820,6 +1135,14 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {/* Visits left open by a forgotten check-out */}
+        <ForgottenCheckOuts
+          beneficiaryId={elderly.id}
+          maxHours={getForgottenCheckOutHours(elderly)}
+          timezone={timezone}
+          onVisitClosed={loadMonthData}
+        />
+
         {/* Tabs */}
         <div className="bg-white rounded-lg shadow-lg mb-6 overflow-x-auto">
           <div className="flex border-b border-gray-200 min-w-max">
@@ -859,6 +1182,30 @@ export default function DashboardPage() {
               <span className="hidden sm:inline">{t('dashboard.financialReview')}</span>
               <span className="sm:hidden">{language === 'fr' ? 'Financier' : 'Financial'}</span>
             </button>
+            <button
+              onClick={() => setActiveTab('apa')}
+              className={`flex-1 px-3 sm:px-6 py-3 sm:py-4 text-center text-xs sm:text-base font-semibold transition-colors whitespace-nowrap ${
+                activeTab === 'apa'
+                  ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                  : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+              }`}
+            >
+              <PieChart className="inline-block mr-1 sm:mr-2" size={16} />
+              <span className="hidden sm:inline">{language === 'fr' ? 'Plan d\'aide APA' : 'APA Care Plan'}</span>
+              <span className="sm:hidden">APA</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('invoice')}
+              className={`flex-1 px-3 sm:px-6 py-3 sm:py-4 text-center text-xs sm:text-base font-semibold transition-colors whitespace-nowrap ${
+                activeTab === 'invoice'
+                  ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                  : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+              }`}
+            >
+              <FileText className="inline-block mr-1 sm:mr-2" size={16} />
+              <span className="hidden sm:inline">{language === 'fr' ? 'Facture agence' : 'Agency Invoice'}</span>
+              <span className="sm:hidden">{language === 'fr' ? 'Facture' : 'Invoice'}</span>
+            </button>
             <button
               onClick={() => setActiveTab('info')}
               className={`flex-1 px-3 sm:px-6 py-3 sm:py-4 text-center text-xs sm:text-base font-semibold transition-colors whitespace-nowrap ${
@@ -882,12 +1229,23 @@ export default function DashboardPage() {
               checkIns={checkIns}
               caregiverColors={caregiverColors}
               timezone={timezone}
+              holidayCalendar={holidayCalendar}
               dailyNotes={dailyNotes}
               onAddNote={handleAddNote}
+              plannedVisits={plannedVisits}
               onDayClick={(date, dayCheckIns) => {
                 setSelectedDayView({ date, checkIns: dayCheckIns });
               }}
             />
+
+            <ScheduleManager
+              beneficiaryId={elderly.id}
+              slots={scheduleSlots}
+              exceptions={scheduleExceptions}
+              selectedMonth={selectedMonth}
+              caregiverNames={Array.from(new Set([...caregiverColors.keys(), ...checkIns.map(ci => ci.caregiver_name)])).sort()}
+              onScheduleChange={loadSchedule}
+            />
           </div>
         )}
 
@@ -980,30 +1338,7 @@ export default function DashboardPage() {
                     new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
                   );
 
-                  // Group check-in/check-out pairs
-                  const pairs: { checkIn: CheckInOut; checkOut?: CheckInOut }[] = [];
-                  const processed = new Set<string>();
-
-                  sorted.forEach((ci) => {
-                    if (processed.has(ci.id)) return;
-
-                    if (ci.action === 'check-in') {
-                      const checkOut = sorted.find(
-                        (co) =>
-                          !processed.has(co.id) &&
-                          co.action === 'check-out' &&
-                          co.caregiver_name === ci.caregiver_name &&
-                          new Date(co.timestamp).getTime() > new Date(ci.timestamp).getTime()
-                      );
-
-                      pairs.push({ checkIn: ci, checkOut });
-                      processed.add(ci.id);
-                      if (checkOut) processed.add(checkOut.id);
-                    } else if (!processed.has(ci.id)) {
-                      pairs.push({ checkIn: ci });
-                      processed.add(ci.id);
-                    }
-                  });
+                  const pairs = pairForDisplay(sorted);
 
                   // Reverse to show most recent first
                   return pairs.reverse().map((pair, idx) => {
@@ -1020,11 +1355,12 @@ export default function DashboardPage() {
                               <div className="flex items-center gap-2 text-sm text-gray-600">
                                 <Clock size={14} />
                                 <span>{formatInBeneficiaryTimezone(pair.checkIn.timestamp, timezone, 'HH:mm:ss')}</span>
+                                <OutOfZoneBadge checkIn={pair.checkIn} language={language} />
                                 {pair.checkIn.photo_url && (
                                   <>
                                     <span className="text-gray-400">•</span>
                                     <button
-                                      onClick={() => setShowPhoto(pair.checkIn.photo_url!)}
+                                      onClick={() => openPhoto(pair.checkIn.photo_url!)}
                                       className="text-blue-600 hover:underline"
                                     >
                                       {language === 'fr' ? 'Voir photo' : 'View photo'}
@@ -1043,11 +1379,15 @@ export default function DashboardPage() {
                                 <div className="flex items-center gap-2 text-sm text-gray-600">
                                   <Clock size={14} />
                                   <span>{formatInBeneficiaryTimezone(pair.checkOut.timestamp, timezone, 'HH:mm:ss')}</span>
-                                  {pair.checkOut.photo_url && (
+                                  {!pair.corrected && <OutOfZoneBadge checkIn={pair.checkOut} language={language} />}
+                                  {pair.corrected && (
+                                    <span className="text-xs font-medium text-orange-600">{language === 'fr' ? '(heure corrigée)' : '(corrected time)'}</span>
+                                  )}
+                                  {!pair.corrected && pair.checkOut.photo_url && (
                                     <>
                                       <span className="text-gray-400">•</span>
                                       <button
-                                        onClick={() => setShowPhoto(pair.checkOut!.photo_url!)}
+                                        onClick={() => openPhoto(pair.checkOut!.photo_url!)}
                                         className="text-blue-600 hover:underline"
                                       >
                                         {language === 'fr' ? 'Voir photo' : 'View photo'}
@@ -1076,11 +1416,12 @@ export default function DashboardPage() {
                               <div className="flex items-center gap-2 text-gray-600 mt-1">
                                 <Clock size={16} />
                                 <span className="font-medium">{formatInBeneficiaryTimezone(pair.checkIn.timestamp, timezone, 'HH:mm:ss')}</span>
+                                <OutOfZoneBadge checkIn={pair.checkIn} language={language} />
                                 {pair.checkIn.photo_url && (
                                   <>
                                     <span className="text-gray-400">•</span>
                                     <button
-                                      onClick={() => setShowPhoto(pair.checkIn.photo_url!)}
+                                      onClick={() => openPhoto(pair.checkIn.photo_url!)}
                                       className="text-blue-600 hover:underline"
                                     >
                                       {language === 'fr' ? 'Voir photo' : 'View photo'}
@@ -1100,11 +1441,15 @@ export default function DashboardPage() {
                                 <div className="flex items-center gap-2 text-gray-600 mt-1">
                                   <Clock size={16} />
                                   <span className="font-medium">{formatInBeneficiaryTimezone(pair.checkOut.timestamp, timezone, 'HH:mm:ss')}</span>
-                                  {pair.checkOut.photo_url && (
+                                  {!pair.corrected && <OutOfZoneBadge checkIn={pair.checkOut} language={language} />}
+                                  {pair.corrected && (
+                                    <span className="text-xs font-medium text-orange-600">{language === 'fr' ? '(heure corrigée)' : '(corrected time)'}</span>
+                                  )}
+                                  {!pair.corrected && pair.checkOut.photo_url && (
                                     <>
                                       <span className="text-gray-400">•</span>
                                       <button
-                                        onClick={() => setShowPhoto(pair.checkOut!.photo_url!)}
+                                        onClick={() => openPhoto(pair.checkOut!.photo_url!)}
                                         className="text-blue-600 hover:underline"
                                       >
                                         {language === 'fr' ? 'Voir photo' : 'View photo'}
@@ -1126,6 +1471,18 @@ export default function DashboardPage() {
                 })()}
               </div>
             )}
+
+            {/* Manual corrections */}
+            <div className="mt-6">
+              <VisitEditor
+                beneficiaryId={elderly.id}
+                date={format(selectedDayView.date, 'yyyy-MM-dd')}
+                checkIns={selectedDayView.checkIns}
+                timezone={timezone}
+                caregiverNames={Array.from(new Set(checkIns.map(ci => ci.caregiver_name)))}
+                onChange={reloadSelectedDay}
+              />
+            </div>
           </div>
         )}
 
@@ -1133,7 +1490,25 @@ export default function DashboardPage() {
         {activeTab === 'financial' && (
           <div className="mb-6">
             {/* Export Button */}
-            <div className="mb-4 flex justify-end">
+            <div className="mb-4 flex flex-wrap justify-end gap-2">
+              <button
+                onClick={() => exportTaxCreditStatement('pdf')}
+                disabled={taxStatementLoading}
+                className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                <Download size={20} />
+                {language === 'fr'
+                  ? `Crédit d'impôt ${selectedMonth.getFullYear()} (PDF)`
+                  : `Tax Credit ${selectedMonth.getFullYear()} (PDF)`}
+              </button>
+              <button
+                onClick={() => exportTaxCreditStatement('csv')}
+                disabled={taxStatementLoading}
+                className="flex items-center gap-2 px-4 py-2 border border-green-600 text-green-700 rounded-lg hover:bg-green-50 transition-colors disabled:opacity-50"
+              >
+                <Download size={20} />
+                CSV
+              </button>
               <button
                 onClick={exportFinancialSummaryPDF}
                 className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -1145,6 +1520,7 @@ export default function DashboardPage() {
 
             <CaregiverBreakdown
               checkIns={checkIns}
+              visits={visitPairs}
               selectedMonth={selectedMonth}
               regularRate={elderly.regular_rate || 15}
               rateHistory={rateHistory}
@@ -1155,8 +1531,56 @@ export default function DashboardPage() {
               caregiverColors={caregiverColors}
               dailyNotes={dailyNotes}
               timezone={timezone}
+              holidayCalendar={holidayCalendar}
+              majorationRuleSets={majorationRuleSets}
+              vatSettings={vatSettings}
+              funders={funders}
               beneficiaryName={elderly.name}
             />
+
+            <OverlapReport
+              visits={visitPairs ?? pairCheckInOuts(checkIns)}
+              timezone={timezone}
+              majorationRuleSets={majorationRuleSets}
+            />
+          </div>
+        )}
+
+        {/* APA Plan Tab */}
+        {activeTab === 'apa' && (
+          <div className="mb-6">
+            <ApaPlanTracker
+              checkIns={apaCheckIns}
+              visits={apaVisits}
+              selectedMonth={selectedMonth}
+              regularRate={elderly.regular_rate || 15}
+              rateHistory={rateHistory}
+              apaMonthlyHours={elderly.apa_monthly_hours}
+              timezone={timezone}
+              holidayCalendar={holidayCalendar}
+              majorationRuleSets={majorationRuleSets}
+              vatSettings={vatSettings}
+              loading={apaLoading}
+            />
+          </div>
+        )}
+
+        {/* Agency Invoice Tab */}
+        {activeTab === 'invoice' && (
+          <div className="mb-6">
+            <InvoiceReconciliation
+              beneficiaryId={elderly.id}
+              checkIns={checkIns}
+              visits={visitPairs}
+              selectedMonth={selectedMonth}
+              regularRate={elderly.regular_rate || 15}
+              rateHistory={rateHistory}
+              currency={elderly.currency || 'EUR'}
+              timezone={timezone}
+              holidayCalendar={holidayCalendar}
+              majorationRuleSets={majorationRuleSets}
+              vatSettings={vatSettings}
+            />
           </div>
         )}
 
@@ -1214,24 +1638,15 @@ export default function DashboardPage() {
                     </button>
                   )}
 
-                  {/* Reveal NFC Button */}
+                  {/* Rotating signed code: the static NFC secret is no longer shown */}
                   {showNFCCode ? (
                     <div className="bg-gray-50 rounded-lg p-3 border border-gray-200">
                       <p className="text-xs text-gray-600 mb-2">
-                        {language === 'fr' ? 'Lien NFC' : 'NFC Link'}
+                        {language === 'fr'
+                          ? 'À afficher sur un écran au domicile (tablette) : les intervenant(e)s le scannent à leur arrivée.'
+                          : 'Show on a screen at the home (tablet): caregivers scan it when they arrive.'}
                       </p>
-                      <div className="flex items-center gap-2 bg-white p-2 rounded border border-gray-200">
-                        <code className="text-xs text-gray-900 break-all flex-1">
-                          {`${process.env.NEXT_PUBLIC_APP_URL || 'https://caregiver-tracker-iz.vercel.app'}/checkin?qr_code=${elderly.qr_code}&secret=${elderly.nfc_secret}&method=nfc`}
-                        </code>
-                        <button
-                          onClick={() => copyToClipboard(`${process.env.NEXT_PUBLIC_APP_URL || 'https://caregiver-tracker-iz.vercel.app'}/checkin?qr_code=${elderly.qr_code}&secret=${elderly.nfc_secret}&method=nfc`)}
-                          className="text-gray-600 hover:text-gray-800 flex-shrink-0"
-                          title={language === 'fr' ? 'Copier' : 'Copy'}
-                        >
-                          <Copy size={16} />
-                        </button>
-                      </div>
+                      <RotatingCheckInCode beneficiaryId={elderly.id} language={language} />
                       <button
                         onClick={() => setShowNFCCode(false)}
                         className="mt-2 text-xs text-blue-600 hover:underline"
@@ -1244,7 +1659,7 @@ export default function DashboardPage() {
                       onClick={() => setShowNFCCode(true)}
                       className="w-full px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
                     >
-                      {language === 'fr' ? 'Révéler NFC' : 'Reveal NFC'}
+                      {language === 'fr' ? 'Code QR tournant' : 'Rotating QR code'}
                     </button>
                   )}
                 </div>
@@ -1268,7 +1683,108 @@ export default function DashboardPage() {
                   <Home className="text-blue-600 mt-1 flex-shrink-0" size={20} />
                   <div className="flex-1 min-w-0 overflow-hidden">
                     <div className="text-sm text-gray-600">{language === 'fr' ? 'Adresse' : 'Address'}</div>
-                    <div className="font-semibold text-gray-900 break-words">{elderly.address}</div>
+                    {editedAddress !== null ? (
+                      <div className="space-y-2">
+                        <input
+                          type="text"
+                          value={editedAddress}
+                          onChange={(e) => setEditedAddress(e.target.value)}
+                          className="w-full px-2 py-1 border border-gray-300 rounded text-gray-900"
+                        />
+                        <div className="flex gap-2">
+                          <button
+                            onClick={handleSaveAddress}
+                            disabled={savingAddress || !editedAddress.trim()}
+                            className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                          >
+                            {savingAddress
+                              ? (language === 'fr' ? 'Enregistrement...' : 'Saving...')
+                              : (language === 'fr' ? 'Enregistrer' : 'Save')}
+                          </button>
+                          <button
+                            onClick={() => setEditedAddress(null)}
+                            className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                          >
+                            {language === 'fr' ? 'Annuler' : 'Cancel'}
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex items-start gap-2">
+                        <div className="font-semibold text-gray-900 break-words flex-1 min-w-0">{elderly.address}</div>
+                        <button
+                          onClick={() => setEditedAddress(elderly.address)}
+                          className="text-gray-500 hover:text-gray-700 flex-shrink-0"
+                          title={language === 'fr' ? 'Modifier l\'adresse' : 'Edit address'}
+                        >
+                          <Pencil size={16} />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-start gap-3 w-full">
+                  <MapPin className="text-blue-600 mt-1 flex-shrink-0" size={20} />
+                  <div className="flex-1 min-w-0 overflow-hidden">
+                    <div className="text-sm text-gray-600">{language === 'fr' ? 'Zone de pointage' : 'Check-in zone'}</div>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <input
+                        type="number"
+                        min={1}
+                        step={10}
+                        value={geofenceRadius ?? String(getGeofenceRadius(elderly))}
+                        onChange={(e) => setGeofenceRadius(e.target.value)}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded text-gray-900 font-semibold"
+                      />
+                      <span className="font-semibold text-gray-900">
+                        {language === 'fr' ? 'mètres autour du domicile' : 'meters around the home'}
+                      </span>
+                      {geofenceRadius !== null && (
+                        <>
+                          <button
+                            onClick={handleSaveGeofenceRadius}
+                            disabled={savingGeofence}
+                            className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                          >
+                            {savingGeofence
+                              ? (language === 'fr' ? 'Enregistrement...' : 'Saving...')
+                              : (language === 'fr' ? 'Enregistrer' : 'Save')}
+                          </button>
+                          <button
+                            onClick={() => setGeofenceRadius(null)}
+                            className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                          >
+                            {language === 'fr' ? 'Annuler' : 'Cancel'}
+                          </button>
+                        </>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {elderly.latitude != null && elderly.longitude != null && elderly.location_source && (
+                        <>
+                          {elderly.location_source === 'device'
+                            ? (language === 'fr' ? 'Domicile positionné depuis un téléphone. ' : 'Home set from a phone. ')
+                            : (language === 'fr' ? 'Domicile positionné depuis l\'adresse. ' : 'Home set from the address. ')}
+                        </>
+                      )}
+                      {elderly.latitude == null || elderly.longitude == null
+                        ? (language === 'fr'
+                          ? 'Coordonnées du domicile non renseignées : les pointages ne sont pas vérifiés.'
+                          : 'Home coordinates not set: check-ins are not verified.')
+                        : (language === 'fr'
+                          ? `Un pointage à plus de ${getGeofenceRadius(elderly)} m est signalé « Hors zone » (défaut ${DEFAULT_GEOFENCE_RADIUS_METERS} m).`
+                          : `Check-ins more than ${getGeofenceRadius(elderly)} m away are flagged "Out of zone" (default ${DEFAULT_GEOFENCE_RADIUS_METERS} m).`)}
+                    </div>
+                    <button
+                      onClick={handleSetLocationFromDevice}
+                      disabled={locating}
+                      className="mt-2 flex items-center gap-1 text-xs text-blue-600 hover:underline disabled:opacity-50"
+                    >
+                      <LocateFixed size={14} />
+                      {locating
+                        ? (language === 'fr' ? 'Localisation...' : 'Locating...')
+                        : (language === 'fr' ? 'Ma position actuelle comme domicile' : 'Use my current position as the home')}
+                    </button>
                   </div>
                 </div>
                 {elderly.country && (
@@ -1286,9 +1802,11 @@ export default function DashboardPage() {
                     <div className="flex-1 min-w-0">
                       <div className="text-sm text-gray-600">{language === 'fr' ? 'Tarifs' : 'Rates'}</div>
                       <div className="font-semibold text-gray-900 break-words">
-                        {language === 'fr' ? 'Normal HT' : 'Regular Before VAT'}: {elderly.currency}{elderly.regular_rate.toFixed(2)}/h
+                        {language === 'fr' ? 'Normal HT' : 'Regular Before VAT'}: {elderly.currency}{rateToHT(elderly.regular_rate, vatSettings.vatRate, vatSettings.ratesIncludeVat).toFixed(2)}/h
                         {' | '}
-                        {language === 'fr' ? 'Normal TTC' : 'Regular With VAT'}: {elderly.currency}{(elderly.regular_rate * 1.055).toFixed(2)}/h
+                        {language === 'fr' ? 'Normal TTC' : 'Regular With VAT'}: {elderly.currency}{applyVat(rateToHT(elderly.regular_rate, vatSettings.vatRate, vatSettings.ratesIncludeVat), vatSettings.vatRate).ttc.toFixed(2)}/h
+                        {' | '}
+                        {language === 'fr' ? 'TVA' : 'VAT'}: {formatVatRate(vatSettings.vatRate, language)}%
                       </div>
                     </div>
                   </div>
@@ -1306,6 +1824,26 @@ export default function DashboardPage() {
                     </div>
                   </div>
                 )}
+                {funders.length > 0 && (
+                  <div className="flex items-start gap-3">
+                    <Euro className="text-blue-600 mt-1 flex-shrink-0" size={20} />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-gray-600">
+                        {language === 'fr' ? 'Financeurs' : 'Funders'}
+                      </div>
+                      {funders.map(funder => (
+                        <div key={funder.id} className="font-semibold text-gray-900 break-words">
+                          {funder.priority}. {funder.name} ({FUNDER_TYPE_LABELS[funder.funder_type][language]}): {describeFunderRule(funder, language, elderly.conventioned_rate !== undefined ? rateToHT(elderly.conventioned_rate, vatSettings.vatRate, vatSettings.ratesIncludeVat) : undefined)}
+                          {funder.end_date && (
+                            <span className="text-sm font-normal text-gray-500">
+                              {' '}({language === 'fr' ? "jusqu'au" : 'until'} {funder.end_date})
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Primary Contact */}
@@ -1341,7 +1879,7 @@ export default function DashboardPage() {
                         )}
                         <div className="pt-2 border-t border-gray-100">
                           {user?.id === primaryContact.id ? (
-                            <NotificationPermissionButton familyMemberId={primaryContact.id} />
+                            <NotificationPermissionButton />
                           ) : (
                             <div className="text-sm">
                               <div className="flex items-center justify-between">
@@ -1423,7 +1961,7 @@ export default function DashboardPage() {
                         )}
                         <div className="pt-2 border-t border-gray-100">
                           {user?.id === member.id ? (
-                            <NotificationPermissionButton familyMemberId={member.id} />
+                            <NotificationPermissionButton />
                           ) : (
                             <div className="text-sm">
                               <div className="flex items-center justify-between">
@@ -1449,6 +1987,11 @@ export default function DashboardPage() {
                 </div>
               )}
             </div>
+
+            {/* NFC Tags */}
+            <div className="lg:col-span-2 w-full overflow-hidden">
+              <NfcTagManager beneficiaryId={elderly.id} />
+            </div>
           </div>
         )}
 
@@ -1578,32 +2121,7 @@ export default function DashboardPage() {
                               new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
                             );
 
-                            // Group check-in/check-out pairs
-                            const pairs: { checkIn: CheckInOut; checkOut?: CheckInOut }[] = [];
-                            const processed = new Set<string>();
-
-                            sorted.forEach((ci) => {
-                              if (processed.has(ci.id)) return;
-
-                              if (ci.action === 'check-in') {
-                                // Find matching check-out (next check-out from same caregiver)
-                                const checkOut = sorted.find(
-                                  (co) =>
-                                    !processed.has(co.id) &&
-                                    co.action === 'check-out' &&
-                                    co.caregiver_name === ci.caregiver_name &&
-                                    new Date(co.timestamp).getTime() > new Date(ci.timestamp).getTime()
-                                );
-
-                                pairs.push({ checkIn: ci, checkOut });
-                                processed.add(ci.id);
-                                if (checkOut) processed.add(checkOut.id);
-                              } else if (!processed.has(ci.id)) {
-                                // Orphan check-out
-                                pairs.push({ checkIn: ci });
-                                processed.add(ci.id);
-                              }
-                            });
+                            const pairs = pairForDisplay(sorted);
 
                             // Reverse to show most recent first
                             return pairs.reverse().map((pair, idx) => {
@@ -1621,11 +2139,12 @@ export default function DashboardPage() {
                                           <div className="flex items-center gap-2 text-xs text-gray-600">
                                             <Clock size={12} />
                                             <span>{formatInBeneficiaryTimezone(pair.checkIn.timestamp, timezone, 'HH:mm:ss')}</span>
+                                            <OutOfZoneBadge checkIn={pair.checkIn} language={language} />
                                             {pair.checkIn.photo_url && (
                                               <>
                                                 <span className="text-gray-400">•</span>
                                                 <button
-                                                  onClick={() => setShowPhoto(pair.checkIn.photo_url!)}
+                                                  onClick={() => openPhoto(pair.checkIn.photo_url!)}
                                                   className="text-blue-600 hover:underline"
                                                 >
                                                   {language === 'fr' ? 'Photo' : 'Photo'}
@@ -1649,11 +2168,15 @@ export default function DashboardPage() {
                                             <div className="flex items-center gap-2 text-xs text-gray-600">
                                               <Clock size={12} />
                                               <span>{formatInBeneficiaryTimezone(pair.checkOut.timestamp, timezone, 'HH:mm:ss')}</span>
-                                              {pair.checkOut.photo_url && (
+                                              {!pair.corrected && <OutOfZoneBadge checkIn={pair.checkOut} language={language} />}
+                                              {pair.corrected && (
+                                                <span className="text-xs font-medium text-orange-600">{language === 'fr' ? '(heure corrigée)' : '(corrected time)'}</span>
+                                              )}
+                                              {!pair.corrected && pair.checkOut.photo_url && (
                                                 <>
                                                   <span className="text-gray-400">•</span>
                                                   <button
-                                                    onClick={() => setShowPhoto(pair.checkOut!.photo_url!)}
+                                                    onClick={() => openPhoto(pair.checkOut!.photo_url!)}
                                                     className="text-blue-600 hover:underline"
                                                   >
                                                     {language === 'fr' ? 'Photo' : 'Photo'}
@@ -1686,11 +2209,12 @@ export default function DashboardPage() {
                                         <div className="flex items-center gap-2 text-sm text-gray-600">
                                           <Clock size={14} />
                                           <span>{formatInBeneficiaryTimezone(pair.checkIn.timestamp, timezone, 'HH:mm:ss')}</span>
+                                          <OutOfZoneBadge checkIn={pair.checkIn} language={language} />
                                           {pair.checkIn.photo_url && (
                                             <>
                                               <span className="text-gray-400">•</span>
                                               <button
-                                                onClick={() => setShowPhoto(pair.checkIn.photo_url!)}
+                                                onClick={() => openPhoto(pair.checkIn.photo_url!)}
                                                 className="text-blue-600 hover:underline"
                                               >
                                                 {language === 'fr' ? 'Photo' : 'Photo'}
@@ -1710,11 +2234,15 @@ export default function DashboardPage() {
                                           <div className="flex items-center gap-2 text-sm text-gray-600">
                                             <Clock size={14} />
                                             <span>{formatInBeneficiaryTimezone(pair.checkOut.timestamp, timezone, 'HH:mm:ss')}</span>
-                                            {pair.checkOut.photo_url && (
+                                            {!pair.corrected && <OutOfZoneBadge checkIn={pair.checkOut} language={language} />}
+                                            {pair.corrected && (
+                                              <span className="text-xs font-medium text-orange-600">{language === 'fr' ? '(heure corrigée)' : '(corrected time)'}</span>
+                                            )}
+                                            {!pair.corrected && pair.checkOut.photo_url && (
                                               <>
                                                 <span className="text-gray-400">•</span>
                                                 <button
-                                                  onClick={() => setShowPhoto(pair.checkOut!.photo_url!)}
+                                                  onClick={() => openPhoto(pair.checkOut!.photo_url!)}
                                                   className="text-blue-600 hover:underline"
                                                 >
                                                   {language === 'fr' ? 'Photo' : 'Photo'}
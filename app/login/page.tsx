@@ -22,6 +22,8 @@ function LoginContent() {
   const [regularRate, setRegularRate] = useState('');
   const [holidayRate, setHolidayRate] = useState('');
   const [ticketModerateur, setTicketModerateur] = useState('');
+  const [vatRate, setVatRate] = useState('5.5');
+  const [ratesIncludeVat, setRatesIncludeVat] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
@@ -150,6 +152,8 @@ function LoginContent() {
           regularRate: parseFloat(regularRate),
           holidayRate: parseFloat(holidayRate),
           ticketModerateur: ticketModerateur ? parseFloat(ticketModerateur) : 0,
+          vatRate: vatRate ? parseFloat(vatRate) : 5.5,
+          ratesIncludeVat,
           familyMembers: validFamilyMembers,
         }),
       });
@@ -543,6 +547,43 @@ function LoginContent() {
                 </p>
               </div>
 
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('auth.vatRate') || 'VAT Rate'} (%)
+                  </label>
+                  <div className="relative">
+                    <span className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-gray-400 text-sm">
+                      %
+                    </span>
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      max="100"
+                      value={vatRate}
+                      onChange={(e) => setVatRate(e.target.value)}
+                      className="w-full pl-10 pr-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                      placeholder="5.5"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('auth.ratesEnteredAs') || 'Rates entered'}
+                  </label>
+                  <select
+                    value={ratesIncludeVat ? 'ttc' : 'ht'}
+                    onChange={(e) => setRatesIncludeVat(e.target.value === 'ttc')}
+                    className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                  >
+                    <option value="ht">{t('auth.ratesHT') || 'Before VAT'}</option>
+                    <option value="ttc">{t('auth.ratesTTC') || 'Including VAT'}</option>
+                  </select>
+                </div>
+              </div>
+
               {/* Family Members Section */}
               <div className="space-y-3 border-t border-gray-200 pt-4">
                 <div className="flex items-center justify-between">
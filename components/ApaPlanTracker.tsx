@@ -0,0 +1,307 @@
+'use client';
+
+import { format, subMonths } from 'date-fns';
+import { fr, enUS } from 'date-fns/locale';
+import { formatInTimeZone } from 'date-fns-tz';
+import { AlertTriangle, CalendarClock, CheckCircle, TrendingUp } from 'lucide-react';
+import { formatNumber } from '@/lib/time-utils';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { VatSettings } from '@/lib/rate-utils';
+import {
+  APA_ALERT_THRESHOLDS,
+  computeApaUsage,
+  getApaAlertThreshold,
+  getApaDailyHours,
+  projectApaMonthEnd,
+} from '@/lib/apa-plan';
+import { BeneficiaryRateHistory, MajorationRuleSet } from '@/lib/supabase';
+import { HolidayCalendar } from '@/lib/holidays';
+import { VisitPair } from '@/lib/billing';
+
+type CheckInOut = {
+  id: string;
+  beneficiary_id: string;
+  caregiver_name: string;
+  action: 'check-in' | 'check-out';
+  timestamp: string;
+  is_training?: boolean;
+};
+
+type ApaPlanTrackerProps = {
+  checkIns: CheckInOut[]; // Check-ins of the 12 months ending with selectedMonth
+  visits?: VisitPair<CheckInOut>[]; // From the visits table; paired from checkIns when missing
+  selectedMonth: Date;
+  regularRate: number;
+  rateHistory?: BeneficiaryRateHistory[];
+  apaMonthlyHours?: number; // APA monthly hours allowance (plan d'aide)
+  timezone: string;
+  holidayCalendar?: HolidayCalendar;
+  majorationRuleSets?: MajorationRuleSet[];
+  vatSettings?: VatSettings;
+  loading?: boolean;
+};
+
+const HISTORY_MONTHS = 12;
+
+// Bar colors by alert threshold reached
+function usageColor(percent: number | undefined): { bar: string; text: string } {
+  const threshold = getApaAlertThreshold(percent);
+  if (threshold === 100) return { bar: 'bg-red-500', text: 'text-red-700' };
+  if (threshold === 80) return { bar: 'bg-amber-500', text: 'text-amber-700' };
+  return { bar: 'bg-teal-500', text: 'text-teal-700' };
+}
+
+export default function ApaPlanTracker({
+  checkIns,
+  visits,
+  selectedMonth,
+  regularRate,
+  rateHistory,
+  apaMonthlyHours,
+  timezone,
+  holidayCalendar,
+  majorationRuleSets,
+  vatSettings,
+  loading,
+}: ApaPlanTrackerProps) {
+  const { language } = useLanguage();
+  const locale = language === 'fr' ? fr : enUS;
+
+  const months = Array.from({ length: HISTORY_MONTHS }, (_, i) =>
+    format(subMonths(selectedMonth, HISTORY_MONTHS - 1 - i), 'yyyy-MM')
+  );
+  const usages = computeApaUsage({
+    checkIns,
+    pairs: visits,
+    months,
+    apaMonthlyHours,
+    rateHistory,
+    fallbackRate: regularRate,
+    timezone,
+    holidays: holidayCalendar,
+    majorationRuleSets,
+    vat: vatSettings,
+  });
+  const usage = usages[usages.length - 1];
+
+  const today = formatInTimeZone(new Date(), timezone, 'yyyy-MM-dd');
+  const projection = projectApaMonthEnd(usage, getApaDailyHours(usages), today);
+  const isCurrentOrFuture = usage.days[usage.days.length - 1].date >= today;
+
+  const monthName = format(selectedMonth, 'MMMM yyyy', { locale });
+  const h = (hours: number) => `${formatNumber(hours, 1, language)}h`;
+  const pct = (percent: number) => `${formatNumber(percent, 0, language)}%`;
+
+  if (!usage.allocatedHours) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-6 text-center text-gray-600">
+        {language === 'fr'
+          ? `Aucun plan d'aide APA/PCH (heures mensuelles) n'est renseigné pour ${monthName}.`
+          : `No APA/PCH plan (monthly hours) is set for ${monthName}.`}
+      </div>
+    );
+  }
+
+  const allocated = usage.allocatedHours;
+  const usageStyle = usageColor(usage.usagePercent);
+  const projectionStyle = usageColor(projection.projectedPercent);
+
+  // Daily chart scale: allocation, actual or projected usage, whichever is highest
+  const chartMax = Math.max(allocated, usage.billedHours, isCurrentOrFuture ? projection.projectedHours : 0) * 1.05;
+  const chartDays = usage.days.reduce<Array<{ date: string; hours: number; value: number; projected: boolean }>>((days, day) => {
+    const projected = day.date > today;
+    const previous = days.length > 0 ? days[days.length - 1].value : 0;
+    const value = projected
+      ? previous + projection.weekdayAverages[new Date(`${day.date}T12:00:00Z`).getUTCDay()]
+      : day.cumulativeHours;
+    return [...days, { date: day.date, hours: day.hours, value, projected }];
+  }, []);
+
+  const historyMax = Math.max(...usages.map(u => Math.max(u.allocatedHours || 0, u.billedHours)), 1);
+
+  return (
+    <div className="space-y-6">
+      {/* CURRENT MONTH */}
+      <div className="bg-white rounded-lg shadow-lg p-4 md:p-6">
+        <h2 className="text-xl font-bold text-gray-800 uppercase mb-4">
+          {language === 'fr' ? `PLAN D'AIDE APA/PCH - ${monthName}` : `APA/PCH CARE PLAN - ${monthName}`}
+        </h2>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+          <div className="bg-slate-50 border-2 border-slate-200 rounded p-3">
+            <div className="text-xs text-slate-600">{language === 'fr' ? 'Heures du plan' : 'Plan hours'}</div>
+            <div className="text-2xl font-mono font-bold text-slate-800">{h(allocated)}</div>
+          </div>
+          <div className="bg-slate-50 border-2 border-slate-200 rounded p-3">
+            <div className="text-xs text-slate-600">{language === 'fr' ? 'Heures facturées' : 'Billed hours'}</div>
+            <div className={`text-2xl font-mono font-bold ${usageStyle.text}`}>
+              {h(usage.billedHours)} <span className="text-sm">({pct(usage.usagePercent || 0)})</span>
+            </div>
+          </div>
+          <div className="bg-slate-50 border-2 border-slate-200 rounded p-3">
+            <div className="text-xs text-slate-600">
+              {usage.remainingHours! >= 0
+                ? (language === 'fr' ? 'Heures restantes' : 'Remaining hours')
+                : (language === 'fr' ? 'Dépassement' : 'Overage')}
+            </div>
+            <div className={`text-2xl font-mono font-bold ${usage.remainingHours! >= 0 ? 'text-slate-800' : 'text-red-700'}`}>
+              {h(Math.abs(usage.remainingHours!))}
+            </div>
+          </div>
+          <div className="bg-slate-50 border-2 border-slate-200 rounded p-3">
+            <div className="text-xs text-slate-600 flex items-center gap-1">
+              <TrendingUp size={12} />
+              {language === 'fr' ? 'Projection fin de mois' : 'Projected month end'}
+            </div>
+            <div className={`text-2xl font-mono font-bold ${projectionStyle.text}`}>
+              {h(projection.projectedHours)} <span className="text-sm">({pct(projection.projectedPercent || 0)})</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Usage bar with alert thresholds */}
+        <div className="mb-2 relative h-6 bg-slate-100 rounded overflow-hidden border border-slate-200">
+          {isCurrentOrFuture && projection.projectedHours > usage.billedHours && (
+            <div
+              className={`absolute inset-y-0 left-0 ${projectionStyle.bar} opacity-30`}
+              style={{ width: `${Math.min(100, (projection.projectedHours / chartMax) * 100)}%` }}
+            />
+          )}
+          <div
+            className={`absolute inset-y-0 left-0 ${usageStyle.bar}`}
+            style={{ width: `${Math.min(100, (usage.billedHours / chartMax) * 100)}%` }}
+          />
+          {APA_ALERT_THRESHOLDS.map(threshold => (
+            <div
+              key={threshold}
+              className="absolute inset-y-0 border-l-2 border-dashed border-slate-700"
+              style={{ left: `${((allocated * threshold) / 100 / chartMax) * 100}%` }}
+              title={`${threshold}%`}
+            />
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-4 text-xs text-slate-600 mb-6">
+          <span className="flex items-center gap-1"><span className={`inline-block w-3 h-3 rounded ${usageStyle.bar}`} />{language === 'fr' ? 'Facturé' : 'Billed'}</span>
+          {isCurrentOrFuture && (
+            <span className="flex items-center gap-1"><span className={`inline-block w-3 h-3 rounded ${projectionStyle.bar} opacity-30`} />{language === 'fr' ? 'Projeté' : 'Projected'}</span>
+          )}
+          <span>{language === 'fr' ? 'Seuils d\'alerte' : 'Alert thresholds'}: {APA_ALERT_THRESHOLDS.map(t => `${t}%`).join(' / ')}</span>
+        </div>
+
+        {getApaAlertThreshold(usage.usagePercent) !== undefined ? (
+          <div className={`flex items-start gap-2 p-3 rounded mb-6 text-sm ${usage.usagePercent! >= 100 ? 'bg-red-50 text-red-800' : 'bg-amber-50 text-amber-800'}`}>
+            <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+            <span>
+              {usage.usagePercent! >= 100
+                ? (language === 'fr'
+                    ? 'Le plan d\'aide est épuisé : les heures supplémentaires sont entièrement à la charge du bénéficiaire.'
+                    : 'The care plan is used up: additional hours are fully paid by the beneficiary.')
+                : (language === 'fr'
+                    ? `Plus de ${APA_ALERT_THRESHOLDS[0]}% du plan d'aide est consommé.`
+                    : `Over ${APA_ALERT_THRESHOLDS[0]}% of the care plan is used.`)}
+            </span>
+          </div>
+        ) : isCurrentOrFuture && getApaAlertThreshold(projection.projectedPercent) === 100 ? (
+          <div className="flex items-start gap-2 p-3 rounded mb-6 text-sm bg-amber-50 text-amber-800">
+            <CalendarClock size={18} className="flex-shrink-0 mt-0.5" />
+            <span>
+              {language === 'fr'
+                ? `Au rythme des 4 dernières semaines, le plan sera dépassé de ${h(projection.projectedHours - allocated)} en fin de mois.`
+                : `At the pace of the last 4 weeks, the plan will be exceeded by ${h(projection.projectedHours - allocated)} at month end.`}
+            </span>
+          </div>
+        ) : (
+          <div className="flex items-start gap-2 p-3 rounded mb-6 text-sm bg-teal-50 text-teal-800">
+            <CheckCircle size={18} className="flex-shrink-0 mt-0.5" />
+            <span>{language === 'fr' ? 'Consommation dans les limites du plan.' : 'Usage within the plan.'}</span>
+          </div>
+        )}
+
+        {/* Day-by-day cumulative consumption */}
+        <h3 className="text-sm font-semibold text-slate-800 mb-2">
+          {language === 'fr' ? 'CONSOMMATION CUMULÉE JOUR PAR JOUR' : 'DAY-BY-DAY CUMULATIVE USAGE'}
+        </h3>
+        <div className="relative h-40 flex items-end gap-px border-b border-l border-slate-300">
+          <div
+            className="absolute left-0 right-0 border-t-2 border-red-400"
+            style={{ bottom: `${(allocated / chartMax) * 100}%` }}
+            title={language === 'fr' ? 'Plan d\'aide' : 'Care plan'}
+          />
+          {chartDays.map(day => (
+            <div
+              key={day.date}
+              className={`flex-1 ${day.projected ? `${projectionStyle.bar} opacity-30` : usageColor((day.value / allocated) * 100).bar}`}
+              style={{ height: `${(day.value / chartMax) * 100}%` }}
+              title={`${format(new Date(`${day.date}T12:00:00`), 'd MMM', { locale })}: ${h(day.hours)} (${language === 'fr' ? 'cumul' : 'total'} ${h(day.value)})`}
+            />
+          ))}
+        </div>
+        <div className="flex gap-px text-[9px] text-slate-500 mt-1">
+          {chartDays.map(day => (
+            <div key={day.date} className="flex-1 text-center">{parseInt(day.date.slice(8), 10)}</div>
+          ))}
+        </div>
+        {isCurrentOrFuture && (
+          <p className="text-xs text-slate-500 mt-2">
+            {language === 'fr'
+              ? 'Projection : heures moyennes de chaque jour de la semaine sur les 4 dernières semaines.'
+              : 'Projection: average hours per weekday over the last 4 weeks.'}
+          </p>
+        )}
+      </div>
+
+      {/* 12-MONTH HISTORY */}
+      <div className="bg-white rounded-lg shadow-lg p-4 md:p-6">
+        <h2 className="text-xl font-bold text-gray-800 uppercase mb-4">
+          {language === 'fr' ? 'HISTORIQUE SUR 12 MOIS' : '12-MONTH HISTORY'}
+        </h2>
+        {loading ? (
+          <div className="text-center text-gray-500 py-4">{language === 'fr' ? 'Chargement...' : 'Loading...'}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b-2 border-slate-300 text-slate-700">
+                  <th className="text-left py-2 px-2">{language === 'fr' ? 'Mois' : 'Month'}</th>
+                  <th className="text-right py-2 px-2">{language === 'fr' ? 'Plan' : 'Plan'}</th>
+                  <th className="text-right py-2 px-2">{language === 'fr' ? 'Facturé' : 'Billed'}</th>
+                  <th className="text-right py-2 px-2">%</th>
+                  <th className="py-2 px-2 w-1/3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...usages].reverse().map(monthUsage => {
+                  const style = usageColor(monthUsage.usagePercent);
+                  return (
+                    <tr key={monthUsage.month} className="border-b border-slate-100">
+                      <td className="py-2 px-2 capitalize">{format(new Date(`${monthUsage.month}-15T12:00:00`), 'MMMM yyyy', { locale })}</td>
+                      <td className="py-2 px-2 text-right font-mono">{monthUsage.allocatedHours ? h(monthUsage.allocatedHours) : '-'}</td>
+                      <td className="py-2 px-2 text-right font-mono">{h(monthUsage.billedHours)}</td>
+                      <td className={`py-2 px-2 text-right font-mono ${style.text}`}>
+                        {monthUsage.usagePercent !== undefined ? pct(monthUsage.usagePercent) : '-'}
+                      </td>
+                      <td className="py-2 px-2">
+                        <div className="relative h-3 bg-slate-100 rounded">
+                          <div
+                            className={`absolute inset-y-0 left-0 rounded ${style.bar}`}
+                            style={{ width: `${(monthUsage.billedHours / historyMax) * 100}%` }}
+                          />
+                          {monthUsage.allocatedHours && (
+                            <div
+                              className="absolute -inset-y-0.5 border-l-2 border-slate-700"
+                              style={{ left: `${(monthUsage.allocatedHours / historyMax) * 100}%` }}
+                            />
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
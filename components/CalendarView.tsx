@@ -4,10 +4,14 @@ import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSam
 import { fr, enUS } from 'date-fns/locale';
 import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
 import { useState, useEffect } from 'react';
-import { getHolidayType } from '@/lib/holidays';
-import { PartyPopper, StickyNote } from 'lucide-react';
+import { getHolidayType, HolidayCalendar } from '@/lib/holidays';
+import { MapPinOff, PartyPopper, StickyNote } from 'lucide-react';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { getColor, hexToRgba } from '@/lib/caregiver-colors';
+import { getPlannedHours, PlannedVisitMatch, PlannedVisitStatus } from '@/lib/schedule';
+import { pairCheckInOuts } from '@/lib/billing';
+import { isOutOfZone } from '@/lib/geofence';
+import { VerificationFlags } from '@/lib/supabase';
 
 type CheckInOut = {
   id: string;
@@ -19,6 +23,8 @@ type CheckInOut = {
   latitude?: number;
   longitude?: number;
   is_training?: boolean;
+  corrected_check_out_at?: string | null;
+  verification_flags?: VerificationFlags;
 };
 
 type DailyNote = {
@@ -40,8 +46,19 @@ type CalendarViewProps = {
   caregiverColors: Map<string, string>;
   onDayClick: (date: Date, dayCheckIns: CheckInOut[]) => void;
   timezone: string;
+  holidayCalendar?: HolidayCalendar; // Beneficiary's country/region holidays (default: France)
   dailyNotes?: DailyNote[];
   onAddNote?: (date: Date) => void;
+  plannedVisits?: PlannedVisitMatch[]; // Planned visits of the month, matched with check-ins
+};
+
+// Planned visit chips, by status
+const PLANNED_STATUS_STYLES: Record<PlannedVisitStatus, { chip: string; dot: string; labels: { fr: string; en: string } }> = {
+  done: { chip: 'border-green-500 text-green-700', dot: 'bg-green-500', labels: { fr: 'Visite prévue réalisée', en: 'Planned visit done' } },
+  in_progress: { chip: 'border-blue-500 text-blue-700', dot: 'bg-blue-500', labels: { fr: 'Visite prévue en cours', en: 'Planned visit in progress' } },
+  upcoming: { chip: 'border-gray-400 text-gray-600', dot: 'bg-gray-400', labels: { fr: 'Visite prévue à venir', en: 'Upcoming planned visit' } },
+  pending: { chip: 'border-amber-500 text-amber-700', dot: 'bg-amber-500', labels: { fr: 'Visite prévue en attente', en: 'Planned visit pending' } },
+  missed: { chip: 'border-red-500 text-red-700 bg-red-50', dot: 'bg-red-500', labels: { fr: 'Visite prévue manquée', en: 'Planned visit missed' } },
 };
 
 // Component for showing running time for active check-ins
@@ -71,7 +88,7 @@ function RunningTimer({ checkInTime }: { checkInTime: Date }) {
   );
 }
 
-export default function CalendarView({ selectedMonth, checkIns, caregiverColors, onDayClick, timezone, dailyNotes = [], onAddNote }: CalendarViewProps) {
+export default function CalendarView({ selectedMonth, checkIns, caregiverColors, onDayClick, timezone, holidayCalendar, dailyNotes = [], onAddNote, plannedVisits = [] }: CalendarViewProps) {
   const { language } = useLanguage();
 
   const getNoteForDate = (date: Date): DailyNote | undefined => {
@@ -79,6 +96,11 @@ export default function CalendarView({ selectedMonth, checkIns, caregiverColors,
     return dailyNotes.find(note => note.date === dateStr);
   };
 
+  const getDayPlannedVisits = (date: Date): PlannedVisitMatch[] => {
+    const dateStr = format(date, 'yyyy-MM-dd');
+    return plannedVisits.filter(match => match.planned.date === dateStr);
+  };
+
   // Get all unique caregiver names for color fallback
   const allCaregiverNames = Array.from(new Set(checkIns.map(ci => ci.caregiver_name)));
 
@@ -165,112 +187,29 @@ export default function CalendarView({ selectedMonth, checkIns, caregiverColors,
     return null;
   };
 
-  const calculateDayHours = (dayCheckIns: CheckInOut[]): number => {
-    let totalHours = 0;
-    const sorted = [...dayCheckIns].sort((a, b) =>
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-
-    const processed = new Set<string>();
-
-    sorted.forEach((ci) => {
-      if (processed.has(ci.id)) return;
-
-      if (ci.action === 'check-in') {
-        // Find matching check-out (next check-out from same caregiver)
-        const checkOut = sorted.find(
-          (co) =>
-            !processed.has(co.id) &&
-            co.action === 'check-out' &&
-            co.caregiver_name === ci.caregiver_name &&
-            new Date(co.timestamp).getTime() > new Date(ci.timestamp).getTime()
-        );
-
-        if (checkOut) {
-          const checkIn = new Date(ci.timestamp).getTime();
-          const checkOutTime = new Date(checkOut.timestamp).getTime();
-          totalHours += (checkOutTime - checkIn) / (1000 * 60 * 60);
-          processed.add(ci.id);
-          processed.add(checkOut.id);
-        }
-      }
-    });
+  // Same pairing as billing: same caregiver, corrected ends of forgotten check-outs
+  const sumVisitHours = (dayCheckIns: CheckInOut[], include: (checkIn: CheckInOut) => boolean): number => {
+    return pairCheckInOuts(dayCheckIns)
+      .filter(pair => pair.checkOut && include(pair.checkIn))
+      .reduce((total, pair) =>
+        total + (new Date(pair.checkOut!.timestamp).getTime() - new Date(pair.checkIn.timestamp).getTime()) / (1000 * 60 * 60),
+      0);
+  };
 
-    return totalHours;
+  const calculateDayHours = (dayCheckIns: CheckInOut[]): number => {
+    return sumVisitHours(dayCheckIns, () => true);
   };
 
   const calculateTrainingHours = (dayCheckIns: CheckInOut[]): number => {
-    let totalHours = 0;
-    const sorted = [...dayCheckIns].sort((a, b) =>
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-
-    const processed = new Set<string>();
-
-    sorted.forEach((ci) => {
-      if (processed.has(ci.id)) return;
-
-      if (ci.action === 'check-in' && ci.is_training) {
-        const checkOut = sorted.find(
-          (co) =>
-            !processed.has(co.id) &&
-            co.action === 'check-out' &&
-            co.caregiver_name === ci.caregiver_name &&
-            new Date(co.timestamp).getTime() > new Date(ci.timestamp).getTime()
-        );
-
-        if (checkOut) {
-          const checkIn = new Date(ci.timestamp).getTime();
-          const checkOutTime = new Date(checkOut.timestamp).getTime();
-          totalHours += (checkOutTime - checkIn) / (1000 * 60 * 60);
-          processed.add(ci.id);
-          processed.add(checkOut.id);
-        }
-      }
-    });
-
-    return totalHours;
+    return sumVisitHours(dayCheckIns, ci => !!ci.is_training);
   };
 
   const calculateMonthTotalHours = (includeTraining: boolean = true): number => {
-    let totalHours = 0;
     const days = eachDayOfInterval({ start: monthStart, end: monthEnd });
 
-    days.forEach(day => {
-      const dayCheckIns = getDayCheckIns(day);
-      const sorted = [...dayCheckIns].sort((a, b) =>
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-      );
-
-      const processed = new Set<string>();
-
-      sorted.forEach((ci) => {
-        if (processed.has(ci.id)) return;
-
-        if (ci.action === 'check-in') {
-          // Skip or include training based on parameter
-          if (!includeTraining && ci.is_training) return;
-
-          const checkOut = sorted.find(
-            (co) =>
-              !processed.has(co.id) &&
-              co.action === 'check-out' &&
-              co.caregiver_name === ci.caregiver_name &&
-              new Date(co.timestamp).getTime() > new Date(ci.timestamp).getTime()
-          );
-
-          if (checkOut) {
-            const checkIn = new Date(ci.timestamp).getTime();
-            const checkOutTime = new Date(checkOut.timestamp).getTime();
-            totalHours += (checkOutTime - checkIn) / (1000 * 60 * 60);
-            processed.add(ci.id);
-            processed.add(checkOut.id);
-          }
-        }
-      });
-    });
-
-    return totalHours;
+    return days.reduce((total, day) =>
+      total + sumVisitHours(getDayCheckIns(day), ci => includeTraining || !ci.is_training),
+    0);
   };
 
   const calculateMonthTrainingHours = (): number => {
@@ -293,6 +232,9 @@ export default function CalendarView({ selectedMonth, checkIns, caregiverColors,
 
   const monthChargedHours = calculateMonthTotalHours(false);
   const monthTrainingHours = calculateMonthTrainingHours();
+  const monthPlannedHours = getPlannedHours(
+    plannedVisits.map(match => match.planned).filter(visit => visit.date.startsWith(format(selectedMonth, 'yyyy-MM')))
+  );
 
   return (
     <div className="bg-white rounded-lg shadow-lg p-6">
@@ -301,6 +243,14 @@ export default function CalendarView({ selectedMonth, checkIns, caregiverColors,
           {format(selectedMonth, 'MMMM yyyy', { locale: language === 'fr' ? fr : enUS })}
         </h2>
         <div className="flex flex-wrap items-center gap-4 text-sm sm:text-base">
+          {monthPlannedHours > 0 && (
+            <div className="text-right">
+              <div className="text-xs sm:text-sm text-gray-600">{language === 'fr' ? 'Heures prévues' : 'Planned Hours'}</div>
+              <div className="text-base sm:text-lg font-bold text-gray-700">
+                {formatHours(monthPlannedHours)} ({monthPlannedHours.toFixed(2)}h)
+              </div>
+            </div>
+          )}
           <div className="text-right">
             <div className="text-xs sm:text-sm text-gray-600">{language === 'fr' ? 'Heures facturées' : 'Charged Hours'}</div>
             <div className="text-base sm:text-lg font-bold text-blue-600">
@@ -342,10 +292,12 @@ export default function CalendarView({ selectedMonth, checkIns, caregiverColors,
           const isCurrentMonth = isSameMonth(day, selectedMonth);
           const caregivers = getUniqueCaregivers(dayCheckIns);
           const times = getCheckInOutTimes(dayCheckIns);
-          const holidayInfo = getHolidayType(day);
+          const holidayInfo = getHolidayType(day, language, holidayCalendar);
           const dayHours = calculateDayHours(dayCheckIns);
           const activeCheckIn = getActiveCheckIn(dayCheckIns);
           const dayNote = getNoteForDate(day);
+          const dayPlanned = isCurrentMonth ? getDayPlannedVisits(day) : [];
+          const outOfZone = dayCheckIns.some(isOutOfZone);
 
           return (
             <div
@@ -424,6 +376,14 @@ export default function CalendarView({ selectedMonth, checkIns, caregiverColors,
                   )}
                 </div>
                 <div className="flex items-center gap-1">
+                  {outOfZone && (
+                    <div
+                      className="flex items-center justify-center w-4 h-4 sm:w-5 sm:h-5 rounded-full bg-red-600 text-white"
+                      title={language === 'fr' ? 'Pointage hors zone' : 'Out-of-zone check-in'}
+                    >
+                      <MapPinOff size={10} className="sm:w-3 sm:h-3" />
+                    </div>
+                  )}
                   {dayHours > 0 && (
                     <div className="text-[10px] sm:text-xs font-semibold text-blue-600">
                       {formatHours(dayHours)}
@@ -432,6 +392,30 @@ export default function CalendarView({ selectedMonth, checkIns, caregiverColors,
                 </div>
               </div>
 
+              {/* Planned visits: dashed chips on desktop, dots on mobile */}
+              {dayPlanned.length > 0 && (
+                <>
+                  <div className="hidden sm:block space-y-0.5 mb-0.5">
+                    {dayPlanned.map((match, idx) => (
+                      <div
+                        key={idx}
+                        className={`text-[10px] truncate px-1 rounded border border-dashed ${PLANNED_STATUS_STYLES[match.status].chip}`}
+                        title={`${match.planned.caregiverName} ${match.planned.startTime}–${match.planned.endTime} - ${PLANNED_STATUS_STYLES[match.status].labels[language]}${
+                          match.substitute && match.visit ? ` (${match.visit.checkIn.caregiver_name})` : ''
+                        }`}
+                      >
+                        {match.planned.startTime}–{match.planned.endTime} {match.planned.caregiverName}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="sm:hidden flex items-center gap-0.5 mb-0.5">
+                    {dayPlanned.map((match, idx) => (
+                      <div key={idx} className={`w-1.5 h-1.5 rounded-full ${PLANNED_STATUS_STYLES[match.status].dot}`}></div>
+                    ))}
+                  </div>
+                </>
+              )}
+
               {dayCheckIns.length > 0 && (
                 <div className="space-y-0.5 sm:space-y-1">
                   {/* Hide caregiver names on mobile, show on desktop */}
@@ -513,6 +497,18 @@ export default function CalendarView({ selectedMonth, checkIns, caregiverColors,
           </div>
           <span className="text-gray-600">{language === 'fr' ? 'Dimanche' : 'Sunday'}</span>
         </div>
+        <div className="flex items-center gap-2">
+          <div className="w-6 h-6 bg-red-600 rounded-full flex items-center justify-center">
+            <MapPinOff size={12} className="text-white" />
+          </div>
+          <span className="text-gray-600">{language === 'fr' ? 'Pointage hors zone' : 'Out-of-zone check-in'}</span>
+        </div>
+        {plannedVisits.length > 0 && (['done', 'upcoming', 'pending', 'missed'] as PlannedVisitStatus[]).map(status => (
+          <div key={status} className="flex items-center gap-2">
+            <div className={`w-6 h-4 rounded border border-dashed ${PLANNED_STATUS_STYLES[status].chip}`}></div>
+            <span className="text-gray-600">{PLANNED_STATUS_STYLES[status].labels[language]}</span>
+          </div>
+        ))}
       </div>
     </div>
   );
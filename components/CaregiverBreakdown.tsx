@@ -1,15 +1,29 @@
 'use client';
 
 import { format } from 'date-fns';
-import { toZonedTime, formatInTimeZone } from 'date-fns-tz';
 import { fr, enUS } from 'date-fns/locale';
 import { User, Clock, Euro, CheckCircle, XCircle } from 'lucide-react';
 import { decimalToHHMM, formatNumber } from '@/lib/time-utils';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { getColor, hexToRgba } from '@/lib/caregiver-colors';
-import { getHolidayMajoration } from '@/lib/holiday-rates';
-import { getRateForDate } from '@/lib/rate-utils';
-import { BeneficiaryRateHistory } from '@/lib/supabase';
+import { applyVat, formatVatRate, getRateForDate, rateToHT, VatSettings } from '@/lib/rate-utils';
+import { computeBilling, getBilledMajorationLevels, getBilledVatRate, getMajorationBucket, VisitPair } from '@/lib/billing';
+import {
+  describeMajorationLevel,
+  getMajoratedRate,
+  getMajorationLevels,
+  getMajorationRuleSetForDate,
+} from '@/lib/majoration-rules';
+import {
+  allocateFunderSplit,
+  describeFunderRule,
+  FUNDER_TYPE_LABELS,
+  getDefaultFunders,
+  getFundersForMonth,
+  splitAmongFunders,
+} from '@/lib/funders';
+import { BeneficiaryFunder, BeneficiaryRateHistory, MajorationRuleSet } from '@/lib/supabase';
+import { HolidayCalendar } from '@/lib/holidays';
 
 type CheckInOut = {
   id: string;
@@ -23,31 +37,6 @@ type CheckInOut = {
   is_training?: boolean;
 };
 
-type CaregiverSummary = {
-  name: string;
-  regularHours: number;
-  holiday25Hours: number;
-  holiday100Hours: number;
-  totalHours: number;
-  regularAmount: number;
-  holiday25Amount: number;
-  holiday100Amount: number;
-  totalAmount: number;
-};
-
-type TrainingSession = {
-  date: Date;
-  checkIn: Date;
-  checkOut: Date;
-  hours: number;
-};
-
-type TrainingSummary = {
-  name: string;
-  sessions: TrainingSession[];
-  totalHours: number;
-};
-
 type DailyNote = {
   id: string;
   beneficiary_id: string;
@@ -59,8 +48,17 @@ type DailyNote = {
   updated_at: string;
 };
 
+// Table colours per majoration level: regular hours first, then increasingly dark
+const LEVEL_STYLES = [
+  { header: 'bg-teal-100 text-gray-800 border-teal-200', thead: 'bg-teal-50 text-gray-800', subtotal: 'border-teal-200 bg-teal-100 text-gray-800' },
+  { header: 'bg-teal-600 text-white border-teal-700', thead: 'bg-teal-500 text-white', subtotal: 'border-teal-700 bg-teal-600 text-white' },
+  { header: 'bg-teal-700 text-white border-teal-800', thead: 'bg-teal-600 text-white', subtotal: 'border-teal-800 bg-teal-700 text-white' },
+  { header: 'bg-teal-800 text-white border-teal-900', thead: 'bg-teal-700 text-white', subtotal: 'border-teal-900 bg-teal-800 text-white' },
+];
+
 type CaregiverBreakdownProps = {
   checkIns: CheckInOut[];
+  visits?: VisitPair<CheckInOut>[]; // From the visits table; paired from checkIns when missing
   selectedMonth: Date;
   regularRate: number;
   rateHistory?: BeneficiaryRateHistory[]; // Optional for backward compatibility
@@ -71,11 +69,16 @@ type CaregiverBreakdownProps = {
   caregiverColors: Map<string, string>;
   dailyNotes: DailyNote[];
   timezone: string;
+  holidayCalendar?: HolidayCalendar; // Beneficiary's country/region holidays (default: France)
+  majorationRuleSets?: MajorationRuleSet[]; // Contract majoration rules (default: standard contract)
+  vatSettings?: VatSettings; // VAT rate and HT/TTC rate entry (default: 5.5%, rates entered HT)
+  funders?: BeneficiaryFunder[]; // Funders by priority (default: single APA plan from copayPercentage)
   beneficiaryName?: string;
 };
 
 export default function CaregiverBreakdown({
   checkIns,
+  visits,
   selectedMonth,
   regularRate,
   rateHistory,
@@ -86,6 +89,10 @@ export default function CaregiverBreakdown({
   caregiverColors,
   dailyNotes,
   timezone,
+  holidayCalendar,
+  majorationRuleSets,
+  vatSettings,
+  funders,
   beneficiaryName,
 }: CaregiverBreakdownProps) {
   const { t, language } = useLanguage();
@@ -93,18 +100,20 @@ export default function CaregiverBreakdown({
 
   // Calculate display rates for UI based on the selected month
   // Use the rate that was effective at the start of the selected month
-  let displayRate: number;
+  // Rates are always displayed HT; VAT is applied on the totals
+  const rateData = getRateForDate(rateHistory || [], selectedMonth, regularRate, timezone, vatSettings);
+  const displayRate = rateData.billingRate;
+  const displayVatRate = rateData.vatRate;
   let displayConventionedRate: number;
   let displayApaMonthlyHours: number | undefined;
 
   if (rateHistory && rateHistory.length > 0) {
-    const rateData = getRateForDate(rateHistory, selectedMonth, regularRate, timezone);
-    displayRate = rateData.billingRate;
     displayConventionedRate = rateData.conventionedRate;
     displayApaMonthlyHours = rateData.apaMonthlyHours;
   } else {
-    displayRate = regularRate;
-    displayConventionedRate = conventionedRate ?? regularRate;
+    displayConventionedRate = conventionedRate !== undefined
+      ? rateToHT(conventionedRate, displayVatRate, vatSettings?.ratesIncludeVat)
+      : displayRate;
     displayApaMonthlyHours = apaMonthlyHours;
   }
 
@@ -118,8 +127,8 @@ export default function CaregiverBreakdown({
     selectedMonth: selectedMonth.toISOString()
   });
 
-  const rate25 = displayRate * 1.25;
-  const rate100 = displayRate * 2.0;
+  // Majoration rules in effect at the start of the selected month
+  const displayRuleSet = getMajorationRuleSetForDate(majorationRuleSets, selectedMonth, timezone);
 
   // Check if rates vary within the selected month (rate change mid-month)
   const startOfSelectedMonth = new Date(selectedMonth.getFullYear(), selectedMonth.getMonth(), 1);
@@ -135,324 +144,23 @@ export default function CaregiverBreakdown({
   // Get all unique caregiver names for color fallback
   const allCaregiverNames = Array.from(new Set(checkIns.map(ci => ci.caregiver_name)));
 
-  const calculateHoursPerCaregiver = (): CaregiverSummary[] => {
-    const caregiverMap = new Map<string, { regularHours: number; holiday25Hours: number; holiday100Hours: number }>();
-
-    // Group check-ins by caregiver
-    const sorted = [...checkIns].sort((a, b) =>
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-
-    const processed = new Set<string>();
-
-    // Calculate hours for each check-in/check-out pair
-    sorted.forEach((ci) => {
-      if (processed.has(ci.id)) return;
-
-      if (ci.action === 'check-in') {
-        // Skip training sessions (Binome ADV) - not charged
-        if (ci.is_training) return;
-
-        // Find matching check-out (next check-out from same caregiver)
-        const checkOut = sorted.find(
-          (co) =>
-            !processed.has(co.id) &&
-            co.action === 'check-out' &&
-            co.caregiver_name === ci.caregiver_name &&
-            new Date(co.timestamp).getTime() > new Date(ci.timestamp).getTime()
-        );
-
-        if (!checkOut) return;
-
-        const caregiverName = ci.caregiver_name;
-        const start = new Date(ci.timestamp);
-        const end = new Date(checkOut.timestamp);
-        const totalMinutes = (end.getTime() - start.getTime()) / (1000 * 60);
-
-        // Mark both as processed
-        processed.add(ci.id);
-        processed.add(checkOut.id);
-
-        if (!caregiverMap.has(caregiverName)) {
-          caregiverMap.set(caregiverName, { regularHours: 0, holiday25Hours: 0, holiday100Hours: 0 });
-        }
-
-        const stats = caregiverMap.get(caregiverName)!;
-
-        // Check for holiday majoration using beneficiary's local timezone
-        const dateStr = formatInTimeZone(start, timezone, 'yyyy-MM-dd');
-        const publicHolidayMajoration = getHolidayMajoration(dateStr);
-
-        // If it's May 1st or Dec 25th (100% majoration holidays)
-        if (publicHolidayMajoration === 1.0) {
-          stats.holiday100Hours += totalMinutes / 60;
-        }
-        // If it's another public holiday or Sunday (25% majoration)
-        else if (publicHolidayMajoration === 0.25) {
-          stats.holiday25Hours += totalMinutes / 60;
-        }
-        // Otherwise, check for time-of-day rates (8 AM - 8 PM regular, before/after 25%)
-        else {
-          // Convert to beneficiary's local timezone for time-of-day calculations
-          const startLocal = toZonedTime(start, timezone);
-          const endLocal = toZonedTime(end, timezone);
-
-          // Create 8 AM and 8 PM boundaries in beneficiary's local time
-          const morningStart = new Date(startLocal);
-          morningStart.setHours(8, 0, 0, 0);
-          const eveningStart = new Date(startLocal);
-          eveningStart.setHours(20, 0, 0, 0);
-
-          // Calculate minutes in each time period
-          let earlyMorningMinutes = 0;  // Before 8 AM local (25%)
-          let regularMinutes = 0;        // 8 AM - 8 PM local (regular)
-          let eveningMinutes = 0;        // After 8 PM local (25%)
-
-          // If shift starts before 8 AM local
-          if (startLocal < morningStart) {
-            if (endLocal <= morningStart) {
-              // Entire shift before 8 AM
-              earlyMorningMinutes = totalMinutes;
-            } else {
-              // Shift crosses 8 AM boundary
-              earlyMorningMinutes = (morningStart.getTime() - startLocal.getTime()) / (1000 * 60);
-
-              // Check if it also crosses 8 PM
-              if (endLocal > eveningStart) {
-                regularMinutes = (eveningStart.getTime() - morningStart.getTime()) / (1000 * 60);
-                eveningMinutes = (endLocal.getTime() - eveningStart.getTime()) / (1000 * 60);
-              } else {
-                regularMinutes = (endLocal.getTime() - morningStart.getTime()) / (1000 * 60);
-              }
-            }
-          }
-          // If shift starts between 8 AM and 8 PM local
-          else if (startLocal >= morningStart && startLocal < eveningStart) {
-            if (endLocal <= eveningStart) {
-              // Entire shift in regular hours
-              regularMinutes = totalMinutes;
-            } else {
-              // Shift crosses 8 PM boundary
-              regularMinutes = (eveningStart.getTime() - startLocal.getTime()) / (1000 * 60);
-              eveningMinutes = (endLocal.getTime() - eveningStart.getTime()) / (1000 * 60);
-            }
-          }
-          // If shift starts after 8 PM local
-          else {
-            eveningMinutes = totalMinutes;
-          }
-
-          stats.holiday25Hours += (earlyMorningMinutes + eveningMinutes) / 60;
-          stats.regularHours += regularMinutes / 60;
-        }
-      }
-    });
-
-    // Convert to array and calculate amounts using time-based rates
-    const summaries: CaregiverSummary[] = [];
-    caregiverMap.forEach((stats, name) => {
-      // If no rate history, use the single regular rate (backward compatibility)
-      if (!rateHistory || rateHistory.length === 0) {
-        const regularAmount = stats.regularHours * regularRate;
-        const holiday25Amount = stats.holiday25Hours * rate25;
-        const holiday100Amount = stats.holiday100Hours * rate100;
-        const totalAmount = regularAmount + holiday25Amount + holiday100Amount;
-        const totalHours = stats.regularHours + stats.holiday25Hours + stats.holiday100Hours;
-
-        summaries.push({
-          name,
-          regularHours: stats.regularHours,
-          holiday25Hours: stats.holiday25Hours,
-          holiday100Hours: stats.holiday100Hours,
-          totalHours,
-          regularAmount,
-          holiday25Amount,
-          holiday100Amount,
-          totalAmount,
-        });
-      } else {
-        // With rate history, we need to recalculate by going through check-ins again
-        // to use the correct rate for each time period
-        // For now, we'll use a weighted average approach by recalculating with date-specific rates
-        const caregiverCheckIns = sorted.filter(ci =>
-          ci.caregiver_name === name &&
-          ci.action === 'check-in' &&
-          !ci.is_training
-        );
-
-        let regularAmount = 0;
-        let holiday25Amount = 0;
-        let holiday100Amount = 0;
-
-        caregiverCheckIns.forEach((ci) => {
-          const checkOut = sorted.find(
-            (co) =>
-              co.action === 'check-out' &&
-              co.caregiver_name === ci.caregiver_name &&
-              new Date(co.timestamp).getTime() > new Date(ci.timestamp).getTime()
-          );
-
-          if (!checkOut) return;
-
-          const start = new Date(ci.timestamp);
-          const end = new Date(checkOut.timestamp);
-          const totalMinutes = (end.getTime() - start.getTime()) / (1000 * 60);
-
-          // Get the rate that was effective on this check-in date
-          const { billingRate: applicableRate } = getRateForDate(rateHistory, start, regularRate, timezone);
-          const rate25 = applicableRate * 1.25;
-          const rate100 = applicableRate * 2.0;
-
-          // Determine which rate category this check-in falls into
-          const dateStr = formatInTimeZone(start, timezone, 'yyyy-MM-dd');
-          const publicHolidayMajoration = getHolidayMajoration(dateStr);
-
-          if (publicHolidayMajoration === 1.0) {
-            const hours = totalMinutes / 60;
-            holiday100Amount += hours * rate100;
-          } else if (publicHolidayMajoration === 0.25) {
-            const hours = totalMinutes / 60;
-            holiday25Amount += hours * rate25;
-          } else {
-            // Time-of-day calculation (same as before)
-            const startLocal = toZonedTime(start, timezone);
-            const endLocal = toZonedTime(end, timezone);
-            const morningStart = new Date(startLocal);
-            morningStart.setHours(8, 0, 0, 0);
-            const eveningStart = new Date(startLocal);
-            eveningStart.setHours(20, 0, 0, 0);
-
-            let earlyMorningMinutes = 0;
-            let regularMinutes = 0;
-            let eveningMinutes = 0;
-
-            if (startLocal < morningStart) {
-              if (endLocal <= morningStart) {
-                earlyMorningMinutes = totalMinutes;
-              } else {
-                earlyMorningMinutes = (morningStart.getTime() - startLocal.getTime()) / (1000 * 60);
-                if (endLocal > eveningStart) {
-                  regularMinutes = (eveningStart.getTime() - morningStart.getTime()) / (1000 * 60);
-                  eveningMinutes = (endLocal.getTime() - eveningStart.getTime()) / (1000 * 60);
-                } else {
-                  regularMinutes = (endLocal.getTime() - morningStart.getTime()) / (1000 * 60);
-                }
-              }
-            } else if (startLocal >= morningStart && startLocal < eveningStart) {
-              if (endLocal <= eveningStart) {
-                regularMinutes = totalMinutes;
-              } else {
-                regularMinutes = (eveningStart.getTime() - startLocal.getTime()) / (1000 * 60);
-                eveningMinutes = (endLocal.getTime() - eveningStart.getTime()) / (1000 * 60);
-              }
-            } else {
-              eveningMinutes = totalMinutes;
-            }
-
-            const regularHours = regularMinutes / 60;
-            const majoredHours = (earlyMorningMinutes + eveningMinutes) / 60;
-            regularAmount += regularHours * applicableRate;
-            holiday25Amount += majoredHours * rate25;
-          }
-        });
-
-        const totalAmount = regularAmount + holiday25Amount + holiday100Amount;
-        const totalHours = stats.regularHours + stats.holiday25Hours + stats.holiday100Hours;
-
-        summaries.push({
-          name,
-          regularHours: stats.regularHours,
-          holiday25Hours: stats.holiday25Hours,
-          holiday100Hours: stats.holiday100Hours,
-          totalHours,
-          regularAmount,
-          holiday25Amount,
-          holiday100Amount,
-          totalAmount,
-        });
-      }
-    });
-
-    return summaries.sort((a, b) => a.name.localeCompare(b.name));
-  };
+  const billing = computeBilling({
+    checkIns,
+    pairs: visits,
+    rateHistory,
+    fallbackRate: regularRate,
+    timezone,
+    holidays: holidayCalendar,
+    majorationRuleSets,
+    vat: vatSettings,
+  });
 
-  const calculateTrainingSessions = (): TrainingSummary[] => {
-    const trainingMap = new Map<string, TrainingSession[]>();
-
-    // Group check-ins by caregiver
-    const sorted = [...checkIns].sort((a, b) =>
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-
-    const processed = new Set<string>();
-
-    // Find training session pairs
-    sorted.forEach((ci) => {
-      if (processed.has(ci.id)) return;
-
-      if (ci.action === 'check-in' && ci.is_training) {
-        // Find matching check-out (next check-out from same caregiver)
-        const checkOut = sorted.find(
-          (co) =>
-            !processed.has(co.id) &&
-            co.action === 'check-out' &&
-            co.caregiver_name === ci.caregiver_name &&
-            new Date(co.timestamp).getTime() > new Date(ci.timestamp).getTime()
-        );
-
-        if (!checkOut) return;
-
-        const caregiverName = ci.caregiver_name;
-        const checkInTime = new Date(ci.timestamp);
-        const checkOutTime = new Date(checkOut.timestamp);
-        const hours = (checkOutTime.getTime() - checkInTime.getTime()) / (1000 * 60 * 60);
-
-        // Mark both as processed
-        processed.add(ci.id);
-        processed.add(checkOut.id);
-
-        if (!trainingMap.has(caregiverName)) {
-          trainingMap.set(caregiverName, []);
-        }
-
-        trainingMap.get(caregiverName)!.push({
-          date: checkInTime,
-          checkIn: checkInTime,
-          checkOut: checkOutTime,
-          hours,
-        });
-      }
-    });
-
-    // Convert to array
-    const trainingSummaries: TrainingSummary[] = [];
-    trainingMap.forEach((sessions, name) => {
-      const totalHours = sessions.reduce((sum, session) => sum + session.hours, 0);
-      trainingSummaries.push({
-        name,
-        sessions,
-        totalHours,
-      });
-    });
-
-    return trainingSummaries.sort((a, b) => a.name.localeCompare(b.name));
-  };
+  const summaries = billing.caregivers.filter(cg => cg.totalHours > 0);
+  const totals = billing.totals;
 
-  const summaries = calculateHoursPerCaregiver();
-  const trainingSummaries = calculateTrainingSessions();
-  const totals = summaries.reduce(
-    (acc, summary) => ({
-      regularHours: acc.regularHours + summary.regularHours,
-      holiday25Hours: acc.holiday25Hours + summary.holiday25Hours,
-      holiday100Hours: acc.holiday100Hours + summary.holiday100Hours,
-      totalHours: acc.totalHours + summary.totalHours,
-      regularAmount: acc.regularAmount + summary.regularAmount,
-      holiday25Amount: acc.holiday25Amount + summary.holiday25Amount,
-      holiday100Amount: acc.holiday100Amount + summary.holiday100Amount,
-      totalAmount: acc.totalAmount + summary.totalAmount,
-    }),
-    { regularHours: 0, holiday25Hours: 0, holiday100Hours: 0, totalHours: 0, regularAmount: 0, holiday25Amount: 0, holiday100Amount: 0, totalAmount: 0 }
-  );
+  // Funders covering the selected month; without any, the ticket modérateur defines a single APA plan
+  const monthFunders = getFundersForMonth(funders, selectedMonth);
+  const activeFunders = monthFunders.length > 0 ? monthFunders : getDefaultFunders(copayPercentage);
 
   return (
     <div className="bg-white rounded-lg shadow-lg p-4 md:p-6">
@@ -468,33 +176,58 @@ export default function CaregiverBreakdown({
       ) : (
         <>
 {/* RÉSUMÉ FINANCIER */}
-{copayPercentage > 0 && (() => {
-  // Calculate per-hour rates for display
-  const rate25 = displayRate * 1.25;
-  const rate100 = displayRate * 2.0;
-
-  // APA coverage per hour (constant regardless of majoration)
-  const apaPerHour = displayConventionedRate * (1 - copayPercentage / 100);
-
-  // Beneficiary per hour calculations
-  const rateExcess = Math.max(0, displayRate - displayConventionedRate);
-  const benefCopay = displayConventionedRate * (copayPercentage / 100);
-  const benefNormal = benefCopay + rateExcess;
-  const benef25 = benefNormal + (displayRate * 0.25);
-  const benef100 = benefNormal + (displayRate * 1.0);
-
-  // Total calculations
-  const totalCalendarHours = totals.regularHours + totals.holiday25Hours + totals.holiday100Hours;
-  const conventionedBaseHT = totalCalendarHours * displayConventionedRate;
-  const apaHT = conventionedBaseHT * (1 - copayPercentage / 100);
-  const benefHT = totals.totalAmount - apaHT;
+{activeFunders.length > 0 && (() => {
+  // Per hour split at each majoration level (monthly hour caps don't apply to a single hour)
+  const hourFunders = activeFunders.map(funder => ({ ...funder, monthly_hours_cap: undefined }));
+  const splitForHour = (percentage: number) => splitAmongFunders({
+    hours: 1,
+    amount: getMajoratedRate(displayRate, percentage),
+    funders: hourFunders,
+    conventionedRate: displayConventionedRate,
+  });
+  const apaForLevel = (percentage: number) => splitForHour(percentage).fundedAmount;
+  const benefNormal = splitForHour(0).beneficiaryAmount;
+  const benefForLevel = (percentage: number) => splitForHour(percentage).beneficiaryAmount;
+
+  // Total calculations: funders in priority order, the rest is left to the beneficiary
+  const conventionedBaseHT = totals.totalHours * displayConventionedRate;
+  const split = splitAmongFunders({
+    hours: totals.totalHours,
+    amount: totals.totalAmount,
+    funders: activeFunders,
+    conventionedRate: displayConventionedRate,
+  });
+  const apaHT = split.fundedAmount;
+  const benefHT = split.beneficiaryAmount;
+
+  // Hour tables: one per majoration level with billed hours
+  const billedLevels = getBilledMajorationLevels(summaries);
+
+  // Funders' share of each caregiver row of the hour tables
+  const detailRows = billedLevels.flatMap(percentage => summaries
+    .map(cg => ({ key: `${percentage}|${cg.name}`, ...getMajorationBucket(cg, percentage) }))
+    .filter(row => row.hours > 0));
+  const detailFunding = allocateFunderSplit(split, detailRows, displayConventionedRate);
+  const fundedForRow = (percentage: number, name: string) =>
+    detailFunding[detailRows.findIndex(row => row.key === `${percentage}|${name}`)] || 0;
+  const fundersLabel = activeFunders.length === 1
+    ? activeFunders[0].name
+    : (language === 'fr' ? 'Financeurs' : 'Funders');
+
+  // VAT actually billed this month (blended if the VAT rate changed mid-month)
+  const vatRate = getBilledVatRate(totals, displayVatRate);
+  const vatLabel = formatVatRate(vatRate, language);
+  const ttcFactor = 1 + displayVatRate / 100;
 
   // Format helper
-  const f = (ht: number) => ({
-    ht: formatNumber(ht, 2, language),
-    tva: formatNumber(ht * 0.055, 2, language),
-    ttc: formatNumber(ht * 1.055, 2, language),
-  });
+  const f = (ht: number) => {
+    const { vat, ttc } = applyVat(ht, vatRate);
+    return {
+      ht: formatNumber(ht, 2, language),
+      tva: formatNumber(vat, 2, language),
+      ttc: formatNumber(ttc, 2, language),
+    };
+  };
 
   const totalFmt = f(totals.totalAmount);
   const apaFmt = f(apaHT);
@@ -507,39 +240,6 @@ export default function CaregiverBreakdown({
   const apaValueRemaining = apaAllowanceValue ? apaAllowanceValue - apaValueConsumed : undefined;
   const apaUsagePercent = displayApaMonthlyHours ? (totals.totalHours / displayApaMonthlyHours) * 100 : undefined;
 
-  // Group caregivers by hour type
-  const caregiversByType = {
-    regular: [] as { name: string; hours: number; amount: number }[],
-    holiday25: [] as { name: string; hours: number; amount: number; dates: string[] }[],
-    holiday100: [] as { name: string; hours: number; amount: number; dates: string[] }[],
-  };
-
-  calculateHoursPerCaregiver().forEach(cg => {
-    if (cg.regularHours > 0) {
-      caregiversByType.regular.push({
-        name: cg.name,
-        hours: cg.regularHours,
-        amount: cg.regularAmount,
-      });
-    }
-    if (cg.holiday25Hours > 0) {
-      caregiversByType.holiday25.push({
-        name: cg.name,
-        hours: cg.holiday25Hours,
-        amount: cg.holiday25Amount,
-        dates: [], // TODO: extract dates from check-ins
-      });
-    }
-    if (cg.holiday100Hours > 0) {
-      caregiversByType.holiday100.push({
-        name: cg.name,
-        hours: cg.holiday100Hours,
-        amount: cg.holiday100Amount,
-        dates: [], // TODO: extract dates from check-ins
-      });
-    }
-  });
-
   const monthName = format(selectedMonth, 'MMMM yyyy', { locale });
 
   return (
@@ -553,169 +253,29 @@ export default function CaregiverBreakdown({
 
       {/* HOUR DETAILS TABLES - Full width */}
       <div className="space-y-4">
-          {/* REGULAR HOURS - Always shown on top */}
-          {caregiversByType.regular.length > 0 && (
-            <div>
-              <div className="bg-teal-100 px-3 py-2 font-semibold text-gray-800 border-b-2 border-teal-200 text-xs md:text-sm">
-                {language === 'fr' ? 'HEURES NORMALES' : 'NORMAL HOURS'} - {formatNumber(displayRate, 2, language)}€ HT/h
-              </div>
-              <table className="w-full text-xs md:text-sm" style={{ tableLayout: 'fixed' }}>
-                <thead>
-                  <tr className="border-b border-gray-300 bg-teal-50 text-gray-800">
-                    <th className="text-left p-1 md:p-2" style={{ width: '25%' }}>
-                      <span className="md:hidden">{language === 'fr' ? 'Nom' : 'Name'}</span>
-                      <span className="hidden md:inline">{language === 'fr' ? 'Aide-soignant' : 'Caregiver'}</span>
-                    </th>
-                    <th className="text-right p-1 md:p-2" style={{ width: '15%' }}>
-                      <span className="md:hidden">{language === 'fr' ? 'H.' : 'H.'}</span>
-                      <span className="hidden md:inline">{language === 'fr' ? 'Heures' : 'Hours'}</span>
-                    </th>
-                    <th className="text-right p-1 md:p-2" style={{ width: '20%' }}>
-                      <span className="md:hidden">{language === 'fr' ? 'Fact.' : 'Bill'}</span>
-                      <span className="hidden md:inline">{language === 'fr' ? 'Facturé' : 'Billed'}</span>
-                    </th>
-                    <th className="text-right p-1 md:p-2" style={{ width: '20%' }}>APA</th>
-                    <th className="text-right p-1 md:p-2" style={{ width: '20%' }}>
-                      <span className="md:hidden">{language === 'fr' ? 'Bén.' : 'Ben.'}</span>
-                      <span className="hidden md:inline">{language === 'fr' ? 'Bénéficiaire' : 'Beneficiary'}</span>
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="text-gray-800">
-                  {caregiversByType.regular.map((cg, idx) => (
-                    <tr key={idx} className="border-b border-gray-200 bg-white">
-                      <td className="p-1 md:p-2 text-[11px] md:text-sm">{cg.name}</td>
-                      <td className="text-right p-1 md:p-2 font-mono">
-                        <span className="md:hidden">{formatNumber(cg.hours, 1, language)}</span>
-                        <span className="hidden md:inline">{formatNumber(cg.hours, 2, language)}h<br/><span className="text-[10px] text-gray-500">{decimalToHHMM(cg.hours)}</span></span>
-                      </td>
-                      <td className="text-right p-1 md:p-2 font-mono">
-                        <span className="md:hidden">{formatNumber(cg.amount, 0, language)}€</span>
-                        <span className="hidden md:inline">{formatNumber(cg.amount, 2, language)}€</span>
-                      </td>
-                      <td className="text-right p-1 md:p-2 font-mono">
-                        <span className="md:hidden">{formatNumber(cg.hours * apaPerHour, 0, language)}€</span>
-                        <span className="hidden md:inline">{formatNumber(cg.hours * apaPerHour, 2, language)}€</span>
-                      </td>
-                      <td className="text-right p-1 md:p-2 font-mono">
-                        <span className="md:hidden">{formatNumber(cg.hours * benefNormal, 0, language)}€</span>
-                        <span className="hidden md:inline">{formatNumber(cg.hours * benefNormal, 2, language)}€</span>
-                      </td>
-                    </tr>
-                  ))}
-                  <tr className="border-t-2 border-teal-200 bg-teal-100 text-gray-800 font-semibold">
-                    <td className="p-1 md:p-2 text-[11px] md:text-sm">{language === 'fr' ? 'SOUS-TOTAL' : 'SUBTOTAL'}</td>
-                    <td className="text-right p-1 md:p-2 font-mono">
-                      <span className="md:hidden">{formatNumber(totals.regularHours, 1, language)}</span>
-                      <span className="hidden md:inline">{formatNumber(totals.regularHours, 2, language)}h<br/><span className="text-[10px]">{decimalToHHMM(totals.regularHours)}</span></span>
-                    </td>
-                    <td className="text-right p-1 md:p-2 font-mono">
-                      <span className="md:hidden">{formatNumber(totals.regularAmount, 0, language)}€</span>
-                      <span className="hidden md:inline">{formatNumber(totals.regularAmount, 2, language)}€</span>
-                    </td>
-                    <td className="text-right p-1 md:p-2 font-mono">
-                      <span className="md:hidden">{formatNumber(totals.regularHours * apaPerHour, 0, language)}€</span>
-                      <span className="hidden md:inline">{formatNumber(totals.regularHours * apaPerHour, 2, language)}€</span>
-                    </td>
-                    <td className="text-right p-1 md:p-2 font-mono">
-                      <span className="md:hidden">{formatNumber(totals.regularHours * benefNormal, 0, language)}€</span>
-                      <span className="hidden md:inline">{formatNumber(totals.regularHours * benefNormal, 2, language)}€</span>
-                    </td>
-                  </tr>
-                </tbody>
-              </table>
-            </div>
-          )}
-
-          {/* +25% hours - only show if there are any */}
-          {caregiversByType.holiday25.length > 0 && totals.holiday25Hours > 0 && (
-            <div>
-              <div className="bg-teal-600 px-3 py-2 text-white border-b-2 border-teal-700 font-semibold text-xs md:text-sm">
-                {language === 'fr' ? 'HEURES MAJORÉES +25%' : 'PREMIUM HOURS +25%'} - {formatNumber(rate25, 2, language)}€ HT/h
-                <span className="text-xs font-normal ml-2 hidden md:inline">
-                  ({language === 'fr' ? 'Dimanches, jours fériés, avant 8h ou après 20h' : 'Sundays, holidays, before 8 AM or after 8 PM'})
-                </span>
-              </div>
-              <table className="w-full text-xs md:text-sm" style={{ tableLayout: 'fixed' }}>
-                <thead>
-                  <tr className="border-b border-gray-300 bg-teal-500 text-white">
-                    <th className="text-left p-1 md:p-2" style={{ width: '25%' }}>
-                      <span className="md:hidden">{language === 'fr' ? 'Nom' : 'Name'}</span>
-                      <span className="hidden md:inline">{language === 'fr' ? 'Aide-soignant' : 'Caregiver'}</span>
-                    </th>
-                    <th className="text-right p-1 md:p-2" style={{ width: '15%' }}>
-                      <span className="md:hidden">{language === 'fr' ? 'H.' : 'H.'}</span>
-                      <span className="hidden md:inline">{language === 'fr' ? 'Heures' : 'Hours'}</span>
-                    </th>
-                    <th className="text-right p-1 md:p-2" style={{ width: '20%' }}>
-                      <span className="md:hidden">{language === 'fr' ? 'Fact.' : 'Bill'}</span>
-                      <span className="hidden md:inline">{language === 'fr' ? 'Facturé' : 'Billed'}</span>
-                    </th>
-                    <th className="text-right p-1 md:p-2" style={{ width: '20%' }}>APA</th>
-                    <th className="text-right p-1 md:p-2" style={{ width: '20%' }}>
-                      <span className="md:hidden">{language === 'fr' ? 'Bén.' : 'Ben.'}</span>
-                      <span className="hidden md:inline">{language === 'fr' ? 'Bénéficiaire' : 'Beneficiary'}</span>
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="text-gray-800">
-                  {caregiversByType.holiday25.map((cg, idx) => (
-                    <tr key={idx} className="border-b border-gray-200 bg-white">
-                      <td className="p-1 md:p-2 text-[11px] md:text-sm">{cg.name}</td>
-                      <td className="text-right p-1 md:p-2 font-mono">
-                        <span className="md:hidden">{formatNumber(cg.hours, 1, language)}</span>
-                        <span className="hidden md:inline">{formatNumber(cg.hours, 2, language)}h<br/><span className="text-[10px] text-gray-500">{decimalToHHMM(cg.hours)}</span></span>
-                      </td>
-                      <td className="text-right p-1 md:p-2 font-mono">
-                        <span className="md:hidden">{formatNumber(cg.amount, 0, language)}€</span>
-                        <span className="hidden md:inline">{formatNumber(cg.amount, 2, language)}€</span>
-                      </td>
-                      <td className="text-right p-1 md:p-2 font-mono">
-                        <span className="md:hidden">{formatNumber(cg.hours * apaPerHour, 0, language)}€</span>
-                        <span className="hidden md:inline">{formatNumber(cg.hours * apaPerHour, 2, language)}€</span>
-                      </td>
-                      <td className="text-right p-1 md:p-2 font-mono">
-                        <span className="md:hidden">{formatNumber(cg.hours * benef25, 0, language)}€</span>
-                        <span className="hidden md:inline">{formatNumber(cg.hours * benef25, 2, language)}€</span>
-                      </td>
-                    </tr>
-                  ))}
-                  <tr className="border-t-2 border-teal-700 bg-teal-600 text-white font-semibold">
-                    <td className="p-1 md:p-2 text-[11px] md:text-sm">{language === 'fr' ? 'SOUS-TOTAL' : 'SUBTOTAL'}</td>
-                    <td className="text-right p-1 md:p-2 font-mono">
-                      <span className="md:hidden">{formatNumber(totals.holiday25Hours, 1, language)}</span>
-                      <span className="hidden md:inline">{formatNumber(totals.holiday25Hours, 2, language)}h<br/><span className="text-[10px]">{decimalToHHMM(totals.holiday25Hours)}</span></span>
-                    </td>
-                    <td className="text-right p-1 md:p-2 font-mono">
-                      <span className="md:hidden">{formatNumber(totals.holiday25Amount, 0, language)}€</span>
-                      <span className="hidden md:inline">{formatNumber(totals.holiday25Amount, 2, language)}€</span>
-                    </td>
-                    <td className="text-right p-1 md:p-2 font-mono">
-                      <span className="md:hidden">{formatNumber(totals.holiday25Hours * apaPerHour, 0, language)}€</span>
-                      <span className="hidden md:inline">{formatNumber(totals.holiday25Hours * apaPerHour, 2, language)}€</span>
-                    </td>
-                    <td className="text-right p-1 md:p-2 font-mono">
-                      <span className="md:hidden">{formatNumber(totals.holiday25Hours * benef25, 0, language)}€</span>
-                      <span className="hidden md:inline">{formatNumber(totals.holiday25Hours * benef25, 2, language)}€</span>
-                    </td>
-                  </tr>
-                </tbody>
-              </table>
-            </div>
-          )}
+          {/* One table per majoration level - regular hours always on top */}
+          {billedLevels.map((percentage, levelIdx) => {
+            const style = LEVEL_STYLES[Math.min(levelIdx + (billedLevels[0] === 0 ? 0 : 1), LEVEL_STYLES.length - 1)];
+            const levelTotal = getMajorationBucket(totals, percentage);
+            const levelCaregivers = summaries
+              .map(cg => ({ name: cg.name, ...getMajorationBucket(cg, percentage) }))
+              .filter(cg => cg.hours > 0);
+            const description = percentage > 0 ? describeMajorationLevel(displayRuleSet, percentage, language) : '';
+            const levelFunded = levelCaregivers.reduce((sum, cg) => sum + fundedForRow(percentage, cg.name), 0);
 
-          {/* +100% hours - only show if there are any */}
-          {caregiversByType.holiday100.length > 0 && totals.holiday100Hours > 0 && (
-            <div>
-              <div className="bg-teal-700 px-3 py-2 text-white border-b-2 border-teal-800 font-semibold text-xs md:text-sm">
-                {language === 'fr' ? 'HEURES MAJORÉES +100%' : 'PREMIUM HOURS +100%'} - {formatNumber(rate100, 2, language)}€ HT/h
-                <span className="text-xs font-normal ml-2 hidden md:inline">
-                  ({language === 'fr' ? '1er mai et 25 décembre uniquement' : 'May 1st and December 25th only'})
-                </span>
+            return (
+            <div key={percentage}>
+              <div className={`${style.header} px-3 py-2 font-semibold border-b-2 text-xs md:text-sm`}>
+                {percentage === 0
+                  ? (language === 'fr' ? 'HEURES NORMALES' : 'NORMAL HOURS')
+                  : (language === 'fr' ? `HEURES MAJORÉES +${percentage}%` : `PREMIUM HOURS +${percentage}%`)} - {formatNumber(getMajoratedRate(displayRate, percentage), 2, language)}€ HT/h
+                {description && (
+                  <span className="text-xs font-normal ml-2 hidden md:inline">({description})</span>
+                )}
               </div>
               <table className="w-full text-xs md:text-sm" style={{ tableLayout: 'fixed' }}>
                 <thead>
-                  <tr className="border-b border-gray-300 bg-teal-600 text-white">
+                  <tr className={`border-b border-gray-300 ${style.thead}`}>
                     <th className="text-left p-1 md:p-2" style={{ width: '25%' }}>
                       <span className="md:hidden">{language === 'fr' ? 'Nom' : 'Name'}</span>
                       <span className="hidden md:inline">{language === 'fr' ? 'Aide-soignant' : 'Caregiver'}</span>
@@ -728,7 +288,7 @@ export default function CaregiverBreakdown({
                       <span className="md:hidden">{language === 'fr' ? 'Fact.' : 'Bill'}</span>
                       <span className="hidden md:inline">{language === 'fr' ? 'Facturé' : 'Billed'}</span>
                     </th>
-                    <th className="text-right p-1 md:p-2" style={{ width: '20%' }}>APA</th>
+                    <th className="text-right p-1 md:p-2 truncate" style={{ width: '20%' }}>{fundersLabel}</th>
                     <th className="text-right p-1 md:p-2" style={{ width: '20%' }}>
                       <span className="md:hidden">{language === 'fr' ? 'Bén.' : 'Ben.'}</span>
                       <span className="hidden md:inline">{language === 'fr' ? 'Bénéficiaire' : 'Beneficiary'}</span>
@@ -736,7 +296,7 @@ export default function CaregiverBreakdown({
                   </tr>
                 </thead>
                 <tbody className="text-gray-800">
-                  {caregiversByType.holiday100.map((cg, idx) => (
+                  {levelCaregivers.map((cg, idx) => (
                     <tr key={idx} className="border-b border-gray-200 bg-white">
                       <td className="p-1 md:p-2 text-[11px] md:text-sm">{cg.name}</td>
                       <td className="text-right p-1 md:p-2 font-mono">
@@ -748,38 +308,39 @@ export default function CaregiverBreakdown({
                         <span className="hidden md:inline">{formatNumber(cg.amount, 2, language)}€</span>
                       </td>
                       <td className="text-right p-1 md:p-2 font-mono">
-                        <span className="md:hidden">{formatNumber(cg.hours * apaPerHour, 0, language)}€</span>
-                        <span className="hidden md:inline">{formatNumber(cg.hours * apaPerHour, 2, language)}€</span>
+                        <span className="md:hidden">{formatNumber(fundedForRow(percentage, cg.name), 0, language)}€</span>
+                        <span className="hidden md:inline">{formatNumber(fundedForRow(percentage, cg.name), 2, language)}€</span>
                       </td>
                       <td className="text-right p-1 md:p-2 font-mono">
-                        <span className="md:hidden">{formatNumber(cg.hours * benef100, 0, language)}€</span>
-                        <span className="hidden md:inline">{formatNumber(cg.hours * benef100, 2, language)}€</span>
+                        <span className="md:hidden">{formatNumber(cg.amount - fundedForRow(percentage, cg.name), 0, language)}€</span>
+                        <span className="hidden md:inline">{formatNumber(cg.amount - fundedForRow(percentage, cg.name), 2, language)}€</span>
                       </td>
                     </tr>
                   ))}
-                  <tr className="border-t-2 border-teal-800 bg-teal-700 text-white font-semibold">
+                  <tr className={`border-t-2 ${style.subtotal} font-semibold`}>
                     <td className="p-1 md:p-2 text-[11px] md:text-sm">{language === 'fr' ? 'SOUS-TOTAL' : 'SUBTOTAL'}</td>
                     <td className="text-right p-1 md:p-2 font-mono">
-                      <span className="md:hidden">{formatNumber(totals.holiday100Hours, 1, language)}</span>
-                      <span className="hidden md:inline">{formatNumber(totals.holiday100Hours, 2, language)}h<br/><span className="text-[10px]">{decimalToHHMM(totals.holiday100Hours)}</span></span>
+                      <span className="md:hidden">{formatNumber(levelTotal.hours, 1, language)}</span>
+                      <span className="hidden md:inline">{formatNumber(levelTotal.hours, 2, language)}h<br/><span className="text-[10px]">{decimalToHHMM(levelTotal.hours)}</span></span>
                     </td>
                     <td className="text-right p-1 md:p-2 font-mono">
-                      <span className="md:hidden">{formatNumber(totals.holiday100Amount, 0, language)}€</span>
-                      <span className="hidden md:inline">{formatNumber(totals.holiday100Amount, 2, language)}€</span>
+                      <span className="md:hidden">{formatNumber(levelTotal.amount, 0, language)}€</span>
+                      <span className="hidden md:inline">{formatNumber(levelTotal.amount, 2, language)}€</span>
                     </td>
                     <td className="text-right p-1 md:p-2 font-mono">
-                      <span className="md:hidden">{formatNumber(totals.holiday100Hours * apaPerHour, 0, language)}€</span>
-                      <span className="hidden md:inline">{formatNumber(totals.holiday100Hours * apaPerHour, 2, language)}€</span>
+                      <span className="md:hidden">{formatNumber(levelFunded, 0, language)}€</span>
+                      <span className="hidden md:inline">{formatNumber(levelFunded, 2, language)}€</span>
                     </td>
                     <td className="text-right p-1 md:p-2 font-mono">
-                      <span className="md:hidden">{formatNumber(totals.holiday100Hours * benef100, 0, language)}€</span>
-                      <span className="hidden md:inline">{formatNumber(totals.holiday100Hours * benef100, 2, language)}€</span>
+                      <span className="md:hidden">{formatNumber(levelTotal.amount - levelFunded, 0, language)}€</span>
+                      <span className="hidden md:inline">{formatNumber(levelTotal.amount - levelFunded, 2, language)}€</span>
                     </td>
                   </tr>
                 </tbody>
               </table>
             </div>
-          )}
+            );
+          })}
 
         {/* TOTAL TABLE */}
         <div className="mt-4">
@@ -803,7 +364,7 @@ export default function CaregiverBreakdown({
                 <td className="text-right p-1 md:p-2 font-mono">{benefFmt.ht}€</td>
               </tr>
               <tr className="border-b border-slate-300 bg-slate-100 text-gray-700">
-                <td className="p-1 md:p-2 text-[11px] md:text-sm">{language === 'fr' ? 'TVA (5,5%)' : 'VAT (5.5%)'}</td>
+                <td className="p-1 md:p-2 text-[11px] md:text-sm">{language === 'fr' ? `TVA (${vatLabel}%)` : `VAT (${vatLabel}%)`}</td>
                 <td className="text-right p-1 md:p-2 font-mono"></td>
                 <td className="text-right p-1 md:p-2 font-mono">{totalFmt.tva}€</td>
                 <td className="text-right p-1 md:p-2 font-mono">{apaFmt.tva}€</td>
@@ -821,6 +382,50 @@ export default function CaregiverBreakdown({
         </div>
       </div>
 
+      {/* WHO PAYS WHAT */}
+      <div>
+        <h3 className="text-base md:text-lg font-semibold text-slate-800 mb-2">
+          {language === 'fr' ? 'RÉPARTITION PAR FINANCEUR' : 'SPLIT BY FUNDER'}
+        </h3>
+        <table className="w-full text-xs md:text-sm">
+          <thead>
+            <tr className="border-b-2 border-slate-600 bg-slate-600 text-white">
+              <th className="text-left p-1 md:p-2">{language === 'fr' ? 'Financeur' : 'Funder'}</th>
+              <th className="text-right p-1 md:p-2">{language === 'fr' ? 'Heures' : 'Hours'}</th>
+              <th className="text-right p-1 md:p-2">HT</th>
+              <th className="text-right p-1 md:p-2">{language === 'fr' ? `TVA (${vatLabel}%)` : `VAT (${vatLabel}%)`}</th>
+              <th className="text-right p-1 md:p-2">TTC</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-800">
+            {split.shares.map((share, idx) => {
+              const shareFmt = f(share.amount);
+              return (
+                <tr key={share.funder.id} className={`border-b border-slate-300 ${idx % 2 === 0 ? 'bg-white' : 'bg-slate-50'}`}>
+                  <td className="p-1 md:p-2">
+                    <div className="font-medium">{share.funder.name}</div>
+                    <div className="text-[10px] text-slate-600">
+                      {FUNDER_TYPE_LABELS[share.funder.funder_type][language]} · {describeFunderRule(share.funder, language, displayConventionedRate)}
+                    </div>
+                  </td>
+                  <td className="text-right p-1 md:p-2 font-mono">{formatNumber(share.coveredHours, 2, language)}h</td>
+                  <td className="text-right p-1 md:p-2 font-mono">{shareFmt.ht}€</td>
+                  <td className="text-right p-1 md:p-2 font-mono">{shareFmt.tva}€</td>
+                  <td className="text-right p-1 md:p-2 font-mono">{shareFmt.ttc}€</td>
+                </tr>
+              );
+            })}
+            <tr className="border-b border-slate-300 bg-amber-50 font-semibold">
+              <td className="p-1 md:p-2">{language === 'fr' ? 'Reste à charge bénéficiaire' : 'Left to the beneficiary'}</td>
+              <td className="text-right p-1 md:p-2 font-mono"></td>
+              <td className="text-right p-1 md:p-2 font-mono">{benefFmt.ht}€</td>
+              <td className="text-right p-1 md:p-2 font-mono">{benefFmt.tva}€</td>
+              <td className="text-right p-1 md:p-2 font-mono">{benefFmt.ttc}€</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
       {/* PAYMENT BOX */}
       <div className="bg-blue-50 p-6 rounded border-2 border-blue-200 text-center">
         <p className="text-sm md:text-base font-bold text-gray-800 mb-2">
@@ -858,44 +463,31 @@ export default function CaregiverBreakdown({
                   <tr className="border-b-2 border-slate-600 bg-slate-600 text-white">
                     <th className="text-left p-2">{language === 'fr' ? 'Type d\'heure' : 'Hour type'}</th>
                     <th className="text-right p-2">{language === 'fr' ? 'Vitalliance facture' : 'Company bills'}</th>
-                    <th className="text-right p-2">{language === 'fr' ? 'APA couvre' : 'APA covers'}</th>
+                    <th className="text-right p-2">{language === 'fr' ? `${fundersLabel} couvre` : `${fundersLabel} covers`}</th>
                     <th className="text-right p-2">{language === 'fr' ? 'Bénéficiaire paie' : 'Beneficiary pays'}</th>
                   </tr>
                 </thead>
                 <tbody className="text-slate-800">
-                  <tr className="border-b border-slate-300 bg-white">
-                    <td className="p-2">
-                      <div className="font-medium">{language === 'fr' ? 'Normal' : 'Normal'}</div>
-                      <div className="text-[10px] text-slate-600">{language === 'fr' ? 'Jours de semaine 8h-20h' : 'Weekdays 8am-8pm'}</div>
-                    </td>
-                    <td className="text-right p-2 font-mono">{formatNumber(displayRate, 2, language)}€</td>
-                    <td className="text-right p-2 font-mono">{formatNumber(apaPerHour, 2, language)}€</td>
-                    <td className="text-right p-2 font-mono">{formatNumber(benefNormal, 2, language)}€</td>
-                  </tr>
-                  <tr className="border-b border-slate-300 bg-slate-50">
-                    <td className="p-2">
-                      <div className="font-medium">{language === 'fr' ? 'Majoré +25%' : 'Premium +25%'}</div>
-                      <div className="text-[10px] text-slate-600">{language === 'fr' ? 'Jours fériés, dimanches, avant 8h ou après 20h' : 'Holidays, Sundays, before 8am or after 8pm'}</div>
-                    </td>
-                    <td className="text-right p-2 font-mono">{formatNumber(rate25, 2, language)}€</td>
-                    <td className="text-right p-2 font-mono">{formatNumber(apaPerHour, 2, language)}€</td>
-                    <td className="text-right p-2 font-mono">
-                      <div>{formatNumber(benef25, 2, language)}€</div>
-                      <div className="text-[10px] text-slate-500">({formatNumber(benefNormal, 2, language)} + {formatNumber(displayRate * 0.25, 2, language)})</div>
-                    </td>
-                  </tr>
-                  <tr className="border-b border-slate-300 bg-white">
-                    <td className="p-2">
-                      <div className="font-medium">{language === 'fr' ? 'Majoré +100%' : 'Premium +100%'}</div>
-                      <div className="text-[10px] text-slate-600">{language === 'fr' ? '1er mai et 25 décembre' : 'May 1st and December 25th'}</div>
-                    </td>
-                    <td className="text-right p-2 font-mono">{formatNumber(rate100, 2, language)}€</td>
-                    <td className="text-right p-2 font-mono">{formatNumber(apaPerHour, 2, language)}€</td>
-                    <td className="text-right p-2 font-mono">
-                      <div>{formatNumber(benef100, 2, language)}€</div>
-                      <div className="text-[10px] text-slate-500">({formatNumber(benefNormal, 2, language)} + {formatNumber(displayRate, 2, language)})</div>
-                    </td>
-                  </tr>
+                  {getMajorationLevels(displayRuleSet).map((percentage, idx) => (
+                    <tr key={percentage} className={`border-b border-slate-300 ${idx % 2 === 0 ? 'bg-white' : 'bg-slate-50'}`}>
+                      <td className="p-2">
+                        <div className="font-medium">
+                          {percentage === 0
+                            ? (language === 'fr' ? 'Normal' : 'Normal')
+                            : (language === 'fr' ? `Majoré +${percentage}%` : `Premium +${percentage}%`)}
+                        </div>
+                        <div className="text-[10px] text-slate-600">{describeMajorationLevel(displayRuleSet, percentage, language)}</div>
+                      </td>
+                      <td className="text-right p-2 font-mono">{formatNumber(getMajoratedRate(displayRate, percentage), 2, language)}€</td>
+                      <td className="text-right p-2 font-mono">{formatNumber(apaForLevel(percentage), 2, language)}€</td>
+                      <td className="text-right p-2 font-mono">
+                        <div>{formatNumber(benefForLevel(percentage), 2, language)}€</div>
+                        {percentage > 0 && (
+                          <div className="text-[10px] text-slate-500">({formatNumber(benefNormal, 2, language)} + {formatNumber(benefForLevel(percentage) - benefNormal, 2, language)})</div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
                 </tbody>
               </table>
             </div>
@@ -928,22 +520,22 @@ export default function CaregiverBreakdown({
                 <div className="border-t border-slate-300 pt-2 space-y-1">
                   <div className="flex justify-between text-sm">
                     <span>{language === 'fr' ? 'Tarif référence:' : 'Reference rate:'}</span>
-                    <span className="font-mono">{formatNumber(displayConventionedRate * 1.055, 2, language)}€ TTC/h ({formatNumber(displayConventionedRate, 2, language)}€ HT/h)</span>
+                    <span className="font-mono">{formatNumber(displayConventionedRate * ttcFactor, 2, language)}€ TTC/h ({formatNumber(displayConventionedRate, 2, language)}€ HT/h)</span>
                   </div>
                   {apaAllowanceValue && (
                     <div className="flex justify-between text-sm">
                       <span>{language === 'fr' ? 'Valeur du plan:' : 'Plan value:'}</span>
-                      <span className="font-mono">{formatNumber(apaAllowanceValue * 1.055, 2, language)}€ TTC ({formatNumber(apaAllowanceValue, 2, language)}€ HT)</span>
+                      <span className="font-mono">{formatNumber(apaAllowanceValue * ttcFactor, 2, language)}€ TTC ({formatNumber(apaAllowanceValue, 2, language)}€ HT)</span>
                     </div>
                   )}
                   <div className="flex justify-between text-sm">
                     <span>{language === 'fr' ? 'Consommé¹:' : 'Consumed¹:'}</span>
-                    <span className="font-mono">{formatNumber(apaValueConsumed * 1.055, 2, language)}€ TTC ({formatNumber(apaValueConsumed, 2, language)}€ HT)</span>
+                    <span className="font-mono">{formatNumber(apaValueConsumed * ttcFactor, 2, language)}€ TTC ({formatNumber(apaValueConsumed, 2, language)}€ HT)</span>
                   </div>
                   {apaValueRemaining !== undefined && (
                     <div className="flex justify-between text-sm">
                       <span>{language === 'fr' ? 'Non consommé:' : 'Not consumed:'}</span>
-                      <span className="font-mono">{formatNumber(apaValueRemaining * 1.055, 2, language)}€ TTC ({formatNumber(apaValueRemaining, 2, language)}€ HT)</span>
+                      <span className="font-mono">{formatNumber(apaValueRemaining * ttcFactor, 2, language)}€ TTC ({formatNumber(apaValueRemaining, 2, language)}€ HT)</span>
                     </div>
                   )}
                 </div>
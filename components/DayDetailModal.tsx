@@ -4,6 +4,9 @@ import { format } from 'date-fns';
 import { X, Clock, User, Camera, MapPin, CheckCircle, XCircle } from 'lucide-react';
 import { useState } from 'react';
 import DayNotesSection from './DayNotesSection';
+import VisitEditor from './VisitEditor';
+import { pairCheckInOuts } from '@/lib/billing';
+import { getPhotoUrl } from '@/lib/storage';
 
 type CheckInOut = {
   id: string;
@@ -14,30 +17,37 @@ type CheckInOut = {
   photo_url?: string;
   latitude?: number;
   longitude?: number;
+  corrected_check_out_at?: string | null;
+  verification_method?: string | null;
+  voided_at?: string | null;
 };
 
 type DayDetailModalProps = {
   date: Date;
   checkIns: CheckInOut[];
   onClose: () => void;
+  // Set both to allow manual corrections
+  beneficiaryId?: string;
+  timezone?: string;
+  onChange?: () => void;
 };
 
-export default function DayDetailModal({ date, checkIns, onClose }: DayDetailModalProps) {
+export default function DayDetailModal({ date, checkIns, onClose, beneficiaryId, timezone, onChange }: DayDetailModalProps) {
   const [showPhoto, setShowPhoto] = useState<string | null>(null);
 
+  // Photos are private: open them through a signed URL
+  const openPhoto = async (photoUrl: string) => {
+    setShowPhoto(await getPhotoUrl(photoUrl));
+  };
+
   const calculateDailyHours = () => {
     let totalHours = 0;
-    const sorted = [...checkIns].sort((a, b) =>
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-
-    for (let i = 0; i < sorted.length - 1; i++) {
-      if (sorted[i].action === 'check-in' && sorted[i + 1].action === 'check-out') {
-        const start = new Date(sorted[i].timestamp).getTime();
-        const end = new Date(sorted[i + 1].timestamp).getTime();
-        totalHours += (end - start) / (1000 * 60 * 60);
-      }
-    }
+    pairCheckInOuts(checkIns).forEach(({ checkIn, checkOut }) => {
+      if (!checkOut) return;
+      const start = new Date(checkIn.timestamp).getTime();
+      const end = new Date(checkOut.timestamp).getTime();
+      totalHours += (end - start) / (1000 * 60 * 60);
+    });
 
     return totalHours.toFixed(2);
   };
@@ -84,7 +94,7 @@ export default function DayDetailModal({ date, checkIns, onClose }: DayDetailMod
                     ci.action === 'check-in'
                       ? 'border-green-200 bg-green-50'
                       : 'border-red-200 bg-red-50'
-                  }`}
+                  } ${ci.voided_at ? 'opacity-50' : ''}`}
                 >
                   <div className="flex items-start justify-between">
                     <div className="flex items-start gap-3 flex-1">
@@ -101,9 +111,14 @@ export default function DayDetailModal({ date, checkIns, onClose }: DayDetailMod
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-2">
                           <User size={16} className="text-gray-600" />
-                          <span className="font-semibold text-gray-800">
+                          <span className={`font-semibold text-gray-800 ${ci.voided_at ? 'line-through' : ''}`}>
                             {ci.caregiver_name}
                           </span>
+                          {ci.verification_method === 'manual' && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-700">
+                              Manual entry
+                            </span>
+                          )}
                         </div>
 
                         <div className="flex items-center gap-2 text-sm text-gray-600 mb-2">
@@ -122,7 +137,7 @@ export default function DayDetailModal({ date, checkIns, onClose }: DayDetailMod
 
                         {ci.photo_url && (
                           <button
-                            onClick={() => setShowPhoto(ci.photo_url!)}
+                            onClick={() => openPhoto(ci.photo_url!)}
                             className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700 font-medium"
                           >
                             <Camera size={16} />
@@ -144,6 +159,18 @@ export default function DayDetailModal({ date, checkIns, onClose }: DayDetailMod
               ))}
             </div>
 
+            {beneficiaryId && timezone && (
+              <div className="mt-4">
+                <VisitEditor
+                  beneficiaryId={beneficiaryId}
+                  date={format(date, 'yyyy-MM-dd')}
+                  checkIns={checkIns}
+                  timezone={timezone}
+                  onChange={onChange}
+                />
+              </div>
+            )}
+
             {/* Day Notes Section */}
             {checkIns.length > 0 && (
               <div className="mt-4 pt-4 border-t border-gray-200">
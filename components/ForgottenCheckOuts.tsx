@@ -0,0 +1,205 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { getOpenVisits, OpenVisit } from '@/lib/forgotten-check-outs';
+
+type CheckInOut = {
+  id: string;
+  beneficiary_id: string;
+  caregiver_name: string;
+  action: 'check-in' | 'check-out';
+  timestamp: string;
+  is_training?: boolean;
+  corrected_check_out_at?: string | null;
+};
+
+type ForgottenCheckOutsProps = {
+  beneficiaryId: string;
+  maxHours: number; // Open-visit limit of the beneficiary
+  timezone: string;
+  onVisitClosed?: () => void;
+};
+
+// Forgotten visits older than this are not listed
+const LOOKBACK_DAYS = 31;
+
+export default function ForgottenCheckOuts({
+  beneficiaryId,
+  maxHours,
+  timezone,
+  onVisitClosed,
+}: ForgottenCheckOutsProps) {
+  const { language } = useLanguage();
+  const [forgotten, setForgotten] = useState<OpenVisit<CheckInOut>[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [closingId, setClosingId] = useState<string | null>(null);
+  const [endTime, setEndTime] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadOpenVisits = async () => {
+      const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+      const { data, error } = await supabase
+        .from('check_in_outs')
+        .select('id, beneficiary_id, caregiver_name, action, timestamp, is_training, corrected_check_out_at')
+        .is('voided_at', null)
+        .eq('beneficiary_id', beneficiaryId)
+        .gte('timestamp', since.toISOString())
+        .order('timestamp', { ascending: true });
+
+      if (error) {
+        console.error('Error loading open visits:', error);
+        return;
+      }
+
+      setForgotten(getOpenVisits((data || []) as CheckInOut[], maxHours).filter(visit => visit.forgotten));
+    };
+
+    loadOpenVisits();
+  }, [beneficiaryId, maxHours, reloadKey]);
+
+  if (forgotten.length === 0) return null;
+
+  const startClosing = (checkIn: CheckInOut) => {
+    setClosingId(checkIn.id);
+    setEndTime(formatInTimeZone(checkIn.timestamp, timezone, "yyyy-MM-dd'T'HH:mm"));
+    setReason('');
+    setError('');
+  };
+
+  const closeVisit = async (checkIn: CheckInOut) => {
+    if (!endTime || !reason.trim()) {
+      setError(language === 'fr' ? 'Indiquez l\'heure de fin et le motif' : 'Enter the end time and a reason');
+      return;
+    }
+
+    const correctedEnd = fromZonedTime(endTime, timezone);
+    if (correctedEnd <= new Date(checkIn.timestamp) || correctedEnd > new Date()) {
+      setError(language === 'fr'
+        ? 'L\'heure de fin doit être après l\'arrivée et pas dans le futur'
+        : 'The end time must be after the check-in and not in the future');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      // The server writes the corrected end and its audit entry together
+      const response = await fetch('/api/visits/adjustments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          beneficiary_id: beneficiaryId,
+          adjustment_type: 'close_visit',
+          check_in_id: checkIn.id,
+          end: correctedEnd.toISOString(),
+          reason: reason.trim(),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setClosingId(null);
+      setReloadKey(key => key + 1);
+      onVisitClosed?.();
+    } catch (err) {
+      console.error('Error closing visit:', err);
+      setError(language === 'fr' ? 'Erreur lors de la clôture de la visite' : 'Error closing the visit');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-orange-50 border border-orange-200 rounded-lg shadow-lg p-4 md:p-6 mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <AlertTriangle className="text-orange-600" size={22} />
+        <h3 className="text-lg font-semibold text-orange-900">
+          {language === 'fr' ? 'Départs non pointés' : 'Forgotten check-outs'}
+        </h3>
+      </div>
+      <p className="text-sm text-orange-800 mb-4">
+        {language === 'fr'
+          ? `Ces visites sont ouvertes depuis plus de ${maxHours} h. Indiquez l'heure de départ réelle pour les clôturer : la correction est enregistrée avec son motif.`
+          : `These visits have been open for more than ${maxHours} h. Enter the actual end time to close them: the correction is recorded with its reason.`}
+      </p>
+
+      <div className="space-y-3">
+        {forgotten.map(({ pair, openHours }) => (
+          <div key={pair.checkIn.id} className="bg-white rounded-lg p-3 border border-orange-100">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <p className="font-semibold text-gray-800">{pair.checkIn.caregiver_name}</p>
+                <p className="text-sm text-gray-600">
+                  {language === 'fr' ? 'Arrivée le ' : 'Checked in on '}
+                  {formatInTimeZone(pair.checkIn.timestamp, timezone, 'dd/MM/yyyy HH:mm')}
+                  {' · '}
+                  {language === 'fr' ? `ouverte depuis ${Math.floor(openHours)} h` : `open for ${Math.floor(openHours)} h`}
+                </p>
+              </div>
+              {closingId !== pair.checkIn.id && (
+                <button
+                  onClick={() => startClosing(pair.checkIn)}
+                  className="px-3 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 text-sm"
+                >
+                  {language === 'fr' ? 'Clôturer la visite' : 'Close visit'}
+                </button>
+              )}
+            </div>
+
+            {closingId === pair.checkIn.id && (
+              <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    {language === 'fr' ? 'Heure de départ réelle' : 'Actual end time'}
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={endTime}
+                    onChange={(e) => setEndTime(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    {language === 'fr' ? 'Motif' : 'Reason'}
+                  </label>
+                  <input
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder={language === 'fr' ? 'Ex. : départ confirmé par l\'intervenante' : 'e.g. end time confirmed by the caregiver'}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => closeVisit(pair.checkIn)}
+                    disabled={saving}
+                    className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 text-sm"
+                  >
+                    {saving && <Loader2 className="animate-spin" size={16} />}
+                    {language === 'fr' ? 'Enregistrer' : 'Save'}
+                  </button>
+                  <button
+                    onClick={() => setClosingId(null)}
+                    className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm"
+                  >
+                    {language === 'fr' ? 'Annuler' : 'Cancel'}
+                  </button>
+                </div>
+                {error && <p className="md:col-span-3 text-sm text-red-600">{error}</p>}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
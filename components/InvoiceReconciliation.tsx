@@ -0,0 +1,469 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { fr, enUS } from 'date-fns/locale';
+import { AlertTriangle, CheckCircle, FileText, Plus, Trash2, Upload } from 'lucide-react';
+import { supabase, AgencyInvoice, AgencyInvoiceLine, BeneficiaryRateHistory, MajorationRuleSet } from '@/lib/supabase';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { formatNumber } from '@/lib/time-utils';
+import { VatSettings } from '@/lib/rate-utils';
+import { HolidayCalendar } from '@/lib/holidays';
+import { VisitPair } from '@/lib/billing';
+import {
+  InvoiceLineInput,
+  parseInvoiceLines,
+  reconcileInvoice,
+  ReconciliationIssue,
+} from '@/lib/invoice-reconciliation';
+
+type CheckInOut = {
+  id: string;
+  beneficiary_id: string;
+  caregiver_name: string;
+  action: 'check-in' | 'check-out';
+  timestamp: string;
+  is_training?: boolean;
+};
+
+type InvoiceReconciliationProps = {
+  beneficiaryId: string;
+  checkIns: CheckInOut[]; // Check-ins of the selected month
+  visits?: VisitPair<CheckInOut>[]; // From the visits table; paired from checkIns when missing
+  selectedMonth: Date;
+  regularRate: number;
+  rateHistory?: BeneficiaryRateHistory[];
+  currency: string;
+  timezone: string;
+  holidayCalendar?: HolidayCalendar;
+  majorationRuleSets?: MajorationRuleSet[];
+  vatSettings?: VatSettings;
+};
+
+function describeIssue(issue: ReconciliationIssue, language: 'fr' | 'en', currency: string): string {
+  const minutes = `${issue.minutes} min`;
+  const level = issue.percentage === undefined
+    ? ''
+    : issue.percentage === 0
+      ? (language === 'fr' ? ' (heures normales)' : ' (regular hours)')
+      : ` (+${issue.percentage}%)`;
+
+  switch (issue.type) {
+    case 'missing_visit':
+      return language === 'fr' ? `Aucune visite pointée (${minutes} facturées)` : `No recorded visit (${minutes} invoiced)`;
+    case 'unbilled_visit':
+      return language === 'fr' ? `Visite pointée non facturée (${minutes})` : `Recorded visit not invoiced (${minutes})`;
+    case 'over_billed':
+      return language === 'fr' ? `${minutes} facturées en trop` : `${minutes} over-billed`;
+    case 'under_billed':
+      return language === 'fr' ? `${minutes} facturées en moins` : `${minutes} under-billed`;
+    case 'wrong_rate':
+      return language === 'fr'
+        ? `Tarif ${formatNumber(issue.invoicedRate!, 2, language)}${currency}/h au lieu de ${formatNumber(issue.expectedRate!, 2, language)}${currency}/h${level}`
+        : `Rate ${formatNumber(issue.invoicedRate!, 2, language)}${currency}/h instead of ${formatNumber(issue.expectedRate!, 2, language)}${currency}/h${level}`;
+    case 'wrong_majoration':
+      return language === 'fr'
+        ? `${minutes} facturées dans la mauvaise catégorie${level}`
+        : `${minutes} invoiced in the wrong category${level}`;
+  }
+}
+
+export default function InvoiceReconciliation({
+  beneficiaryId,
+  checkIns,
+  visits,
+  selectedMonth,
+  regularRate,
+  rateHistory,
+  currency,
+  timezone,
+  holidayCalendar,
+  majorationRuleSets,
+  vatSettings,
+}: InvoiceReconciliationProps) {
+  const { language } = useLanguage();
+  const locale = language === 'fr' ? fr : enUS;
+  const month = format(selectedMonth, 'yyyy-MM');
+  const currencySymbol = currency === 'EUR' ? '€' : currency;
+
+  const [invoice, setInvoice] = useState<AgencyInvoice | null>(null);
+  const [lines, setLines] = useState<AgencyInvoiceLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  const [importText, setImportText] = useState('');
+  const [invalidRows, setInvalidRows] = useState<number[]>([]);
+  const [newLine, setNewLine] = useState({ date: '', caregiver_name: '', hours: '', amount: '', majoration_percentage: '' });
+
+  useEffect(() => {
+    const loadInvoice = async () => {
+      try {
+        const { data: invoiceData, error } = await supabase
+          .from('agency_invoices')
+          .select('*')
+          .eq('beneficiary_id', beneficiaryId)
+          .eq('month', month)
+          .maybeSingle();
+
+        if (error) throw error;
+        setInvoice(invoiceData);
+
+        if (invoiceData) {
+          const { data: lineData, error: linesError } = await supabase
+            .from('agency_invoice_lines')
+            .select('*')
+            .eq('invoice_id', invoiceData.id)
+            .order('date', { ascending: true });
+
+          if (linesError) throw linesError;
+          setLines(lineData || []);
+        } else {
+          setLines([]);
+        }
+      } catch (error) {
+        console.error('Error loading agency invoice:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInvoice();
+  }, [beneficiaryId, month, reloadKey]);
+
+  // The invoice header is created with its first line
+  const ensureInvoice = async (): Promise<AgencyInvoice> => {
+    if (invoice) return invoice;
+
+    const { data, error } = await supabase
+      .from('agency_invoices')
+      .insert({ beneficiary_id: beneficiaryId, month })
+      .select()
+      .single();
+
+    if (error) throw error;
+    setInvoice(data);
+    return data;
+  };
+
+  const saveLines = async (newLines: InvoiceLineInput[]) => {
+    if (newLines.length === 0) return;
+
+    setSaving(true);
+    try {
+      const target = await ensureInvoice();
+      const { error } = await supabase
+        .from('agency_invoice_lines')
+        .insert(newLines.map(line => ({ ...line, invoice_id: target.id })));
+
+      if (error) throw error;
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Error saving invoice lines:', error);
+      alert(language === 'fr' ? 'Erreur lors de l\'enregistrement de la facture' : 'Error saving the invoice');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const parsed = parseInvoiceLines(importText);
+    setInvalidRows(parsed.invalidRows);
+    await saveLines(parsed.lines);
+    if (parsed.invalidRows.length === 0) setImportText('');
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImportText(await file.text());
+    e.target.value = '';
+  };
+
+  const handleAddLine = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const hours = parseFloat(newLine.hours.replace(',', '.'));
+    const amount = parseFloat(newLine.amount.replace(',', '.'));
+    if (!newLine.date || !newLine.caregiver_name.trim() || isNaN(hours) || isNaN(amount)) return;
+
+    await saveLines([{
+      date: newLine.date,
+      caregiver_name: newLine.caregiver_name.trim(),
+      hours,
+      amount,
+      majoration_percentage: newLine.majoration_percentage === '' ? undefined : parseFloat(newLine.majoration_percentage),
+    }]);
+    setNewLine({ date: '', caregiver_name: '', hours: '', amount: '', majoration_percentage: '' });
+  };
+
+  const handleDeleteLine = async (lineId: string) => {
+    try {
+      const { error } = await supabase
+        .from('agency_invoice_lines')
+        .delete()
+        .eq('id', lineId);
+
+      if (error) throw error;
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Error deleting invoice line:', error);
+    }
+  };
+
+  const reconciliation = reconcileInvoice({
+    lines,
+    checkIns,
+    pairs: visits,
+    rateHistory,
+    fallbackRate: regularRate,
+    timezone,
+    holidays: holidayCalendar,
+    majorationRuleSets,
+    vat: vatSettings,
+  });
+  const { totals } = reconciliation;
+  const amountDifference = totals.invoicedAmount - totals.recordedAmount;
+  const hoursDifference = totals.invoicedHours - totals.recordedHours;
+  const caregiverNames = Array.from(new Set(checkIns.map(ci => ci.caregiver_name))).sort();
+
+  if (loading) {
+    return <div className="bg-white rounded-lg shadow-lg p-6 text-gray-600">{language === 'fr' ? 'Chargement...' : 'Loading...'}</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center gap-2 mb-4">
+          <FileText className="text-blue-600" size={24} />
+          <h2 className="text-xl font-bold text-gray-800">
+            {language === 'fr' ? 'Facture de l\'agence' : 'Agency invoice'} - {format(selectedMonth, 'MMMM yyyy', { locale })}
+          </h2>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="p-4 rounded-lg bg-gray-50">
+            <div className="text-sm text-gray-600">{language === 'fr' ? 'Pointé' : 'Recorded'}</div>
+            <div className="text-lg font-bold text-gray-900">{formatNumber(totals.recordedHours, 2, language)}h</div>
+            <div className="text-sm text-gray-600">{formatNumber(totals.recordedAmount, 2, language)}{currencySymbol} HT</div>
+          </div>
+          <div className="p-4 rounded-lg bg-gray-50">
+            <div className="text-sm text-gray-600">{language === 'fr' ? 'Facturé' : 'Invoiced'}</div>
+            <div className="text-lg font-bold text-gray-900">{formatNumber(totals.invoicedHours, 2, language)}h</div>
+            <div className="text-sm text-gray-600">{formatNumber(totals.invoicedAmount, 2, language)}{currencySymbol} HT</div>
+          </div>
+          <div className={`p-4 rounded-lg ${Math.abs(amountDifference) > 0.01 ? 'bg-amber-50' : 'bg-green-50'}`}>
+            <div className="text-sm text-gray-600">{language === 'fr' ? 'Écart' : 'Difference'}</div>
+            <div className={`text-lg font-bold ${amountDifference > 0.01 ? 'text-red-700' : 'text-gray-900'}`}>
+              {amountDifference > 0 ? '+' : ''}{formatNumber(amountDifference, 2, language)}{currencySymbol} HT
+            </div>
+            <div className="text-sm text-gray-600">
+              {hoursDifference > 0 ? '+' : ''}{formatNumber(hoursDifference, 2, language)}h
+            </div>
+          </div>
+          <div className={`p-4 rounded-lg ${reconciliation.issueCount > 0 ? 'bg-red-50' : 'bg-green-50'}`}>
+            <div className="text-sm text-gray-600">{language === 'fr' ? 'Anomalies' : 'Issues'}</div>
+            <div className={`text-lg font-bold flex items-center gap-2 ${reconciliation.issueCount > 0 ? 'text-red-700' : 'text-green-700'}`}>
+              {reconciliation.issueCount > 0 ? <AlertTriangle size={20} /> : <CheckCircle size={20} />}
+              {reconciliation.issueCount}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Reconciliation by day and caregiver */}
+      {reconciliation.rows.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">
+            {language === 'fr' ? 'Rapprochement' : 'Reconciliation'}
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-600">
+                  <th className="text-left py-2 px-2">Date</th>
+                  <th className="text-left py-2 px-2">{language === 'fr' ? 'Intervenant' : 'Caregiver'}</th>
+                  <th className="text-right py-2 px-2">{language === 'fr' ? 'Pointé' : 'Recorded'}</th>
+                  <th className="text-right py-2 px-2">{language === 'fr' ? 'Facturé' : 'Invoiced'}</th>
+                  <th className="text-right py-2 px-2">{language === 'fr' ? 'Attendu HT' : 'Expected'}</th>
+                  <th className="text-right py-2 px-2">{language === 'fr' ? 'Facturé HT' : 'Invoiced'}</th>
+                  <th className="text-left py-2 px-2">{language === 'fr' ? 'Écarts' : 'Issues'}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reconciliation.rows.map(row => (
+                  <tr
+                    key={`${row.date}-${row.caregiverName}`}
+                    className={`border-b border-gray-100 ${row.issues.length > 0 ? 'bg-red-50' : ''}`}
+                  >
+                    <td className="py-2 px-2 whitespace-nowrap">{format(new Date(`${row.date}T12:00:00`), 'EEE d MMM', { locale })}</td>
+                    <td className="py-2 px-2">{row.caregiverName}</td>
+                    <td className="py-2 px-2 text-right font-mono">{formatNumber(row.recordedHours, 2, language)}h</td>
+                    <td className="py-2 px-2 text-right font-mono">{formatNumber(row.invoicedHours, 2, language)}h</td>
+                    <td className="py-2 px-2 text-right font-mono">{formatNumber(row.recordedAmount, 2, language)}{currencySymbol}</td>
+                    <td className="py-2 px-2 text-right font-mono">{formatNumber(row.invoicedAmount, 2, language)}{currencySymbol}</td>
+                    <td className="py-2 px-2">
+                      {row.issues.length === 0 ? (
+                        <CheckCircle className="text-green-600" size={16} />
+                      ) : (
+                        <ul className="text-red-700 space-y-0.5">
+                          {row.issues.map((issue, i) => (
+                            <li key={i}>{describeIssue(issue, language, currencySymbol)}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Invoice lines */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">
+          {language === 'fr' ? 'Lignes de la facture' : 'Invoice lines'}
+        </h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {language === 'fr'
+            ? 'Montants hors TVA. La majoration est facultative : sans elle, le tarif est comparé au tarif moyen pointé.'
+            : 'Amounts before VAT. The majoration is optional: without it, the rate is compared with the recorded average rate.'}
+        </p>
+
+        {lines.length > 0 && (
+          <div className="overflow-x-auto mb-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-600">
+                  <th className="text-left py-2 px-2">Date</th>
+                  <th className="text-left py-2 px-2">{language === 'fr' ? 'Intervenant' : 'Caregiver'}</th>
+                  <th className="text-right py-2 px-2">{language === 'fr' ? 'Heures' : 'Hours'}</th>
+                  <th className="text-right py-2 px-2">Majoration</th>
+                  <th className="text-right py-2 px-2">{language === 'fr' ? 'Montant HT' : 'Amount'}</th>
+                  <th className="py-2 px-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map(line => (
+                  <tr key={line.id} className="border-b border-gray-100">
+                    <td className="py-2 px-2">{line.date}</td>
+                    <td className="py-2 px-2">{line.caregiver_name}</td>
+                    <td className="py-2 px-2 text-right font-mono">{formatNumber(line.hours, 2, language)}</td>
+                    <td className="py-2 px-2 text-right">
+                      {line.majoration_percentage === undefined || line.majoration_percentage === null
+                        ? '-'
+                        : line.majoration_percentage === 0 ? (language === 'fr' ? 'Normal' : 'Regular') : `+${line.majoration_percentage}%`}
+                    </td>
+                    <td className="py-2 px-2 text-right font-mono">{formatNumber(line.amount, 2, language)}{currencySymbol}</td>
+                    <td className="py-2 px-2 text-right">
+                      <button
+                        onClick={() => handleDeleteLine(line.id)}
+                        className="text-red-600 hover:text-red-800"
+                        title={language === 'fr' ? 'Supprimer' : 'Delete'}
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Manual entry */}
+        <form onSubmit={handleAddLine} className="grid grid-cols-2 md:grid-cols-6 gap-2 mb-6">
+          <input
+            type="date"
+            value={newLine.date}
+            min={`${month}-01`}
+            onChange={(e) => setNewLine({ ...newLine, date: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            required
+          />
+          <input
+            type="text"
+            list="invoice-caregivers"
+            value={newLine.caregiver_name}
+            onChange={(e) => setNewLine({ ...newLine, caregiver_name: e.target.value })}
+            placeholder={language === 'fr' ? 'Intervenant' : 'Caregiver'}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            required
+          />
+          <datalist id="invoice-caregivers">
+            {caregiverNames.map(name => <option key={name} value={name} />)}
+          </datalist>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={newLine.hours}
+            onChange={(e) => setNewLine({ ...newLine, hours: e.target.value })}
+            placeholder={language === 'fr' ? 'Heures' : 'Hours'}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            required
+          />
+          <input
+            type="text"
+            inputMode="decimal"
+            value={newLine.amount}
+            onChange={(e) => setNewLine({ ...newLine, amount: e.target.value })}
+            placeholder={language === 'fr' ? 'Montant HT' : 'Amount'}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            required
+          />
+          <input
+            type="number"
+            min="0"
+            value={newLine.majoration_percentage}
+            onChange={(e) => setNewLine({ ...newLine, majoration_percentage: e.target.value })}
+            placeholder={language === 'fr' ? 'Majoration %' : 'Majoration %'}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex items-center justify-center gap-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+          >
+            <Plus size={16} />
+            {language === 'fr' ? 'Ajouter' : 'Add'}
+          </button>
+        </form>
+
+        {/* CSV import */}
+        <div className="border-t border-gray-200 pt-4">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-semibold text-gray-700">{language === 'fr' ? 'Importer (CSV)' : 'Import (CSV)'}</h4>
+            <label className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+              <Upload size={16} />
+              {language === 'fr' ? 'Choisir un fichier' : 'Choose a file'}
+              <input type="file" accept=".csv,.txt" onChange={handleFileUpload} className="hidden" />
+            </label>
+          </div>
+          <textarea
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            rows={5}
+            placeholder={'Date;Intervenant;Heures;Montant HT;Tarif;Majoration\n04/03/2025;Fatou;2,5;62,50;25,00;'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+          />
+          {invalidRows.length > 0 && (
+            <p className="text-sm text-red-600 mt-1">
+              {language === 'fr' ? 'Lignes non lues' : 'Rows not read'}: {invalidRows.join(', ')}
+            </p>
+          )}
+          <button
+            onClick={handleImport}
+            disabled={saving || importText.trim() === ''}
+            className="mt-2 flex items-center gap-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+          >
+            <Upload size={16} />
+            {language === 'fr' ? 'Importer les lignes' : 'Import lines'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
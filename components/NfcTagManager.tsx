@@ -0,0 +1,335 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { fr, enUS } from 'date-fns/locale';
+import { Ban, Copy, KeyRound, Nfc, Pencil, Plus, QrCode, RefreshCw } from 'lucide-react';
+import { NfcTag, PublicNfcTag } from '@/lib/supabase';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+type NfcTagManagerProps = {
+  beneficiaryId: string;
+};
+
+// Keys and URL of an NTAG 424 DNA tag, shown once after registration or rotation
+type SdmProvisioning = {
+  label: string;
+  keys: { sdm_meta_read_key: string; sdm_file_read_key: string };
+  url: string;
+};
+
+const TAG_KIND_LABELS: Record<NfcTag['kind'], { fr: string; en: string }> = {
+  sdm: { fr: 'Carte NFC (NTAG 424 DNA)', en: 'NFC card (NTAG 424 DNA)' },
+  hmac: { fr: 'Code QR tournant', en: 'Rotating QR code' },
+};
+
+export default function NfcTagManager({ beneficiaryId }: NfcTagManagerProps) {
+  const { language } = useLanguage();
+  const locale = language === 'fr' ? fr : enUS;
+
+  const [tags, setTags] = useState<PublicNfcTag[]>([]);
+  const [legacySecretActive, setLegacySecretActive] = useState(false);
+  const [newKind, setNewKind] = useState<NfcTag['kind']>('sdm');
+  const [newLabel, setNewLabel] = useState('');
+  const [editingTagId, setEditingTagId] = useState<string | null>(null);
+  const [editedLabel, setEditedLabel] = useState('');
+  const [provisioning, setProvisioning] = useState<SdmProvisioning | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    const loadTags = async () => {
+      try {
+        const response = await fetch(`/api/nfc/tags?beneficiary_id=${beneficiaryId}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+
+        setTags(data.tags);
+        setLegacySecretActive(data.legacySecretActive);
+      } catch (error) {
+        console.error('Error loading NFC tags:', error);
+      }
+    };
+
+    loadTags();
+  }, [beneficiaryId, reloadCount]);
+
+  // Run a tag request, then reload the list; returns the response body, or null on error
+  const submit = async (url: string, init: RequestInit) => {
+    setSaving(true);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setReloadCount(count => count + 1);
+      return data;
+    } catch (error) {
+      console.error('NFC tag error:', error);
+      alert(language === 'fr' ? 'L\'opération a échoué' : 'The operation failed');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const tagName = (tag: PublicNfcTag) => tag.label || TAG_KIND_LABELS[tag.kind][language];
+
+  const handleAddTag = async () => {
+    const data = await submit('/api/nfc/tags', {
+      method: 'POST',
+      body: JSON.stringify({ beneficiary_id: beneficiaryId, kind: newKind, label: newLabel }),
+    });
+    if (!data) return;
+
+    setNewLabel('');
+    if (data.keys) {
+      setProvisioning({ label: tagName(data.tag), keys: data.keys, url: data.url });
+    }
+  };
+
+  const handleRename = async (tag: PublicNfcTag) => {
+    const data = await submit(`/api/nfc/tags/${tag.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ beneficiary_id: beneficiaryId, label: editedLabel }),
+    });
+    if (data) setEditingTagId(null);
+  };
+
+  const handleRotate = async (tag: PublicNfcTag) => {
+    if (!confirm(language === 'fr'
+      ? `Changer les clés de « ${tagName(tag)} » ? ${tag.kind === 'sdm' ? 'La carte devra être reprogrammée.' : 'Les codes affichés sont renouvelés.'}`
+      : `Change the keys of "${tagName(tag)}"? ${tag.kind === 'sdm' ? 'The card will have to be written again.' : 'Displayed codes are renewed.'}`)) {
+      return;
+    }
+
+    const data = await submit(`/api/nfc/tags/${tag.id}`, {
+      method: 'POST',
+      body: JSON.stringify({ beneficiary_id: beneficiaryId }),
+    });
+    if (data?.keys) {
+      setProvisioning({ label: tagName(data.tag), keys: data.keys, url: data.url });
+    }
+  };
+
+  const handleRevoke = async (tag: PublicNfcTag) => {
+    if (!confirm(language === 'fr'
+      ? `Révoquer « ${tagName(tag)} » ? Les pointages avec ce badge seront refusés.`
+      : `Revoke "${tagName(tag)}"? Check-ins with this tag will be refused.`)) {
+      return;
+    }
+
+    await submit(`/api/nfc/tags/${tag.id}?beneficiary_id=${beneficiaryId}`, { method: 'DELETE' });
+  };
+
+  const handleRevokeLegacy = async () => {
+    if (!confirm(language === 'fr'
+      ? 'Révoquer le secret des anciennes cartes ? Elles ne fonctionneront plus.'
+      : 'Revoke the secret of the old cards? They will stop working.')) {
+      return;
+    }
+
+    await submit(`/api/nfc/tags/legacy?beneficiary_id=${beneficiaryId}`, { method: 'DELETE' });
+  };
+
+  const copyToClipboard = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 w-full overflow-hidden">
+      <div className="flex items-center gap-2 mb-4">
+        <Nfc className="text-blue-600" size={22} />
+        <h2 className="text-xl font-semibold text-gray-800">
+          {language === 'fr' ? 'Badges de pointage' : 'Check-in tags'}
+        </h2>
+      </div>
+
+      {provisioning && (
+        <div className="mb-4 p-4 rounded-lg border border-amber-300 bg-amber-50 text-sm">
+          <div className="flex items-center gap-2 font-semibold text-amber-800 mb-2">
+            <KeyRound size={16} />
+            {language === 'fr'
+              ? `Programmation de « ${provisioning.label} » (affiché une seule fois)`
+              : `Writing "${provisioning.label}" (shown only once)`}
+          </div>
+          <p className="text-amber-800 mb-2">
+            {language === 'fr'
+              ? 'Écrivez cette URL avec le miroir SUN/SDM (UID + compteur dans picc_data, CMAC dans cmac) et ces clés AES.'
+              : 'Write this URL with SUN/SDM mirroring (UID + counter in picc_data, CMAC in cmac) and these AES keys.'}
+          </p>
+          {[
+            { name: 'URL', value: provisioning.url },
+            { name: 'SDM Meta Read Key', value: provisioning.keys.sdm_meta_read_key },
+            { name: 'SDM File Read Key', value: provisioning.keys.sdm_file_read_key },
+          ].map(field => (
+            <div key={field.name} className="mb-2">
+              <div className="text-xs text-amber-700">{field.name}</div>
+              <div className="flex items-center gap-2 bg-white p-2 rounded border border-amber-200">
+                <code className="text-xs text-gray-900 break-all flex-1">{field.value}</code>
+                <button
+                  onClick={() => copyToClipboard(field.value)}
+                  className="text-gray-600 hover:text-gray-800 flex-shrink-0"
+                  title={language === 'fr' ? 'Copier' : 'Copy'}
+                >
+                  <Copy size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => setProvisioning(null)}
+            className="mt-1 text-xs text-blue-600 hover:underline"
+          >
+            {language === 'fr' ? 'C\'est noté' : 'Done'}
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {tags.map(tag => (
+          <div
+            key={tag.id}
+            className={`border border-gray-200 rounded-lg p-3 ${tag.revoked_at ? 'opacity-60' : ''}`}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="flex items-start gap-2 min-w-0 flex-1">
+                {tag.kind === 'sdm'
+                  ? <Nfc className="text-gray-500 mt-0.5 flex-shrink-0" size={18} />
+                  : <QrCode className="text-gray-500 mt-0.5 flex-shrink-0" size={18} />}
+                <div className="min-w-0 flex-1">
+                  {editingTagId === tag.id ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={editedLabel}
+                        onChange={(e) => setEditedLabel(e.target.value)}
+                        className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-gray-900 text-sm"
+                      />
+                      <button
+                        onClick={() => handleRename(tag)}
+                        disabled={saving}
+                        className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50"
+                      >
+                        {language === 'fr' ? 'Enregistrer' : 'Save'}
+                      </button>
+                      <button
+                        onClick={() => setEditingTagId(null)}
+                        className="px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded"
+                      >
+                        {language === 'fr' ? 'Annuler' : 'Cancel'}
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="font-semibold text-gray-900 break-words">{tagName(tag)}</div>
+                  )}
+                  <div className="text-xs text-gray-500">
+                    {TAG_KIND_LABELS[tag.kind][language]} · {tag.key_id}
+                    {tag.uid && ` · UID ${tag.uid}`}
+                  </div>
+                  <div className="text-xs text-gray-600 mt-1">
+                    {tag.last_tap_at
+                      ? `${language === 'fr' ? 'Dernier pointage' : 'Last tap'} : ${format(new Date(tag.last_tap_at), 'dd/MM/yyyy HH:mm', { locale })}`
+                      : (language === 'fr' ? 'Jamais utilisé' : 'Never used')}
+                    {tag.last_counter != null && ` (#${tag.last_counter})`}
+                  </div>
+                </div>
+              </div>
+              {tag.revoked_at ? (
+                <span className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded-full flex-shrink-0 whitespace-nowrap">
+                  {language === 'fr' ? 'Révoqué' : 'Revoked'} {format(new Date(tag.revoked_at), 'dd/MM/yyyy', { locale })}
+                </span>
+              ) : (
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => {
+                      setEditingTagId(tag.id);
+                      setEditedLabel(tag.label || '');
+                    }}
+                    className="text-gray-500 hover:text-gray-700"
+                    title={language === 'fr' ? 'Renommer' : 'Rename'}
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleRotate(tag)}
+                    disabled={saving}
+                    className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                    title={language === 'fr' ? 'Changer les clés' : 'Rotate keys'}
+                  >
+                    <RefreshCw size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleRevoke(tag)}
+                    disabled={saving}
+                    className="text-red-500 hover:text-red-700 disabled:opacity-50"
+                    title={language === 'fr' ? 'Révoquer (perdu, remplacé)' : 'Revoke (lost, replaced)'}
+                  >
+                    <Ban size={16} />
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {legacySecretActive && (
+          <div className="border border-amber-200 bg-amber-50 rounded-lg p-3 flex items-start justify-between gap-2">
+            <div className="text-sm">
+              <div className="font-semibold text-amber-800">
+                {language === 'fr' ? 'Anciennes cartes (secret statique)' : 'Old cards (static secret)'}
+              </div>
+              <div className="text-xs text-amber-700">
+                {language === 'fr'
+                  ? 'Toujours acceptées. Révoquez-les une fois remplacées par des cartes NTAG 424 DNA.'
+                  : 'Still accepted. Revoke them once replaced with NTAG 424 DNA cards.'}
+              </div>
+            </div>
+            <button
+              onClick={handleRevokeLegacy}
+              disabled={saving}
+              className="text-red-500 hover:text-red-700 disabled:opacity-50 flex-shrink-0"
+              title={language === 'fr' ? 'Révoquer' : 'Revoke'}
+            >
+              <Ban size={16} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-gray-100 flex flex-col sm:flex-row gap-2">
+        <select
+          value={newKind}
+          onChange={(e) => setNewKind(e.target.value as NfcTag['kind'])}
+          className="px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+        >
+          <option value="sdm">{TAG_KIND_LABELS.sdm[language]}</option>
+          <option value="hmac">{TAG_KIND_LABELS.hmac[language]}</option>
+        </select>
+        <input
+          type="text"
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          placeholder={language === 'fr' ? 'Nom (ex. porte d\'entrée)' : 'Name (e.g. front door)'}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+        />
+        <button
+          onClick={handleAddTag}
+          disabled={saving}
+          className="flex items-center justify-center gap-1 px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Plus size={16} />
+          {language === 'fr' ? 'Ajouter' : 'Add'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -8,11 +8,8 @@ import {
   requestNotificationPermission
 } from '@/lib/webpush';
 
-interface NotificationPermissionButtonProps {
-  familyMemberId: string;
-}
-
-export default function NotificationPermissionButton({ familyMemberId }: NotificationPermissionButtonProps) {
+// Subscribes the signed-in family member (from the session cookie)
+export default function NotificationPermissionButton() {
   const [permission, setPermission] = useState<NotificationPermission>('default');
   const [isSubscribed, setIsSubscribed] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -69,7 +66,6 @@ export default function NotificationPermissionButton({ familyMemberId }: Notific
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          familyMemberId,
           subscription: {
             endpoint: subscriptionData.endpoint,
             keys: {
@@ -0,0 +1,105 @@
+'use client';
+
+import { formatInTimeZone } from 'date-fns-tz';
+import { Users } from 'lucide-react';
+import { decimalToHHMM } from '@/lib/time-utils';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { computeBilling, VisitPair } from '@/lib/billing';
+import { findOverlaps } from '@/lib/overlaps';
+import { getMajorationRuleSetForDate } from '@/lib/majoration-rules';
+import { MajorationRuleSet } from '@/lib/supabase';
+
+type CheckInOut = {
+  id: string;
+  caregiver_name: string;
+  action: 'check-in' | 'check-out';
+  timestamp: string;
+  is_training?: boolean;
+};
+
+type OverlapReportProps = {
+  visits: VisitPair<CheckInOut>[]; // Visits of the selected month
+  timezone: string;
+  majorationRuleSets?: MajorationRuleSet[];
+};
+
+export default function OverlapReport({ visits, timezone, majorationRuleSets }: OverlapReportProps) {
+  const { language } = useLanguage();
+  const overlaps = findOverlaps(visits);
+
+  if (overlaps.length === 0) return null;
+
+  // Training visits are never billed; otherwise the contract in effect that day decides
+  const billedOnce = (start: Date, training: boolean) =>
+    !training && !!getMajorationRuleSetForDate(majorationRuleSets, start, timezone).bill_overlaps_once;
+
+  const totalHours = overlaps.reduce((sum, overlap) => sum + overlap.hours, 0);
+  // What billing actually drops: with three caregivers present, the shared time is removed once
+  // per visit, not once per pair of caregivers. Rates do not change the hours.
+  const unbilledHours = computeBilling({ checkIns: [], pairs: visits, fallbackRate: 0, timezone, majorationRuleSets })
+    .visits.reduce((sum, visit) => sum + visit.overlapHours, 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 md:p-6 mt-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Users className="text-indigo-600" size={22} />
+        <h3 className="text-lg font-semibold text-gray-800">
+          {language === 'fr' ? 'Présences simultanées' : 'Concurrent presence'}
+        </h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        {language === 'fr'
+          ? `${decimalToHHMM(totalHours)} avec deux intervenant(e)s présent(e)s en même temps (binôme, relève).`
+          : `${decimalToHHMM(totalHours)} with two caregivers present at the same time (training, handover).`}
+        {' '}
+        {unbilledHours > 0
+          ? (language === 'fr'
+            ? `Le contrat facture ce temps une seule fois : ${decimalToHHMM(unbilledHours)} ne sont pas facturées en double.`
+            : `The contract bills this time once: ${decimalToHHMM(unbilledHours)} are not billed twice.`)
+          : (language === 'fr'
+            ? 'Chaque intervenant(e) est facturé(e) pour sa visite complète.'
+            : 'Each caregiver is billed for their full visit.')}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b border-gray-200">
+              <th className="py-2 pr-4">Date</th>
+              <th className="py-2 pr-4">{language === 'fr' ? 'Horaire' : 'Time'}</th>
+              <th className="py-2 pr-4">{language === 'fr' ? 'Intervenant(e)s' : 'Caregivers'}</th>
+              <th className="py-2 pr-4 text-right">{language === 'fr' ? 'Durée' : 'Duration'}</th>
+              <th className="py-2">{language === 'fr' ? 'Facturation' : 'Billing'}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {overlaps.map(overlap => (
+              <tr key={`${overlap.start.getTime()}-${overlap.caregivers.join('-')}`} className="border-b border-gray-100 text-gray-800">
+                <td className="py-2 pr-4">{formatInTimeZone(overlap.start, timezone, 'dd/MM/yyyy')}</td>
+                <td className="py-2 pr-4">
+                  {formatInTimeZone(overlap.start, timezone, 'HH:mm')} – {formatInTimeZone(overlap.end, timezone, 'HH:mm')}
+                </td>
+                <td className="py-2 pr-4">
+                  {overlap.caregivers.join(' + ')}
+                  {overlap.training && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700">
+                      {language === 'fr' ? 'Binôme' : 'Training'}
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 pr-4 text-right">{decimalToHHMM(overlap.hours)}</td>
+                <td className="py-2 text-gray-600">
+                  {overlap.training
+                    ? (language === 'fr' ? 'Formation non facturée' : 'Training not billed')
+                    : billedOnce(overlap.start, overlap.training)
+                      ? (language === 'fr' ? 'Une seule fois' : 'Once')
+                      : (language === 'fr' ? 'Pour chacun(e)' : 'For each caregiver')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
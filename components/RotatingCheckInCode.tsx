@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+// New code well before the previous one expires (HMAC_PAYLOAD_TTL_SECONDS in lib/nfc-payload.ts)
+const ROTATION_SECONDS = 30;
+
+interface RotatingCheckInCodeProps {
+  beneficiaryId: string;
+  language?: 'fr' | 'en';
+}
+
+/**
+ * QR code with a signed check-in URL that changes every ROTATION_SECONDS
+ * Meant for a screen left at the home: a photo of it is useless a few minutes later.
+ */
+export default function RotatingCheckInCode({ beneficiaryId, language = 'fr' }: RotatingCheckInCodeProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPayload = async () => {
+      try {
+        const response = await fetch('/api/nfc/payload', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ beneficiary_id: beneficiaryId }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load code');
+        }
+        if (!cancelled) {
+          setUrl(data.url);
+          setError('');
+        }
+      } catch (err) {
+        console.error('Error loading rotating code:', err);
+        if (!cancelled) {
+          setError(language === 'fr' ? 'Code indisponible' : 'Code unavailable');
+        }
+      }
+    };
+
+    loadPayload();
+    const interval = setInterval(loadPayload, ROTATION_SECONDS * 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [beneficiaryId, language]);
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (!url) {
+    return <Loader2 className="animate-spin mx-auto text-blue-600" size={32} />;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="p-2 bg-white border-2 border-gray-200 rounded-lg">
+        <QRCodeSVG value={url} size={200} level="M" includeMargin className="w-full h-auto max-w-[200px]" />
+      </div>
+      <p className="flex items-center gap-1 text-xs text-gray-500 text-center">
+        <RefreshCw size={12} />
+        {language === 'fr'
+          ? `Code signé, renouvelé toutes les ${ROTATION_SECONDS} secondes`
+          : `Signed code, renewed every ${ROTATION_SECONDS} seconds`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+'use client';
+
+import { useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { fr, enUS } from 'date-fns/locale';
+import { CalendarClock, Plus, Trash2, X } from 'lucide-react';
+import { supabase, ScheduleException, ScheduleExceptionType, ScheduleSlot } from '@/lib/supabase';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { WEEKDAY_LABELS } from '@/lib/schedule';
+
+type ScheduleManagerProps = {
+  beneficiaryId: string;
+  slots: ScheduleSlot[];
+  exceptions: ScheduleException[]; // Exceptions of the selected month
+  selectedMonth: Date;
+  caregiverNames: string[]; // Suggestions for the caregiver fields
+  onScheduleChange: () => void;
+};
+
+// Monday first, like the French calendar
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const EXCEPTION_TYPE_LABELS: Record<ScheduleExceptionType, { fr: string; en: string }> = {
+  cancelled: { fr: 'Visite annulée', en: 'Visit cancelled' },
+  modified: { fr: 'Visite modifiée', en: 'Visit changed' },
+  added: { fr: 'Visite ajoutée', en: 'Visit added' },
+};
+
+const emptySlotForm = () => ({
+  caregiver_name: '',
+  weekdays: [] as number[],
+  start_time: '09:00',
+  end_time: '11:00',
+  effective_date: format(new Date(), 'yyyy-MM-dd'),
+  end_date: '',
+});
+
+const emptyExceptionForm = () => ({
+  date: '',
+  exception_type: 'cancelled' as ScheduleExceptionType,
+  slot_id: '',
+  caregiver_name: '',
+  start_time: '',
+  end_time: '',
+  reason: '',
+});
+
+export default function ScheduleManager({
+  beneficiaryId,
+  slots,
+  exceptions,
+  selectedMonth,
+  caregiverNames,
+  onScheduleChange,
+}: ScheduleManagerProps) {
+  const { language } = useLanguage();
+  const locale = language === 'fr' ? fr : enUS;
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const [slotForm, setSlotForm] = useState(emptySlotForm());
+  const [exceptionForm, setExceptionForm] = useState(emptyExceptionForm());
+  const [saving, setSaving] = useState(false);
+
+  const describeSlot = (slot: ScheduleSlot) => {
+    const days = WEEKDAY_ORDER
+      .filter(day => slot.weekdays.includes(day))
+      .map(day => WEEKDAY_LABELS[day][language])
+      .join(', ');
+    return `${slot.caregiver_name} · ${days} · ${slot.start_time}–${slot.end_time}`;
+  };
+
+  const toggleWeekday = (day: number) => {
+    setSlotForm({
+      ...slotForm,
+      weekdays: slotForm.weekdays.includes(day)
+        ? slotForm.weekdays.filter(d => d !== day)
+        : [...slotForm.weekdays, day],
+    });
+  };
+
+  const handleAddSlot = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!slotForm.caregiver_name.trim() || slotForm.weekdays.length === 0) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('schedule_slots')
+        .insert({
+          beneficiary_id: beneficiaryId,
+          caregiver_name: slotForm.caregiver_name.trim(),
+          weekdays: [...slotForm.weekdays].sort((a, b) => a - b),
+          start_time: slotForm.start_time,
+          end_time: slotForm.end_time,
+          effective_date: slotForm.effective_date,
+          end_date: slotForm.end_date || null,
+        });
+
+      if (error) throw error;
+      setSlotForm(emptySlotForm());
+      onScheduleChange();
+    } catch (error) {
+      console.error('Error adding schedule slot:', error);
+      alert(language === 'fr' ? 'Erreur lors de l\'ajout du créneau' : 'Error adding the slot');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Slots that already started are ended yesterday so past months keep their planning
+  const handleEndSlot = async (slot: ScheduleSlot) => {
+    const started = slot.effective_date < today;
+    const message = started
+      ? (language === 'fr' ? 'Arrêter ce créneau à partir d\'aujourd\'hui ?' : 'Stop this slot from today?')
+      : (language === 'fr' ? 'Supprimer ce créneau ?' : 'Delete this slot?');
+    if (!confirm(message)) return;
+
+    try {
+      const { error } = started
+        ? await supabase
+            .from('schedule_slots')
+            .update({ end_date: format(subDays(new Date(), 1), 'yyyy-MM-dd') })
+            .eq('id', slot.id)
+        : await supabase
+            .from('schedule_slots')
+            .delete()
+            .eq('id', slot.id);
+
+      if (error) throw error;
+      onScheduleChange();
+    } catch (error) {
+      console.error('Error ending schedule slot:', error);
+    }
+  };
+
+  const handleAddException = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { exception_type: type } = exceptionForm;
+    if (!exceptionForm.date) return;
+    if (type !== 'added' && !exceptionForm.slot_id) return;
+    if (type === 'added' && (!exceptionForm.caregiver_name.trim() || !exceptionForm.start_time || !exceptionForm.end_time)) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('schedule_exceptions')
+        .insert({
+          beneficiary_id: beneficiaryId,
+          date: exceptionForm.date,
+          exception_type: type,
+          slot_id: type === 'added' ? null : exceptionForm.slot_id,
+          caregiver_name: type === 'cancelled' ? null : exceptionForm.caregiver_name.trim() || null,
+          start_time: type === 'cancelled' ? null : exceptionForm.start_time || null,
+          end_time: type === 'cancelled' ? null : exceptionForm.end_time || null,
+          reason: exceptionForm.reason.trim() || null,
+        });
+
+      if (error) throw error;
+      setExceptionForm(emptyExceptionForm());
+      onScheduleChange();
+    } catch (error) {
+      console.error('Error adding schedule exception:', error);
+      alert(language === 'fr' ? 'Erreur lors de l\'ajout de l\'exception' : 'Error adding the exception');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteException = async (exceptionId: string) => {
+    try {
+      const { error } = await supabase
+        .from('schedule_exceptions')
+        .delete()
+        .eq('id', exceptionId);
+
+      if (error) throw error;
+      onScheduleChange();
+    } catch (error) {
+      console.error('Error deleting schedule exception:', error);
+    }
+  };
+
+  const activeSlots = slots.filter(slot => !slot.end_date || slot.end_date >= today);
+  const exceptionSlots = exceptionForm.date
+    ? slots.filter(slot => slot.effective_date <= exceptionForm.date && (!slot.end_date || slot.end_date >= exceptionForm.date))
+    : activeSlots;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mt-6">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarClock className="text-blue-600" size={24} />
+        <h2 className="text-xl font-semibold text-gray-800">
+          {language === 'fr' ? 'Planning des visites' : 'Visit schedule'}
+        </h2>
+      </div>
+
+      {/* Recurring slots */}
+      <h3 className="font-semibold text-gray-700 mb-2">
+        {language === 'fr' ? 'Créneaux récurrents' : 'Recurring slots'}
+      </h3>
+      {activeSlots.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-3">
+          {language === 'fr' ? 'Aucun créneau prévu.' : 'No planned slot.'}
+        </p>
+      ) : (
+        <ul className="space-y-2 mb-3">
+          {activeSlots.map(slot => (
+            <li key={slot.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-gray-50 text-sm">
+              <div>
+                <div className="font-medium text-gray-800">{describeSlot(slot)}</div>
+                <div className="text-xs text-gray-500">
+                  {language === 'fr' ? 'Depuis le' : 'From'} {format(new Date(`${slot.effective_date}T12:00:00`), 'd MMM yyyy', { locale })}
+                  {slot.end_date && ` ${language === 'fr' ? 'jusqu\'au' : 'until'} ${format(new Date(`${slot.end_date}T12:00:00`), 'd MMM yyyy', { locale })}`}
+                </div>
+              </div>
+              <button
+                onClick={() => handleEndSlot(slot)}
+                className="text-red-600 hover:text-red-800"
+                title={language === 'fr' ? 'Arrêter' : 'Stop'}
+              >
+                <Trash2 size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAddSlot} className="space-y-2 p-3 border border-gray-200 rounded-lg mb-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <input
+            type="text"
+            list="schedule-caregivers"
+            value={slotForm.caregiver_name}
+            onChange={(e) => setSlotForm({ ...slotForm, caregiver_name: e.target.value })}
+            placeholder={language === 'fr' ? 'Intervenant' : 'Caregiver'}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            required
+          />
+          <div className="flex items-center gap-2">
+            <input
+              type="time"
+              value={slotForm.start_time}
+              onChange={(e) => setSlotForm({ ...slotForm, start_time: e.target.value })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              required
+            />
+            <span className="text-gray-500">–</span>
+            <input
+              type="time"
+              value={slotForm.end_time}
+              onChange={(e) => setSlotForm({ ...slotForm, end_time: e.target.value })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              required
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={slotForm.effective_date}
+              onChange={(e) => setSlotForm({ ...slotForm, effective_date: e.target.value })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              title={language === 'fr' ? 'À partir du' : 'From'}
+              required
+            />
+            <input
+              type="date"
+              value={slotForm.end_date}
+              min={slotForm.effective_date}
+              onChange={(e) => setSlotForm({ ...slotForm, end_date: e.target.value })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              title={language === 'fr' ? 'Jusqu\'au (facultatif)' : 'Until (optional)'}
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {WEEKDAY_ORDER.map(day => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                slotForm.weekdays.includes(day)
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {WEEKDAY_LABELS[day][language]}
+            </button>
+          ))}
+          <button
+            type="submit"
+            disabled={saving || slotForm.weekdays.length === 0}
+            className="ml-auto flex items-center gap-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+          >
+            <Plus size={16} />
+            {language === 'fr' ? 'Ajouter le créneau' : 'Add slot'}
+          </button>
+        </div>
+      </form>
+
+      {/* One-off exceptions */}
+      <h3 className="font-semibold text-gray-700 mb-2">
+        {language === 'fr' ? 'Exceptions' : 'Exceptions'} - {format(selectedMonth, 'MMMM yyyy', { locale })}
+      </h3>
+      {exceptions.length > 0 && (
+        <ul className="space-y-2 mb-3">
+          {exceptions.map(exception => {
+            const slot = slots.find(s => s.id === exception.slot_id);
+            return (
+              <li key={exception.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-gray-50 text-sm">
+                <div>
+                  <span className="font-medium text-gray-800">
+                    {format(new Date(`${exception.date}T12:00:00`), 'EEE d MMM', { locale })} · {EXCEPTION_TYPE_LABELS[exception.exception_type][language]}
+                  </span>
+                  <span className="text-gray-600">
+                    {slot && ` · ${slot.caregiver_name} ${slot.start_time}–${slot.end_time}`}
+                    {exception.exception_type !== 'cancelled' && (exception.caregiver_name || exception.start_time) &&
+                      ` → ${exception.caregiver_name || slot?.caregiver_name || ''} ${exception.start_time ? `${exception.start_time}–${exception.end_time}` : ''}`}
+                  </span>
+                  {exception.reason && <div className="text-xs text-gray-500">{exception.reason}</div>}
+                </div>
+                <button
+                  onClick={() => handleDeleteException(exception.id)}
+                  className="text-red-600 hover:text-red-800"
+                  title={language === 'fr' ? 'Supprimer' : 'Delete'}
+                >
+                  <X size={16} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleAddException} className="grid grid-cols-1 sm:grid-cols-4 gap-2 p-3 border border-gray-200 rounded-lg">
+        <input
+          type="date"
+          value={exceptionForm.date}
+          onChange={(e) => setExceptionForm({ ...exceptionForm, date: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          required
+        />
+        <select
+          value={exceptionForm.exception_type}
+          onChange={(e) => setExceptionForm({ ...exceptionForm, exception_type: e.target.value as ScheduleExceptionType })}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        >
+          {(Object.keys(EXCEPTION_TYPE_LABELS) as ScheduleExceptionType[]).map(type => (
+            <option key={type} value={type}>{EXCEPTION_TYPE_LABELS[type][language]}</option>
+          ))}
+        </select>
+        {exceptionForm.exception_type !== 'added' ? (
+          <select
+            value={exceptionForm.slot_id}
+            onChange={(e) => setExceptionForm({ ...exceptionForm, slot_id: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm sm:col-span-2"
+            required
+          >
+            <option value="">{language === 'fr' ? 'Créneau concerné' : 'Slot'}</option>
+            {exceptionSlots.map(slot => (
+              <option key={slot.id} value={slot.id}>{describeSlot(slot)}</option>
+            ))}
+          </select>
+        ) : (
+          <div className="sm:col-span-2"></div>
+        )}
+        {exceptionForm.exception_type !== 'cancelled' && (
+          <>
+            <input
+              type="text"
+              list="schedule-caregivers"
+              value={exceptionForm.caregiver_name}
+              onChange={(e) => setExceptionForm({ ...exceptionForm, caregiver_name: e.target.value })}
+              placeholder={exceptionForm.exception_type === 'modified'
+                ? (language === 'fr' ? 'Remplaçant (facultatif)' : 'Replacement (optional)')
+                : (language === 'fr' ? 'Intervenant' : 'Caregiver')}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              required={exceptionForm.exception_type === 'added'}
+            />
+            <input
+              type="time"
+              value={exceptionForm.start_time}
+              onChange={(e) => setExceptionForm({ ...exceptionForm, start_time: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              required={exceptionForm.exception_type === 'added' || !!exceptionForm.end_time}
+            />
+            <input
+              type="time"
+              value={exceptionForm.end_time}
+              onChange={(e) => setExceptionForm({ ...exceptionForm, end_time: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              required={exceptionForm.exception_type === 'added' || !!exceptionForm.start_time}
+            />
+          </>
+        )}
+        <input
+          type="text"
+          value={exceptionForm.reason}
+          onChange={(e) => setExceptionForm({ ...exceptionForm, reason: e.target.value })}
+          placeholder={language === 'fr' ? 'Motif (facultatif)' : 'Reason (optional)'}
+          className={`px-3 py-2 border border-gray-300 rounded-lg text-sm ${exceptionForm.exception_type === 'cancelled' ? 'sm:col-span-3' : ''}`}
+        />
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center justify-center gap-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+        >
+          <Plus size={16} />
+          {language === 'fr' ? 'Ajouter' : 'Add'}
+        </button>
+      </form>
+
+      <datalist id="schedule-caregivers">
+        {caregiverNames.map(name => <option key={name} value={name} />)}
+      </datalist>
+    </div>
+  );
+}
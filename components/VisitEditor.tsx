@@ -0,0 +1,407 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { Ban, History, Loader2, Pencil, Plus } from 'lucide-react';
+import { supabase, VisitAdjustment } from '@/lib/supabase';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { pairCheckInOuts, VisitPair } from '@/lib/billing';
+import {
+  ADJUSTMENT_TYPE_LABELS,
+  AdjustableCheckIn,
+  getRecordedEnd,
+  planVisitEdit,
+  validateVisitChanges,
+  VisitChanges,
+} from '@/lib/visit-adjustments';
+
+type CheckInOut = AdjustableCheckIn & {
+  photo_url?: string;
+};
+
+type VisitEditorProps = {
+  beneficiaryId: string;
+  date: string; // yyyy-MM-dd in the beneficiary's timezone
+  checkIns: CheckInOut[]; // Rows of the day, voided ones included
+  timezone: string;
+  caregiverNames?: string[];
+  onChange?: () => void;
+};
+
+type VisitForm = {
+  caregiverName: string;
+  start: string; // datetime-local value, beneficiary's timezone
+  end: string;
+  reason: string;
+};
+
+const INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+export default function VisitEditor({
+  beneficiaryId,
+  date,
+  checkIns,
+  timezone,
+  caregiverNames = [],
+  onChange,
+}: VisitEditorProps) {
+  const { language } = useLanguage();
+  const [editingId, setEditingId] = useState<string | null>(null); // Check-in id, or 'new'
+  const [form, setForm] = useState<VisitForm>({ caregiverName: '', start: '', end: '', reason: '' });
+  const [voidingId, setVoidingId] = useState<string | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [history, setHistory] = useState<VisitAdjustment[]>([]);
+
+  const rowIds = checkIns.map(ci => ci.id).sort().join(',');
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      if (!rowIds) {
+        setHistory([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('visit_adjustments')
+        .select('*')
+        .in('check_in_out_id', rowIds.split(','))
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading visit history:', error);
+        return;
+      }
+
+      setHistory(data || []);
+    };
+
+    loadHistory();
+  }, [rowIds]);
+
+  const pairs = pairCheckInOuts(checkIns);
+  const voided = checkIns.filter(ci => ci.voided_at);
+  const toInput = (timestamp: string) => formatInTimeZone(timestamp, timezone, INPUT_FORMAT);
+  const toTime = (timestamp: string) => formatInTimeZone(timestamp, timezone, 'HH:mm');
+
+  const startEdit = (pair: VisitPair<CheckInOut>) => {
+    setEditingId(pair.checkIn.id);
+    setForm({
+      caregiverName: pair.checkIn.caregiver_name,
+      start: toInput(pair.checkIn.timestamp),
+      end: pair.checkOut ? toInput(pair.checkOut.timestamp) : '',
+      reason: '',
+    });
+    setVoidingId(null);
+    setError('');
+  };
+
+  const startAdd = () => {
+    setEditingId('new');
+    setForm({ caregiverName: '', start: `${date}T09:00`, end: `${date}T11:00`, reason: '' });
+    setVoidingId(null);
+    setError('');
+  };
+
+  const formChanges = (): VisitChanges => ({
+    caregiverName: form.caregiverName,
+    start: fromZonedTime(form.start, timezone),
+    end: form.end ? fromZonedTime(form.end, timezone) : undefined,
+  });
+
+  // The server writes the row changes and their audit entries together, as the signed-in account
+  const submitAdjustment = async (adjustment: Record<string, string | undefined>) => {
+    const response = await fetch('/api/visits/adjustments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ beneficiary_id: beneficiaryId, ...adjustment }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error);
+  };
+
+  const saveVisit = async () => {
+    if (form.start === '') {
+      setError(language === 'fr' ? 'Indiquez l\'heure d\'arrivée' : 'Enter the start time');
+      return;
+    }
+    const editedPair = pairs.find(p => p.checkIn.id === editingId);
+    const changes: VisitChanges = { ...formChanges(), recordedEnd: editedPair && getRecordedEnd(editedPair) };
+    const validationError = validateVisitChanges(changes, language);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (!form.reason.trim()) {
+      setError(language === 'fr' ? 'Indiquez le motif de la correction' : 'Enter the reason for the change');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      if (editingId !== 'new') {
+        if (!editedPair) return;
+        if (planVisitEdit(editedPair, changes).updates.length === 0) {
+          setEditingId(null);
+          return;
+        }
+      }
+
+      await submitAdjustment({
+        adjustment_type: editingId === 'new' ? 'add' : 'edit',
+        check_in_id: editingId === 'new' ? undefined : editingId ?? undefined,
+        caregiver_name: changes.caregiverName,
+        start: changes.start.toISOString(),
+        end: changes.end?.toISOString(),
+        reason: form.reason.trim(),
+      });
+
+      setEditingId(null);
+      onChange?.();
+    } catch (err) {
+      console.error('Error saving visit:', err);
+      setError(language === 'fr' ? 'Erreur lors de l\'enregistrement de la visite' : 'Error saving the visit');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const voidVisit = async (pair: VisitPair<CheckInOut>) => {
+    if (!voidReason.trim()) {
+      setError(language === 'fr' ? 'Indiquez le motif de l\'annulation' : 'Enter the reason for voiding');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      await submitAdjustment({
+        adjustment_type: 'void',
+        check_in_id: pair.checkIn.id,
+        reason: voidReason.trim(),
+      });
+      setVoidingId(null);
+      onChange?.();
+    } catch (err) {
+      console.error('Error voiding visit:', err);
+      setError(language === 'fr' ? 'Erreur lors de l\'annulation de la visite' : 'Error voiding the visit');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const describeValues = (values: Record<string, unknown>) =>
+    Object.entries(values)
+      .map(([key, value]) => {
+        const shown = typeof value === 'string' && (key === 'timestamp' || key.endsWith('_at'))
+          ? formatInTimeZone(value, timezone, 'dd/MM HH:mm')
+          : value ?? '—';
+        return `${key}: ${shown}`;
+      })
+      .join(', ');
+
+  const visitForm = (
+    <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3">
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">
+          {language === 'fr' ? 'Intervenant(e)' : 'Caregiver'}
+        </label>
+        <input
+          type="text"
+          list="visit-editor-caregivers"
+          value={form.caregiverName}
+          onChange={(e) => setForm({ ...form, caregiverName: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+        />
+        <datalist id="visit-editor-caregivers">
+          {caregiverNames.map(name => <option key={name} value={name} />)}
+        </datalist>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">
+          {language === 'fr' ? 'Motif' : 'Reason'}
+        </label>
+        <input
+          type="text"
+          value={form.reason}
+          onChange={(e) => setForm({ ...form, reason: e.target.value })}
+          placeholder={language === 'fr' ? 'Ex. : téléphone déchargé' : 'e.g. phone was dead'}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">
+          {language === 'fr' ? 'Arrivée' : 'Start'}
+        </label>
+        <input
+          type="datetime-local"
+          value={form.start}
+          onChange={(e) => setForm({ ...form, start: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">
+          {language === 'fr' ? 'Départ (vide = en cours)' : 'End (empty = in progress)'}
+        </label>
+        <input
+          type="datetime-local"
+          value={form.end}
+          onChange={(e) => setForm({ ...form, end: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+        />
+      </div>
+      <div className="md:col-span-2 flex gap-2">
+        <button
+          onClick={saveVisit}
+          disabled={saving}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm"
+        >
+          {saving && <Loader2 className="animate-spin" size={16} />}
+          {language === 'fr' ? 'Enregistrer' : 'Save'}
+        </button>
+        <button
+          onClick={() => setEditingId(null)}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm"
+        >
+          {language === 'fr' ? 'Annuler' : 'Cancel'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 md:p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">
+          {language === 'fr' ? 'Corriger les visites' : 'Correct visits'}
+        </h3>
+        {editingId !== 'new' && (
+          <button
+            onClick={startAdd}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+          >
+            <Plus size={16} />
+            {language === 'fr' ? 'Ajouter une visite' : 'Add a visit'}
+          </button>
+        )}
+      </div>
+
+      {editingId === 'new' && (
+        <div className="mb-4 p-3 border border-blue-200 bg-blue-50 rounded-lg">
+          <p className="text-sm font-medium text-blue-900">
+            {language === 'fr' ? 'Nouvelle visite saisie manuellement' : 'New visit entered by hand'}
+          </p>
+          {visitForm}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {pairs.map(pair => (
+          <div key={pair.checkIn.id} className="p-3 border border-gray-200 rounded-lg">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="text-sm text-gray-800">
+                <span className="font-semibold">{pair.checkIn.caregiver_name}</span>
+                {' · '}
+                {toTime(pair.checkIn.timestamp)} – {pair.checkOut ? toTime(pair.checkOut.timestamp) : (language === 'fr' ? 'en cours' : 'in progress')}
+                {(pair.checkIn.verification_method === 'manual' || pair.checkOut?.verification_method === 'manual' || pair.corrected) && (
+                  <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-700">
+                    {language === 'fr' ? 'Manuel' : 'Manual'}
+                  </span>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => startEdit(pair)}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm"
+                >
+                  <Pencil size={14} />
+                  {language === 'fr' ? 'Modifier' : 'Edit'}
+                </button>
+                <button
+                  onClick={() => {
+                    setVoidingId(pair.checkIn.id);
+                    setVoidReason('');
+                    setEditingId(null);
+                    setError('');
+                  }}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-red-50 text-red-700 rounded-lg hover:bg-red-100 text-sm"
+                >
+                  <Ban size={14} />
+                  {language === 'fr' ? 'Annuler la visite' : 'Void'}
+                </button>
+              </div>
+            </div>
+
+            {editingId === pair.checkIn.id && visitForm}
+
+            {voidingId === pair.checkIn.id && (
+              <div className="mt-3 flex flex-col md:flex-row gap-2">
+                <input
+                  type="text"
+                  value={voidReason}
+                  onChange={(e) => setVoidReason(e.target.value)}
+                  placeholder={language === 'fr' ? 'Motif (ex. : pointage en double)' : 'Reason (e.g. duplicate check-in)'}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+                />
+                <button
+                  onClick={() => voidVisit(pair)}
+                  disabled={saving}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 text-sm"
+                >
+                  {language === 'fr' ? 'Confirmer l\'annulation' : 'Confirm void'}
+                </button>
+                <button
+                  onClick={() => setVoidingId(null)}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm"
+                >
+                  {language === 'fr' ? 'Retour' : 'Back'}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {voided.map(ci => (
+          <div key={ci.id} className="p-3 border border-gray-100 bg-gray-50 rounded-lg text-sm text-gray-400 line-through">
+            {ci.caregiver_name} · {ci.action} {toTime(ci.timestamp)}
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {history.length > 0 && (
+        <div className="mt-6">
+          <div className="flex items-center gap-2 mb-2">
+            <History size={16} className="text-gray-600" />
+            <h4 className="text-sm font-semibold text-gray-700">
+              {language === 'fr' ? 'Historique des corrections' : 'Correction history'}
+            </h4>
+          </div>
+          <ul className="space-y-2">
+            {history.map(entry => (
+              <li key={entry.id} className="text-xs text-gray-600 border-l-2 border-orange-300 pl-3">
+                <span className="font-medium text-gray-800">
+                  {ADJUSTMENT_TYPE_LABELS[entry.adjustment_type]?.[language] ?? entry.adjustment_type}
+                </span>
+                {' · '}
+                {formatInTimeZone(entry.created_at, timezone, 'dd/MM/yyyy HH:mm')}
+                {entry.adjusted_by_name && ` · ${entry.adjusted_by_name}`}
+                <br />
+                {language === 'fr' ? 'Motif' : 'Reason'}: {entry.reason}
+                <br />
+                {Object.keys(entry.previous_values).length > 0 && (
+                  <>{language === 'fr' ? 'Avant' : 'Before'}: {describeValues(entry.previous_values)}<br /></>
+                )}
+                {language === 'fr' ? 'Après' : 'After'}: {describeValues(entry.new_values)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
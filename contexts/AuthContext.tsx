@@ -39,195 +39,56 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
 
     let isMounted = true;
-    let hasLoaded = false;
 
-    // Check for Supabase session (magic link users)
-    const checkSupabaseSession = async () => {
+    // The session cookie (httpOnly) is the source of truth; the browser only asks who it is
+    const loadSession = async () => {
       console.log('[AuthContext] Starting session check...');
 
-      // FIRST: Check localStorage for saved user data (fast, works offline)
-      const storedUser = localStorage.getItem('user');
-      console.log('[AuthContext] Checking localStorage for user data...');
-      console.log('[AuthContext] localStorage.getItem("user"):', storedUser ? 'found' : 'not found');
-
-      if (storedUser) {
-        try {
-          const userData = JSON.parse(storedUser);
-          console.log('[AuthContext] Found stored user data:', userData);
-          setUser(userData);
-          setIsLoading(false);
-          hasLoaded = true;
-          console.log('[AuthContext] ✅ Loaded from localStorage (offline-safe)');
-
-          // Continue to verify session in background (don't await)
-          supabase.auth.getSession().then(({ data: { session } }) => {
-            if (!session) {
-              // Session expired but localStorage still has data - clear it
-              console.log('[AuthContext] Session expired, clearing localStorage');
-              localStorage.removeItem('user');
-              if (isMounted) {
-                setUser(null);
-              }
-            }
-          }).catch(err => {
-            console.log('[AuthContext] Background session check failed (offline?):', err.message);
-            // Keep user logged in from localStorage even if network fails
-          });
-
-          return;
-        } catch (err) {
-          console.error('[AuthContext] Error parsing stored user:', err);
-          localStorage.removeItem('user');
-        }
-      }
-
-      // SECOND: No localStorage data - check Supabase session
-      console.log('[AuthContext] No localStorage data, checking Supabase session');
-
-      // Ensure we always set loading to false eventually
-      const timeoutId = setTimeout(() => {
-        console.log('[AuthContext] Session check timeout - forcing loading to false');
-        if (isMounted && !hasLoaded) {
-          setIsLoading(false);
-          hasLoaded = true;
-        }
-      }, 5000); // 5 second max wait (increased for Android)
-
       try {
-        const { data: { session } } = await supabase.auth.getSession();
-        console.log('[AuthContext] Session:', session ? 'exists' : 'none');
+        const response = await fetch('/api/auth/session');
 
-        if (!isMounted) {
-          clearTimeout(timeoutId);
+        if (response.ok) {
+          const userData = await response.json();
+          if (isMounted) setUser(userData);
           return;
         }
 
-        if (session?.user) {
-          // User logged in via magic link
-          const email = session.user.email!;
-          console.log('[AuthContext] Magic link user:', email);
-
-          // Try to find family member
-          const { data: familyMember } = await supabase
-            .from('family_members')
-            .select('id, name, beneficiary_id')
-            .eq('email', email)
-            .single();
-
-          if (!isMounted) {
-            clearTimeout(timeoutId);
-            return;
-          }
-
-          if (familyMember) {
-            console.log('[AuthContext] Found family member:', familyMember.name);
-            const userData = {
-              id: familyMember.id,
-              email,
-              role: 'family' as const,
-              name: familyMember.name,
-              beneficiary_id: familyMember.beneficiary_id
-            };
-            setUser(userData);
-            localStorage.setItem('user', JSON.stringify(userData));
-            clearTimeout(timeoutId);
-            setIsLoading(false);
-            hasLoaded = true;
-            return;
-          }
+        // No cookie yet: a magic link session is exchanged for one
+        const { data: { session } } = await supabase.auth.getSession();
+        console.log('[AuthContext] Supabase session:', session ? 'exists' : 'none');
 
-          // Try to find primary contact
-          const { data: primaryUser } = await supabase
-            .from('users')
-            .select('id, email, role, name, beneficiary_id')
-            .eq('email', email)
-            .single();
+        if (session) {
+          const exchange = await fetch('/api/auth/session', {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${session.access_token}` },
+          });
 
-          if (!isMounted) {
-            clearTimeout(timeoutId);
+          if (exchange.ok) {
+            const userData = await exchange.json();
+            if (isMounted) setUser(userData);
             return;
           }
-
-          if (primaryUser) {
-            console.log('[AuthContext] Found primary user:', primaryUser.name);
-            const userData = {
-              id: primaryUser.id,
-              email: primaryUser.email,
-              role: primaryUser.role as 'admin' | 'family',
-              name: primaryUser.name,
-              beneficiary_id: primaryUser.beneficiary_id
-            };
-            setUser(userData);
-            localStorage.setItem('user', JSON.stringify(userData));
-          }
-        } else {
-          // No Supabase session, check localStorage for password-based login
-          console.log('[AuthContext] No Supabase session, checking localStorage');
-          const storedUser = localStorage.getItem('user');
-          if (storedUser && isMounted) {
-            console.log('[AuthContext] Found stored user');
-            setUser(JSON.parse(storedUser));
-          }
         }
 
-        clearTimeout(timeoutId);
-        if (isMounted && !hasLoaded) {
-          setIsLoading(false);
-          hasLoaded = true;
-          console.log('[AuthContext] Loading complete');
-        }
+        if (isMounted) setUser(null);
       } catch (error) {
         console.error('[AuthContext] Error checking session:', error);
-        clearTimeout(timeoutId);
-        if (isMounted && !hasLoaded) {
+      } finally {
+        if (isMounted) {
           setIsLoading(false);
-          hasLoaded = true;
+          console.log('[AuthContext] Loading complete');
         }
       }
     };
 
-    checkSupabaseSession();
-
-    // Listen for auth changes - handle all relevant events
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event, session) => {
-      console.log('[AuthContext] Auth state change:', event, 'Session exists:', !!session, 'Has loaded:', hasLoaded);
+    loadSession();
 
-      if (!isMounted) return;
-
-      // Handle different auth events
-      if (event === 'SIGNED_IN' && session) {
-        // Only reload if we haven't loaded yet (prevents loops on Android Chrome)
-        if (!hasLoaded) {
-          console.log('[AuthContext] Session detected, loading user data');
-          hasLoaded = false; // Allow reload
-          await checkSupabaseSession();
-        } else {
-          console.log('[AuthContext] Already loaded, ignoring SIGNED_IN event');
-        }
-      } else if (event === 'INITIAL_SESSION') {
-        if (session) {
-          console.log('[AuthContext] Initial session detected, loading user data');
-          hasLoaded = false;
-          await checkSupabaseSession();
-        } else {
-          // Initial session but no session found, check localStorage
-          console.log('[AuthContext] No session in INITIAL_SESSION, checking localStorage');
-          const storedUser = localStorage.getItem('user');
-          if (storedUser && isMounted) {
-            setUser(JSON.parse(storedUser));
-          }
-          if (isMounted && !hasLoaded) {
-            setIsLoading(false);
-            hasLoaded = true;
-          }
-        }
-      } else if (event === 'SIGNED_OUT') {
-        // Only clear data on explicit sign out
+    // Signing out in another tab ends the session here too
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_OUT' && isMounted) {
         console.log('[AuthContext] User signed out');
         setUser(null);
-        localStorage.removeItem('user');
       }
-      // TOKEN_REFRESHED and USER_UPDATED are ignored to prevent loops
     });
 
     return () => {
@@ -250,9 +111,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         return false;
       }
 
-      const userData = await response.json();
+      const { token_hash, ...userData } = await response.json();
+
+      // Open the Supabase session the database policies rely on
+      const { error } = await supabase.auth.verifyOtp({ token_hash, type: 'magiclink' });
+      if (error) {
+        console.error('Session error:', error);
+        return false;
+      }
+
       setUser(userData);
-      localStorage.setItem('user', JSON.stringify(userData));
 
       // Redirect based on role
       if (userData.role === 'admin') {
@@ -269,11 +137,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = async () => {
-    // Sign out from Supabase if logged in via magic link
+    // Clear the session cookie, then the Supabase session
+    await fetch('/api/auth/session', { method: 'DELETE' });
     await supabase.auth.signOut();
 
     setUser(null);
-    localStorage.removeItem('user');
+    localStorage.removeItem('user'); // Left by earlier versions
     router.push('/login');
   };
 
@@ -95,6 +95,10 @@ const translations = {
       addressHelp: 'Utilisée pour déterminer le calendrier des jours fériés (France, US, etc.)',
       regularRate: 'Tarif normal',
       holidayRate: 'Tarif majoré',
+      vatRate: 'Taux de TVA',
+      ratesEnteredAs: 'Tarifs saisis',
+      ratesHT: 'Hors taxes (HT)',
+      ratesTTC: 'Toutes taxes comprises (TTC)',
       alreadyHaveAccount: 'Vous avez déjà un compte ? Connectez-vous',
       needAccount: 'Besoin d\'un compte ? Inscrivez-vous',
       name: 'Nom',
@@ -295,6 +299,10 @@ const translations = {
       addressHelp: 'Used to determine holiday calendar (France, US, etc.)',
       regularRate: 'Regular Rate',
       holidayRate: 'Holiday Rate',
+      vatRate: 'VAT Rate',
+      ratesEnteredAs: 'Rates entered',
+      ratesHT: 'Before VAT',
+      ratesTTC: 'Including VAT',
       alreadyHaveAccount: 'Already have an account? Sign in',
       needAccount: 'Need an account? Sign up',
       name: 'Name',
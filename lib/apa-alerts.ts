@@ -0,0 +1,127 @@
+/**
+ * Server-side APA/PCH plan alerts
+ * After a check-out, recomputes the month's plan usage and notifies family members the
+ * first time it reaches 80% and 100%. Sent alerts are recorded in apa_usage_alerts so
+ * each threshold is pushed once per month, whichever route recorded the check-out.
+ */
+import { createClient } from '@supabase/supabase-js';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { getTimezoneForCountry } from './timezone-utils';
+import { getHolidayCalendarForBeneficiary } from './holiday-calendars';
+import { getVatSettingsForBeneficiary } from './rate-utils';
+import { APA_ALERT_THRESHOLDS, computeApaUsage } from './apa-plan';
+import { sendApaThresholdNotification } from './push-notification-service';
+import { fetchVisitPairs } from './visits';
+
+/**
+ * Check the plan usage of the month containing `at` and send any threshold alert not sent yet
+ * @param beneficiaryId - Beneficiary whose visit just ended
+ * @param at - Time of the check-out (default: now)
+ * @returns Thresholds newly reached by this call
+ */
+export async function notifyApaThresholds(beneficiaryId: string, at: Date = new Date()): Promise<number[]> {
+  // Use service role key for server-side operations
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    }
+  );
+
+  const { data: beneficiary } = await supabase
+    .from('beneficiaries')
+    .select('*')
+    .eq('id', beneficiaryId)
+    .single();
+
+  if (!beneficiary) return [];
+
+  const timezone = getTimezoneForCountry(beneficiary.country);
+  const month = formatInTimeZone(at, timezone, 'yyyy-MM');
+  const [year, monthIndex] = month.split('-').map(part => parseInt(part, 10));
+  const nextMonth = monthIndex === 12 ? `${year + 1}-01` : `${year}-${String(monthIndex + 1).padStart(2, '0')}`;
+  const monthStart = fromZonedTime(`${month}-01T00:00:00`, timezone);
+  const monthEnd = fromZonedTime(`${nextMonth}-01T00:00:00`, timezone);
+
+  const [{ data: rateHistory }, { data: ruleSets }, { data: checkIns }, pairs] = await Promise.all([
+    supabase.from('beneficiary_rate_history').select('*').eq('beneficiary_id', beneficiaryId),
+    supabase.from('beneficiary_majoration_rule_sets').select('*').eq('beneficiary_id', beneficiaryId),
+    supabase
+      .from('check_in_outs')
+      .select('*')
+      .is('voided_at', null)
+      .eq('beneficiary_id', beneficiaryId)
+      .gte('timestamp', monthStart.toISOString())
+      .lt('timestamp', monthEnd.toISOString()),
+    fetchVisitPairs(supabase, beneficiaryId, monthStart, new Date(monthEnd.getTime() - 1)),
+  ]);
+
+  const [usage] = computeApaUsage({
+    checkIns: checkIns || [],
+    pairs,
+    months: [month],
+    apaMonthlyHours: beneficiary.apa_monthly_hours,
+    rateHistory: rateHistory || [],
+    fallbackRate: beneficiary.regular_rate || 15,
+    timezone,
+    holidays: getHolidayCalendarForBeneficiary(beneficiary),
+    majorationRuleSets: ruleSets || [],
+    vat: getVatSettingsForBeneficiary(beneficiary),
+  });
+
+  if (!usage.allocatedHours || usage.usagePercent === undefined) return [];
+
+  const reached = APA_ALERT_THRESHOLDS.filter(threshold => usage.usagePercent! >= threshold);
+  if (reached.length === 0) return [];
+
+  // Family members with push notifications and plan alerts enabled
+  const { data: familyMembers } = await supabase
+    .from('family_members')
+    .select('id, notification_preferences')
+    .eq('beneficiary_id', beneficiaryId);
+
+  const familyMemberIds = (familyMembers || [])
+    .filter(member => {
+      const preferences = member.notification_preferences || {};
+      return (preferences.push === true || preferences.push_enabled === true) && preferences.apa_threshold !== false;
+    })
+    .map(member => member.id);
+
+  // Record every threshold reached; notify only the highest new one (no 80% push after 100%)
+  const notified: number[] = [];
+  for (const threshold of reached) {
+    // The unique (beneficiary_id, month, threshold) index makes this the send-once guard
+    const { error } = await supabase
+      .from('apa_usage_alerts')
+      .insert({
+        beneficiary_id: beneficiaryId,
+        month,
+        threshold,
+        billed_hours: usage.billedHours,
+        allocated_hours: usage.allocatedHours,
+      });
+
+    if (error) {
+      if (error.code !== '23505') console.error('[APA] Error recording alert:', error);
+      continue;
+    }
+
+    notified.push(threshold);
+  }
+
+  if (notified.length > 0 && familyMemberIds.length > 0) {
+    await sendApaThresholdNotification(
+      familyMemberIds,
+      beneficiary.name,
+      notified[notified.length - 1],
+      usage.billedHours,
+      usage.allocatedHours
+    );
+  }
+
+  return notified;
+}
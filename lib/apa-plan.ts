@@ -0,0 +1,173 @@
+/**
+ * APA/PCH plan consumption
+ * Tracks billed hours day by day against the monthly hours allocated by the plan d'aide,
+ * projects end-of-month usage from the recurring visit pattern and flags the 80% / 100%
+ * thresholds. Hours come from the shared billing engine, so they always match the
+ * financial tab and the exports. Pure functions: safe on the client and in API routes.
+ */
+import { BeneficiaryRateHistory } from './supabase';
+import { getRateForDate } from './rate-utils';
+import { BillableCheckIn, BillingInput, computeBilling } from './billing';
+
+// Usage percentages that trigger a family notification, once per month each
+export const APA_ALERT_THRESHOLDS = [80, 100];
+
+// Number of past days used to learn the weekly visit pattern
+const PROJECTION_WINDOW_DAYS = 28;
+
+export type ApaDayUsage = {
+  date: string; // yyyy-MM-dd in the beneficiary's timezone
+  hours: number;
+  cumulativeHours: number;
+};
+
+export type ApaMonthUsage = {
+  month: string; // yyyy-MM
+  allocatedHours?: number; // undefined when no plan applies to the month
+  billedHours: number;
+  billedAmount: number; // HT
+  usagePercent?: number;
+  remainingHours?: number; // Negative when the plan is exceeded
+  days: ApaDayUsage[]; // Every day of the month, in order
+};
+
+export type ApaProjection = {
+  projectedHours: number;
+  projectedPercent?: number;
+  remainingScheduledHours: number; // Hours expected between tomorrow and the end of the month
+  weekdayAverages: number[]; // Average hours per weekday (0 = Sunday) over the last 4 weeks
+};
+
+export type ApaUsageInput<T extends BillableCheckIn = BillableCheckIn> = BillingInput<T> & {
+  months: string[]; // yyyy-MM months to report, in display order
+  apaMonthlyHours?: number; // Beneficiary allocation when no rate history is recorded
+};
+
+function daysInMonth(month: string): string[] {
+  const [year, monthIndex] = month.split('-').map(part => parseInt(part, 10));
+  const count = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return Array.from({ length: count }, (_, i) => `${month}-${String(i + 1).padStart(2, '0')}`);
+}
+
+function addDays(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map(part => parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function weekdayOf(dateStr: string): number {
+  const [year, month, day] = dateStr.split('-').map(part => parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Get the monthly hours allocated by the plan for a month
+ * Same precedence as the financial tab: rate history when recorded, otherwise the beneficiary value.
+ * @param rateHistory - Rate history records for the beneficiary
+ * @param month - Month in yyyy-MM format
+ * @param apaMonthlyHours - Beneficiary allocation (used when there is no rate history)
+ */
+export function getApaAllocationForMonth(
+  rateHistory: BeneficiaryRateHistory[] | undefined,
+  month: string,
+  apaMonthlyHours?: number
+): number | undefined {
+  if (!rateHistory || rateHistory.length === 0) return apaMonthlyHours || undefined;
+  return getRateForDate(rateHistory, `${month}-01`).apaMonthlyHours || undefined;
+}
+
+/**
+ * Compute plan usage for several months
+ * Visits are attributed to the local date of their check-in, like the financial tab.
+ * Training hours are never billed and so never consume the plan.
+ * @returns One entry per requested month, in the same order
+ */
+export function computeApaUsage<T extends BillableCheckIn>({
+  months,
+  apaMonthlyHours,
+  ...billingInput
+}: ApaUsageInput<T>): ApaMonthUsage[] {
+  const { visits } = computeBilling(billingInput);
+
+  const hoursByDate = new Map<string, number>();
+  const amountByMonth = new Map<string, number>();
+  visits.forEach(visit => {
+    hoursByDate.set(visit.date, (hoursByDate.get(visit.date) || 0) + visit.totalHours);
+    const month = visit.date.slice(0, 7);
+    amountByMonth.set(month, (amountByMonth.get(month) || 0) + visit.totalAmount);
+  });
+
+  return months.map(month => {
+    let cumulativeHours = 0;
+    const days = daysInMonth(month).map(date => {
+      const hours = hoursByDate.get(date) || 0;
+      cumulativeHours += hours;
+      return { date, hours, cumulativeHours };
+    });
+
+    const allocatedHours = getApaAllocationForMonth(billingInput.rateHistory, month, apaMonthlyHours);
+    return {
+      month,
+      allocatedHours,
+      billedHours: cumulativeHours,
+      billedAmount: amountByMonth.get(month) || 0,
+      usagePercent: allocatedHours ? (cumulativeHours / allocatedHours) * 100 : undefined,
+      remainingHours: allocatedHours !== undefined ? allocatedHours - cumulativeHours : undefined,
+      days,
+    };
+  });
+}
+
+/**
+ * Project end-of-month usage from the recurring visit pattern
+ * Each remaining day is expected to get the average hours billed on the same weekday
+ * over the 4 weeks before today (e.g. a Tuesday/Friday schedule projects only Tuesdays
+ * and Fridays). Past months project to their billed hours.
+ * @param usage - Month usage from computeApaUsage
+ * @param dailyHours - Billed hours by local date, covering at least the 4 weeks before today
+ * @param today - Today's date (yyyy-MM-dd) in the beneficiary's timezone
+ */
+export function projectApaMonthEnd(
+  usage: ApaMonthUsage,
+  dailyHours: Map<string, number>,
+  today: string
+): ApaProjection {
+  const weekdayTotals = Array(7).fill(0);
+  const weekdayCounts = Array(7).fill(0);
+  for (let offset = PROJECTION_WINDOW_DAYS; offset >= 1; offset--) {
+    const date = addDays(today, -offset);
+    const weekday = weekdayOf(date);
+    weekdayTotals[weekday] += dailyHours.get(date) || 0;
+    weekdayCounts[weekday] += 1;
+  }
+  const weekdayAverages = weekdayTotals.map((total, weekday) => total / weekdayCounts[weekday]);
+
+  const remainingScheduledHours = usage.days
+    .filter(day => day.date > today)
+    .reduce((sum, day) => sum + weekdayAverages[weekdayOf(day.date)], 0);
+
+  const projectedHours = usage.billedHours + remainingScheduledHours;
+  return {
+    projectedHours,
+    projectedPercent: usage.allocatedHours ? (projectedHours / usage.allocatedHours) * 100 : undefined,
+    remainingScheduledHours,
+    weekdayAverages,
+  };
+}
+
+/**
+ * Billed hours by local date across several months of usage
+ */
+export function getApaDailyHours(usages: ApaMonthUsage[]): Map<string, number> {
+  const dailyHours = new Map<string, number>();
+  usages.forEach(usage => usage.days.forEach(day => dailyHours.set(day.date, day.hours)));
+  return dailyHours;
+}
+
+/**
+ * Highest alert threshold reached by a usage percentage
+ * @returns 80, 100, or undefined when below every threshold
+ */
+export function getApaAlertThreshold(usagePercent: number | undefined): number | undefined {
+  if (usagePercent === undefined) return undefined;
+  return APA_ALERT_THRESHOLDS.filter(threshold => usagePercent >= threshold).pop();
+}
@@ -0,0 +1,283 @@
+/**
+ * Shared billing engine
+ * Pairs check-ins into visits and splits each visit into regular and majorated hours
+ * using the beneficiary's majoration rule set (see lib/majoration-rules.ts), slice by
+ * slice in the beneficiary's timezone (see lib/visit-segments.ts). Contracts that bill
+ * concurrent presence once only bill the time not already covered (see lib/overlaps.ts).
+ * The financial tab, the CSV export and the PDF exports all consume this module so the
+ * figures sent to the agency are always identical.
+ */
+import { formatInTimeZone } from 'date-fns-tz';
+import { BeneficiaryRateHistory, MajorationRuleSet } from './supabase';
+import { getRateForDate, VatSettings } from './rate-utils';
+import { getMajoratedRate, getMajorationRuleSetForDate } from './majoration-rules';
+import { segmentVisit } from './visit-segments';
+import { frenchHolidayCalendar, HolidayCalendar } from './holidays';
+import { subtractIntervals, TimeInterval } from './overlaps';
+
+export type BillableCheckIn = {
+  id: string;
+  caregiver_name: string;
+  action: 'check-in' | 'check-out';
+  timestamp: string;
+  is_training?: boolean;
+  corrected_check_out_at?: string | null; // End set by a family member when the check-out was forgotten
+  voided_at?: string | null; // Voided by hand: never paired nor billed
+};
+
+export type VisitPair<T extends BillableCheckIn = BillableCheckIn> = {
+  checkIn: T;
+  checkOut?: T;
+  corrected?: boolean; // checkOut stands for the corrected end, not a recorded check-out
+};
+
+export type MajorationBucket = {
+  percentage: number; // 0 = regular hours, 25 = +25%, ...
+  hours: number;
+  amount: number;
+};
+
+export type BillingLine = {
+  majorations: MajorationBucket[]; // Sorted by percentage, only levels with hours
+  totalHours: number;
+  totalAmount: number; // HT
+  vatAmount: number; // VAT on totalAmount, at the rate in effect on each slice's date
+  trainingHours: number; // Binôme / training hours, never billed
+};
+
+export type VisitLineItem = BillingLine & {
+  checkInId: string;
+  checkOutId: string;
+  caregiverName: string;
+  date: string; // yyyy-MM-dd in the beneficiary's timezone
+  start: Date;
+  end: Date;
+  isTraining: boolean;
+  billingRate: number; // HT base rate effective on the visit date
+  overlapHours: number; // Not billed: another caregiver was already billed for that time
+};
+
+export type CaregiverLineItem = BillingLine & {
+  name: string;
+};
+
+export type MonthLineItem = BillingLine & {
+  month: string; // yyyy-MM in the beneficiary's timezone
+};
+
+export type BillingInput<T extends BillableCheckIn = BillableCheckIn> = {
+  checkIns: T[];
+  pairs?: VisitPair<T>[]; // Visits loaded from the visits table, by check-in time (default: paired from checkIns)
+  rateHistory?: BeneficiaryRateHistory[];
+  fallbackRate: number;
+  timezone: string;
+  holidays?: HolidayCalendar; // Beneficiary's country/region calendar (default: France)
+  majorationRuleSets?: MajorationRuleSet[]; // Contract rule set versions (default: standard contract)
+  vat?: VatSettings; // Beneficiary VAT rate and HT/TTC entry mode (default: 5.5%, rates entered HT)
+};
+
+export type BillingResult = {
+  visits: VisitLineItem[];
+  caregivers: CaregiverLineItem[];
+  months: MonthLineItem[];
+  totals: BillingLine;
+};
+
+function emptyLine(): BillingLine {
+  return { majorations: [], totalHours: 0, totalAmount: 0, vatAmount: 0, trainingHours: 0 };
+}
+
+function addLine(target: BillingLine, line: BillingLine): void {
+  line.majorations.forEach(bucket => {
+    const existing = target.majorations.find(m => m.percentage === bucket.percentage);
+    if (existing) {
+      existing.hours += bucket.hours;
+      existing.amount += bucket.amount;
+    } else {
+      target.majorations.push({ ...bucket });
+      target.majorations.sort((x, y) => x.percentage - y.percentage);
+    }
+  });
+  target.totalHours += line.totalHours;
+  target.totalAmount += line.totalAmount;
+  target.vatAmount += line.vatAmount;
+  target.trainingHours += line.trainingHours;
+}
+
+/**
+ * Get the hours and amount billed at a majoration level
+ * @param line - Any billing line (visit, caregiver, month or totals)
+ * @param percentage - Majoration level (0 = regular hours)
+ * @returns The bucket, or an empty one when no hours fall in that level
+ */
+export function getMajorationBucket(line: BillingLine, percentage: number): MajorationBucket {
+  return line.majorations.find(m => m.percentage === percentage) || { percentage, hours: 0, amount: 0 };
+}
+
+/**
+ * VAT rate actually billed on a line, blended when the rate changed within the period
+ * @param line - Any billing line
+ * @param fallbackVatRate - Rate to report when nothing was billed
+ */
+export function getBilledVatRate(line: BillingLine, fallbackVatRate: number): number {
+  return line.totalAmount > 0 ? (line.vatAmount / line.totalAmount) * 100 : fallbackVatRate;
+}
+
+/**
+ * Majoration levels with hours across several lines, ascending
+ */
+export function getBilledMajorationLevels(lines: BillingLine[]): number[] {
+  const levels = new Set<number>();
+  lines.forEach(line => line.majorations.forEach(m => {
+    if (m.hours > 0) levels.add(m.percentage);
+  }));
+  return Array.from(levels).sort((a, b) => a - b);
+}
+
+/**
+ * Pair each check-in with the next check-out of the same caregiver.
+ * Mirrors refresh_visits (visits table, supabase/migration_add_visits.sql): keep both in sync.
+ * A check-out after the caregiver's next check-in belongs to that later visit, so a
+ * forgotten check-out leaves its visit open instead of swallowing the next one.
+ * Visits closed by a family member end at the corrected time (corrected pairs).
+ * Check-ins without a matching check-out are returned as open pairs; voided rows are ignored.
+ * @param checkIns - Flat list of check-in/check-out rows, in any order
+ * @returns Pairs sorted by check-in time
+ */
+export function pairCheckInOuts<T extends BillableCheckIn>(checkIns: T[]): VisitPair<T>[] {
+  const sorted = checkIns.filter(ci => !ci.voided_at).sort((a, b) =>
+    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  const pairs: VisitPair<T>[] = [];
+  const processed = new Set<string>();
+
+  sorted.forEach((ci, index) => {
+    if (processed.has(ci.id) || ci.action !== 'check-in') return;
+    processed.add(ci.id);
+
+    if (ci.corrected_check_out_at) {
+      pairs.push({
+        checkIn: ci,
+        checkOut: { ...ci, id: `${ci.id}:corrected`, action: 'check-out', timestamp: ci.corrected_check_out_at },
+        corrected: true,
+      });
+      return;
+    }
+
+    let checkOut: T | undefined;
+    for (const co of sorted.slice(index + 1)) {
+      if (co.caregiver_name !== ci.caregiver_name || processed.has(co.id)) continue;
+      if (co.action === 'check-in') break;
+      if (new Date(co.timestamp).getTime() > new Date(ci.timestamp).getTime()) {
+        checkOut = co;
+        break;
+      }
+    }
+
+    pairs.push({ checkIn: ci, checkOut });
+    if (checkOut) processed.add(checkOut.id);
+  });
+
+  return pairs;
+}
+
+/**
+ * Compute per-visit, per-caregiver and per-month line items for a set of check-ins.
+ * Pure function: no I/O, safe to call from components, exporters and API routes.
+ * @returns Line items; caregivers sorted by name, months and visits chronologically
+ */
+export function computeBilling<T extends BillableCheckIn>({
+  checkIns,
+  pairs,
+  rateHistory,
+  fallbackRate,
+  timezone,
+  holidays = frenchHolidayCalendar,
+  majorationRuleSets,
+  vat,
+}: BillingInput<T>): BillingResult {
+  const visits: VisitLineItem[] = [];
+  const billedTime: TimeInterval[] = []; // Non-training visits, for contracts billing overlaps once
+
+  (pairs ?? pairCheckInOuts(checkIns)).forEach(({ checkIn, checkOut }) => {
+    if (!checkOut) return;
+
+    const start = new Date(checkIn.timestamp);
+    const end = new Date(checkOut.timestamp);
+    const date = formatInTimeZone(start, timezone, 'yyyy-MM-dd');
+    const isTraining = !!checkIn.is_training;
+    const { billingRate } = getRateForDate(rateHistory || [], start, fallbackRate, timezone, vat);
+
+    const line = emptyLine();
+    let overlapHours = 0;
+    if (isTraining) {
+      line.trainingHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
+    } else {
+      // Concurrent time already billed for an earlier arrival is dropped when the contract says so
+      const interval = { start: start.getTime(), end: end.getTime() };
+      const billedParts = getMajorationRuleSetForDate(majorationRuleSets, date).bill_overlaps_once
+        ? subtractIntervals(interval, billedTime)
+        : [interval];
+      billedTime.push(interval);
+      overlapHours = (interval.end - interval.start - billedParts.reduce((sum, part) => sum + part.end - part.start, 0)) / (1000 * 60 * 60);
+
+      // Each slice is billed with the rules and rate in effect on its own local date
+      const byPercentage = new Map<number, MajorationBucket>();
+      billedParts.flatMap(part =>
+        segmentVisit(new Date(part.start), new Date(part.end), { timezone, majorationRuleSets, holidays })
+      ).forEach(segment => {
+        const { billingRate: segmentRate, vatRate } = getRateForDate(rateHistory || [], segment.date, fallbackRate, timezone, vat);
+        const hours = segment.minutes / 60;
+        const amount = hours * getMajoratedRate(segmentRate, segment.percentage);
+        const bucket = byPercentage.get(segment.percentage) || { percentage: segment.percentage, hours: 0, amount: 0 };
+        bucket.hours += hours;
+        bucket.amount += amount;
+        byPercentage.set(segment.percentage, bucket);
+        line.vatAmount += amount * (vatRate / 100);
+      });
+      line.majorations = Array.from(byPercentage.values()).sort((a, b) => a.percentage - b.percentage);
+      line.totalHours = line.majorations.reduce((sum, m) => sum + m.hours, 0);
+      line.totalAmount = line.majorations.reduce((sum, m) => sum + m.amount, 0);
+    }
+
+    visits.push({
+      ...line,
+      checkInId: checkIn.id,
+      checkOutId: checkOut.id,
+      caregiverName: checkIn.caregiver_name,
+      date,
+      start,
+      end,
+      isTraining,
+      billingRate,
+      overlapHours,
+    });
+  });
+
+  const caregiverMap = new Map<string, CaregiverLineItem>();
+  const monthMap = new Map<string, MonthLineItem>();
+  const totals = emptyLine();
+
+  visits.forEach(visit => {
+    if (!caregiverMap.has(visit.caregiverName)) {
+      caregiverMap.set(visit.caregiverName, { ...emptyLine(), name: visit.caregiverName });
+    }
+    addLine(caregiverMap.get(visit.caregiverName)!, visit);
+
+    const month = visit.date.slice(0, 7);
+    if (!monthMap.has(month)) {
+      monthMap.set(month, { ...emptyLine(), month });
+    }
+    addLine(monthMap.get(month)!, visit);
+
+    addLine(totals, visit);
+  });
+
+  return {
+    visits,
+    caregivers: Array.from(caregiverMap.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    months: Array.from(monthMap.values()).sort((a, b) => a.month.localeCompare(b.month)),
+    totals,
+  };
+}
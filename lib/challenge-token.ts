@@ -0,0 +1,98 @@
+/**
+ * Signed check-in challenge tokens
+ * /api/nfc/challenge issues a token once the tap is verified; /api/checkin/nfc only
+ * records a visit with a token it can verify. The token carries the beneficiary, the
+ * method, the tap accepted by the server and its issue/expiry times, signed with
+ * HMAC-SHA256, so the tap time comes from the server clock rather than the phone.
+ * Single use is enforced by recording the token id in nfc_used_tokens. The key
+ * (CHECKIN_TOKEN_SECRET) is used for nothing else and the `typ` claim names the token
+ * kind, so no other signed value passes as a challenge token.
+ * Server-only (node crypto).
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { PayloadKind } from './nfc-payload';
+
+// The check-in form may be submitted up to 15 minutes after the tap
+export const CHALLENGE_TOKEN_TTL_SECONDS = 15 * 60;
+
+export type ChallengeClaims = {
+  typ: 'checkin';
+  jti: string; // Token id, recorded in nfc_used_tokens once used
+  bid: string; // Beneficiary id
+  method: 'nfc' | 'qr';
+  tap: PayloadKind | null; // Payload verified by the challenge (null: QR code without payload)
+  kid: string | null; // Tag key id
+  ctr: number | null; // SDM tap counter
+  iat: number; // Tap time, seconds since epoch (server clock)
+  exp: number; // Expiry, seconds since epoch
+};
+
+export type ChallengeVerification =
+  | { valid: true; claims: ChallengeClaims }
+  | { valid: false; reason: 'invalid' | 'expired' };
+
+function getSigningKey(): string {
+  const key = process.env.CHECKIN_TOKEN_SECRET;
+  if (!key) {
+    throw new Error('CHECKIN_TOKEN_SECRET is not configured');
+  }
+  return key;
+}
+
+function sign(body: string): string {
+  return createHmac('sha256', getSigningKey()).update(body).digest('base64url');
+}
+
+/**
+ * Issue a token for a verified tap
+ * @param tap - Beneficiary, method and tap accepted by the challenge
+ * @param now - Issue time (default: now)
+ */
+export function issueChallengeToken(
+  tap: Pick<ChallengeClaims, 'bid' | 'method' | 'tap' | 'kid' | 'ctr'>,
+  now: Date = new Date()
+): { token: string; claims: ChallengeClaims } {
+  const iat = Math.floor(now.getTime() / 1000);
+  const claims: ChallengeClaims = {
+    typ: 'checkin',
+    jti: randomBytes(16).toString('hex'),
+    ...tap,
+    iat,
+    exp: iat + CHALLENGE_TOKEN_TTL_SECONDS,
+  };
+  const body = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return { token: `${body}.${sign(body)}`, claims };
+}
+
+/**
+ * Verify a token's signature, beneficiary and expiry
+ * @param token - Token returned by the challenge
+ * @param beneficiaryId - Beneficiary of the submission
+ * @param now - Verification time (default: now)
+ */
+export function verifyChallengeToken(
+  token: string | null | undefined,
+  beneficiaryId: string,
+  now: Date = new Date()
+): ChallengeVerification {
+  const [body, signature] = (token || '').split('.');
+  if (!body || !signature) return { valid: false, reason: 'invalid' };
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'invalid' };
+  }
+
+  let claims: ChallengeClaims;
+  try {
+    claims = JSON.parse(Buffer.from(body, 'base64url').toString());
+  } catch {
+    return { valid: false, reason: 'invalid' };
+  }
+
+  if (claims.typ !== 'checkin' || claims.bid !== beneficiaryId) return { valid: false, reason: 'invalid' };
+  if (now.getTime() / 1000 > claims.exp) return { valid: false, reason: 'expired' };
+
+  return { valid: true, claims };
+}
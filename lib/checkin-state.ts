@@ -0,0 +1,70 @@
+/**
+ * Check-in/out state machine
+ * Each caregiver is either away or at the beneficiary's home. /api/checkin/nfc only
+ * accepts a check-in from a caregiver who is away and a check-out from one who is at
+ * the home, after a minimum visit length. A visit left open past the forgotten
+ * check-out limit no longer counts as being at the home (see forgotten-check-outs.ts).
+ * Pure functions: safe on the client and in API routes.
+ */
+import { BillableCheckIn } from './billing';
+import { FORGOTTEN_CHECK_OUT_HOURS, getOpenVisits } from './forgotten-check-outs';
+
+// Check-outs sooner than this after the check-in are taken for a double tap
+export const MIN_VISIT_MINUTES = 5;
+
+export type CheckInErrorCode =
+  | 'ALREADY_CHECKED_IN' // Check-in while a visit is in progress
+  | 'NOT_CHECKED_IN' // Check-out without a visit in progress
+  | 'VISIT_TOO_SHORT'; // Check-out less than MIN_VISIT_MINUTES after the check-in
+
+export type CheckInStateError = {
+  code: CheckInErrorCode;
+  message: string;
+  checkedInAt?: string; // Check-in of the visit in progress
+};
+
+/**
+ * Validate an action against the caregiver's visits
+ * @param checkIns - Recent non-voided check-ins/outs of the caregiver at the beneficiary
+ * @param action - Requested action
+ * @param maxHours - Forgotten check-out limit of the beneficiary
+ * @param now - Time of the action (default: now)
+ * @returns Error, or null when the action is allowed
+ */
+export function validateCheckInAction<T extends BillableCheckIn>(
+  checkIns: T[],
+  action: 'check-in' | 'check-out',
+  maxHours: number = FORGOTTEN_CHECK_OUT_HOURS,
+  now: Date = new Date()
+): CheckInStateError | null {
+  const inProgress = getOpenVisits(checkIns, maxHours, now)
+    .filter(visit => !visit.forgotten)
+    .pop();
+
+  if (action === 'check-in') {
+    return inProgress
+      ? {
+        code: 'ALREADY_CHECKED_IN',
+        message: 'You are already checked in. Please check out first.',
+        checkedInAt: inProgress.pair.checkIn.timestamp,
+      }
+      : null;
+  }
+
+  if (!inProgress) {
+    return {
+      code: 'NOT_CHECKED_IN',
+      message: 'You are not checked in. Please check in first.',
+    };
+  }
+
+  if (inProgress.openHours * 60 < MIN_VISIT_MINUTES) {
+    return {
+      code: 'VISIT_TOO_SHORT',
+      message: `You checked in less than ${MIN_VISIT_MINUTES} minutes ago.`,
+      checkedInAt: inProgress.pair.checkIn.timestamp,
+    };
+  }
+
+  return null;
+}
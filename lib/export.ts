@@ -1,6 +1,12 @@
 import { format } from 'date-fns';
-import { BeneficiaryRateHistory } from './supabase';
-import { getRateForDate } from './rate-utils';
+import { BeneficiaryRateHistory, MajorationRuleSet } from './supabase';
+import { getRateForDate, VatSettings } from './rate-utils';
+import { formatInTimeZone } from 'date-fns-tz';
+import { computeBilling, getBilledMajorationLevels, getMajorationBucket, VisitPair } from './billing';
+import { getMajoratedRate, getMajorationLevels, getMajorationRuleSetForDate } from './majoration-rules';
+import { HolidayCalendar } from './holidays';
+import { TaxCreditStatement } from './tax-credit';
+import { VisitWithRows } from './visits';
 
 type CheckInOut = {
   id: string;
@@ -11,132 +17,34 @@ type CheckInOut = {
   photo_url?: string;
   latitude?: number;
   longitude?: number;
+  is_training?: boolean;
+  corrected_check_out_at?: string | null;
+  verification_method?: string | null;
 };
 
-type CaregiverSummary = {
-  name: string;
-  regularHours: number;
-  holidayHours: number;
-  totalHours: number;
-  regularAmount: number;
-  holidayAmount: number;
-  totalAmount: number;
-};
-
-function calculateCaregiverSummaries(
-  checkIns: CheckInOut[],
-  regularRate: number,
-  holidayRate: number,
-  rateHistory?: BeneficiaryRateHistory[],
-  timezone: string = 'Europe/Paris'
-): CaregiverSummary[] {
-  const caregiverMap = new Map<string, {
-    regularHours: number;
-    holidayHours: number;
-    regularAmount: number;
-    holidayAmount: number;
-  }>();
-
-  const sorted = [...checkIns].sort((a, b) =>
-    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
-
-  for (let i = 0; i < sorted.length - 1; i++) {
-    if (sorted[i].action === 'check-in' && sorted[i + 1].action === 'check-out') {
-      const caregiverName = sorted[i].caregiver_name;
-      const start = new Date(sorted[i].timestamp);
-      const end = new Date(sorted[i + 1].timestamp);
-      const totalMinutes = (end.getTime() - start.getTime()) / (1000 * 60);
-
-      // Get the applicable rate for this check-in date
-      const { billingRate: applicableRegularRate } = rateHistory && rateHistory.length > 0
-        ? getRateForDate(rateHistory, start, regularRate, timezone)
-        : { billingRate: regularRate };
-      const applicableHolidayRate = applicableRegularRate * 1.25; // Holiday rate is always 25% more
-
-      if (!caregiverMap.has(caregiverName)) {
-        caregiverMap.set(caregiverName, {
-          regularHours: 0,
-          holidayHours: 0,
-          regularAmount: 0,
-          holidayAmount: 0
-        });
-      }
-
-      const stats = caregiverMap.get(caregiverName)!;
-      const dayOfWeek = start.getDay();
-      const isSunday = dayOfWeek === 0;
-
-      if (isSunday) {
-        const hours = totalMinutes / 60;
-        stats.holidayHours += hours;
-        stats.holidayAmount += hours * applicableHolidayRate;
-      } else {
-        const endHour = end.getHours();
-        const endMinute = end.getMinutes();
-
-        if (endHour >= 20 || (endHour === 19 && endMinute > 0)) {
-          const eveningStart = new Date(start);
-          eveningStart.setHours(20, 0, 0, 0);
-
-          if (start < eveningStart && end > eveningStart) {
-            const regularMinutes = (eveningStart.getTime() - start.getTime()) / (1000 * 60);
-            const holidayMinutes = (end.getTime() - eveningStart.getTime()) / (1000 * 60);
-            const regularHours = regularMinutes / 60;
-            const holidayHours = holidayMinutes / 60;
-
-            stats.regularHours += regularHours;
-            stats.holidayHours += holidayHours;
-            stats.regularAmount += regularHours * applicableRegularRate;
-            stats.holidayAmount += holidayHours * applicableHolidayRate;
-          } else if (start >= eveningStart) {
-            const hours = totalMinutes / 60;
-            stats.holidayHours += hours;
-            stats.holidayAmount += hours * applicableHolidayRate;
-          } else {
-            const hours = totalMinutes / 60;
-            stats.regularHours += hours;
-            stats.regularAmount += hours * applicableRegularRate;
-          }
-        } else {
-          const hours = totalMinutes / 60;
-          stats.regularHours += hours;
-          stats.regularAmount += hours * applicableRegularRate;
-        }
-      }
-    }
-  }
-
-  const summaries: CaregiverSummary[] = [];
-  caregiverMap.forEach((stats, name) => {
-    const totalAmount = stats.regularAmount + stats.holidayAmount;
-    const totalHours = stats.regularHours + stats.holidayHours;
-
-    summaries.push({
-      name,
-      regularHours: stats.regularHours,
-      holidayHours: stats.holidayHours,
-      totalHours,
-      regularAmount: stats.regularAmount,
-      holidayAmount: stats.holidayAmount,
-      totalAmount,
-    });
-  });
-
-  return summaries.sort((a, b) => a.name.localeCompare(b.name));
-}
-
 export function exportFinancialSummaryToCSV(
   checkIns: CheckInOut[],
   elderlyName: string,
   selectedMonth: Date,
   regularRate: number,
-  holidayRate: number,
   currency: string,
   rateHistory?: BeneficiaryRateHistory[],
-  timezone: string = 'Europe/Paris'
+  timezone: string = 'Europe/Paris',
+  holidayCalendar?: HolidayCalendar,
+  majorationRuleSets?: MajorationRuleSet[],
+  vatSettings?: VatSettings,
+  pairs?: VisitPair<CheckInOut>[] // Visits from the visits table (default: paired from checkIns)
 ): void {
-  const summaries = calculateCaregiverSummaries(checkIns, regularRate, holidayRate, rateHistory, timezone);
+  const { caregivers: summaries, totals } = computeBilling({
+    checkIns,
+    pairs,
+    rateHistory,
+    fallbackRate: regularRate,
+    timezone,
+    holidays: holidayCalendar,
+    majorationRuleSets,
+    vat: vatSettings,
+  });
 
   if (summaries.length === 0) {
     alert('No data to export');
@@ -145,59 +53,52 @@ export function exportFinancialSummaryToCSV(
 
   const period = format(selectedMonth, 'MMMM yyyy');
 
+  // Display the rate (HT) effective at the start of the selected month
+  const { billingRate: displayRate } = getRateForDate(rateHistory || [], selectedMonth, regularRate, timezone, vatSettings);
+
+  // One column group per majoration level of the contract, plus any level billed this month
+  const ruleSet = getMajorationRuleSetForDate(majorationRuleSets, selectedMonth, timezone);
+  const levels = Array.from(new Set([...getMajorationLevels(ruleSet), ...getBilledMajorationLevels([totals])]))
+    .sort((a, b) => a - b);
+  const levelLabel = (percentage: number) => (percentage === 0 ? 'Regular' : `+${percentage}%`);
+
   const headers = [
     'Client',
     'Period',
     'Caregiver',
-    'Regular Hours',
-    'Holiday Hours',
+    ...levels.map(p => `${levelLabel(p)} Hours`),
     'Total Hours',
-    'Regular Rate',
-    'Holiday Rate',
-    'Regular Amount',
-    'Holiday Amount',
-    'Total'
+    ...levels.map(p => `${levelLabel(p)} Rate`),
+    ...levels.map(p => `${levelLabel(p)} Amount`),
+    'Total',
+    'VAT',
+    'Total incl. VAT'
   ];
 
   const rows = summaries.map(summary => [
     elderlyName,
     period,
     summary.name,
-    summary.regularHours.toFixed(2),
-    summary.holidayHours.toFixed(2),
+    ...levels.map(p => getMajorationBucket(summary, p).hours.toFixed(2)),
     summary.totalHours.toFixed(2),
-    `${currency}${regularRate.toFixed(2)}`,
-    `${currency}${holidayRate.toFixed(2)}`,
-    `${currency}${summary.regularAmount.toFixed(2)}`,
-    `${currency}${summary.holidayAmount.toFixed(2)}`,
+    ...levels.map(p => `${currency}${getMajoratedRate(displayRate, p).toFixed(2)}`),
+    ...levels.map(p => `${currency}${getMajorationBucket(summary, p).amount.toFixed(2)}`),
     `${currency}${summary.totalAmount.toFixed(2)}`,
+    `${currency}${summary.vatAmount.toFixed(2)}`,
+    `${currency}${(summary.totalAmount + summary.vatAmount).toFixed(2)}`,
   ]);
 
-  // Calculate totals
-  const totals = summaries.reduce(
-    (acc, s) => ({
-      regularHours: acc.regularHours + s.regularHours,
-      holidayHours: acc.holidayHours + s.holidayHours,
-      totalHours: acc.totalHours + s.totalHours,
-      regularAmount: acc.regularAmount + s.regularAmount,
-      holidayAmount: acc.holidayAmount + s.holidayAmount,
-      totalAmount: acc.totalAmount + s.totalAmount,
-    }),
-    { regularHours: 0, holidayHours: 0, totalHours: 0, regularAmount: 0, holidayAmount: 0, totalAmount: 0 }
-  );
-
   const totalRow = [
     '',
     '',
     'TOTAL',
-    totals.regularHours.toFixed(2),
-    totals.holidayHours.toFixed(2),
+    ...levels.map(p => getMajorationBucket(totals, p).hours.toFixed(2)),
     totals.totalHours.toFixed(2),
-    '',
-    '',
-    `${currency}${totals.regularAmount.toFixed(2)}`,
-    `${currency}${totals.holidayAmount.toFixed(2)}`,
+    ...levels.map(() => ''),
+    ...levels.map(p => `${currency}${getMajorationBucket(totals, p).amount.toFixed(2)}`),
     `${currency}${totals.totalAmount.toFixed(2)}`,
+    `${currency}${totals.vatAmount.toFixed(2)}`,
+    `${currency}${(totals.totalAmount + totals.vatAmount).toFixed(2)}`,
   ];
 
   const csv = [headers, ...rows, totalRow].map(row => row.join(',')).join('\n');
@@ -215,22 +116,40 @@ export function exportFinancialSummaryToCSV(
 export function exportDetailedCheckInsToCSV(
   checkIns: CheckInOut[],
   elderlyName: string,
-  selectedMonth: Date
+  selectedMonth: Date,
+  timezone: string = 'Europe/Paris'
 ): void {
   if (!checkIns.length) {
     alert('No data to export');
     return;
   }
 
-  const headers = ['Date', 'Time', 'Caregiver', 'Action', 'Latitude', 'Longitude'];
-  const rows = checkIns.map(ci => [
-    format(new Date(ci.timestamp), 'yyyy-MM-dd'),
-    format(new Date(ci.timestamp), 'HH:mm:ss'),
-    ci.caregiver_name,
-    ci.action,
-    ci.latitude?.toFixed(6) || '',
-    ci.longitude?.toFixed(6) || '',
-  ]);
+  // Times in the beneficiary's timezone, as billed. Verification tells times checked on site from those entered or corrected by hand
+  const headers = ['Date', 'Time', 'Caregiver', 'Action', 'Latitude', 'Longitude', 'Verification'];
+  const rows = checkIns.flatMap(ci => {
+    const row = [
+      formatInTimeZone(ci.timestamp, timezone, 'yyyy-MM-dd'),
+      formatInTimeZone(ci.timestamp, timezone, 'HH:mm:ss'),
+      ci.caregiver_name,
+      ci.action,
+      ci.latitude?.toFixed(6) || '',
+      ci.longitude?.toFixed(6) || '',
+      ci.verification_method === 'manual' ? 'manual' : 'on-site',
+    ];
+    if (!ci.corrected_check_out_at) return [row];
+
+    // Check-out closed afterwards by a family member
+    const correctedRow = [
+      formatInTimeZone(ci.corrected_check_out_at, timezone, 'yyyy-MM-dd'),
+      formatInTimeZone(ci.corrected_check_out_at, timezone, 'HH:mm:ss'),
+      ci.caregiver_name,
+      'check-out',
+      '',
+      '',
+      'corrected',
+    ];
+    return [row, correctedRow];
+  });
 
   const csv = [headers, ...rows].map(row => row.join(',')).join('\n');
   const blob = new Blob([csv], { type: 'text/csv' });
@@ -243,3 +162,95 @@ export function exportDetailedCheckInsToCSV(
   document.body.removeChild(a);
   window.URL.revokeObjectURL(url);
 }
+
+// One line per visit from the visits table: status and flags as stored server-side
+export function exportVisitsToCSV(
+  visits: VisitWithRows[],
+  elderlyName: string,
+  selectedMonth: Date,
+  timezone: string = 'Europe/Paris'
+): void {
+  if (!visits.length) {
+    alert('No data to export');
+    return;
+  }
+
+  const headers = ['Date', 'Caregiver', 'Start', 'End', 'Hours', 'Status', 'Training', 'Flags'];
+  const rows = [...visits]
+    .sort((a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime())
+    .map(visit => [
+      formatInTimeZone(visit.started_at, timezone, 'yyyy-MM-dd'),
+      visit.caregiver_name,
+      formatInTimeZone(visit.started_at, timezone, 'HH:mm:ss'),
+      visit.ended_at ? formatInTimeZone(visit.ended_at, timezone, 'HH:mm:ss') : '',
+      visit.duration_hours != null ? Number(visit.duration_hours).toFixed(2) : '',
+      visit.status,
+      visit.is_training ? 'yes' : 'no',
+      visit.flags.join(' '),
+    ]);
+
+  const csv = [headers, ...rows].map(row => row.join(',')).join('\n');
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `visits-${elderlyName.replace(/\s+/g, '-')}-${format(selectedMonth, 'yyyy-MM')}.csv`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+}
+
+export function exportTaxCreditStatementToCSV(
+  statement: TaxCreditStatement,
+  elderlyName: string,
+  currency: string
+): void {
+  if (statement.totals.hours === 0) {
+    alert('No data to export');
+    return;
+  }
+
+  const headers = ['Client', 'Month', 'Hours', 'Billed', 'VAT', 'Billed incl. VAT', 'Funders', 'Paid by beneficiary'];
+  const rows = statement.months.map(m => [
+    elderlyName,
+    m.month,
+    m.hours.toFixed(2),
+    `${currency}${m.billedAmount.toFixed(2)}`,
+    `${currency}${m.vatAmount.toFixed(2)}`,
+    `${currency}${m.billedTTC.toFixed(2)}`,
+    `${currency}${m.fundedTTC.toFixed(2)}`,
+    `${currency}${m.paidTTC.toFixed(2)}`,
+  ]);
+
+  const totalRow = [
+    '',
+    'TOTAL',
+    statement.totals.hours.toFixed(2),
+    `${currency}${statement.totals.billedAmount.toFixed(2)}`,
+    `${currency}${statement.totals.vatAmount.toFixed(2)}`,
+    `${currency}${statement.totals.billedTTC.toFixed(2)}`,
+    `${currency}${statement.totals.fundedTTC.toFixed(2)}`,
+    `${currency}${statement.totals.paidTTC.toFixed(2)}`,
+  ];
+
+  // Figures to report on the tax return
+  const summaryRows = [
+    [],
+    ...statement.funders.map(f => ['Funder', f.name, '', '', '', '', `${currency}${f.amountTTC.toFixed(2)}`, '']),
+    ['Expense ceiling', '', '', '', '', '', '', `${currency}${statement.expenseCeiling.toFixed(2)}`],
+    ['Eligible expenses', '', '', '', '', '', '', `${currency}${statement.eligibleExpenses.toFixed(2)}`],
+    ['Estimated tax credit (50%)', '', '', '', '', '', '', `${currency}${statement.taxCredit.toFixed(2)}`],
+  ];
+
+  const csv = [headers, ...rows, totalRow, ...summaryRows].map(row => row.join(',')).join('\n');
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `tax-credit-${elderlyName.replace(/\s+/g, '-')}-${statement.year}.csv`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,154 @@
+/**
+ * Server-side forgotten check-out alerts
+ * Flags visits still open longer than the beneficiary's limit (forgotten_check_out_hours,
+ * 12 h by default) and pushes an alert to the family members who enabled it, so one of
+ * them closes the visit with the real end time. Each visit is flagged once
+ * (forgotten_check_out_flagged_at) and recorded in notifications_log. The caregiver
+ * is shown the open visit on the check-in page at the next tap. Run periodically from
+ * /api/notifications/forgotten-check-outs.
+ */
+import { createClient } from '@supabase/supabase-js';
+import { getForgottenCheckOutHours, getOpenVisits, OPEN_VISIT_LOOKBACK_DAYS } from './forgotten-check-outs';
+import { sendForgottenCheckOutNotification } from './push-notification-service';
+
+export type ForgottenCheckOutRunResult = {
+  flagged: Array<{
+    beneficiaryId: string;
+    checkInId: string;
+    caregiverName: string;
+    checkInTime: string;
+    openHours: number;
+    notified: number; // Family members the push reached
+  }>;
+};
+
+/**
+ * Flag and report open visits not reported yet
+ * @param now - Reference time (default: now)
+ * @returns Visits newly flagged by this run
+ */
+export async function runForgottenCheckOutAlerts(now: Date = new Date()): Promise<ForgottenCheckOutRunResult> {
+  // Use service role key for server-side operations
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    }
+  );
+
+  const since = new Date(now.getTime() - OPEN_VISIT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  // Candidate check-ins: recent, not closed by a family member, not reported yet
+  const { data: candidates, error } = await supabase
+    .from('check_in_outs')
+    .select('id, beneficiary_id')
+    .is('voided_at', null)
+    .eq('action', 'check-in')
+    .is('corrected_check_out_at', null)
+    .is('forgotten_check_out_flagged_at', null)
+    .gte('timestamp', since.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load check-ins: ${error.message}`);
+  }
+
+  const result: ForgottenCheckOutRunResult = { flagged: [] };
+  const beneficiaryIds = Array.from(new Set((candidates || []).map(candidate => candidate.beneficiary_id)));
+  if (beneficiaryIds.length === 0) return result;
+
+  const candidateIds = new Set((candidates || []).map(candidate => candidate.id));
+  const { data: beneficiaries } = await supabase
+    .from('beneficiaries')
+    .select('id, name, country, forgotten_check_out_hours')
+    .in('id', beneficiaryIds);
+
+  for (const beneficiary of beneficiaries || []) {
+    const { data: checkIns } = await supabase
+      .from('check_in_outs')
+      .select('*')
+      .is('voided_at', null)
+      .eq('beneficiary_id', beneficiary.id)
+      .gte('timestamp', since.toISOString())
+      .order('timestamp', { ascending: true });
+
+    const forgotten = getOpenVisits(checkIns || [], getForgottenCheckOutHours(beneficiary), now)
+      .filter(visit => visit.forgotten && candidateIds.has(visit.pair.checkIn.id));
+    if (forgotten.length === 0) continue;
+
+    // Family members with push notifications and forgotten check-out alerts enabled
+    const { data: familyMembers } = await supabase
+      .from('family_members')
+      .select('id, notification_preferences')
+      .eq('beneficiary_id', beneficiary.id);
+
+    const familyMemberIds = (familyMembers || [])
+      .filter(member => {
+        const preferences = member.notification_preferences || {};
+        return (preferences.push === true || preferences.push_enabled === true) && preferences.forgotten_check_out !== false;
+      })
+      .map(member => member.id);
+
+    for (const { pair, openHours } of forgotten) {
+      // Flag only if still unflagged, so concurrent runs report the visit once
+      const { data: flaggedRows } = await supabase
+        .from('check_in_outs')
+        .update({ forgotten_check_out_flagged_at: now.toISOString() })
+        .eq('id', pair.checkIn.id)
+        .is('forgotten_check_out_flagged_at', null)
+        .select('id');
+
+      if (!flaggedRows || flaggedRows.length === 0) continue;
+
+      const logEntry = {
+        beneficiary_id: beneficiary.id,
+        check_in_out_id: pair.checkIn.id,
+        alert_type: 'forgotten_check_out',
+        caregiver_name: pair.checkIn.caregiver_name,
+        alert_minutes: Math.round(openHours * 60),
+      };
+
+      await supabase
+        .from('notifications_log')
+        .insert({ ...logEntry, family_member_id: null, notification_type: 'visit', status: 'detected' });
+
+      let notified = 0;
+      if (familyMemberIds.length > 0) {
+        try {
+          const deliveries = await sendForgottenCheckOutNotification(
+            pair.checkIn.caregiver_name,
+            familyMemberIds,
+            new Date(pair.checkIn.timestamp),
+            beneficiary.name,
+            beneficiary.country
+          );
+          notified = deliveries.filter(delivery => delivery.success).length;
+
+          await supabase.from('notifications_log').insert(deliveries.map(delivery => ({
+            ...logEntry,
+            family_member_id: delivery.familyMemberId,
+            notification_type: 'push',
+            status: delivery.success ? 'sent' : 'failed',
+            error_message: delivery.errors?.join('; ') || null,
+          })));
+        } catch (notifError) {
+          console.error('[Forgotten check-out] Error sending notification:', notifError);
+        }
+      }
+
+      result.flagged.push({
+        beneficiaryId: beneficiary.id,
+        checkInId: pair.checkIn.id,
+        caregiverName: pair.checkIn.caregiver_name,
+        checkInTime: pair.checkIn.timestamp,
+        openHours,
+        notified,
+      });
+    }
+  }
+
+  return result;
+}
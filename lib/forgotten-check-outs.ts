@@ -0,0 +1,67 @@
+/**
+ * Forgotten check-outs
+ * A visit still open long after its check-in almost always means the caregiver forgot
+ * to check out. Such visits no longer count as "in progress": the check-in page stops
+ * offering a check-out for them, the family is alerted and a family member closes the
+ * visit with the real end time. The correction is stored on the check-in row
+ * (corrected_check_out_at) and audited in visit_adjustments; no check-out row is created.
+ * Pure functions: safe on the client and in API routes.
+ */
+import { BillableCheckIn, pairCheckInOuts, VisitPair } from './billing';
+
+// Default duration after which an open visit is considered forgotten
+export const FORGOTTEN_CHECK_OUT_HOURS = 12;
+
+// Check-ins older than this are not looked at to find who is at home
+export const OPEN_VISIT_LOOKBACK_DAYS = 7;
+
+export type OpenVisit<T extends BillableCheckIn = BillableCheckIn> = {
+  pair: VisitPair<T>;
+  openHours: number; // Time since the check-in
+  forgotten: boolean; // Open for longer than the limit
+};
+
+/**
+ * Open-visit limit of a beneficiary
+ */
+export function getForgottenCheckOutHours(beneficiary?: { forgotten_check_out_hours?: number | null }): number {
+  return beneficiary?.forgotten_check_out_hours || FORGOTTEN_CHECK_OUT_HOURS;
+}
+
+/**
+ * Visits with a check-in and no check-out (nor corrected end)
+ * @param checkIns - Check-ins covering at least the last `maxHours`
+ * @param maxHours - Hours after which an open visit is considered forgotten
+ * @param now - Reference time (default: now)
+ * @returns Open visits, oldest first
+ */
+export function getOpenVisits<T extends BillableCheckIn>(
+  checkIns: T[],
+  maxHours: number = FORGOTTEN_CHECK_OUT_HOURS,
+  now: Date = new Date()
+): OpenVisit<T>[] {
+  return pairCheckInOuts(checkIns)
+    .filter(pair => !pair.checkOut)
+    .map(pair => {
+      const openHours = (now.getTime() - new Date(pair.checkIn.timestamp).getTime()) / (1000 * 60 * 60);
+      return { pair, openHours, forgotten: openHours > maxHours };
+    });
+}
+
+/**
+ * Caregivers currently at the beneficiary's home
+ * Only visits opened within the limit count; older open visits are returned separately.
+ */
+export function getActiveCaregivers<T extends BillableCheckIn>(
+  checkIns: T[],
+  maxHours: number = FORGOTTEN_CHECK_OUT_HOURS,
+  now: Date = new Date()
+): { active: string[]; forgotten: OpenVisit<T>[] } {
+  const openVisits = getOpenVisits(checkIns, maxHours, now);
+  return {
+    active: Array.from(new Set(
+      openVisits.filter(visit => !visit.forgotten).map(visit => visit.pair.checkIn.caregiver_name)
+    )),
+    forgotten: openVisits.filter(visit => visit.forgotten),
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Funders split
+ * A beneficiary's care can be paid by several funders (APA or PCH from the département,
+ * a caisse de retraite, a mutuelle). Funders are applied by priority: each one pays its
+ * percentage of the part of the remaining amount it is eligible for, within its monthly
+ * hours cap and hourly rate cap. Whatever is left is paid by the beneficiary.
+ * Beneficiaries without funders use the single APA plan defined by ticket_moderateur and
+ * the tarif conventionné, which gives the same figures as the historic copay model.
+ */
+import { format } from 'date-fns';
+import { BeneficiaryFunder, FunderType } from './supabase';
+
+export type FunderShare = {
+  funder: BeneficiaryFunder;
+  coveredHours: number;
+  eligibleAmount: number; // HT amount the coverage percentage applies to
+  amount: number; // HT paid by the funder
+};
+
+export type FunderSplit = {
+  shares: FunderShare[]; // In priority order
+  fundedAmount: number; // HT paid by all funders
+  beneficiaryAmount: number; // HT left to the beneficiary (reste à charge)
+};
+
+export type FunderSplitInput = {
+  hours: number;
+  amount: number; // HT billed for those hours, majorations included
+  funders: BeneficiaryFunder[];
+  conventionedRate?: number; // Tarif conventionné (HT), default rate cap of APA/PCH funders
+};
+
+export const FUNDER_TYPE_LABELS: Record<FunderType, { fr: string; en: string }> = {
+  apa: { fr: 'APA', en: 'APA' },
+  pch: { fr: 'PCH', en: 'PCH' },
+  caisse_retraite: { fr: 'Caisse de retraite', en: 'Retirement fund' },
+  mutuelle: { fr: 'Mutuelle', en: 'Mutual insurance' },
+  other: { fr: 'Autre', en: 'Other' },
+};
+
+/**
+ * Funders covering a month, in priority order
+ * @param funders - Funder records of the beneficiary
+ * @param month - Any date in the month
+ */
+export function getFundersForMonth(funders: BeneficiaryFunder[] | undefined, month: Date): BeneficiaryFunder[] {
+  if (!funders || funders.length === 0) return [];
+
+  const monthStart = format(month, 'yyyy-MM-01');
+  const monthEnd = format(new Date(month.getFullYear(), month.getMonth() + 1, 0), 'yyyy-MM-dd');
+
+  return funders
+    .filter(f => f.effective_date <= monthEnd && (!f.end_date || f.end_date >= monthStart))
+    .sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Single APA funder equivalent to the beneficiary's ticket modérateur
+ * @param copayPercentage - Ticket modérateur (share left to the beneficiary)
+ * @param beneficiaryId - Beneficiary the funder belongs to
+ * @returns An empty list when there is no copay (no plan)
+ */
+export function getDefaultFunders(copayPercentage: number, beneficiaryId: string = ''): BeneficiaryFunder[] {
+  if (copayPercentage <= 0) return [];
+  return [{
+    id: 'default-apa',
+    beneficiary_id: beneficiaryId,
+    name: 'APA',
+    funder_type: 'apa',
+    priority: 1,
+    coverage_percentage: 100 - copayPercentage,
+    effective_date: '1970-01-01',
+    created_at: '',
+  }];
+}
+
+/**
+ * Hourly amount a funder considers, or undefined when it has no rate cap
+ */
+export function getFunderRateCap(funder: BeneficiaryFunder, conventionedRate?: number): number | undefined {
+  if (funder.rate_cap !== undefined && funder.rate_cap !== null) return funder.rate_cap;
+  if (funder.funder_type === 'apa' || funder.funder_type === 'pch') return conventionedRate;
+  return undefined;
+}
+
+/**
+ * Split a billed amount between funders and the beneficiary
+ * @returns Each funder's share and the beneficiary's remainder (all HT)
+ */
+export function splitAmongFunders({ hours, amount, funders, conventionedRate }: FunderSplitInput): FunderSplit {
+  let remaining = amount;
+
+  const shares = funders.map(funder => {
+    const coveredHours = Math.min(hours, funder.monthly_hours_cap ?? hours);
+    const rateCap = getFunderRateCap(funder, conventionedRate);
+
+    // Covered hours' part of what is left, limited to the rate cap for those hours
+    let eligibleAmount = hours > 0 ? remaining * (coveredHours / hours) : 0;
+    if (rateCap !== undefined) eligibleAmount = Math.min(eligibleAmount, coveredHours * rateCap);
+
+    const paid = eligibleAmount * (funder.coverage_percentage / 100);
+    remaining -= paid;
+    return { funder, coveredHours, eligibleAmount, amount: paid };
+  });
+
+  return {
+    shares,
+    fundedAmount: amount - remaining,
+    beneficiaryAmount: remaining,
+  };
+}
+
+/**
+ * Spread a month's funder split over detail rows (e.g. caregivers × majoration levels)
+ * Rate-capped funders pay by the hour, the others in proportion to what each row still owes.
+ * The rows add up exactly to the month's split.
+ * @param split - Split computed on the rows' totals
+ * @param rows - Hours and HT amount of each row
+ * @returns HT paid by funders for each row, in the same order
+ */
+export function allocateFunderSplit(
+  split: FunderSplit,
+  rows: Array<{ hours: number; amount: number }>,
+  conventionedRate?: number
+): number[] {
+  const remaining = rows.map(row => row.amount);
+  const funded = rows.map(() => 0);
+
+  split.shares.forEach(share => {
+    const byHours = getFunderRateCap(share.funder, conventionedRate) !== undefined;
+    const weights = rows.map((row, i) => (byHours ? row.hours : remaining[i]));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight <= 0) return;
+
+    weights.forEach((weight, i) => {
+      const paid = share.amount * (weight / totalWeight);
+      funded[i] += paid;
+      remaining[i] -= paid;
+    });
+  });
+
+  return funded;
+}
+
+/**
+ * Short description of a funder's coverage rule, e.g. '77,78% · 40h/mois max · 23,30€/h max'
+ */
+export function describeFunderRule(
+  funder: BeneficiaryFunder,
+  language: 'fr' | 'en',
+  conventionedRate?: number
+): string {
+  const num = (value: number) => (language === 'fr' ? value.toFixed(2).replace('.', ',') : value.toFixed(2));
+  const parts = [`${num(funder.coverage_percentage)}%`];
+  if (funder.monthly_hours_cap !== undefined && funder.monthly_hours_cap !== null) {
+    parts.push(language === 'fr' ? `${num(funder.monthly_hours_cap)}h/mois max` : `${num(funder.monthly_hours_cap)}h/month max`);
+  }
+  const rateCap = getFunderRateCap(funder, conventionedRate);
+  if (rateCap !== undefined) {
+    parts.push(language === 'fr' ? `${num(rateCap)}€ HT/h max` : `${num(rateCap)}€/h max (excl. VAT)`);
+  }
+  return parts.join(' · ');
+}
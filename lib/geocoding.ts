@@ -0,0 +1,170 @@
+/**
+ * Address geocoding
+ * Turns a beneficiary address into the home coordinates used by the geofence
+ * (lib/geofence.ts). Geocoders are registered by id and chosen with the GEOCODER
+ * environment variable: 'nominatim' (OpenStreetMap, default), 'fixture' (offline
+ * stand-in for development and tests) or 'none'.
+ */
+
+export type GeocodeQuery = {
+  address: string; // Full address as stored on the beneficiary
+  street?: string;
+  zip?: string;
+  city?: string;
+  country?: string; // Country code (e.g. 'FR')
+};
+
+export type GeocodeResult = {
+  latitude: number;
+  longitude: number;
+  label?: string; // Address as understood by the provider
+  provider: string; // Geocoder id
+};
+
+export type Geocoder = {
+  id: string;
+  geocode: (query: GeocodeQuery) => Promise<GeocodeResult | null>;
+};
+
+const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
+
+// Signup and address edits wait for the geocoder: a slow server must not hold them
+export const DEFAULT_GEOCODER_TIMEOUT_MS = 5000;
+
+const geocoders = new Map<string, Geocoder>();
+
+/**
+ * Register a geocoder
+ * @param geocoder - Geocoder to register; replaces any geocoder with the same id
+ */
+export function registerGeocoder(geocoder: Geocoder): void {
+  geocoders.set(geocoder.id, geocoder);
+}
+
+/**
+ * Create a geocoder backed by a Nominatim server
+ * Structured search when street and city are known, free-text search otherwise.
+ * A request running past the timeout is aborted and the address is left not geocoded.
+ * @param baseUrl - Search endpoint (default: the public OpenStreetMap server)
+ * @param timeoutMs - Request timeout in milliseconds
+ */
+export function createNominatimGeocoder(
+  baseUrl: string = DEFAULT_NOMINATIM_URL,
+  timeoutMs: number = DEFAULT_GEOCODER_TIMEOUT_MS
+): Geocoder {
+  return {
+    id: 'nominatim',
+    geocode: async (query: GeocodeQuery) => {
+      const params = new URLSearchParams({ format: 'jsonv2', limit: '1' });
+      if (query.street && query.city) {
+        params.set('street', query.street);
+        params.set('city', query.city);
+        if (query.zip) params.set('postalcode', query.zip);
+      } else {
+        params.set('q', query.address);
+      }
+      if (query.country) params.set('countrycodes', query.country.toLowerCase());
+
+      // The public server's usage policy requires an identifying User-Agent
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}?${params.toString()}`, {
+          headers: { 'User-Agent': 'caregiver-tracker', 'Accept-Language': 'fr,en' },
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      } catch (error) {
+        if (error instanceof Error && error.name === 'TimeoutError') {
+          console.warn(`Nominatim did not answer within ${timeoutMs} ms`);
+          return null;
+        }
+        throw error;
+      }
+      if (!response.ok) {
+        throw new Error(`Nominatim responded ${response.status}`);
+      }
+
+      const results: { lat: string; lon: string; display_name?: string }[] = await response.json();
+      if (results.length === 0) return null;
+
+      return {
+        latitude: parseFloat(results[0].lat),
+        longitude: parseFloat(results[0].lon),
+        label: results[0].display_name,
+        provider: 'nominatim',
+      };
+    },
+  };
+}
+
+// Lowercase, without accents or punctuation, so fixtures match however the address is typed
+function normalizeAddress(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Create an offline geocoder from known addresses
+ * Matches the full address first, then the postal code and city.
+ * @param fixtures - Coordinates by address or by 'zip city'
+ */
+export function createFixtureGeocoder(fixtures: Record<string, { latitude: number; longitude: number }>): Geocoder {
+  const byAddress = new Map(
+    Object.entries(fixtures).map(([address, point]) => [normalizeAddress(address), point])
+  );
+
+  return {
+    id: 'fixture',
+    geocode: async (query: GeocodeQuery) => {
+      const keys = [query.address];
+      if (query.zip && query.city) keys.push(`${query.zip} ${query.city}`);
+
+      for (const key of keys) {
+        const point = byAddress.get(normalizeAddress(key));
+        if (point) return { ...point, label: key, provider: 'fixture' };
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Get the geocoder selected by the GEOCODER environment variable
+ * @returns Geocoder, or null when geocoding is disabled
+ */
+export function getGeocoder(): Geocoder | null {
+  const id = process.env.GEOCODER || 'nominatim';
+  if (id === 'none') return null;
+  return geocoders.get(id) || null;
+}
+
+/**
+ * Geocode an address with the configured geocoder
+ * Never throws: a missing or failing geocoder leaves the beneficiary without
+ * coordinates, which only disables the geofence.
+ * @returns Coordinates, or null when the address was not found
+ */
+export async function geocodeAddress(query: GeocodeQuery): Promise<GeocodeResult | null> {
+  const geocoder = getGeocoder();
+  if (!geocoder || !query.address.trim()) return null;
+
+  try {
+    return await geocoder.geocode(query);
+  } catch (error) {
+    console.error(`Geocoding failed (${geocoder.id}):`, error);
+    return null;
+  }
+}
+
+registerGeocoder(createNominatimGeocoder(process.env.NOMINATIM_URL || DEFAULT_NOMINATIM_URL));
+
+registerGeocoder(createFixtureGeocoder({
+  '1 place de l\'Hôtel de Ville, 75004 Paris, FR': { latitude: 48.856614, longitude: 2.352222 },
+  '75004 Paris': { latitude: 48.854, longitude: 2.3576 },
+  '69001 Lyon': { latitude: 45.7676, longitude: 4.8344 },
+  '13001 Marseille': { latitude: 43.2999, longitude: 5.3841 },
+  '67000 Strasbourg': { latitude: 48.5734, longitude: 7.7521 },
+}));
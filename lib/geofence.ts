@@ -0,0 +1,112 @@
+/**
+ * Geofence verification
+ * Compares the caregiver's position at check-in/out with the beneficiary's home
+ * (beneficiaries.latitude / longitude) and the radius set by the family. The GPS
+ * accuracy reported by the phone decides between a clear miss and a position too
+ * imprecise to conclude. The result is stored in check_in_outs.verification_flags.
+ */
+import { VerificationFlags } from './supabase';
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 200;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// inside the radius, imprecise (outside but within the GPS accuracy margin),
+// outside (even allowing for the accuracy), unknown (no position or no home coordinates)
+export type GeofenceScore = NonNullable<VerificationFlags['geofence_score']>;
+
+export type GeofenceResult = Required<Pick<
+  VerificationFlags,
+  'within_geofence' | 'distance_meters' | 'gps_accuracy_meters' | 'geofence_radius_meters' | 'geofence_score'
+>>;
+
+type GeoPoint = {
+  latitude?: number | string | null;
+  longitude?: number | string | null;
+};
+
+function toNumber(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Great-circle distance between two points (haversine)
+ * @returns Distance in meters
+ */
+export function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Radius configured for a beneficiary, or the default
+ */
+export function getGeofenceRadius(beneficiary: { geofence_radius_meters?: number | null }): number {
+  const radius = beneficiary.geofence_radius_meters;
+  return radius && radius > 0 ? radius : DEFAULT_GEOFENCE_RADIUS_METERS;
+}
+
+/**
+ * Check a position against the beneficiary's home
+ * @param position - Caregiver position and GPS accuracy (meters)
+ * @param home - Beneficiary coordinates and radius
+ */
+export function evaluateGeofence(
+  position: GeoPoint & { accuracy?: number | string | null },
+  home: GeoPoint & { geofence_radius_meters?: number | null }
+): GeofenceResult {
+  const radius = getGeofenceRadius(home);
+  const latitude = toNumber(position.latitude);
+  const longitude = toNumber(position.longitude);
+  const homeLatitude = toNumber(home.latitude);
+  const homeLongitude = toNumber(home.longitude);
+  const accuracy = toNumber(position.accuracy);
+
+  if (latitude === null || longitude === null || homeLatitude === null || homeLongitude === null) {
+    return {
+      within_geofence: null,
+      distance_meters: null,
+      gps_accuracy_meters: accuracy,
+      geofence_radius_meters: radius,
+      geofence_score: 'unknown',
+    };
+  }
+
+  const distance = distanceMeters(latitude, longitude, homeLatitude, homeLongitude);
+  const score: GeofenceScore = distance <= radius
+    ? 'inside'
+    : accuracy !== null && distance - accuracy <= radius ? 'imprecise' : 'outside';
+
+  return {
+    within_geofence: distance <= radius,
+    distance_meters: Math.round(distance),
+    gps_accuracy_meters: accuracy !== null ? Math.round(accuracy) : null,
+    geofence_radius_meters: radius,
+    geofence_score: score,
+  };
+}
+
+/**
+ * Whether a check-in/out was recorded away from the home
+ * Rows recorded before geofencing, or without a position, are not flagged.
+ */
+export function isOutOfZone(checkIn: { verification_flags?: VerificationFlags | null }): boolean {
+  return checkIn.verification_flags?.within_geofence === false;
+}
+
+/**
+ * Whether a tap shows the caregiver is at the home
+ * A verified tag payload does. A QR code without one may be a photo of the card: only a
+ * position inside the zone counts ('imprecise' relies on the accuracy sent by the phone).
+ * @param tap - Payload kind verified by /api/nfc/challenge (challenge claims), null for a bare QR code
+ * @param geofence - Position of the request against the home
+ */
+export function isPresenceVerified(tap: string | null | undefined, geofence: GeofenceResult): boolean {
+  return !!tap || geofence.geofence_score === 'inside';
+}
@@ -0,0 +1,149 @@
+/**
+ * Holiday calendar registry
+ * Calendars are keyed by country code, with optional sub-region calendars
+ * (e.g. Alsace-Moselle) keyed as 'COUNTRY-REGION'.
+ */
+import {
+  createHolidayCalendar,
+  frenchHolidayCalendar,
+  FRENCH_HOLIDAY_RULES,
+  HolidayCalendar,
+  HolidayRule,
+} from './holidays';
+
+const GOOD_FRIDAY: HolidayRule = { type: 'easter', offset: -2, key: 'good_friday', names: { fr: 'Vendredi saint', en: 'Good Friday' } };
+const EASTER_MONDAY: HolidayRule = { type: 'easter', offset: 1, key: 'easter_monday', names: { fr: 'Lundi de Pâques', en: 'Easter Monday' } };
+const NEW_YEAR: HolidayRule = { type: 'fixed', month: 1, day: 1, key: 'new_year', names: { fr: 'Jour de l\'an', en: 'New Year\'s Day' } };
+const EPIPHANY: HolidayRule = { type: 'fixed', month: 1, day: 6, key: 'epiphany', names: { fr: 'Épiphanie', en: 'Epiphany' } };
+const LABOUR_DAY: HolidayRule = { type: 'fixed', month: 5, day: 1, key: 'labour_day', names: { fr: 'Fête du Travail', en: 'Labour Day' } };
+const ASSUMPTION: HolidayRule = { type: 'fixed', month: 8, day: 15, key: 'assumption', names: { fr: 'Assomption', en: 'Assumption Day' } };
+const ALL_SAINTS: HolidayRule = { type: 'fixed', month: 11, day: 1, key: 'all_saints', names: { fr: 'Toussaint', en: 'All Saints\' Day' } };
+const IMMACULATE_CONCEPTION: HolidayRule = { type: 'fixed', month: 12, day: 8, key: 'immaculate_conception', names: { fr: 'Immaculée Conception', en: 'Immaculate Conception' } };
+const CHRISTMAS: HolidayRule = { type: 'fixed', month: 12, day: 25, key: 'christmas', names: { fr: 'Noël', en: 'Christmas Day' } };
+const ST_STEPHEN: HolidayRule = { type: 'fixed', month: 12, day: 26, key: 'st_stephen', names: { fr: 'Saint-Étienne', en: 'St Stephen\'s Day' } };
+
+const calendars = new Map<string, HolidayCalendar>();
+
+/**
+ * Register a holiday calendar
+ * @param calendar - Calendar to register; replaces any calendar with the same id
+ */
+export function registerHolidayCalendar(calendar: HolidayCalendar): void {
+  calendars.set(calendar.id.toUpperCase(), calendar);
+}
+
+/**
+ * List registered calendars, e.g. for a region selector
+ */
+export function listHolidayCalendars(): HolidayCalendar[] {
+  return Array.from(calendars.values());
+}
+
+/**
+ * Get the holiday calendar for a country and optional sub-region
+ * Falls back to the national calendar when the region is unknown, and to France
+ * when the country is unknown.
+ * @param country - Country code (e.g. 'FR', 'DE')
+ * @param region - Optional region code (e.g. 'ALSACE_MOSELLE')
+ * @returns Holiday calendar
+ */
+export function getHolidayCalendar(country?: string | null, region?: string | null): HolidayCalendar {
+  const countryCode = (country || 'FR').toUpperCase();
+  if (region) {
+    const regional = calendars.get(`${countryCode}-${region.toUpperCase()}`);
+    if (regional) return regional;
+  }
+  return calendars.get(countryCode) || frenchHolidayCalendar;
+}
+
+/**
+ * Get the holiday calendar for a beneficiary record
+ */
+export function getHolidayCalendarForBeneficiary(
+  beneficiary: { country?: string | null; holiday_region?: string | null } | null | undefined
+): HolidayCalendar {
+  return getHolidayCalendar(beneficiary?.country, beneficiary?.holiday_region);
+}
+
+registerHolidayCalendar(frenchHolidayCalendar);
+
+// Bas-Rhin, Haut-Rhin and Moselle keep two extra holidays from the local law
+registerHolidayCalendar(createHolidayCalendar(
+  'FR-ALSACE_MOSELLE',
+  { fr: 'Alsace-Moselle', en: 'Alsace-Moselle' },
+  [...FRENCH_HOLIDAY_RULES, GOOD_FRIDAY, ST_STEPHEN]
+));
+
+registerHolidayCalendar(createHolidayCalendar('US', { fr: 'États-Unis', en: 'United States' }, [
+  NEW_YEAR,
+  { type: 'nthWeekday', month: 1, weekday: 1, n: 3, key: 'mlk_day', names: { fr: 'Jour de Martin Luther King', en: 'Martin Luther King Jr. Day' } },
+  { type: 'nthWeekday', month: 2, weekday: 1, n: 3, key: 'presidents_day', names: { fr: 'Jour des Présidents', en: 'Presidents\' Day' } },
+  { type: 'nthWeekday', month: 5, weekday: 1, n: -1, key: 'memorial_day', names: { fr: 'Memorial Day', en: 'Memorial Day' } },
+  { type: 'fixed', month: 6, day: 19, key: 'juneteenth', names: { fr: 'Juneteenth', en: 'Juneteenth' } },
+  { type: 'fixed', month: 7, day: 4, key: 'independence_day', names: { fr: 'Fête de l\'Indépendance', en: 'Independence Day' } },
+  { type: 'nthWeekday', month: 9, weekday: 1, n: 1, key: 'labor_day', names: { fr: 'Fête du Travail (US)', en: 'Labor Day' } },
+  { type: 'nthWeekday', month: 10, weekday: 1, n: 2, key: 'columbus_day', names: { fr: 'Jour de Christophe Colomb', en: 'Columbus Day' } },
+  { type: 'fixed', month: 11, day: 11, key: 'veterans_day', names: { fr: 'Jour des Vétérans', en: 'Veterans Day' } },
+  { type: 'nthWeekday', month: 11, weekday: 4, n: 4, key: 'thanksgiving', names: { fr: 'Thanksgiving', en: 'Thanksgiving Day' } },
+  CHRISTMAS,
+]));
+
+registerHolidayCalendar(createHolidayCalendar('CA', { fr: 'Canada', en: 'Canada' }, [
+  NEW_YEAR,
+  GOOD_FRIDAY,
+  { type: 'weekdayOnOrBefore', month: 5, day: 24, weekday: 1, key: 'victoria_day', names: { fr: 'Fête de la Reine', en: 'Victoria Day' } },
+  { type: 'fixed', month: 7, day: 1, key: 'canada_day', names: { fr: 'Fête du Canada', en: 'Canada Day' } },
+  { type: 'nthWeekday', month: 9, weekday: 1, n: 1, key: 'labor_day', names: { fr: 'Fête du Travail (CA)', en: 'Labour Day' } },
+  { type: 'nthWeekday', month: 10, weekday: 1, n: 2, key: 'thanksgiving', names: { fr: 'Action de grâce', en: 'Thanksgiving' } },
+  CHRISTMAS,
+]));
+
+registerHolidayCalendar(createHolidayCalendar('UK', { fr: 'Royaume-Uni', en: 'United Kingdom' }, [
+  NEW_YEAR,
+  GOOD_FRIDAY,
+  EASTER_MONDAY,
+  { type: 'nthWeekday', month: 5, weekday: 1, n: 1, key: 'early_may_bank_holiday', names: { fr: 'Jour férié de début mai', en: 'Early May Bank Holiday' } },
+  { type: 'nthWeekday', month: 5, weekday: 1, n: -1, key: 'spring_bank_holiday', names: { fr: 'Jour férié de printemps', en: 'Spring Bank Holiday' } },
+  { type: 'nthWeekday', month: 8, weekday: 1, n: -1, key: 'summer_bank_holiday', names: { fr: 'Jour férié d\'été', en: 'Summer Bank Holiday' } },
+  CHRISTMAS,
+  { ...ST_STEPHEN, names: { fr: 'Boxing Day', en: 'Boxing Day' } },
+]));
+
+registerHolidayCalendar(createHolidayCalendar('DE', { fr: 'Allemagne', en: 'Germany' }, [
+  NEW_YEAR,
+  GOOD_FRIDAY,
+  EASTER_MONDAY,
+  LABOUR_DAY,
+  { type: 'easter', offset: 39, key: 'ascension', names: { fr: 'Jeudi de l\'Ascension', en: 'Ascension Day' } },
+  { type: 'easter', offset: 50, key: 'whit_monday', names: { fr: 'Lundi de Pentecôte', en: 'Whit Monday' } },
+  { type: 'fixed', month: 10, day: 3, key: 'german_unity_day', names: { fr: 'Jour de l\'Unité allemande', en: 'German Unity Day' } },
+  CHRISTMAS,
+  ST_STEPHEN,
+]));
+
+registerHolidayCalendar(createHolidayCalendar('ES', { fr: 'Espagne', en: 'Spain' }, [
+  NEW_YEAR,
+  EPIPHANY,
+  GOOD_FRIDAY,
+  LABOUR_DAY,
+  ASSUMPTION,
+  { type: 'fixed', month: 10, day: 12, key: 'national_day', names: { fr: 'Fête nationale espagnole', en: 'National Day of Spain' } },
+  ALL_SAINTS,
+  { type: 'fixed', month: 12, day: 6, key: 'constitution_day', names: { fr: 'Jour de la Constitution', en: 'Constitution Day' } },
+  IMMACULATE_CONCEPTION,
+  CHRISTMAS,
+]));
+
+registerHolidayCalendar(createHolidayCalendar('IT', { fr: 'Italie', en: 'Italy' }, [
+  NEW_YEAR,
+  EPIPHANY,
+  EASTER_MONDAY,
+  { type: 'fixed', month: 4, day: 25, key: 'liberation_day', names: { fr: 'Fête de la Libération', en: 'Liberation Day' } },
+  LABOUR_DAY,
+  { type: 'fixed', month: 6, day: 2, key: 'republic_day', names: { fr: 'Fête de la République', en: 'Republic Day' } },
+  ASSUMPTION,
+  ALL_SAINTS,
+  IMMACULATE_CONCEPTION,
+  CHRISTMAS,
+  ST_STEPHEN,
+]));
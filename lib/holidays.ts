@@ -1,66 +1,177 @@
 /**
- * French Public Holidays for 2024-2026
- * This list includes the major French public holidays (jours fériés)
+ * Public holiday calendars for any year
+ * A calendar is a list of rules (fixed dates, Easter offsets, nth weekday of a month)
+ * evaluated per year. The French calendar is the default; other countries and
+ * regions are registered in lib/holiday-calendars.ts.
  */
 
-type Holiday = {
+export type HolidayKey = string;
+
+export type HolidayNames = { fr: string; en: string };
+
+export type Holiday = {
   date: string; // YYYY-MM-DD format
-  name: string;
+  key: HolidayKey;
+  names: HolidayNames;
+};
+
+export type HolidayRule =
+  | { type: 'fixed'; month: number; day: number; key: HolidayKey; names: HolidayNames }
+  // Days from Easter Sunday (e.g. -2 Good Friday, 1 Easter Monday, 39 Ascension)
+  | { type: 'easter'; offset: number; key: HolidayKey; names: HolidayNames }
+  // nth weekday (0 = Sunday) of a month; n = -1 for the last one
+  | { type: 'nthWeekday'; month: number; weekday: number; n: number; key: HolidayKey; names: HolidayNames }
+  // Last given weekday on or before a date (e.g. Victoria Day: Monday on or before May 24)
+  | { type: 'weekdayOnOrBefore'; month: number; day: number; weekday: number; key: HolidayKey; names: HolidayNames };
+
+export type HolidayCalendar = {
+  id: string; // Country code, optionally with a region suffix (e.g. 'FR-ALSACE_MOSELLE')
+  names: HolidayNames;
+  getHolidays: (year: number) => Holiday[];
 };
 
-const frenchHolidays: Holiday[] = [
-  // 2024
-  { date: '2024-01-01', name: 'Jour de l\'an' },
-  { date: '2024-04-01', name: 'Lundi de Pâques' },
-  { date: '2024-05-01', name: 'Fête du Travail' },
-  { date: '2024-05-08', name: 'Victoire 1945' },
-  { date: '2024-05-09', name: 'Jeudi de l\'Ascension' },
-  { date: '2024-05-20', name: 'Lundi de Pentecôte' },
-  { date: '2024-07-14', name: 'Fête Nationale' },
-  { date: '2024-08-15', name: 'Assomption' },
-  { date: '2024-11-01', name: 'Toussaint' },
-  { date: '2024-11-11', name: 'Armistice 1918' },
-  { date: '2024-12-25', name: 'Noël' },
-
-  // 2025
-  { date: '2025-01-01', name: 'Jour de l\'an' },
-  { date: '2025-04-21', name: 'Lundi de Pâques' },
-  { date: '2025-05-01', name: 'Fête du Travail' },
-  { date: '2025-05-08', name: 'Victoire 1945' },
-  { date: '2025-05-29', name: 'Jeudi de l\'Ascension' },
-  { date: '2025-06-09', name: 'Lundi de Pentecôte' },
-  { date: '2025-07-14', name: 'Fête Nationale' },
-  { date: '2025-08-15', name: 'Assomption' },
-  { date: '2025-11-01', name: 'Toussaint' },
-  { date: '2025-11-11', name: 'Armistice 1918' },
-  { date: '2025-12-25', name: 'Noël' },
-
-  // 2026
-  { date: '2026-01-01', name: 'Jour de l\'an' },
-  { date: '2026-04-06', name: 'Lundi de Pâques' },
-  { date: '2026-05-01', name: 'Fête du Travail' },
-  { date: '2026-05-08', name: 'Victoire 1945' },
-  { date: '2026-05-14', name: 'Jeudi de l\'Ascension' },
-  { date: '2026-05-25', name: 'Lundi de Pentecôte' },
-  { date: '2026-07-14', name: 'Fête Nationale' },
-  { date: '2026-08-15', name: 'Assomption' },
-  { date: '2026-11-01', name: 'Toussaint' },
-  { date: '2026-11-11', name: 'Armistice 1918' },
-  { date: '2026-12-25', name: 'Noël' },
+export const FRENCH_HOLIDAY_RULES: HolidayRule[] = [
+  { type: 'fixed', month: 1, day: 1, key: 'new_year', names: { fr: 'Jour de l\'an', en: 'New Year\'s Day' } },
+  { type: 'easter', offset: 1, key: 'easter_monday', names: { fr: 'Lundi de Pâques', en: 'Easter Monday' } },
+  { type: 'fixed', month: 5, day: 1, key: 'labour_day', names: { fr: 'Fête du Travail', en: 'Labour Day' } },
+  { type: 'fixed', month: 5, day: 8, key: 'victory_day', names: { fr: 'Victoire 1945', en: 'Victory in Europe Day' } },
+  { type: 'easter', offset: 39, key: 'ascension', names: { fr: 'Jeudi de l\'Ascension', en: 'Ascension Day' } },
+  { type: 'easter', offset: 50, key: 'whit_monday', names: { fr: 'Lundi de Pentecôte', en: 'Whit Monday' } },
+  { type: 'fixed', month: 7, day: 14, key: 'bastille_day', names: { fr: 'Fête Nationale', en: 'Bastille Day' } },
+  { type: 'fixed', month: 8, day: 15, key: 'assumption', names: { fr: 'Assomption', en: 'Assumption Day' } },
+  { type: 'fixed', month: 11, day: 1, key: 'all_saints', names: { fr: 'Toussaint', en: 'All Saints\' Day' } },
+  { type: 'fixed', month: 11, day: 11, key: 'armistice', names: { fr: 'Armistice 1918', en: 'Armistice Day' } },
+  { type: 'fixed', month: 12, day: 25, key: 'christmas', names: { fr: 'Noël', en: 'Christmas Day' } },
 ];
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateString(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// All date arithmetic is done in UTC so DST changes never shift the computed day
+function utcToDateString(time: number): string {
+  const date = new Date(time);
+  return toDateString(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+}
+
+/**
+ * Compute Easter Sunday for a Gregorian year (anonymous Gregorian algorithm)
+ * @param year - Four-digit year
+ * @returns Month (1-12) and day of Easter Sunday
+ */
+export function getEasterSunday(year: number): { month: number; day: number } {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return { month, day };
+}
+
+function resolveRuleDate(rule: HolidayRule, year: number): string {
+  switch (rule.type) {
+    case 'fixed':
+      return toDateString(year, rule.month, rule.day);
+    case 'easter': {
+      const easter = getEasterSunday(year);
+      return utcToDateString(Date.UTC(year, easter.month - 1, easter.day) + rule.offset * DAY_MS);
+    }
+    case 'nthWeekday': {
+      if (rule.n > 0) {
+        const first = Date.UTC(year, rule.month - 1, 1);
+        const shift = (rule.weekday - new Date(first).getUTCDay() + 7) % 7;
+        return utcToDateString(first + (shift + (rule.n - 1) * 7) * DAY_MS);
+      }
+      const last = Date.UTC(year, rule.month, 0);
+      const shift = (new Date(last).getUTCDay() - rule.weekday + 7) % 7;
+      return utcToDateString(last - shift * DAY_MS);
+    }
+    case 'weekdayOnOrBefore': {
+      const anchor = Date.UTC(year, rule.month - 1, rule.day);
+      const shift = (new Date(anchor).getUTCDay() - rule.weekday + 7) % 7;
+      return utcToDateString(anchor - shift * DAY_MS);
+    }
+  }
+}
+
+/**
+ * Build a holiday calendar from a list of rules
+ * Holidays are computed lazily and cached per year.
+ * @param id - Calendar identifier (country code, optionally with region)
+ * @param names - Display names of the calendar
+ * @param rules - Holiday rules
+ * @returns Holiday calendar
+ */
+export function createHolidayCalendar(id: string, names: HolidayNames, rules: HolidayRule[]): HolidayCalendar {
+  const holidaysByYear = new Map<number, Holiday[]>();
+
+  return {
+    id,
+    names,
+    getHolidays: (year: number) => {
+      const cached = holidaysByYear.get(year);
+      if (cached) return cached;
+
+      const holidays = rules
+        .map(rule => ({ date: resolveRuleDate(rule, year), key: rule.key, names: rule.names }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+      holidaysByYear.set(year, holidays);
+      return holidays;
+    },
+  };
+}
+
+export const frenchHolidayCalendar = createHolidayCalendar(
+  'FR',
+  { fr: 'France', en: 'France' },
+  FRENCH_HOLIDAY_RULES
+);
+
+/**
+ * Get all public holidays for a year, sorted by date
+ * @param year - Four-digit year
+ * @param calendar - Holiday calendar (default: France)
+ * @returns Holidays for that year
+ */
+export function getHolidaysForYear(year: number, calendar: HolidayCalendar = frenchHolidayCalendar): Holiday[] {
+  return calendar.getHolidays(year);
+}
+
+/**
+ * Look up the holiday for a YYYY-MM-DD date string
+ * @param dateStr - Date in YYYY-MM-DD format
+ * @param calendar - Holiday calendar (default: France)
+ * @returns Holiday object if it's a holiday, null otherwise
+ */
+export function getHolidayForDateString(
+  dateStr: string,
+  calendar: HolidayCalendar = frenchHolidayCalendar
+): Holiday | null {
+  const year = parseInt(dateStr.slice(0, 4), 10);
+  return calendar.getHolidays(year).find(h => h.date === dateStr) || null;
+}
+
 /**
- * Check if a date is a French public holiday
+ * Check if a date is a public holiday
  * @param date - Date to check
+ * @param calendar - Holiday calendar (default: France)
  * @returns Holiday object if it's a holiday, null otherwise
  */
-export function isHoliday(date: Date): Holiday | null {
+export function isHoliday(date: Date, calendar: HolidayCalendar = frenchHolidayCalendar): Holiday | null {
   // Format date in local timezone to avoid UTC conversion issues
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  const dateStr = `${year}-${month}-${day}`;
-  return frenchHolidays.find(h => h.date === dateStr) || null;
+  return getHolidayForDateString(toDateString(date.getFullYear(), date.getMonth() + 1, date.getDate()), calendar);
 }
 
 /**
@@ -75,15 +186,21 @@ export function isSunday(date: Date): boolean {
 /**
  * Check if a date is a holiday or Sunday
  * @param date - Date to check
+ * @param language - Language for the returned name (default: 'fr')
+ * @param calendar - Holiday calendar (default: France)
  * @returns Holiday name if it's a holiday, 'Sunday' if it's Sunday, null otherwise
  */
-export function getHolidayType(date: Date): { type: 'holiday' | 'sunday'; name: string } | null {
-  const holiday = isHoliday(date);
+export function getHolidayType(
+  date: Date,
+  language: 'fr' | 'en' = 'fr',
+  calendar: HolidayCalendar = frenchHolidayCalendar
+): { type: 'holiday' | 'sunday'; name: string } | null {
+  const holiday = isHoliday(date, calendar);
   if (holiday) {
-    return { type: 'holiday', name: holiday.name };
+    return { type: 'holiday', name: holiday.names[language] };
   }
   if (isSunday(date)) {
-    return { type: 'sunday', name: 'Dimanche' };
+    return { type: 'sunday', name: language === 'fr' ? 'Dimanche' : 'Sunday' };
   }
   return null;
 }
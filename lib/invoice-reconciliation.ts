@@ -0,0 +1,330 @@
+/**
+ * Agency invoice reconciliation
+ * Matches the lines of the agency's end-of-month invoice against the visits recorded by
+ * check-ins, per day and caregiver, and flags the differences: invoiced visits nobody
+ * checked in for, recorded visits missing from the invoice, extra minutes, hourly rates
+ * that don't match the contract and hours billed in the wrong majoration category.
+ * Expected amounts come from the shared billing engine, so they match the financial tab.
+ * Pure functions: safe on the client and in API routes.
+ */
+import { AgencyInvoiceLine } from './supabase';
+import { BillableCheckIn, BillingInput, computeBilling, MajorationBucket } from './billing';
+import { getRateForDate } from './rate-utils';
+import { getMajoratedRate } from './majoration-rules';
+
+// Differences below these are rounding, not billing errors
+export const RECONCILIATION_MINUTES_TOLERANCE = 5;
+export const RECONCILIATION_RATE_TOLERANCE = 0.01;
+
+export type InvoiceLineInput = Omit<AgencyInvoiceLine, 'id' | 'invoice_id' | 'created_at'>;
+
+export type ReconciliationIssueType =
+  | 'missing_visit' // Invoiced, but no visit was recorded that day for that caregiver
+  | 'unbilled_visit' // Recorded, but not on the invoice
+  | 'over_billed' // More minutes invoiced than recorded
+  | 'under_billed' // Fewer minutes invoiced than recorded
+  | 'wrong_rate' // Hourly rate differs from the contract rate for that category
+  | 'wrong_majoration'; // Hours invoiced in a majoration category they don't fall in
+
+export type ReconciliationIssue = {
+  type: ReconciliationIssueType;
+  minutes?: number; // over_billed, under_billed, wrong_majoration
+  percentage?: number; // Majoration category concerned (wrong_rate, wrong_majoration)
+  invoicedRate?: number; // wrong_rate
+  expectedRate?: number; // wrong_rate
+};
+
+export type ReconciliationRow = {
+  date: string; // yyyy-MM-dd in the beneficiary's timezone
+  caregiverName: string;
+  recordedHours: number;
+  recordedAmount: number; // HT
+  recordedLevels: MajorationBucket[];
+  invoicedHours: number;
+  invoicedAmount: number; // HT
+  lines: InvoiceLineInput[];
+  issues: ReconciliationIssue[];
+};
+
+export type ReconciliationResult = {
+  rows: ReconciliationRow[]; // Chronological, then by caregiver
+  totals: { recordedHours: number; recordedAmount: number; invoicedHours: number; invoicedAmount: number };
+  issueCount: number;
+};
+
+export type ReconciliationInput<T extends BillableCheckIn = BillableCheckIn> = BillingInput<T> & {
+  lines: InvoiceLineInput[];
+};
+
+// Invoices rarely spell names exactly like the check-ins: ignore case, accents and spacing
+function normalizeName(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function getLineRate(line: InvoiceLineInput): number {
+  if (line.rate !== undefined && line.rate !== null) return line.rate;
+  return line.hours > 0 ? line.amount / line.hours : 0;
+}
+
+/**
+ * Reconcile invoice lines with the recorded visits of the same period
+ * Visits are attributed to the local date of their check-in, like the monthly summaries.
+ * Training visits are never billed, so they are ignored.
+ */
+export function reconcileInvoice<T extends BillableCheckIn>({
+  lines,
+  ...billingInput
+}: ReconciliationInput<T>): ReconciliationResult {
+  const { rateHistory, fallbackRate, timezone, vat } = billingInput;
+  const rows = new Map<string, ReconciliationRow>();
+  const getRow = (date: string, caregiverName: string) => {
+    const key = `${date}|${normalizeName(caregiverName)}`;
+    if (!rows.has(key)) {
+      rows.set(key, {
+        date,
+        caregiverName,
+        recordedHours: 0,
+        recordedAmount: 0,
+        recordedLevels: [],
+        invoicedHours: 0,
+        invoicedAmount: 0,
+        lines: [],
+        issues: [],
+      });
+    }
+    return rows.get(key)!;
+  };
+
+  computeBilling(billingInput).visits
+    .filter(visit => !visit.isTraining)
+    .forEach(visit => {
+      const row = getRow(visit.date, visit.caregiverName);
+      row.recordedHours += visit.totalHours;
+      row.recordedAmount += visit.totalAmount;
+      visit.majorations.forEach(bucket => {
+        const existing = row.recordedLevels.find(level => level.percentage === bucket.percentage);
+        if (existing) {
+          existing.hours += bucket.hours;
+          existing.amount += bucket.amount;
+        } else {
+          row.recordedLevels.push({ ...bucket });
+        }
+      });
+    });
+
+  lines.forEach(line => {
+    const row = getRow(line.date, line.caregiver_name);
+    row.invoicedHours += line.hours;
+    row.invoicedAmount += line.amount;
+    row.lines.push(line);
+  });
+
+  rows.forEach(row => {
+    row.recordedLevels.sort((a, b) => a.percentage - b.percentage);
+
+    if (row.lines.length === 0) {
+      row.issues.push({ type: 'unbilled_visit', minutes: Math.round(row.recordedHours * 60) });
+      return;
+    }
+    if (row.recordedHours === 0) {
+      row.issues.push({ type: 'missing_visit', minutes: Math.round(row.invoicedHours * 60) });
+      return;
+    }
+
+    const extraMinutes = Math.round((row.invoicedHours - row.recordedHours) * 60);
+    if (extraMinutes > RECONCILIATION_MINUTES_TOLERANCE) {
+      row.issues.push({ type: 'over_billed', minutes: extraMinutes });
+    } else if (extraMinutes < -RECONCILIATION_MINUTES_TOLERANCE) {
+      row.issues.push({ type: 'under_billed', minutes: -extraMinutes });
+    }
+
+    // Majoration categories: only itemised lines say which category they bill
+    const invoicedByLevel = new Map<number, number>();
+    row.lines.forEach(line => {
+      if (line.majoration_percentage === undefined || line.majoration_percentage === null) return;
+      invoicedByLevel.set(line.majoration_percentage, (invoicedByLevel.get(line.majoration_percentage) || 0) + line.hours);
+    });
+    invoicedByLevel.forEach((hours, percentage) => {
+      const recordedLevelHours = row.recordedLevels.find(level => level.percentage === percentage)?.hours || 0;
+      // Minutes already reported as over-billed are not counted twice
+      const levelExtra = Math.round((hours - recordedLevelHours) * 60) - Math.max(0, extraMinutes);
+      if (levelExtra > RECONCILIATION_MINUTES_TOLERANCE) {
+        row.issues.push({ type: 'wrong_majoration', percentage, minutes: levelExtra });
+      }
+    });
+
+    // Rates: itemised lines against the contract rate of their category, others against the recorded average
+    const { billingRate } = getRateForDate(rateHistory || [], row.date, fallbackRate, timezone, vat);
+    row.lines.forEach(line => {
+      const itemised = line.majoration_percentage !== undefined && line.majoration_percentage !== null;
+      const expectedRate = itemised
+        ? getMajoratedRate(billingRate, line.majoration_percentage!)
+        : row.recordedAmount / row.recordedHours;
+      const invoicedRate = getLineRate(line);
+      if (line.hours > 0 && Math.abs(invoicedRate - expectedRate) > RECONCILIATION_RATE_TOLERANCE) {
+        row.issues.push({
+          type: 'wrong_rate',
+          percentage: itemised ? line.majoration_percentage : undefined,
+          invoicedRate,
+          expectedRate,
+        });
+      }
+    });
+  });
+
+  const sortedRows = Array.from(rows.values()).sort((a, b) =>
+    a.date.localeCompare(b.date) || a.caregiverName.localeCompare(b.caregiverName)
+  );
+
+  return {
+    rows: sortedRows,
+    totals: sortedRows.reduce(
+      (sum, row) => ({
+        recordedHours: sum.recordedHours + row.recordedHours,
+        recordedAmount: sum.recordedAmount + row.recordedAmount,
+        invoicedHours: sum.invoicedHours + row.invoicedHours,
+        invoicedAmount: sum.invoicedAmount + row.invoicedAmount,
+      }),
+      { recordedHours: 0, recordedAmount: 0, invoicedHours: 0, invoicedAmount: 0 }
+    ),
+    issueCount: sortedRows.reduce((sum, row) => sum + row.issues.length, 0),
+  };
+}
+
+// Column names accepted in imported invoices (French and English agency exports)
+const COLUMN_ALIASES: Record<keyof InvoiceLineInput, string[]> = {
+  date: ['date', 'jour', 'day'],
+  caregiver_name: ['intervenant', 'intervenante', 'auxiliaire', 'salarie', 'caregiver', 'employee', 'nom', 'name'],
+  hours: ['heures', 'heure', 'duree', 'nb heures', 'quantite', 'qte', 'hours', 'duration', 'quantity'],
+  amount: ['montant', 'montant ht', 'total', 'total ht', 'amount'],
+  rate: ['tarif', 'taux', 'prix unitaire', 'pu', 'pu ht', 'rate', 'unit price'],
+  majoration_percentage: ['majoration', 'categorie', 'type', 'category'],
+};
+
+const DEFAULT_COLUMNS: (keyof InvoiceLineInput)[] = ['date', 'caregiver_name', 'hours', 'amount', 'rate', 'majoration_percentage'];
+
+// '1 234,56 €', '1.234,56', '1,234.56' and '1234.56' are all the same amount: when both
+// separators appear the last one is the decimal separator, a lone comma is a decimal comma
+function parseNumber(value: string): number | undefined {
+  let cleaned = value.replace(/[€\s]/g, '').replace(/[A-Za-z]+$/, '');
+  if (cleaned.includes(',') && cleaned.lastIndexOf('.') > cleaned.lastIndexOf(',')) {
+    cleaned = cleaned.replace(/,/g, '');
+  } else if (cleaned.includes(',')) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  }
+  if (cleaned === '') return undefined;
+  const parsed = parseFloat(cleaned);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+// '2,5', '2.5', '2h30', '02:30' and '2h' are all two and a half (or two) hours
+function parseHours(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+)\s*[h:]\s*(\d{1,2})?$/i);
+  if (match) return parseInt(match[1], 10) + (match[2] ? parseInt(match[2], 10) / 60 : 0);
+  return parseNumber(value);
+}
+
+// 'dd/MM/yyyy', 'dd-MM-yyyy' or 'yyyy-MM-dd'
+function parseDate(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const match = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (!match) return undefined;
+  const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+  return `${year}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+}
+
+// '+25%', '25', 'Majoré 25 %' are 25; 'normal' and empty cells are regular hours
+function parseMajoration(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (trimmed === '') return undefined;
+  const match = trimmed.match(/(\d+(?:[.,]\d+)?)/);
+  return match ? parseFloat(match[1].replace(',', '.')) : 0;
+}
+
+// Cells of a CSV row: a quoted cell may hold the separator ("2,5") and doubled quotes
+function splitRow(row: string, separator: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted && char === '"' && row[i + 1] === '"') {
+      cell += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === separator && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Parse invoice lines pasted or uploaded as CSV (comma, semicolon or tab separated)
+ * A header row maps columns by name; without one, columns are read in the order
+ * date, caregiver, hours, amount, rate, majoration. Cells may be quoted; a row whose
+ * number of cells differs from the first row is reported as invalid.
+ * @returns Parsed lines and the 1-based numbers of the rows that could not be read
+ */
+export function parseInvoiceLines(text: string): { lines: InvoiceLineInput[]; invalidRows: number[] } {
+  const rawRows = text.split(/\r?\n/).map(row => row.trim()).filter(row => row !== '');
+  if (rawRows.length === 0) return { lines: [], invalidRows: [] };
+
+  const separator = rawRows[0].includes('\t') ? '\t' : rawRows[0].includes(';') ? ';' : ',';
+  const cells = rawRows.map(row => splitRow(row, separator));
+
+  // A first row without a date is a header
+  let columns = DEFAULT_COLUMNS;
+  let firstDataRow = 0;
+  if (!cells[0].some(cell => parseDate(cell))) {
+    firstDataRow = 1;
+    columns = cells[0].map(header => {
+      const name = normalizeName(header).replace(/[()€]/g, '').trim();
+      const field = (Object.keys(COLUMN_ALIASES) as (keyof InvoiceLineInput)[])
+        .find(key => COLUMN_ALIASES[key].includes(name));
+      return field as keyof InvoiceLineInput;
+    });
+  }
+
+  const lines: InvoiceLineInput[] = [];
+  const invalidRows: number[] = [];
+  cells.slice(firstDataRow).forEach((row, i) => {
+    // A row with more or fewer cells than the first one was split wrongly: its values cannot be trusted
+    if (row.length !== cells[0].length) {
+      invalidRows.push(firstDataRow + i + 1);
+      return;
+    }
+
+    const value = (field: keyof InvoiceLineInput) => {
+      const index = columns.indexOf(field);
+      return index >= 0 && index < row.length ? row[index] : '';
+    };
+
+    const date = parseDate(value('date'));
+    const caregiverName = value('caregiver_name');
+    const hours = parseHours(value('hours'));
+    const rate = parseNumber(value('rate'));
+    const amount = parseNumber(value('amount')) ?? (hours !== undefined && rate !== undefined ? hours * rate : undefined);
+    if (!date || !caregiverName || hours === undefined || amount === undefined) {
+      invalidRows.push(firstDataRow + i + 1);
+      return;
+    }
+
+    lines.push({
+      date,
+      caregiver_name: caregiverName,
+      hours,
+      amount,
+      rate,
+      majoration_percentage: parseMajoration(value('majoration_percentage')),
+    });
+  });
+
+  return { lines, invalidRows };
+}
@@ -0,0 +1,170 @@
+/**
+ * Majoration rule sets
+ * A rule set is a versioned list of surcharge rules (day types, local time windows,
+ * percentage) stored per beneficiary. Billing evaluates the rule set in effect on
+ * the visit date; when several rules match the same minute the highest one applies.
+ */
+import { formatInTimeZone } from 'date-fns-tz';
+import { MajorationDayType, MajorationRule, MajorationRuleSet } from './supabase';
+import { frenchHolidayCalendar, getHolidayForDateString, HolidayCalendar } from './holidays';
+
+export type MajorationRuleSetVersion = Pick<MajorationRuleSet, 'name' | 'regular_labels' | 'rules' | 'bill_overlaps_once'>;
+
+export type MajorationDay = {
+  dayTypes: MajorationDayType[];
+  holidayKey?: string;
+};
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Standard contract: +25% Sundays, public holidays, before 8 AM and after 8 PM; +100% May 1st and Dec 25th
+export const DEFAULT_MAJORATION_RULE_SET: MajorationRuleSetVersion = {
+  name: 'Standard',
+  regular_labels: { fr: 'Jours de semaine 8h-20h', en: 'Weekdays 8 AM-8 PM' },
+  rules: [
+    { key: 'holiday_double', labels: { fr: '1er mai et 25 décembre', en: 'May 1st and December 25th' }, percentage: 100, day_types: ['holiday'], holiday_keys: ['labour_day', 'christmas'] },
+    { key: 'holiday', labels: { fr: 'Jours fériés', en: 'Public holidays' }, percentage: 25, day_types: ['holiday'] },
+    { key: 'sunday', labels: { fr: 'Dimanches', en: 'Sundays' }, percentage: 25, day_types: ['sunday'] },
+    { key: 'early_morning', labels: { fr: 'Avant 8h', en: 'Before 8 AM' }, percentage: 25, end_time: '08:00' },
+    { key: 'evening', labels: { fr: 'Après 20h', en: 'After 8 PM' }, percentage: 25, start_time: '20:00' },
+  ],
+};
+
+/**
+ * Convert an 'HH:mm' string to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Get the rule set in effect on a date
+ * Same lookup as getRateForDate: the most recent effective_date <= the target date.
+ * @param ruleSets - Rule set versions stored for the beneficiary
+ * @param targetDate - Date object or YYYY-MM-DD string
+ * @param timezone - Timezone for date comparison (default: 'Europe/Paris')
+ * @returns The applicable rule set, or the standard contract when none applies
+ */
+export function getMajorationRuleSetForDate(
+  ruleSets: MajorationRuleSet[] | undefined,
+  targetDate: Date | string,
+  timezone: string = 'Europe/Paris'
+): MajorationRuleSetVersion {
+  if (!ruleSets || ruleSets.length === 0) return DEFAULT_MAJORATION_RULE_SET;
+
+  const targetDateStr = typeof targetDate === 'string'
+    ? targetDate
+    : formatInTimeZone(targetDate, timezone, 'yyyy-MM-dd');
+
+  const applicable = ruleSets
+    .filter(rs => rs.effective_date <= targetDateStr)
+    .sort((a, b) => b.effective_date.localeCompare(a.effective_date));
+
+  return applicable[0] || DEFAULT_MAJORATION_RULE_SET;
+}
+
+/**
+ * Classify a date for rule matching
+ * A public holiday keeps its weekday type too, so a holiday falling on a Sunday
+ * matches both 'holiday' and 'sunday' rules.
+ * @param dateStr - Date in YYYY-MM-DD format
+ * @param calendar - Holiday calendar (default: France)
+ */
+export function getMajorationDay(dateStr: string, calendar: HolidayCalendar = frenchHolidayCalendar): MajorationDay {
+  const [year, month, day] = dateStr.split('-').map(part => parseInt(part, 10));
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const dayTypes: MajorationDayType[] = [weekday === 0 ? 'sunday' : weekday === 6 ? 'saturday' : 'weekday'];
+
+  const holiday = getHolidayForDateString(dateStr, calendar);
+  if (holiday) {
+    dayTypes.push('holiday');
+    return { dayTypes, holidayKey: holiday.key };
+  }
+  return { dayTypes };
+}
+
+function ruleMatchesDay(rule: MajorationRule, day: MajorationDay): boolean {
+  if (rule.day_types && !rule.day_types.some(type => day.dayTypes.includes(type))) return false;
+  if (rule.holiday_keys && (!day.holidayKey || !rule.holiday_keys.includes(day.holidayKey))) return false;
+  return true;
+}
+
+function ruleMatchesMinute(rule: MajorationRule, minuteOfDay: number): boolean {
+  const start = rule.start_time ? timeToMinutes(rule.start_time) : 0;
+  const end = rule.end_time ? timeToMinutes(rule.end_time) : MINUTES_PER_DAY;
+  if (start <= end) return minuteOfDay >= start && minuteOfDay < end;
+  return minuteOfDay >= start || minuteOfDay < end;
+}
+
+/**
+ * Get the majoration percentage at a point in time
+ * @param ruleSet - Rule set in effect
+ * @param day - Day classification from getMajorationDay
+ * @param minuteOfDay - Local minutes since midnight; when omitted only whole-day rules are considered
+ * @returns Highest matching percentage (0 when no rule applies)
+ */
+export function getMajorationPercentage(
+  ruleSet: MajorationRuleSetVersion,
+  day: MajorationDay,
+  minuteOfDay?: number
+): number {
+  return ruleSet.rules.reduce((max, rule) => {
+    if (!ruleMatchesDay(rule, day)) return max;
+    if (minuteOfDay === undefined) {
+      if (rule.start_time || rule.end_time) return max;
+    } else if (!ruleMatchesMinute(rule, minuteOfDay)) {
+      return max;
+    }
+    return Math.max(max, rule.percentage);
+  }, 0);
+}
+
+/**
+ * Local times of day (in minutes) where a rule window starts or ends, ascending
+ */
+export function getRuleBoundaries(ruleSet: MajorationRuleSetVersion): number[] {
+  const boundaries = new Set<number>();
+  ruleSet.rules.forEach(rule => {
+    if (rule.start_time) boundaries.add(timeToMinutes(rule.start_time));
+    if (rule.end_time) boundaries.add(timeToMinutes(rule.end_time));
+  });
+  return Array.from(boundaries)
+    .filter(minute => minute > 0 && minute < MINUTES_PER_DAY)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Distinct percentages a rule set can produce, including 0 for regular hours
+ */
+export function getMajorationLevels(ruleSet: MajorationRuleSetVersion): number[] {
+  return Array.from(new Set([0, ...ruleSet.rules.map(rule => rule.percentage)])).sort((a, b) => a - b);
+}
+
+/**
+ * Apply a majoration percentage to a base hourly rate
+ */
+export function getMajoratedRate(rate: number, percentage: number): number {
+  return rate * (1 + percentage / 100);
+}
+
+/**
+ * Human-readable description of the hours billed at a given percentage
+ * @param ruleSet - Rule set in effect
+ * @param percentage - Majoration level (0 = regular hours)
+ * @param language - Display language
+ * @returns Labels of the rules producing that level, comma-separated
+ */
+export function describeMajorationLevel(
+  ruleSet: MajorationRuleSetVersion,
+  percentage: number,
+  language: 'fr' | 'en'
+): string {
+  if (percentage === 0) {
+    return ruleSet.regular_labels?.[language] || (language === 'fr' ? 'Heures non majorées' : 'Non-majorated hours');
+  }
+  return ruleSet.rules
+    .filter(rule => rule.percentage === percentage)
+    .map(rule => rule.labels[language])
+    .join(', ');
+}
@@ -0,0 +1,187 @@
+/**
+ * Signed NFC/QR check-in payloads
+ * A check-in URL proves the caregiver is at the home with one of:
+ * - hmac: `kid`, `ts` and `sig`, an HMAC-SHA256 of the QR code, key id and issue time
+ *   with the tag's key. Valid for HMAC_PAYLOAD_TTL_SECONDS, so a rotating QR code shown
+ *   at the home cannot be photographed and reused later.
+ * - sdm: NTAG 424 DNA SUN/SDM dynamic URL. The tag mirrors `picc_data` (UID and tap
+ *   counter encrypted with the SDM meta read key) and `cmac` (truncated AES-CMAC with a
+ *   session key derived from the SDM file read key) on every tap (NXP AN12196).
+ * - static: the beneficiary's legacy `secret`, for cards written before signed payloads.
+ * Server-only (node crypto).
+ */
+import { createCipheriv, createDecipheriv, createHmac, timingSafeEqual } from 'crypto';
+
+// Signed payloads older than this are refused
+export const HMAC_PAYLOAD_TTL_SECONDS = 120;
+
+// Values a tag programmer writes in the SDM URL; the tag replaces them on each tap
+export const SDM_PICC_DATA_PLACEHOLDER = '00000000000000000000000000000000';
+export const SDM_CMAC_PLACEHOLDER = '0000000000000000';
+
+export type TagPayload = {
+  secret?: string; // Legacy static secret
+  kid?: string; // Tag key id
+  ts?: string; // Issue time, seconds since epoch (hmac)
+  sig?: string; // Signature (hmac)
+  picc_data?: string; // Encrypted UID and counter, hex (sdm)
+  cmac?: string; // Truncated CMAC, hex (sdm)
+};
+
+export type PayloadKind = 'static' | 'hmac' | 'sdm';
+
+/**
+ * Which kind of payload a check-in URL carries
+ */
+export function getPayloadKind(payload: TagPayload | null | undefined): PayloadKind | null {
+  if (!payload) return null;
+  if (payload.kid && payload.picc_data && payload.cmac) return 'sdm';
+  if (payload.kid && payload.ts && payload.sig) return 'hmac';
+  if (payload.secret) return 'static';
+  return null;
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function hmacSignature(key: string, qrCode: string, kid: string, ts: string): string {
+  return createHmac('sha256', Buffer.from(key, 'hex'))
+    .update(`${qrCode}.${kid}.${ts}`)
+    .digest('base64url')
+    .slice(0, 22);
+}
+
+/**
+ * Sign a payload for a check-in URL
+ * @param key - Tag key (hex)
+ * @param qrCode - Beneficiary QR code
+ * @param kid - Tag key id
+ * @param issuedAt - Issue time (default: now)
+ */
+export function signHmacPayload(key: string, qrCode: string, kid: string, issuedAt: Date = new Date()): TagPayload {
+  const ts = String(Math.floor(issuedAt.getTime() / 1000));
+  return { kid, ts, sig: hmacSignature(key, qrCode, kid, ts) };
+}
+
+/**
+ * Verify a signed payload
+ * @param ttlSeconds - Maximum age of the payload
+ * @returns 'ok', 'invalid' (wrong signature) or 'expired'
+ */
+export function verifyHmacPayload(
+  key: string,
+  qrCode: string,
+  payload: TagPayload,
+  now: Date = new Date(),
+  ttlSeconds: number = HMAC_PAYLOAD_TTL_SECONDS
+): 'ok' | 'invalid' | 'expired' {
+  if (!payload.kid || !payload.ts || !payload.sig) return 'invalid';
+
+  const expected = hmacSignature(key, qrCode, payload.kid, payload.ts);
+  if (!safeEqual(Buffer.from(payload.sig), Buffer.from(expected))) return 'invalid';
+
+  // A few seconds of clock drift are tolerated for payloads issued "in the future"
+  const age = now.getTime() / 1000 - parseInt(payload.ts, 10);
+  if (isNaN(age) || age > ttlSeconds || age < -30) return 'expired';
+  return 'ok';
+}
+
+function aesEncryptBlock(key: Buffer, block: Buffer): Buffer {
+  const cipher = createCipheriv('aes-128-ecb', key, null);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(block), cipher.final()]);
+}
+
+function shiftLeft(block: Buffer): Buffer {
+  const shifted = Buffer.alloc(block.length);
+  for (let i = 0; i < block.length; i++) {
+    shifted[i] = ((block[i] << 1) & 0xff) | (i + 1 < block.length ? block[i + 1] >> 7 : 0);
+  }
+  return shifted;
+}
+
+function xor(a: Buffer, b: Buffer): Buffer {
+  return Buffer.from(a.map((byte, i) => byte ^ b[i]));
+}
+
+// AES-CMAC (RFC 4493)
+function aesCmac(key: Buffer, message: Buffer): Buffer {
+  const l = aesEncryptBlock(key, Buffer.alloc(16));
+  const k1 = shiftLeft(l);
+  if (l[0] & 0x80) k1[15] ^= 0x87;
+  const k2 = shiftLeft(k1);
+  if (k1[0] & 0x80) k2[15] ^= 0x87;
+
+  const blocks = Math.max(1, Math.ceil(message.length / 16));
+  const complete = message.length > 0 && message.length % 16 === 0;
+  let last: Buffer = Buffer.alloc(16);
+  message.copy(last, 0, (blocks - 1) * 16);
+  if (complete) {
+    last = xor(last, k1);
+  } else {
+    last[message.length - (blocks - 1) * 16] = 0x80;
+    last = xor(last, k2);
+  }
+
+  let state: Buffer = Buffer.alloc(16);
+  for (let i = 0; i < blocks - 1; i++) {
+    state = aesEncryptBlock(key, xor(state, message.subarray(i * 16, (i + 1) * 16)));
+  }
+  return aesEncryptBlock(key, xor(state, last));
+}
+
+/**
+ * Decrypt and authenticate an NTAG 424 DNA SUN message
+ * Expects UID and counter mirroring with a CMAC over no file data.
+ * @param metaReadKey - SDM meta read key (hex, 16 bytes)
+ * @param fileReadKey - SDM file read key (hex, 16 bytes)
+ * @param piccData - Encrypted PICC data from the URL (hex, 16 bytes)
+ * @param cmac - CMAC from the URL (hex, 8 bytes)
+ * @returns Tag UID (hex, upper case) and tap counter, or null when the message is not authentic
+ */
+export function decodeSdmPayload(
+  metaReadKey: string,
+  fileReadKey: string,
+  piccData: string,
+  cmac: string
+): { uid: string; counter: number } | null {
+  if (!/^[0-9a-fA-F]{32}$/.test(piccData) || !/^[0-9a-fA-F]{16}$/.test(cmac)) return null;
+
+  const decipher = createDecipheriv('aes-128-cbc', Buffer.from(metaReadKey, 'hex'), Buffer.alloc(16));
+  decipher.setAutoPadding(false);
+  const plain = Buffer.concat([decipher.update(Buffer.from(piccData, 'hex')), decipher.final()]);
+
+  // PICC data tag 0xC7: UID mirrored (7 bytes) and read counter mirrored
+  if (plain[0] !== 0xc7) return null;
+  const uid = plain.subarray(1, 8);
+  const counterBytes = plain.subarray(8, 11);
+
+  const sessionVector = Buffer.concat([Buffer.from([0x3c, 0xc3, 0x00, 0x01, 0x00, 0x80]), uid, counterBytes]);
+  const sessionKey = aesCmac(Buffer.from(fileReadKey, 'hex'), sessionVector);
+  const mac = aesCmac(sessionKey, Buffer.alloc(0));
+  const truncated = Buffer.from(mac.filter((_, i) => i % 2 === 1));
+
+  if (!safeEqual(truncated, Buffer.from(cmac, 'hex'))) return null;
+
+  return {
+    uid: uid.toString('hex').toUpperCase(),
+    counter: counterBytes.readUIntLE(0, 3),
+  };
+}
+
+/**
+ * Build a check-in URL carrying a payload
+ * @param baseUrl - Application URL
+ * @param qrCode - Beneficiary QR code
+ * @param payload - Signed payload or SDM placeholders
+ * @param method - 'nfc' for tags, 'qr' for codes scanned with the camera
+ */
+export function buildCheckInUrl(baseUrl: string, qrCode: string, payload: TagPayload, method: 'nfc' | 'qr'): string {
+  const params = new URLSearchParams({ qr_code: qrCode });
+  Object.entries(payload).forEach(([name, value]) => {
+    if (value) params.set(name, value);
+  });
+  params.set('method', method);
+  return `${baseUrl}/checkin?${params.toString()}`;
+}
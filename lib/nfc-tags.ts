@@ -0,0 +1,177 @@
+/**
+ * Server-side verification of NFC/QR taps
+ * Checks a check-in URL payload (lib/nfc-payload.ts) against the beneficiary's tags in
+ * nfc_tags when /api/nfc/challenge is called: an SDM tap counter must be higher than
+ * the last one accepted for the tag, persisted atomically so a copied URL is refused, and
+ * an HMAC payload is accepted only once (recorded in nfc_used_tokens).
+ * The check-in route then relies on the signed challenge token (lib/challenge-token.ts).
+ * Revoked tags are refused. The legacy static secret is kept in beneficiary_nfc_secrets,
+ * which clients cannot read.
+ */
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import {
+  buildCheckInUrl,
+  decodeSdmPayload,
+  getPayloadKind,
+  PayloadKind,
+  SDM_CMAC_PLACEHOLDER,
+  SDM_PICC_DATA_PLACEHOLDER,
+  TagPayload,
+  verifyHmacPayload,
+} from './nfc-payload';
+import { NfcTag } from './supabase';
+
+// Columns the dashboard may see (never the keys)
+export const PUBLIC_TAG_COLUMNS = 'id, beneficiary_id, key_id, kind, label, uid, last_counter, last_tap_at, revoked_at, created_at';
+
+export type TapVerification =
+  | { valid: true; kind: PayloadKind; tag?: NfcTag; counter?: number }
+  | { valid: false; message: string };
+
+/**
+ * Verify the payload of a tap and record it
+ * @param beneficiary - Beneficiary found from the QR code
+ * @param qrCode - QR code from the URL
+ * @param payload - Payload from the URL
+ * @param now - Tap time (default: now)
+ */
+export async function verifyTap(
+  beneficiary: { id: string },
+  qrCode: string,
+  payload: TagPayload | null | undefined,
+  now: Date = new Date()
+): Promise<TapVerification> {
+  const kind = getPayloadKind(payload);
+
+  if (!payload || !kind) {
+    return { valid: false, message: 'Invalid NFC credentials.' };
+  }
+
+  // Use service role key for server-side operations
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    }
+  );
+
+  if (kind === 'static') {
+    const { data: legacySecret } = await supabase
+      .from('beneficiary_nfc_secrets')
+      .select('nfc_secret')
+      .eq('beneficiary_id', beneficiary.id)
+      .maybeSingle();
+
+    // Constant-time comparison, like signatures
+    const expected = Buffer.from(legacySecret?.nfc_secret ?? '');
+    const actual = Buffer.from(payload.secret ?? '');
+    return legacySecret && expected.length === actual.length && timingSafeEqual(expected, actual)
+      ? { valid: true, kind }
+      : { valid: false, message: 'Invalid NFC credentials. Please tap the card again.' };
+  }
+
+  const { data: tag } = await supabase
+    .from('nfc_tags')
+    .select('*')
+    .eq('beneficiary_id', beneficiary.id)
+    .eq('key_id', payload.kid)
+    .eq('kind', kind)
+    .maybeSingle<NfcTag>();
+
+  if (!tag) {
+    return { valid: false, message: 'Unknown NFC tag. Please tap the card again.' };
+  }
+
+  if (tag.revoked_at) {
+    return { valid: false, message: 'This NFC tag has been revoked. Please ask the family for the new one.' };
+  }
+
+  if (kind === 'hmac') {
+    const result = tag.hmac_key ? verifyHmacPayload(tag.hmac_key, qrCode, payload, now) : 'invalid';
+    if (result === 'expired') {
+      return { valid: false, message: 'This code has expired. Please scan it again.' };
+    }
+    if (result === 'invalid') {
+      return { valid: false, message: 'Invalid NFC credentials. Please tap the card again.' };
+    }
+
+    // A second request with the same payload hits the unique constraint
+    const { error: usedError } = await supabase
+      .from('nfc_used_tokens')
+      .insert({ challenge_token: `hmac:${tag.id}:${payload.sig}`, beneficiary_id: beneficiary.id });
+
+    if (usedError?.code === '23505') {
+      return { valid: false, message: 'This code has already been used. Please scan it again.' };
+    }
+    if (usedError) {
+      throw new Error(`Could not record the HMAC payload: ${usedError.message}`);
+    }
+
+    await supabase
+      .from('nfc_tags')
+      .update({ last_tap_at: now.toISOString() })
+      .eq('id', tag.id);
+    return { valid: true, kind, tag };
+  }
+
+  const sun = tag.sdm_meta_read_key && tag.sdm_file_read_key
+    ? decodeSdmPayload(tag.sdm_meta_read_key, tag.sdm_file_read_key, payload.picc_data!, payload.cmac!)
+    : null;
+
+  if (!sun || (tag.uid && tag.uid !== sun.uid)) {
+    return { valid: false, message: 'Invalid NFC credentials. Please tap the card again.' };
+  }
+
+  // Only one request can move the counter forward: a replayed URL updates nothing
+  const { data: updated } = await supabase
+    .from('nfc_tags')
+    .update({ last_counter: sun.counter, last_tap_at: now.toISOString(), uid: sun.uid })
+    .eq('id', tag.id)
+    .or(`last_counter.is.null,last_counter.lt.${sun.counter}`)
+    .select('id')
+    .maybeSingle();
+
+  if (!updated) {
+    return { valid: false, message: 'This NFC tap has already been used. Please tap the card again.' };
+  }
+
+  return { valid: true, kind, tag, counter: sun.counter };
+}
+
+/**
+ * New key id and keys for a tag (provisioning or rotation)
+ * A new key id makes URLs of the previous keys fail as an unknown tag.
+ */
+export function generateTagKeys(kind: NfcTag['kind']): Pick<NfcTag, 'key_id' | 'hmac_key' | 'sdm_meta_read_key' | 'sdm_file_read_key'> {
+  return {
+    key_id: randomBytes(4).toString('hex'),
+    hmac_key: kind === 'hmac' ? randomBytes(32).toString('hex') : null,
+    sdm_meta_read_key: kind === 'sdm' ? randomBytes(16).toString('hex').toUpperCase() : null,
+    sdm_file_read_key: kind === 'sdm' ? randomBytes(16).toString('hex').toUpperCase() : null,
+  };
+}
+
+/**
+ * What to write on an NTAG 424 DNA tag: its SDM keys and the URL with SUN mirroring placeholders
+ * Only returned when the keys are generated; they cannot be read back afterwards.
+ */
+export function getSdmProvisioning(
+  baseUrl: string,
+  qrCode: string,
+  keys: Pick<NfcTag, 'key_id' | 'sdm_meta_read_key' | 'sdm_file_read_key'>
+) {
+  return {
+    keys: { sdm_meta_read_key: keys.sdm_meta_read_key, sdm_file_read_key: keys.sdm_file_read_key },
+    url: buildCheckInUrl(
+      baseUrl,
+      qrCode,
+      { kid: keys.key_id, picc_data: SDM_PICC_DATA_PLACEHOLDER, cmac: SDM_CMAC_PLACEHOLDER },
+      'nfc'
+    ),
+  };
+}
@@ -16,6 +16,8 @@ export interface NotificationPreferences {
   check_in?: boolean;
   check_out?: boolean;
   missed_check_in?: boolean;
+  forgotten_check_out?: boolean; // Visit still open long after the check-in
+  apa_threshold?: boolean; // APA/PCH plan reached 80% / 100%
   daily_summary?: boolean;
   quiet_hours?: QuietHours;
 }
@@ -27,6 +29,8 @@ export const DEFAULT_PREFERENCES: NotificationPreferences = {
   check_in: true,
   check_out: true,
   missed_check_in: true,
+  forgotten_check_out: true,
+  apa_threshold: true,
   daily_summary: false,
   quiet_hours: {
     enabled: false,
@@ -136,6 +140,8 @@ export function getPreferencesDescription(preferences: NotificationPreferences):
   if (preferences.check_in) types.push('check-ins');
   if (preferences.check_out) types.push('check-outs');
   if (preferences.missed_check_in) types.push('missed check-ins');
+  if (preferences.forgotten_check_out) types.push('forgotten check-outs');
+  if (preferences.apa_threshold) types.push('care plan alerts');
   if (preferences.daily_summary) types.push('daily summary');
 
   description += types.join(', ');
@@ -0,0 +1,81 @@
+/**
+ * Concurrent visits
+ * Two caregivers can be present at the same time (binôme with a trainee, handover
+ * between shifts). Pairing keeps both visits; this module reports the concurrent time
+ * and, for contracts that bill it once (bill_overlaps_once on the majoration rule set),
+ * gives the part of a visit not already covered by another caregiver's visit.
+ */
+import { BillableCheckIn, VisitPair } from './billing';
+
+export type TimeInterval = {
+  start: number; // ms since epoch
+  end: number;
+};
+
+export type VisitOverlap = {
+  start: Date;
+  end: Date;
+  hours: number;
+  caregivers: [string, string]; // Earlier arrival first
+  training: boolean; // One of the two visits is a training (binôme) visit
+};
+
+/**
+ * Remove covered time from an interval
+ * @param interval - Time to bill
+ * @param covered - Time already billed, in any order (may overlap)
+ * @returns Uncovered parts of the interval, chronologically
+ */
+export function subtractIntervals(interval: TimeInterval, covered: TimeInterval[]): TimeInterval[] {
+  let remaining: TimeInterval[] = [interval];
+  [...covered]
+    .sort((a, b) => a.start - b.start)
+    .forEach(cover => {
+      remaining = remaining.flatMap(part => {
+        if (cover.end <= part.start || cover.start >= part.end) return [part];
+        const pieces: TimeInterval[] = [];
+        if (cover.start > part.start) pieces.push({ start: part.start, end: cover.start });
+        if (cover.end < part.end) pieces.push({ start: cover.end, end: part.end });
+        return pieces;
+      });
+    });
+  return remaining;
+}
+
+/**
+ * Find the time two caregivers were present together
+ * Only closed visits count; one line per pair of overlapping visits.
+ * @param pairs - Visits from pairCheckInOuts or the visits table
+ * @returns Overlaps sorted by start
+ */
+export function findOverlaps<T extends BillableCheckIn>(pairs: VisitPair<T>[]): VisitOverlap[] {
+  const closed = pairs
+    .filter(pair => pair.checkOut)
+    .map(pair => ({
+      caregiver: pair.checkIn.caregiver_name,
+      training: !!pair.checkIn.is_training,
+      start: new Date(pair.checkIn.timestamp).getTime(),
+      end: new Date(pair.checkOut!.timestamp).getTime(),
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  const overlaps: VisitOverlap[] = [];
+  closed.forEach((visit, index) => {
+    for (const other of closed.slice(index + 1)) {
+      if (other.start >= visit.end) break;
+      if (other.caregiver === visit.caregiver) continue;
+
+      const start = other.start;
+      const end = Math.min(visit.end, other.end);
+      overlaps.push({
+        start: new Date(start),
+        end: new Date(end),
+        hours: (end - start) / (1000 * 60 * 60),
+        caregivers: [visit.caregiver, other.caregiver],
+        training: visit.training || other.training,
+      });
+    }
+  });
+
+  return overlaps;
+}
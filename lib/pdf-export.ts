@@ -2,10 +2,26 @@ import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { format } from 'date-fns';
 import { fr, enUS } from 'date-fns/locale';
-import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
-import { getHolidayMajoration, isPublicHoliday } from './holiday-rates';
-import { getRateForDate } from './rate-utils';
-import { BeneficiaryRateHistory } from './supabase';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  allocateFunderSplit,
+  describeFunderRule,
+  FUNDER_TYPE_LABELS,
+  getDefaultFunders,
+  getFundersForMonth,
+  splitAmongFunders,
+} from './funders';
+import { applyVat, DEFAULT_VAT_RATE, formatVatRate, getRateForDate, rateToHT, VatSettings } from './rate-utils';
+import { computeBilling, getBilledMajorationLevels, getBilledVatRate, getMajorationBucket, pairCheckInOuts, VisitPair } from './billing';
+import {
+  describeMajorationLevel,
+  getMajoratedRate,
+  getMajorationLevels,
+  getMajorationRuleSetForDate,
+} from './majoration-rules';
+import { BeneficiaryFunder, BeneficiaryRateHistory, MajorationRuleSet } from './supabase';
+import { HolidayCalendar } from './holidays';
+import { TAX_CREDIT_RATE, TaxCreditStatement } from './tax-credit';
 
 type CheckInOut = {
   id: string;
@@ -17,6 +33,8 @@ type CheckInOut = {
   latitude?: number;
   longitude?: number;
   is_training?: boolean;
+  corrected_check_out_at?: string | null;
+  verification_method?: string | null;
 };
 
 type DailyNote = {
@@ -27,6 +45,34 @@ type DailyNote = {
   reason: string;
 };
 
+type RGB = [number, number, number];
+
+// Table header colours per majoration level: regular hours first, then increasingly dark
+const LEVEL_COLORS: { fill: RGB; text: RGB }[] = [
+  { fill: [204, 251, 241], text: [31, 41, 55] }, // teal-100 with gray-800 text
+  { fill: [8, 145, 178], text: [255, 255, 255] }, // teal-600
+  { fill: [15, 118, 110], text: [255, 255, 255] }, // teal-700
+  { fill: [17, 94, 89], text: [255, 255, 255] }, // teal-800
+];
+
+// Palette for the detailed export's financial summary tables
+const DETAIL_LEVEL_COLORS: RGB[] = [
+  [59, 130, 246], // blue
+  [234, 179, 8], // yellow
+  [220, 38, 38], // red
+  [147, 51, 234], // purple
+];
+
+// Palette position of a level: regular hours always take the first colour
+function getLevelPaletteIndex(levels: number[], index: number, paletteSize: number): number {
+  return Math.min(index + (levels[0] === 0 ? 0 : 1), paletteSize - 1);
+}
+
+function getLevelTitle(percentage: number, language: 'fr' | 'en'): string {
+  if (percentage === 0) return language === 'fr' ? 'HEURES NORMALES' : 'NORMAL HOURS';
+  return language === 'fr' ? `HEURES MAJORÉES +${percentage}%` : `PREMIUM HOURS +${percentage}%`;
+}
+
 export function exportFinancialSummaryToPDF(
   checkIns: CheckInOut[],
   beneficiaryName: string,
@@ -39,27 +85,47 @@ export function exportFinancialSummaryToPDF(
   timezone: string = 'Europe/Paris',
   rateHistory?: BeneficiaryRateHistory[],
   conventionedRate?: number,
-  apaMonthlyHours?: number
+  apaMonthlyHours?: number,
+  holidayCalendar?: HolidayCalendar,
+  majorationRuleSets?: MajorationRuleSet[],
+  vatSettings?: VatSettings,
+  funders?: BeneficiaryFunder[],
+  pairs?: VisitPair<CheckInOut>[] // Visits from the visits table (default: paired from checkIns)
 ) {
   const doc = new jsPDF();
 
-  // Get rate information
-  const { billingRate: displayRate, conventionedRate: displayConventionedRate, apaMonthlyHours: displayApaMonthlyHours } =
+  // Get rate information (always HT)
+  const rateData = getRateForDate(rateHistory || [], selectedMonth, regularRate, timezone, vatSettings);
+  const displayRate = rateData.billingRate;
+  const { conventionedRate: displayConventionedRate, apaMonthlyHours: displayApaMonthlyHours } =
     rateHistory && rateHistory.length > 0
-      ? getRateForDate(rateHistory, selectedMonth, regularRate, timezone)
-      : { billingRate: regularRate, conventionedRate: conventionedRate ?? regularRate, apaMonthlyHours: apaMonthlyHours };
-
-  const rate25 = displayRate * 1.25;
-  const rate100 = displayRate * 2.0;
+      ? rateData
+      : {
+          conventionedRate: conventionedRate !== undefined
+            ? rateToHT(conventionedRate, rateData.vatRate, vatSettings?.ratesIncludeVat)
+            : displayRate,
+          apaMonthlyHours: apaMonthlyHours,
+        };
+
+  const displayRuleSet = getMajorationRuleSetForDate(majorationRuleSets, selectedMonth, timezone);
   const effectiveConventionedRate = displayConventionedRate;
-  const rateExcess = displayRate - effectiveConventionedRate;
 
-  // APA calculations
-  const apaPercentage = 100 - copayPercentage;
-  const apaPerHour = effectiveConventionedRate * (apaPercentage / 100);
-  const benefNormal = (effectiveConventionedRate * (copayPercentage / 100)) + rateExcess;
-  const benef25 = benefNormal + (displayRate * 0.25);
-  const benef100 = benefNormal + displayRate;
+  // Funders covering the month; without any, the ticket modérateur defines a single APA plan
+  const monthFunders = getFundersForMonth(funders, selectedMonth);
+  const activeFunders = monthFunders.length > 0 ? monthFunders : getDefaultFunders(copayPercentage);
+  const fundersLabel = activeFunders.length === 1
+    ? activeFunders[0].name
+    : (language === 'fr' ? 'Financeurs' : 'Funders');
+
+  // Per hour split at each majoration level (monthly hour caps don't apply to a single hour)
+  const hourFunders = activeFunders.map(funder => ({ ...funder, monthly_hours_cap: undefined }));
+  const splitForHour = (percentage: number) => splitAmongFunders({
+    hours: 1,
+    amount: getMajoratedRate(displayRate, percentage),
+    funders: hourFunders,
+    conventionedRate: effectiveConventionedRate,
+  });
+  const benefNormal = splitForHour(0).beneficiaryAmount;
 
   // Main title
   doc.setFontSize(16);
@@ -79,19 +145,30 @@ export function exportFinancialSummaryToPDF(
   let yPos = 35;
 
   // Calculate totals
-  const { totals, caregiversByType } = calculateTotals(checkIns, regularRate, timezone, rateHistory);
+  const { totals, levels } = calculateTotals(checkIns, regularRate, timezone, rateHistory, holidayCalendar, majorationRuleSets, vatSettings, pairs);
+  const vatRate = getBilledVatRate(totals, rateData.vatRate);
+
+  const totalAmount = totals.totalAmount;
+  const { vat: vatAmount, ttc: totalWithVAT } = applyVat(totalAmount, vatRate);
 
-  const totalAmount = totals.normalAmount + totals.holiday25Amount + totals.holiday100Amount;
-  const vatAmount = totalAmount * 0.055;
-  const totalWithVAT = totalAmount + vatAmount;
+  const split = splitAmongFunders({
+    hours: totals.totalHours,
+    amount: totalAmount,
+    funders: activeFunders,
+    conventionedRate: effectiveConventionedRate,
+  });
 
-  const apaAmount = (totals.normalHours + totals.holiday25Hours + totals.holiday100Hours) * apaPerHour;
-  const apaVAT = apaAmount * 0.055;
-  const apaWithVAT = apaAmount + apaVAT;
+  const apaAmount = split.fundedAmount;
+  const { vat: apaVAT, ttc: apaWithVAT } = applyVat(apaAmount, vatRate);
 
-  const beneficiaryAmount = totalAmount - apaAmount;
-  const beneficiaryVAT = beneficiaryAmount * 0.055;
-  const beneficiaryWithVAT = beneficiaryAmount + beneficiaryVAT;
+  const beneficiaryAmount = split.beneficiaryAmount;
+  const { vat: beneficiaryVAT, ttc: beneficiaryWithVAT } = applyVat(beneficiaryAmount, vatRate);
+
+  // Funders' share of each caregiver row of the hour tables
+  const detailRows = levels.flatMap(level => level.caregivers.map(c => ({ key: `${level.percentage}|${c.name}`, hours: c.hours, amount: c.amount })));
+  const detailFunding = allocateFunderSplit(split, detailRows, effectiveConventionedRate);
+  const fundedForRow = (percentage: number, name: string) =>
+    detailFunding[detailRows.findIndex(row => row.key === `${percentage}|${name}`)] || 0;
 
   // ========== DÉTAIL DES HEURES ==========
   doc.setFontSize(11);
@@ -99,92 +176,39 @@ export function exportFinancialSummaryToPDF(
   doc.text(language === 'fr' ? 'DÉTAIL DES HEURES' : 'HOUR DETAILS', 14, yPos);
   yPos += 7;
 
-  // HEURES NORMALES table
-  if (caregiversByType.normal.length > 0) {
-    const normalData = caregiversByType.normal.map(c => [
+  // One table per majoration level (HEURES NORMALES, HEURES MAJORÉES +x%)
+  const billedPercentages = levels.map(l => l.percentage);
+  levels.forEach((level, levelIdx) => {
+    const colors = LEVEL_COLORS[getLevelPaletteIndex(billedPercentages, levelIdx, LEVEL_COLORS.length)];
+    const levelFunded = level.caregivers.reduce((sum, c) => sum + fundedForRow(level.percentage, c.name), 0);
+    const levelData = level.caregivers.map(c => [
       c.name,
       `${c.hours.toFixed(2)}h`,
       `${c.amount.toFixed(2)}€`,
-      `${(c.hours * apaPerHour).toFixed(2)}€`,
-      `${(c.hours * benefNormal).toFixed(2)}€`
+      `${fundedForRow(level.percentage, c.name).toFixed(2)}€`,
+      `${(c.amount - fundedForRow(level.percentage, c.name)).toFixed(2)}€`
     ]);
 
     // Add subtotal row
-    normalData.push([
+    levelData.push([
       language === 'fr' ? 'SOUS-TOTAL' : 'SUBTOTAL',
-      `${totals.normalHours.toFixed(2)}h`,
-      `${totals.normalAmount.toFixed(2)}€`,
-      `${(totals.normalHours * apaPerHour).toFixed(2)}€`,
-      `${(totals.normalHours * benefNormal).toFixed(2)}€`
+      `${level.hours.toFixed(2)}h`,
+      `${level.amount.toFixed(2)}€`,
+      `${levelFunded.toFixed(2)}€`,
+      `${(level.amount - levelFunded).toFixed(2)}€`
     ]);
 
     autoTable(doc, {
       startY: yPos,
       head: [[
-        `${language === 'fr' ? 'HEURES NORMALES' : 'NORMAL HOURS'} - ${displayRate.toFixed(2)}€ HT/h`,
+        `${getLevelTitle(level.percentage, language)} - ${getMajoratedRate(displayRate, level.percentage).toFixed(2)}€ HT/h`,
         language === 'fr' ? 'Heures' : 'Hours',
         language === 'fr' ? 'Facturation' : 'Billing',
-        'APA',
+        fundersLabel,
         language === 'fr' ? 'Bénéficiaire' : 'Beneficiary'
       ]],
-      body: normalData,
-      headStyles: { fillColor: [204, 251, 241], textColor: [31, 41, 55], fontSize: 7, fontStyle: 'bold' }, // teal-100 with gray-800 text
-      bodyStyles: { fontSize: 7, textColor: [31, 41, 55] },
-      columnStyles: {
-        0: { cellWidth: 70, halign: 'left' },
-        1: { cellWidth: 28, halign: 'right' },
-        2: { cellWidth: 28, halign: 'right' },
-        3: { cellWidth: 28, halign: 'right' },
-        4: { cellWidth: 28, halign: 'right' }
-      },
-      margin: { left: 14, right: 14 },
-      tableWidth: 182,
-      didParseCell: (data: any) => {
-        // Right-align header cells for numeric columns (columns 1-4)
-        if (data.section === 'head' && data.column.index >= 1) {
-          data.cell.styles.halign = 'right';
-        }
-        if (data.section === 'body' && data.row.index === normalData.length - 1) {
-          // Subtotal row - same color as header
-          data.cell.styles.fillColor = [204, 251, 241]; // teal-100
-          data.cell.styles.fontStyle = 'bold';
-          data.cell.styles.textColor = [31, 41, 55]; // gray-800
-        }
-      }
-    });
-    yPos = (doc as any).lastAutoTable.finalY + 4;
-  }
-
-  // HEURES MAJORÉES +25% table
-  if (caregiversByType.holiday25.length > 0) {
-    const holiday25Data = caregiversByType.holiday25.map(c => [
-      c.name,
-      `${c.hours.toFixed(2)}h`,
-      `${c.amount.toFixed(2)}€`,
-      `${(c.hours * apaPerHour).toFixed(2)}€`,
-      `${(c.hours * benef25).toFixed(2)}€`
-    ]);
-
-    // Add subtotal row
-    holiday25Data.push([
-      language === 'fr' ? 'SOUS-TOTAL' : 'SUBTOTAL',
-      `${totals.holiday25Hours.toFixed(2)}h`,
-      `${totals.holiday25Amount.toFixed(2)}€`,
-      `${(totals.holiday25Hours * apaPerHour).toFixed(2)}€`,
-      `${(totals.holiday25Hours * benef25).toFixed(2)}€`
-    ]);
-
-    autoTable(doc, {
-      startY: yPos,
-      head: [[
-        `${language === 'fr' ? 'HEURES MAJORÉES +25%' : 'PREMIUM HOURS +25%'} - ${rate25.toFixed(2)}€ HT/h`,
-        language === 'fr' ? 'Heures' : 'Hours',
-        language === 'fr' ? 'Facturation' : 'Billing',
-        'APA',
-        language === 'fr' ? 'Bénéficiaire' : 'Beneficiary'
-      ]],
-      body: holiday25Data,
-      headStyles: { fillColor: [8, 145, 178], textColor: [255, 255, 255], fontSize: 7, fontStyle: 'bold' }, // teal-600
+      body: levelData,
+      headStyles: { fillColor: colors.fill, textColor: colors.text, fontSize: 7, fontStyle: 'bold' },
       bodyStyles: { fontSize: 7, textColor: [31, 41, 55] }, // gray-800 text for caregiver rows
       columnStyles: {
         0: { cellWidth: 70, halign: 'left' },
@@ -200,72 +224,16 @@ export function exportFinancialSummaryToPDF(
         if (data.section === 'head' && data.column.index >= 1) {
           data.cell.styles.halign = 'right';
         }
-        if (data.section === 'body' && data.row.index === holiday25Data.length - 1) {
+        if (data.section === 'body' && data.row.index === levelData.length - 1) {
           // Subtotal row - same color as header
-          data.cell.styles.fillColor = [8, 145, 178]; // teal-600
+          data.cell.styles.fillColor = colors.fill;
           data.cell.styles.fontStyle = 'bold';
-          data.cell.styles.textColor = [255, 255, 255];
+          data.cell.styles.textColor = colors.text;
         }
       }
     });
     yPos = (doc as any).lastAutoTable.finalY + 4;
-  }
-
-  // HEURES MAJORÉES +100% table
-  if (caregiversByType.holiday100.length > 0) {
-    const holiday100Data = caregiversByType.holiday100.map(c => [
-      c.name,
-      `${c.hours.toFixed(2)}h`,
-      `${c.amount.toFixed(2)}€`,
-      `${(c.hours * apaPerHour).toFixed(2)}€`,
-      `${(c.hours * benef100).toFixed(2)}€`
-    ]);
-
-    // Add subtotal row
-    holiday100Data.push([
-      language === 'fr' ? 'SOUS-TOTAL' : 'SUBTOTAL',
-      `${totals.holiday100Hours.toFixed(2)}h`,
-      `${totals.holiday100Amount.toFixed(2)}€`,
-      `${(totals.holiday100Hours * apaPerHour).toFixed(2)}€`,
-      `${(totals.holiday100Hours * benef100).toFixed(2)}€`
-    ]);
-
-    autoTable(doc, {
-      startY: yPos,
-      head: [[
-        `${language === 'fr' ? 'HEURES MAJORÉES +100%' : 'PREMIUM HOURS +100%'} - ${rate100.toFixed(2)}€ HT/h`,
-        language === 'fr' ? 'Heures' : 'Hours',
-        language === 'fr' ? 'Facturation' : 'Billing',
-        'APA',
-        language === 'fr' ? 'Bénéficiaire' : 'Beneficiary'
-      ]],
-      body: holiday100Data,
-      headStyles: { fillColor: [15, 118, 110], textColor: [255, 255, 255], fontSize: 7, fontStyle: 'bold' }, // teal-700
-      bodyStyles: { fontSize: 7, textColor: [31, 41, 55] }, // gray-800 text for caregiver rows
-      columnStyles: {
-        0: { cellWidth: 70, halign: 'left' },
-        1: { cellWidth: 28, halign: 'right' },
-        2: { cellWidth: 28, halign: 'right' },
-        3: { cellWidth: 28, halign: 'right' },
-        4: { cellWidth: 28, halign: 'right' }
-      },
-      margin: { left: 14, right: 14 },
-      tableWidth: 182,
-      didParseCell: (data: any) => {
-        // Right-align header cells for numeric columns (columns 1-4)
-        if (data.section === 'head' && data.column.index >= 1) {
-          data.cell.styles.halign = 'right';
-        }
-        if (data.section === 'body' && data.row.index === holiday100Data.length - 1) {
-          // Subtotal row - same color as header
-          data.cell.styles.fillColor = [15, 118, 110]; // teal-700
-          data.cell.styles.fontStyle = 'bold';
-          data.cell.styles.textColor = [255, 255, 255];
-        }
-      }
-    });
-    yPos = (doc as any).lastAutoTable.finalY + 4;
-  }
+  });
 
   // TOTAL table
   const totalData = [
@@ -277,7 +245,7 @@ export function exportFinancialSummaryToPDF(
       `${beneficiaryAmount.toFixed(2)}€`
     ],
     [
-      language === 'fr' ? 'TVA (5,5%)' : 'VAT (5.5%)',
+      language === 'fr' ? `TVA (${formatVatRate(vatRate, language)}%)` : `VAT (${formatVatRate(vatRate, language)}%)`,
       '',
       `${vatAmount.toFixed(2)}€`,
       `${apaVAT.toFixed(2)}€`,
@@ -324,6 +292,62 @@ export function exportFinancialSummaryToPDF(
     }
   });
 
+  yPos = (doc as any).lastAutoTable.finalY + 4;
+
+  // Who pays what: one row per funder, then the beneficiary's remainder
+  const funderData = [
+    ...split.shares.map(share => {
+      const shareVat = applyVat(share.amount, vatRate);
+      return [
+        `${share.funder.name}\n${FUNDER_TYPE_LABELS[share.funder.funder_type][language]} · ${describeFunderRule(share.funder, language, effectiveConventionedRate)}`,
+        `${share.coveredHours.toFixed(2)}h`,
+        `${share.amount.toFixed(2)}€`,
+        `${shareVat.vat.toFixed(2)}€`,
+        `${shareVat.ttc.toFixed(2)}€`
+      ];
+    }),
+    [
+      language === 'fr' ? 'Reste à charge bénéficiaire' : 'Left to the beneficiary',
+      '',
+      `${beneficiaryAmount.toFixed(2)}€`,
+      `${beneficiaryVAT.toFixed(2)}€`,
+      `${beneficiaryWithVAT.toFixed(2)}€`
+    ]
+  ];
+
+  autoTable(doc, {
+    startY: yPos,
+    head: [[
+      language === 'fr' ? 'RÉPARTITION PAR FINANCEUR' : 'SPLIT BY FUNDER',
+      language === 'fr' ? 'Heures' : 'Hours',
+      'HT',
+      language === 'fr' ? `TVA (${formatVatRate(vatRate, language)}%)` : `VAT (${formatVatRate(vatRate, language)}%)`,
+      'TTC'
+    ]],
+    body: funderData,
+    headStyles: { fillColor: [71, 85, 105], textColor: [255, 255, 255], fontSize: 7, fontStyle: 'bold' }, // slate-600
+    bodyStyles: { fontSize: 7, textColor: [51, 65, 85] },
+    columnStyles: {
+      0: { cellWidth: 70, halign: 'left' },
+      1: { cellWidth: 28, halign: 'right' },
+      2: { cellWidth: 28, halign: 'right' },
+      3: { cellWidth: 28, halign: 'right' },
+      4: { cellWidth: 28, halign: 'right' }
+    },
+    margin: { left: 14, right: 14 },
+    tableWidth: 182,
+    didParseCell: (data) => {
+      if (data.section === 'head' && data.column.index >= 1) {
+        data.cell.styles.halign = 'right';
+      }
+      if (data.section === 'body' && data.row.index === funderData.length - 1) {
+        // Beneficiary row: yellow highlight + bold
+        data.cell.styles.fillColor = [254, 243, 199];
+        data.cell.styles.fontStyle = 'bold';
+      }
+    }
+  });
+
   yPos = (doc as any).lastAutoTable.finalY + 8;
 
   // Highlighted payment section - bigger with light blue background
@@ -365,33 +389,26 @@ export function exportFinancialSummaryToPDF(
   );
   yPos += 5;
 
-  const tarifData = [
-    [
-      language === 'fr' ? 'Normal\nJours de semaine 8h-20h' : 'Normal\nWeekdays 8am-8pm',
-      `${displayRate.toFixed(2)}€`,
-      `${apaPerHour.toFixed(2)}€`,
-      `${benefNormal.toFixed(2)}€`
-    ],
-    [
-      language === 'fr' ? 'Majoré +25%\nJours fériés, dimanches,\navant 8h ou après 20h' : 'Premium +25%\nHolidays, Sundays,\nbefore 8am or after 8pm',
-      `${rate25.toFixed(2)}€`,
-      `${apaPerHour.toFixed(2)}€`,
-      `${benef25.toFixed(2)}€\n(${benefNormal.toFixed(2)} + ${(displayRate * 0.25).toFixed(2)})`
-    ],
-    [
-      language === 'fr' ? 'Majoré +100%\n1er mai et 25 décembre' : 'Premium +100%\nMay 1st and Dec 25th',
-      `${rate100.toFixed(2)}€`,
-      `${apaPerHour.toFixed(2)}€`,
-      `${benef100.toFixed(2)}€\n(${benefNormal.toFixed(2)} + ${displayRate.toFixed(2)})`
-    ]
-  ];
+  const tarifData = getMajorationLevels(displayRuleSet).map(percentage => {
+    const levelName = percentage === 0
+      ? 'Normal'
+      : (language === 'fr' ? `Majoré +${percentage}%` : `Premium +${percentage}%`);
+    return [
+      `${levelName}\n${describeMajorationLevel(displayRuleSet, percentage, language)}`,
+      `${getMajoratedRate(displayRate, percentage).toFixed(2)}€`,
+      `${splitForHour(percentage).fundedAmount.toFixed(2)}€`,
+      percentage === 0
+        ? `${benefNormal.toFixed(2)}€`
+        : `${splitForHour(percentage).beneficiaryAmount.toFixed(2)}€\n(${benefNormal.toFixed(2)} + ${(splitForHour(percentage).beneficiaryAmount - benefNormal).toFixed(2)})`
+    ];
+  });
 
   autoTable(doc, {
     startY: yPos,
     head: [[
       language === 'fr' ? 'Type d\'heure' : 'Hour type',
       language === 'fr' ? 'Vitalliance\nfacture' : 'Company\nbills',
-      language === 'fr' ? 'APA\ncouvre' : 'APA\ncovers',
+      language === 'fr' ? `${fundersLabel}\ncouvre` : `${fundersLabel}\ncovers`,
       language === 'fr' ? 'Bénéficiaire\npaie' : 'Beneficiary\npays'
     ]],
     body: tarifData,
@@ -440,14 +457,15 @@ export function exportFinancialSummaryToPDF(
     yPos += 6;
 
     // Complete APA details
-    const tarifReferenceTTC = effectiveConventionedRate * 1.055;
+    const ttcFactor = 1 + rateData.vatRate / 100;
+    const tarifReferenceTTC = effectiveConventionedRate * ttcFactor;
     const tarifReferenceHT = effectiveConventionedRate;
     const valeurPlanTTC = displayApaMonthlyHours * tarifReferenceTTC;
     const valeurPlanHT = displayApaMonthlyHours * tarifReferenceHT;
     const consommeHT = totals.totalHours * tarifReferenceHT;
-    const consommeTTC = consommeHT * 1.055;
+    const consommeTTC = consommeHT * ttcFactor;
     const nonConsommeHT = valeurPlanHT - consommeHT;
-    const nonConsommeTTC = nonConsommeHT * 1.055;
+    const nonConsommeTTC = nonConsommeHT * ttcFactor;
 
     doc.setFontSize(8);
     doc.setFont('helvetica', 'normal');
@@ -523,129 +541,36 @@ export function exportFinancialSummaryToPDF(
   doc.save(fileName);
 }
 
-// Helper function to calculate totals
-function calculateTotals(checkIns: CheckInOut[], regularRate: number, timezone: string, rateHistory?: BeneficiaryRateHistory[]) {
-  const caregiverNormalStats: Record<string, { hours: number; amount: number }> = {};
-  const caregiver25HolidayStats: Record<string, { hours: number; amount: number }> = {};
-  const caregiver100HolidayStats: Record<string, { hours: number; amount: number }> = {};
-
-  const grouped = groupCheckInsByDate(checkIns, timezone);
-
-  Object.entries(grouped).forEach(([date, dayCheckIns]) => {
-    const pairs = pairCheckInOuts(dayCheckIns);
-
-    pairs.forEach(pair => {
-      if (pair.checkOut && !pair.checkIn.is_training) {
-        const start = new Date(pair.checkIn.timestamp);
-        const end = new Date(pair.checkOut.timestamp);
-        const totalMinutes = (end.getTime() - start.getTime()) / (1000 * 60);
-        const name = pair.checkIn.caregiver_name;
-
-        const { billingRate: applicableRegularRate } = rateHistory && rateHistory.length > 0
-          ? getRateForDate(rateHistory, start, regularRate, timezone)
-          : { billingRate: regularRate };
-        const applicableRate25 = applicableRegularRate * 1.25;
-        const applicableRate100 = applicableRegularRate * 2.0;
-
-        const majoration = getHolidayMajoration(date);
-
-        if (majoration === 1.0) {
-          if (!caregiver100HolidayStats[name]) {
-            caregiver100HolidayStats[name] = { hours: 0, amount: 0 };
-          }
-          const hours = totalMinutes / 60;
-          caregiver100HolidayStats[name].hours += hours;
-          caregiver100HolidayStats[name].amount += hours * applicableRate100;
-        } else if (majoration === 0.25) {
-          if (!caregiver25HolidayStats[name]) {
-            caregiver25HolidayStats[name] = { hours: 0, amount: 0 };
-          }
-          const hours = totalMinutes / 60;
-          caregiver25HolidayStats[name].hours += hours;
-          caregiver25HolidayStats[name].amount += hours * applicableRate25;
-        } else {
-          const startLocal = toZonedTime(start, timezone);
-          const endLocal = toZonedTime(end, timezone);
-
-          const morningStart = new Date(startLocal);
-          morningStart.setHours(8, 0, 0, 0);
-          const eveningStart = new Date(startLocal);
-          eveningStart.setHours(20, 0, 0, 0);
-
-          let earlyMorningMinutes = 0;
-          let regularMinutes = 0;
-          let eveningMinutes = 0;
-
-          if (startLocal < morningStart) {
-            if (endLocal <= morningStart) {
-              earlyMorningMinutes = totalMinutes;
-            } else {
-              earlyMorningMinutes = (morningStart.getTime() - startLocal.getTime()) / (1000 * 60);
-              if (endLocal > eveningStart) {
-                regularMinutes = (eveningStart.getTime() - morningStart.getTime()) / (1000 * 60);
-                eveningMinutes = (endLocal.getTime() - eveningStart.getTime()) / (1000 * 60);
-              } else {
-                regularMinutes = (endLocal.getTime() - morningStart.getTime()) / (1000 * 60);
-              }
-            }
-          } else if (startLocal >= morningStart && startLocal < eveningStart) {
-            if (endLocal <= eveningStart) {
-              regularMinutes = totalMinutes;
-            } else {
-              regularMinutes = (eveningStart.getTime() - startLocal.getTime()) / (1000 * 60);
-              eveningMinutes = (endLocal.getTime() - eveningStart.getTime()) / (1000 * 60);
-            }
-          } else {
-            eveningMinutes = totalMinutes;
-          }
-
-          const regularHours = regularMinutes / 60;
-          const majoredMinutes = earlyMorningMinutes + eveningMinutes;
-          const majoredHours = majoredMinutes / 60;
-
-          if (regularMinutes > 0) {
-            if (!caregiverNormalStats[name]) {
-              caregiverNormalStats[name] = { hours: 0, amount: 0 };
-            }
-            caregiverNormalStats[name].hours += regularHours;
-            caregiverNormalStats[name].amount += regularHours * applicableRegularRate;
-          }
-
-          if (majoredMinutes > 0) {
-            if (!caregiver25HolidayStats[name]) {
-              caregiver25HolidayStats[name] = { hours: 0, amount: 0 };
-            }
-            caregiver25HolidayStats[name].hours += majoredHours;
-            caregiver25HolidayStats[name].amount += majoredHours * applicableRate25;
-          }
-        }
-      }
-    });
+// Helper function to calculate totals, grouped by majoration level
+function calculateTotals(
+  checkIns: CheckInOut[],
+  regularRate: number,
+  timezone: string,
+  rateHistory?: BeneficiaryRateHistory[],
+  holidayCalendar?: HolidayCalendar,
+  majorationRuleSets?: MajorationRuleSet[],
+  vatSettings?: VatSettings,
+  pairs?: VisitPair<CheckInOut>[]
+) {
+  const { caregivers, totals } = computeBilling({
+    checkIns,
+    pairs,
+    rateHistory,
+    fallbackRate: regularRate,
+    timezone,
+    holidays: holidayCalendar,
+    majorationRuleSets,
+    vat: vatSettings,
   });
 
-  const totalNormalHours = Object.values(caregiverNormalStats).reduce((sum, stats) => sum + stats.hours, 0);
-  const totalNormalAmount = Object.values(caregiverNormalStats).reduce((sum, stats) => sum + stats.amount, 0);
-  const total25HolidayHours = Object.values(caregiver25HolidayStats).reduce((sum, stats) => sum + stats.hours, 0);
-  const total25HolidayAmount = Object.values(caregiver25HolidayStats).reduce((sum, stats) => sum + stats.amount, 0);
-  const total100HolidayHours = Object.values(caregiver100HolidayStats).reduce((sum, stats) => sum + stats.hours, 0);
-  const total100HolidayAmount = Object.values(caregiver100HolidayStats).reduce((sum, stats) => sum + stats.amount, 0);
-
-  return {
-    totals: {
-      normalHours: totalNormalHours,
-      normalAmount: totalNormalAmount,
-      holiday25Hours: total25HolidayHours,
-      holiday25Amount: total25HolidayAmount,
-      holiday100Hours: total100HolidayHours,
-      holiday100Amount: total100HolidayAmount,
-      totalHours: totalNormalHours + total25HolidayHours + total100HolidayHours
-    },
-    caregiversByType: {
-      normal: Object.entries(caregiverNormalStats).map(([name, stats]) => ({ name, ...stats })),
-      holiday25: Object.entries(caregiver25HolidayStats).map(([name, stats]) => ({ name, ...stats })),
-      holiday100: Object.entries(caregiver100HolidayStats).map(([name, stats]) => ({ name, ...stats }))
-    }
-  };
+  const levels = getBilledMajorationLevels(caregivers).map(percentage => ({
+    ...getMajorationBucket(totals, percentage),
+    caregivers: caregivers
+      .map(c => ({ name: c.name, ...getMajorationBucket(c, percentage) }))
+      .filter(c => c.hours > 0),
+  }));
+
+  return { totals, levels };
 }
 
 function groupCheckInsByDate(checkIns: CheckInOut[], timezone: string = 'Europe/Paris'): Record<string, CheckInOut[]> {
@@ -662,35 +587,6 @@ function groupCheckInsByDate(checkIns: CheckInOut[], timezone: string = 'Europe/
   return grouped;
 }
 
-function pairCheckInOuts(checkIns: CheckInOut[]): Array<{ checkIn: CheckInOut; checkOut?: CheckInOut }> {
-  const sorted = [...checkIns].sort((a, b) =>
-    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
-
-  const pairs: Array<{ checkIn: CheckInOut; checkOut?: CheckInOut }> = [];
-  const processed = new Set<string>();
-
-  sorted.forEach(ci => {
-    if (processed.has(ci.id)) return;
-
-    if (ci.action === 'check-in') {
-      const checkOut = sorted.find(
-        co =>
-          !processed.has(co.id) &&
-          co.action === 'check-out' &&
-          co.caregiver_name === ci.caregiver_name &&
-          new Date(co.timestamp).getTime() > new Date(ci.timestamp).getTime()
-      );
-
-      pairs.push({ checkIn: ci, checkOut });
-      processed.add(ci.id);
-      if (checkOut) processed.add(checkOut.id);
-    }
-  });
-
-  return pairs;
-}
-
 export function exportDetailedCheckInsToPDF(
   checkIns: CheckInOut[],
   beneficiaryName: string,
@@ -702,16 +598,25 @@ export function exportDetailedCheckInsToPDF(
   copayPercentage?: number,
   timezone: string = 'Europe/Paris',
   rateHistory?: BeneficiaryRateHistory[],
-  conventionedRate?: number  // Tarif de référence conventionné (HT); copay% applies only up to this
+  conventionedRate?: number,  // Tarif de référence conventionné (HT); copay% applies only up to this
+  holidayCalendar?: HolidayCalendar,
+  majorationRuleSets?: MajorationRuleSet[],
+  vatSettings?: VatSettings,
+  funders?: BeneficiaryFunder[],
+  pairs?: VisitPair<CheckInOut>[] // Visits from the visits table (default: paired from checkIns)
 ) {
   // Get conventioned rate from rate history based on selected month
   // This overrides the conventionedRate parameter if rate history is available
-  const { conventionedRate: historicalConventionedRate2 } = rateHistory && rateHistory.length > 0 && regularRate
-    ? getRateForDate(rateHistory, selectedMonth, regularRate, timezone)
-    : { conventionedRate: conventionedRate };
-  const effectiveConventionedRate2 = historicalConventionedRate2 !== regularRate
+  // Rates entered TTC are converted to HT
+  const conventionedRateHT2 = conventionedRate !== undefined
+    ? rateToHT(conventionedRate, vatSettings?.vatRate ?? DEFAULT_VAT_RATE, vatSettings?.ratesIncludeVat)
+    : undefined;
+  const { billingRate: historicalRate2, conventionedRate: historicalConventionedRate2 } = rateHistory && rateHistory.length > 0 && regularRate
+    ? getRateForDate(rateHistory, selectedMonth, regularRate, timezone, vatSettings)
+    : { billingRate: undefined, conventionedRate: conventionedRateHT2 };
+  const effectiveConventionedRate2 = historicalConventionedRate2 !== historicalRate2
     ? historicalConventionedRate2
-    : conventionedRate;  // Use historical rate, or fall back to prop if no difference
+    : conventionedRateHT2;  // Use historical rate, or fall back to prop if no difference
 
   const doc = new jsPDF();
 
@@ -734,16 +639,15 @@ export function exportDetailedCheckInsToPDF(
 
   // Calculate total hours
   const grouped = groupCheckInsByDate(checkIns, timezone);
-  let totalHours = 0;
-  Object.values(grouped).forEach(dayCheckIns => {
-    const pairs = pairCheckInOuts(dayCheckIns);
-    pairs.forEach(pair => {
-      if (pair.checkOut && !pair.checkIn.is_training) {
-        const hours = (new Date(pair.checkOut.timestamp).getTime() - new Date(pair.checkIn.timestamp).getTime()) / (1000 * 60 * 60);
-        totalHours += hours;
-      }
-    });
-  });
+  const totalHours = computeBilling({
+    checkIns,
+    pairs,
+    rateHistory,
+    fallbackRate: regularRate ?? 15,
+    timezone,
+    holidays: holidayCalendar,
+    majorationRuleSets,
+  }).totals.totalHours;
 
   // Display total hours
   doc.setFontSize(10);
@@ -763,6 +667,7 @@ export function exportDetailedCheckInsToPDF(
   }
 
   const tableData: any[] = [];
+  let hasManualVisits = false;
 
   // Sort dates ascending (oldest first)
   Array.from(allDates)
@@ -770,7 +675,10 @@ export function exportDetailedCheckInsToPDF(
     .forEach(dateStr => {
       const dayCheckIns = grouped[dateStr] || [];
       const dayNote = dailyNotes?.find(note => note.date === dateStr);
-      const pairs = pairCheckInOuts(dayCheckIns);
+      const dayIds = new Set(dayCheckIns.map(ci => ci.id));
+      const dayPairs = pairs
+        ? pairs.filter(pair => dayIds.has(pair.checkIn.id))
+        : pairCheckInOuts(dayCheckIns);
 
       // Add date row
       tableData.push([
@@ -785,16 +693,22 @@ export function exportDetailedCheckInsToPDF(
       }
 
       // Add check-ins/outs
-      if (pairs.length > 0) {
-        pairs.forEach(pair => {
+      if (dayPairs.length > 0) {
+        dayPairs.forEach(pair => {
           const checkInTime = formatInTimeZone(new Date(pair.checkIn.timestamp), timezone, 'HH:mm:ss');
           const checkOutTime = pair.checkOut ? formatInTimeZone(new Date(pair.checkOut.timestamp), timezone, 'HH:mm:ss') : '-';
           const hours = pair.checkOut
             ? ((new Date(pair.checkOut.timestamp).getTime() - new Date(pair.checkIn.timestamp).getTime()) / (1000 * 60 * 60)).toFixed(2)
             : '-';
 
+          // Entered or corrected by hand rather than verified on site
+          const manual = pair.corrected
+            || pair.checkIn.verification_method === 'manual'
+            || pair.checkOut?.verification_method === 'manual';
+          if (manual) hasManualVisits = true;
+
           tableData.push([
-            pair.checkIn.caregiver_name,
+            manual ? `${pair.checkIn.caregiver_name} *` : pair.checkIn.caregiver_name,
             checkInTime,
             checkOutTime,
             hours === '-' ? '-' : `${hours}h`
@@ -826,16 +740,29 @@ export function exportDetailedCheckInsToPDF(
     margin: { left: 14, right: 14 },
   });
 
+  let tableEndY = (doc as any).lastAutoTable.finalY;
+  if (hasManualVisits) {
+    doc.setFontSize(8);
+    doc.setTextColor(107, 114, 128);
+    doc.text(
+      language === 'fr' ? '* Visite saisie ou corrigée manuellement' : '* Visit entered or corrected by hand',
+      14,
+      tableEndY + 6
+    );
+    doc.setTextColor(0, 0, 0);
+    tableEndY += 6;
+  }
+
   // Add financial summary at the end if provided
   if (regularRate && currency !== undefined && copayPercentage !== undefined && dailyNotes) {
-    const summaryY = (doc as any).lastAutoTable.finalY + 15;
+    const summaryY = tableEndY + 15;
 
     // Check if we need a new page
     if (summaryY > 250) {
       doc.addPage();
-      addFinancialSummaryToPage(doc, 20, checkIns, regularRate, currency, copayPercentage, dailyNotes, language, timezone, rateHistory, effectiveConventionedRate2);
+      addFinancialSummaryToPage(doc, 20, checkIns, regularRate, currency, copayPercentage, dailyNotes, language, timezone, rateHistory, effectiveConventionedRate2, holidayCalendar, majorationRuleSets, selectedMonth, vatSettings, funders, pairs);
     } else {
-      addFinancialSummaryToPage(doc, summaryY, checkIns, regularRate, currency, copayPercentage, dailyNotes, language, timezone, rateHistory, effectiveConventionedRate2);
+      addFinancialSummaryToPage(doc, summaryY, checkIns, regularRate, currency, copayPercentage, dailyNotes, language, timezone, rateHistory, effectiveConventionedRate2, holidayCalendar, majorationRuleSets, selectedMonth, vatSettings, funders, pairs);
     }
   }
 
@@ -844,6 +771,168 @@ export function exportDetailedCheckInsToPDF(
   doc.save(fileName);
 }
 
+// Annual tax credit statement (crédit d'impôt services à la personne): what the beneficiary paid each month after funders
+export function exportTaxCreditStatementToPDF(
+  statement: TaxCreditStatement,
+  beneficiaryName: string,
+  beneficiaryAddress: string | undefined,
+  currency: string,
+  language: 'fr' | 'en' = 'fr'
+) {
+  const doc = new jsPDF();
+  const locale = language === 'fr' ? fr : enUS;
+  const money = (value: number) => `${value.toFixed(2)} ${currency}`;
+
+  // Title
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text(
+    language === 'fr'
+      ? `Récapitulatif annuel ${statement.year} - Crédit d'impôt`
+      : `Annual statement ${statement.year} - Tax credit`,
+    105,
+    15,
+    { align: 'center' }
+  );
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.text(
+    language === 'fr'
+      ? 'Services à la personne - article 199 sexdecies du Code général des impôts'
+      : 'Home care services - article 199 sexdecies of the French tax code',
+    105,
+    21,
+    { align: 'center' }
+  );
+
+  // Beneficiary
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text(beneficiaryName, 14, 32);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  if (beneficiaryAddress) doc.text(beneficiaryAddress, 14, 37);
+  doc.text(
+    `${language === 'fr' ? 'Période' : 'Period'}: ${language === 'fr' ? 'du' : 'from'} 01/01/${statement.year} ${language === 'fr' ? 'au' : 'to'} 31/12/${statement.year}`,
+    14,
+    beneficiaryAddress ? 42 : 37
+  );
+
+  // One row per month
+  const monthRows = statement.months.map(m => {
+    const [year, month] = m.month.split('-').map(part => parseInt(part, 10));
+    return [
+      format(new Date(year, month - 1, 1), 'MMMM', { locale }),
+      m.hours > 0 ? `${m.hours.toFixed(2)}h` : '-',
+      m.hours > 0 ? money(m.billedTTC) : '-',
+      m.hours > 0 ? money(m.fundedTTC) : '-',
+      m.hours > 0 ? money(m.paidTTC) : '-'
+    ];
+  });
+  monthRows.push([
+    'TOTAL',
+    `${statement.totals.hours.toFixed(2)}h`,
+    money(statement.totals.billedTTC),
+    money(statement.totals.fundedTTC),
+    money(statement.totals.paidTTC)
+  ]);
+
+  autoTable(doc, {
+    startY: beneficiaryAddress ? 48 : 43,
+    head: [[
+      language === 'fr' ? 'Mois' : 'Month',
+      language === 'fr' ? 'Heures' : 'Hours',
+      language === 'fr' ? 'Facturé TTC' : 'Billed (incl. VAT)',
+      language === 'fr' ? 'Financeurs' : 'Funders',
+      language === 'fr' ? 'Payé par le bénéficiaire' : 'Paid by the beneficiary'
+    ]],
+    body: monthRows,
+    headStyles: { fillColor: [59, 130, 246], fontSize: 8 },
+    bodyStyles: { fontSize: 8 },
+    columnStyles: {
+      0: { cellWidth: 38 },
+      1: { cellWidth: 26, halign: 'right' },
+      2: { cellWidth: 38, halign: 'right' },
+      3: { cellWidth: 38, halign: 'right' },
+      4: { cellWidth: 42, halign: 'right' }
+    },
+    margin: { left: 14, right: 14 },
+    didParseCell: (data) => {
+      if (data.section === 'head' && data.column.index >= 1) {
+        data.cell.styles.halign = 'right';
+      }
+      if (data.section === 'body' && data.row.index === monthRows.length - 1) {
+        data.cell.styles.fillColor = [254, 243, 199];
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  // Contributions by funder, then the amounts to report
+  const summaryRows = [
+    ...statement.funders.map(f => [
+      `${language === 'fr' ? 'Aide versée par' : 'Paid by'} ${f.name}`,
+      money(f.amountTTC)
+    ]),
+    [language === 'fr' ? 'Dépenses nettes payées par le bénéficiaire' : 'Net expenses paid by the beneficiary', money(statement.totals.paidTTC)],
+    [language === 'fr' ? 'Plafond annuel de dépenses' : 'Annual expense ceiling', money(statement.expenseCeiling)],
+    [language === 'fr' ? 'Dépenses retenues' : 'Eligible expenses', money(statement.eligibleExpenses)],
+    [language === 'fr' ? `Crédit d'impôt estimé (${TAX_CREDIT_RATE}%)` : `Estimated tax credit (${TAX_CREDIT_RATE}%)`, money(statement.taxCredit)]
+  ];
+
+  autoTable(doc, {
+    startY: (doc as any).lastAutoTable.finalY + 6,
+    head: [[language === 'fr' ? 'Déclaration de revenus' : 'Tax return', language === 'fr' ? 'Montant' : 'Amount']],
+    body: summaryRows,
+    headStyles: { fillColor: [71, 85, 105], fontSize: 8 }, // slate-600
+    bodyStyles: { fontSize: 8 },
+    columnStyles: {
+      0: { cellWidth: 130 },
+      1: { cellWidth: 52, halign: 'right' }
+    },
+    margin: { left: 14, right: 14 },
+    didParseCell: (data) => {
+      if (data.section === 'head' && data.column.index === 1) {
+        data.cell.styles.halign = 'right';
+      }
+      if (data.section === 'body' && data.row.index === summaryRows.length - 1) {
+        // Tax credit row: green highlight + bold
+        data.cell.styles.fillColor = [220, 252, 231];
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  // Notes
+  doc.setFontSize(7);
+  doc.setTextColor(107, 114, 128); // gray-500
+  const notes = language === 'fr'
+    ? [
+        'Montants TTC, après déduction des aides (APA, PCH, caisse de retraite, mutuelle...), calculés à partir des pointages.',
+        "Le plafond de base peut être majoré (enfants à charge, membres du foyer de plus de 65 ans, invalidité).",
+        "Ce récapitulatif ne remplace pas l'attestation fiscale annuelle délivrée par l'organisme prestataire.",
+      ]
+    : [
+        'Amounts include VAT, after funder contributions (APA, PCH, retirement fund, mutual insurance...), computed from check-ins.',
+        'The base ceiling can be raised (dependent children, household members over 65, disability).',
+        'This statement does not replace the annual tax certificate issued by the care provider.',
+      ];
+  let noteY = (doc as any).lastAutoTable.finalY + 8;
+  notes.forEach(note => {
+    doc.text(note, 14, noteY);
+    noteY += 4;
+  });
+  doc.text(
+    `${language === 'fr' ? 'Généré le' : 'Generated on'} ${format(new Date(), 'dd/MM/yyyy', { locale })}`,
+    14,
+    noteY + 4
+  );
+  doc.setTextColor(0, 0, 0);
+
+  doc.save(`tax-credit-${beneficiaryName.replace(/\s+/g, '-')}-${statement.year}.pdf`);
+}
+
 // Helper functions
 function getNoteTypeLabel(type: string, language: 'fr' | 'en'): string {
   const labels: Record<string, { fr: string; en: string }> = {
@@ -870,7 +959,13 @@ function addFinancialSummaryToPage(
   language: 'fr' | 'en',
   timezone: string = 'Europe/Paris',
   rateHistory?: BeneficiaryRateHistory[],
-  conventionedRate?: number  // Tarif de référence conventionné (HT)
+  conventionedRate?: number,  // Tarif de référence conventionné (HT)
+  holidayCalendar?: HolidayCalendar,
+  majorationRuleSets?: MajorationRuleSet[],
+  selectedMonth: Date = new Date(),
+  vatSettings?: VatSettings,
+  funders?: BeneficiaryFunder[],
+  pairs?: VisitPair<CheckInOut>[]
 ) {
   // Title
   doc.setFontSize(14);
@@ -878,221 +973,72 @@ function addFinancialSummaryToPage(
 
   // Header info
   doc.setFontSize(8);
-  const rate25 = regularRate * 1.25;
-  const rate100 = regularRate * 2.0;
+  const ruleSet = getMajorationRuleSetForDate(majorationRuleSets, selectedMonth, timezone);
   const rateNote = rateHistory && rateHistory.length > 0
     ? (language === 'fr' ? ' (Les tarifs peuvent varier selon la date)' : ' (Rates may vary by date)')
     : '';
-  doc.text(`${language === 'fr' ? 'Tarif Normal (Hors TVA)' : 'Regular Rate (Before VAT)'}: ${regularRate.toFixed(2)} ${currency}/h - ${language === 'fr' ? 'Appliqué à: Jours de semaine 8h-20h' : 'Applied to: Weekdays 8 AM - 8 PM'}`, 14, startY + 6);
-  doc.text(`${language === 'fr' ? 'Tarif Majoré +25% (Hors TVA)' : 'Holiday Rate +25% (Before VAT)'}: ${rate25.toFixed(2)} ${currency}/h - ${language === 'fr' ? 'Appliqué à: Jours fériés, dimanches, avant 8h ou après 20h' : 'Applied to: Holidays, Sundays, before 8 AM or after 8 PM'}`, 14, startY + 10);
-  doc.text(`${language === 'fr' ? 'Tarif Majoré +100% (Hors TVA)' : 'Holiday Rate +100% (Before VAT)'}: ${rate100.toFixed(2)} ${currency}/h - ${language === 'fr' ? 'Appliqué à: 1er mai et 25 décembre' : 'Applied to: May 1st and Dec 25th'}`, 14, startY + 14);
+  const { billingRate: displayRate, vatRate: displayVatRate } = getRateForDate(rateHistory || [], selectedMonth, regularRate, timezone, vatSettings);
+  const ttcFactor = 1 + displayVatRate / 100;
+  let headerY = startY + 6;
+  getMajorationLevels(ruleSet).forEach(percentage => {
+    const rateLabel = percentage === 0
+      ? (language === 'fr' ? 'Tarif Normal (Hors TVA)' : 'Regular Rate (Before VAT)')
+      : (language === 'fr' ? `Tarif Majoré +${percentage}% (Hors TVA)` : `Premium Rate +${percentage}% (Before VAT)`);
+    doc.text(`${rateLabel}: ${getMajoratedRate(displayRate, percentage).toFixed(2)} ${currency}/h - ${language === 'fr' ? 'Appliqué à' : 'Applied to'}: ${describeMajorationLevel(ruleSet, percentage, language)}`, 14, headerY);
+    headerY += 4;
+  });
   const convRateNote2 = conventionedRate !== undefined
     ? (language === 'fr'
-        ? ` | Tarif conv.: ${conventionedRate.toFixed(2)} HT / ${(conventionedRate * 1.055).toFixed(2)} TTC/h`
-        : ` | Conv. rate: ${conventionedRate.toFixed(2)} / ${(conventionedRate * 1.055).toFixed(2)} TTC/h`)
+        ? ` | Tarif conv.: ${conventionedRate.toFixed(2)} HT / ${(conventionedRate * ttcFactor).toFixed(2)} TTC/h`
+        : ` | Conv. rate: ${conventionedRate.toFixed(2)} / ${(conventionedRate * ttcFactor).toFixed(2)} TTC/h`)
     : '';
-  doc.text(`${language === 'fr' ? 'Ticket Modérateur' : 'Co-payment'}: ${copayPercentage}%${convRateNote2}`, 14, startY + 18);
-
-  const grouped = groupCheckInsByDate(checkIns, timezone);
+  doc.text(`${language === 'fr' ? 'Ticket Modérateur' : 'Co-payment'}: ${copayPercentage}%${convRateNote2}`, 14, headerY);
+
+  const { caregivers, totals } = computeBilling({
+    checkIns,
+    pairs,
+    rateHistory,
+    fallbackRate: regularRate,
+    timezone,
+    holidays: holidayCalendar,
+    majorationRuleSets,
+    vat: vatSettings,
+  });
+  const vatRate = getBilledVatRate(totals, displayVatRate);
 
-  // Calculate totals by caregiver - separate regular, 25% majoration, and 100% majoration
-  const caregiverRegularStats: Record<string, { hours: number; amount: number }> = {};
-  const caregiver25HolidayStats: Record<string, { hours: number; amount: number }> = {};
-  const caregiver100HolidayStats: Record<string, { hours: number; amount: number }> = {};
+  // Training hours by caregiver (never billed)
   const caregiverTrainingStats: Record<string, number> = {};
-
-  Object.entries(grouped).forEach(([date, dayCheckIns]) => {
-    const pairs = pairCheckInOuts(dayCheckIns);
-
-    pairs.forEach(pair => {
-      if (pair.checkOut) {
-        const start = new Date(pair.checkIn.timestamp);
-        const end = new Date(pair.checkOut.timestamp);
-        const totalMinutes = (end.getTime() - start.getTime()) / (1000 * 60);
-        const name = pair.checkIn.caregiver_name;
-
-        // Get the applicable rate for this check-in date
-        const { billingRate: applicableRegularRate } = rateHistory && rateHistory.length > 0
-          ? getRateForDate(rateHistory, start, regularRate, timezone)
-          : { billingRate: regularRate };
-        const applicableRate25 = applicableRegularRate * 1.25;
-        const applicableRate100 = applicableRegularRate * 2.0;
-
-        if (pair.checkIn.is_training) {
-          caregiverTrainingStats[name] = (caregiverTrainingStats[name] || 0) + (totalMinutes / 60);
-        } else {
-          const majoration = getHolidayMajoration(date);
-
-          if (majoration === 1.0) {
-            // 100% majoration (May 1st, Dec 25th) - all hours
-            if (!caregiver100HolidayStats[name]) {
-              caregiver100HolidayStats[name] = { hours: 0, amount: 0 };
-            }
-            const hours = totalMinutes / 60;
-            caregiver100HolidayStats[name].hours += hours;
-            caregiver100HolidayStats[name].amount += hours * applicableRate100;
-          } else if (majoration === 0.25) {
-            // 25% majoration (holidays/Sundays) - all hours
-            if (!caregiver25HolidayStats[name]) {
-              caregiver25HolidayStats[name] = { hours: 0, amount: 0 };
-            }
-            const hours = totalMinutes / 60;
-            caregiver25HolidayStats[name].hours += hours;
-            caregiver25HolidayStats[name].amount += hours * applicableRate25;
-          } else {
-            // Regular weekday - split by time of day (8 AM - 8 PM regular, before/after 25%)
-            // Convert to beneficiary's local timezone for time-of-day calculations
-            const startLocal = toZonedTime(start, timezone);
-            const endLocal = toZonedTime(end, timezone);
-
-            // Create 8 AM and 8 PM boundaries in beneficiary's local time
-            const morningStart = new Date(startLocal);
-            morningStart.setHours(8, 0, 0, 0);
-            const eveningStart = new Date(startLocal);
-            eveningStart.setHours(20, 0, 0, 0);
-
-            let earlyMorningMinutes = 0;  // Before 8 AM local (25%)
-            let regularMinutes = 0;        // 8 AM - 8 PM local (regular)
-            let eveningMinutes = 0;        // After 8 PM local (25%)
-
-            // If shift starts before 8 AM local
-            if (startLocal < morningStart) {
-              if (endLocal <= morningStart) {
-                earlyMorningMinutes = totalMinutes;
-              } else {
-                earlyMorningMinutes = (morningStart.getTime() - startLocal.getTime()) / (1000 * 60);
-                if (endLocal > eveningStart) {
-                  regularMinutes = (eveningStart.getTime() - morningStart.getTime()) / (1000 * 60);
-                  eveningMinutes = (endLocal.getTime() - eveningStart.getTime()) / (1000 * 60);
-                } else {
-                  regularMinutes = (endLocal.getTime() - morningStart.getTime()) / (1000 * 60);
-                }
-              }
-            }
-            // If shift starts between 8 AM and 8 PM local
-            else if (startLocal >= morningStart && startLocal < eveningStart) {
-              if (endLocal <= eveningStart) {
-                regularMinutes = totalMinutes;
-              } else {
-                regularMinutes = (eveningStart.getTime() - startLocal.getTime()) / (1000 * 60);
-                eveningMinutes = (endLocal.getTime() - eveningStart.getTime()) / (1000 * 60);
-              }
-            }
-            // If shift starts after 8 PM local
-            else {
-              eveningMinutes = totalMinutes;
-            }
-
-            // Add regular hours
-            const regularHours = regularMinutes / 60;
-            const majoredMinutes = earlyMorningMinutes + eveningMinutes;
-            const majoredHours = majoredMinutes / 60;
-
-            if (regularMinutes > 0) {
-              if (!caregiverRegularStats[name]) {
-                caregiverRegularStats[name] = { hours: 0, amount: 0 };
-              }
-              caregiverRegularStats[name].hours += regularHours;
-              caregiverRegularStats[name].amount += regularHours * applicableRegularRate;
-            }
-
-            // Add early morning and evening hours to 25% majoration
-            if (majoredMinutes > 0) {
-              if (!caregiver25HolidayStats[name]) {
-                caregiver25HolidayStats[name] = { hours: 0, amount: 0 };
-              }
-              caregiver25HolidayStats[name].hours += majoredHours;
-              caregiver25HolidayStats[name].amount += majoredHours * applicableRate25;
-            }
-          }
-        }
-      }
-    });
+  caregivers.forEach(c => {
+    if (c.trainingHours > 0) caregiverTrainingStats[c.name] = c.trainingHours;
   });
 
-  let currentY = startY + 24;
-
-  // Regular hours table
-  if (Object.keys(caregiverRegularStats).length > 0) {
-    const regularTableData = Object.entries(caregiverRegularStats).map(([name, stats]) => [
-      name,
-      stats.hours.toFixed(2),
-      `${regularRate.toFixed(2)} ${currency}`,
-      `${stats.amount.toFixed(2)} ${currency}`
-    ]);
-
-    autoTable(doc, {
-      startY: currentY,
-      head: [[
-        language === 'fr' ? 'Heures Normales' : 'Regular Hours',
-        language === 'fr' ? 'Heures' : 'Hours',
-        language === 'fr' ? 'Tarif' : 'Rate',
-        language === 'fr' ? 'Montant' : 'Amount'
-      ]],
-      body: regularTableData,
-      headStyles: { fillColor: [59, 130, 246], fontSize: 8 },
-      bodyStyles: { fontSize: 7 },
-      columnStyles: {
-        0: { cellWidth: 70 },
-        1: { cellWidth: 32, halign: 'right' },
-        2: { cellWidth: 40, halign: 'right' },
-        3: { cellWidth: 40, halign: 'right' }
-      },
-      margin: { left: 14, right: 14 },
-    });
-    currentY = (doc as any).lastAutoTable.finalY + 3;
-  }
-
-  // 25% Holiday hours table
-  if (Object.keys(caregiver25HolidayStats).length > 0) {
-    const holiday25TableData = Object.entries(caregiver25HolidayStats).map(([name, stats]) => [
-      name,
-      stats.hours.toFixed(2),
-      `${rate25.toFixed(2)} ${currency}`,
-      `${stats.amount.toFixed(2)} ${currency}`
-    ]);
-
-    autoTable(doc, {
-      startY: currentY,
-      head: [[
-        language === 'fr' ? 'Heures Fériées (+25%)' : 'Holiday Hours (+25%)',
-        language === 'fr' ? 'Heures' : 'Hours',
-        language === 'fr' ? 'Tarif' : 'Rate',
-        language === 'fr' ? 'Montant' : 'Amount'
-      ]],
-      body: holiday25TableData,
-      headStyles: { fillColor: [234, 179, 8], fontSize: 8 },
-      bodyStyles: { fontSize: 7 },
-      columnStyles: {
-        0: { cellWidth: 70 },
-        1: { cellWidth: 32, halign: 'right' },
-        2: { cellWidth: 40, halign: 'right' },
-        3: { cellWidth: 40, halign: 'right' }
-      },
-      margin: { left: 14, right: 14 },
-    });
-    currentY = (doc as any).lastAutoTable.finalY + 3;
-  }
-
-  // 100% Holiday hours table
-  if (Object.keys(caregiver100HolidayStats).length > 0) {
-    const holiday100TableData = Object.entries(caregiver100HolidayStats).map(([name, stats]) => [
-      name,
-      stats.hours.toFixed(2),
-      `${rate100.toFixed(2)} ${currency}`,
-      `${stats.amount.toFixed(2)} ${currency}`
-    ]);
+  let currentY = headerY + 6;
+
+  // One hours table per majoration level
+  const billedLevels = getBilledMajorationLevels(caregivers);
+  billedLevels.forEach((percentage, levelIdx) => {
+    const levelTableData = caregivers
+      .map(c => ({ name: c.name, ...getMajorationBucket(c, percentage) }))
+      .filter(c => c.hours > 0)
+      .map(c => [
+        c.name,
+        c.hours.toFixed(2),
+        `${getMajoratedRate(displayRate, percentage).toFixed(2)} ${currency}`,
+        `${c.amount.toFixed(2)} ${currency}`
+      ]);
 
     autoTable(doc, {
       startY: currentY,
       head: [[
-        language === 'fr' ? 'Heures Fériées (+100%)' : 'Holiday Hours (+100%)',
+        percentage === 0
+          ? (language === 'fr' ? 'Heures Normales' : 'Regular Hours')
+          : (language === 'fr' ? `Heures Majorées (+${percentage}%)` : `Premium Hours (+${percentage}%)`),
         language === 'fr' ? 'Heures' : 'Hours',
         language === 'fr' ? 'Tarif' : 'Rate',
         language === 'fr' ? 'Montant' : 'Amount'
       ]],
-      body: holiday100TableData,
-      headStyles: { fillColor: [220, 38, 38], fontSize: 8 },
+      body: levelTableData,
+      headStyles: { fillColor: DETAIL_LEVEL_COLORS[getLevelPaletteIndex(billedLevels, levelIdx, DETAIL_LEVEL_COLORS.length)], fontSize: 8 },
       bodyStyles: { fontSize: 7 },
       columnStyles: {
         0: { cellWidth: 70 },
@@ -1103,7 +1049,7 @@ function addFinancialSummaryToPage(
       margin: { left: 14, right: 14 },
     });
     currentY = (doc as any).lastAutoTable.finalY + 3;
-  }
+  });
 
   // Training hours table
   if (Object.keys(caregiverTrainingStats).length > 0) {
@@ -1131,24 +1077,9 @@ function addFinancialSummaryToPage(
   }
 
   // Calculate totals
-  const totalRegularHours = Object.values(caregiverRegularStats).reduce((sum, stats) => sum + stats.hours, 0);
-  const totalRegularAmount = Object.values(caregiverRegularStats).reduce((sum, stats) => sum + stats.amount, 0);
-  const total25HolidayHours = Object.values(caregiver25HolidayStats).reduce((sum, stats) => sum + stats.hours, 0);
-  const total25HolidayAmount = Object.values(caregiver25HolidayStats).reduce((sum, stats) => sum + stats.amount, 0);
-  const total100HolidayHours = Object.values(caregiver100HolidayStats).reduce((sum, stats) => sum + stats.hours, 0);
-  const total100HolidayAmount = Object.values(caregiver100HolidayStats).reduce((sum, stats) => sum + stats.amount, 0);
   const totalTrainingHours = Object.values(caregiverTrainingStats).reduce((sum, hours) => sum + hours, 0);
-  const totalAmount = totalRegularAmount + total25HolidayAmount + total100HolidayAmount;
-  const vatAmount = totalAmount * 0.055;
-  const totalWithVAT = totalAmount + vatAmount;
-
-  // Calculate VAT for each hour-type row
-  const regularVAT = totalRegularAmount * 0.055;
-  const regularWithVAT = totalRegularAmount + regularVAT;
-  const holiday25VAT = total25HolidayAmount * 0.055;
-  const holiday25WithVAT = total25HolidayAmount + holiday25VAT;
-  const holiday100VAT = total100HolidayAmount * 0.055;
-  const holiday100WithVAT = total100HolidayAmount + holiday100VAT;
+  const totalAmount = totals.totalAmount;
+  const { vat: vatAmount, ttc: totalWithVAT } = applyVat(totalAmount, vatRate);
 
   // Copay calculation (simplified):
   // – Base conventionnée = total calendar hours × conventioned_rate (flat, no multipliers)
@@ -1156,7 +1087,7 @@ function addFinancialSummaryToPage(
   // – Ticket modérateur = base × copay%
   // – Dépassements = total_billed − base  (rate increase + all holiday/after-hours majoration)
   // – Reste à charge = ticket modérateur + dépassements
-  const totalCalendarHours2 = totalRegularHours + total25HolidayHours + total100HolidayHours;
+  const totalCalendarHours2 = totals.totalHours;
   const conventionedBaseHT2 = conventionedRate !== undefined
     ? totalCalendarHours2 * conventionedRate
     : totalAmount;
@@ -1164,38 +1095,61 @@ function addFinancialSummaryToPage(
   const hasExcess2 = conventionedRate !== undefined && excessHT2 > 0.005;
 
   const insuranceAmount2 = conventionedBaseHT2 * (1 - copayPercentage / 100);
-  const insuranceVAT2 = insuranceAmount2 * 0.055;
-  const insuranceWithVAT2 = insuranceAmount2 + insuranceVAT2;
+  const { vat: insuranceVAT2, ttc: insuranceWithVAT2 } = applyVat(insuranceAmount2, vatRate);
 
   const copayAmount2 = conventionedBaseHT2 * (copayPercentage / 100);
-  const copayVAT2 = copayAmount2 * 0.055;
-  const copayWithVAT2 = copayAmount2 + copayVAT2;
+  const { vat: copayVAT2, ttc: copayWithVAT2 } = applyVat(copayAmount2, vatRate);
 
-  const excessVAT2 = excessHT2 * 0.055;
-  const excessWithVAT2 = excessHT2 + excessVAT2;
+  const { vat: excessVAT2, ttc: excessWithVAT2 } = applyVat(excessHT2, vatRate);
 
-  const beneficiaryAmount2 = copayAmount2 + excessHT2;
-  const beneficiaryVAT2 = beneficiaryAmount2 * 0.055;
-  const beneficiaryWithVAT2 = beneficiaryAmount2 + beneficiaryVAT2;
+  // Recorded funders replace the single prise en charge computed from the ticket modérateur
+  const monthFunders2 = getFundersForMonth(funders, selectedMonth);
+  const funderSplit2 = monthFunders2.length > 0
+    ? splitAmongFunders({ hours: totalCalendarHours2, amount: totalAmount, funders: monthFunders2, conventionedRate })
+    : undefined;
+
+  const beneficiaryAmount2 = funderSplit2 ? funderSplit2.beneficiaryAmount : copayAmount2 + excessHT2;
+  const { vat: beneficiaryVAT2, ttc: beneficiaryWithVAT2 } = applyVat(beneficiaryAmount2, vatRate);
 
   // Financial summary with VAT
   const summaryRows: string[][] = [
-    [language === 'fr' ? 'Heures Normales' : 'Regular Hours', `${totalRegularHours.toFixed(2)}h - ${totalRegularAmount.toFixed(2)} ${currency}`, `${regularVAT.toFixed(2)} ${currency}`, `${regularWithVAT.toFixed(2)} ${currency}`],
-    [language === 'fr' ? 'Heures Fériées (+25%)' : 'Holiday Hours (+25%)', `${total25HolidayHours.toFixed(2)}h - ${total25HolidayAmount.toFixed(2)} ${currency}`, `${holiday25VAT.toFixed(2)} ${currency}`, `${holiday25WithVAT.toFixed(2)} ${currency}`],
-    [language === 'fr' ? 'Heures Fériées (+100%)' : 'Holiday Hours (+100%)', `${total100HolidayHours.toFixed(2)}h - ${total100HolidayAmount.toFixed(2)} ${currency}`, `${holiday100VAT.toFixed(2)} ${currency}`, `${holiday100WithVAT.toFixed(2)} ${currency}`],
+    ...billedLevels.map(percentage => {
+      // VAT for each hour-type row
+      const level = getMajorationBucket(totals, percentage);
+      const levelVAT = level.amount * (vatRate / 100);
+      return [
+        percentage === 0
+          ? (language === 'fr' ? 'Heures Normales' : 'Regular Hours')
+          : (language === 'fr' ? `Heures Majorées (+${percentage}%)` : `Premium Hours (+${percentage}%)`),
+        `${level.hours.toFixed(2)}h - ${level.amount.toFixed(2)} ${currency}`,
+        `${levelVAT.toFixed(2)} ${currency}`,
+        `${(level.amount + levelVAT).toFixed(2)} ${currency}`
+      ];
+    }),
     [language === 'fr' ? 'Heures Formation' : 'Training Hours', `${totalTrainingHours.toFixed(2)}h`, '', '-'],
   ];
   summaryRows.push([language === 'fr' ? 'Total facturé' : 'Total billed', `${totalAmount.toFixed(2)} ${currency}`, `${vatAmount.toFixed(2)} ${currency}`, `${totalWithVAT.toFixed(2)} ${currency}`]);
-  summaryRows.push([
-    language === 'fr' ? `Prise en charge (${(100 - copayPercentage).toFixed(2)}%)` : `Coverage (${(100 - copayPercentage).toFixed(2)}%)`,
-    `${insuranceAmount2.toFixed(2)} ${currency}`, `${insuranceVAT2.toFixed(2)} ${currency}`, `${insuranceWithVAT2.toFixed(2)} ${currency}`]);
+  if (funderSplit2) {
+    funderSplit2.shares.forEach(share => {
+      const shareVat = applyVat(share.amount, vatRate);
+      summaryRows.push([
+        `${share.funder.name} (${describeFunderRule(share.funder, language, conventionedRate)})`,
+        `${share.amount.toFixed(2)} ${currency}`, `${shareVat.vat.toFixed(2)} ${currency}`, `${shareVat.ttc.toFixed(2)} ${currency}`]);
+    });
+  } else {
+    summaryRows.push([
+      language === 'fr' ? `Prise en charge (${(100 - copayPercentage).toFixed(2)}%)` : `Coverage (${(100 - copayPercentage).toFixed(2)}%)`,
+      `${insuranceAmount2.toFixed(2)} ${currency}`, `${insuranceVAT2.toFixed(2)} ${currency}`, `${insuranceWithVAT2.toFixed(2)} ${currency}`]);
+  }
   const beneficiaryRowIndex2 = summaryRows.length;
   summaryRows.push([language === 'fr' ? 'Reste à charge' : "Beneficiary's total", `${beneficiaryAmount2.toFixed(2)} ${currency}`, `${beneficiaryVAT2.toFixed(2)} ${currency}`, `${beneficiaryWithVAT2.toFixed(2)} ${currency}`]);
-  summaryRows.push([
-    language === 'fr' ? `  Ticket modérateur (${copayPercentage.toFixed(2)}%)` : `  Co-payment (${copayPercentage.toFixed(2)}%)`,
-    `${copayAmount2.toFixed(2)} ${currency}`, `${copayVAT2.toFixed(2)} ${currency}`, `${copayWithVAT2.toFixed(2)} ${currency}`]);
+  if (!funderSplit2) {
+    summaryRows.push([
+      language === 'fr' ? `  Ticket modérateur (${copayPercentage.toFixed(2)}%)` : `  Co-payment (${copayPercentage.toFixed(2)}%)`,
+      `${copayAmount2.toFixed(2)} ${currency}`, `${copayVAT2.toFixed(2)} ${currency}`, `${copayWithVAT2.toFixed(2)} ${currency}`]);
+  }
   let excessRowIndex2 = -1;
-  if (hasExcess2) {
+  if (hasExcess2 && !funderSplit2) {
     excessRowIndex2 = summaryRows.length;
     summaryRows.push([
       language === 'fr' ? `  Dépassements (100%)` : `  Excess charges (100%)`,
@@ -1205,15 +1159,15 @@ function addFinancialSummaryToPage(
         ? `  Base conv. = ${conventionedRate!.toFixed(2)} HT/h × ${totalCalendarHours2.toFixed(2)} h`
         : `  Conv. base = ${conventionedRate!.toFixed(2)} /h × ${totalCalendarHours2.toFixed(2)} h`,
       `= ${conventionedBaseHT2.toFixed(2)} ${currency}`,
-      `${(conventionedBaseHT2 * 0.055).toFixed(2)} ${currency}`,
-      `${(conventionedBaseHT2 * 1.055).toFixed(2)} ${currency}`]);
+      `${applyVat(conventionedBaseHT2, vatRate).vat.toFixed(2)} ${currency}`,
+      `${applyVat(conventionedBaseHT2, vatRate).ttc.toFixed(2)} ${currency}`]);
   }
 
   const lastRowIndex2 = beneficiaryRowIndex2;
 
   autoTable(doc, {
     startY: currentY,
-    head: [[language === 'fr' ? 'Résumé Financier' : 'Financial Summary', language === 'fr' ? 'Hors TVA' : 'Before VAT', language === 'fr' ? 'TVA 5.5%' : 'VAT 5.5%', language === 'fr' ? 'Avec TVA' : 'With VAT']],
+    head: [[language === 'fr' ? 'Résumé Financier' : 'Financial Summary', language === 'fr' ? 'Hors TVA' : 'Before VAT', language === 'fr' ? `TVA ${formatVatRate(vatRate, language)}%` : `VAT ${formatVatRate(vatRate, language)}%`, language === 'fr' ? 'Avec TVA' : 'With VAT']],
     body: summaryRows,
     headStyles: { fontSize: 8 },
     bodyStyles: { fontSize: 7 },
@@ -1233,7 +1187,7 @@ function addFinancialSummaryToPage(
       } else if (data.row.index === excessRowIndex2) {
         // Excess charges row: light orange highlight
         data.cell.styles.fillColor = [255, 237, 213];
-      } else if (hasExcess2 && data.row.index === summaryRows.length - 1) {
+      } else if (excessRowIndex2 >= 0 && data.row.index === summaryRows.length - 1) {
         // Conventioned base note row: light blue
         data.cell.styles.fillColor = [219, 234, 254];
         data.cell.styles.textColor = [30, 64, 175];
@@ -1243,7 +1197,7 @@ function addFinancialSummaryToPage(
   });
 
   // Add detailed calculation breakdown if conventioned rate is set
-  if (conventionedRate !== undefined) {
+  if (conventionedRate !== undefined && !funderSplit2) {
     const calcY = (doc as any).lastAutoTable.finalY + 3;
     doc.setFontSize(7);
     doc.setFont('helvetica', 'bold');
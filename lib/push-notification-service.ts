@@ -4,6 +4,7 @@
  */
 import webpush from 'web-push';
 import { createClient } from '@supabase/supabase-js';
+import { formatInTimeZone } from 'date-fns-tz';
 import { getTimezoneForCountry, formatTimeInTimezone } from './timezone-utils';
 
 // VAPID keys should be stored in environment variables
@@ -179,16 +180,21 @@ export async function sendCheckOutNotification(
 
 /**
  * Send notifications about missed check-ins
+ * @returns Delivery result per family member, for the notifications log
  */
 export async function sendMissedCheckInNotification(
   caregiverName: string,
   familyMemberIds: string[],
   expectedTime: Date,
-  elderlyCareRecipientName: string
-): Promise<void> {
+  elderlyCareRecipientName: string,
+  beneficiaryCountry?: string
+): Promise<Array<{ familyMemberId: string; success: boolean; errors?: string[] }>> {
+  const timezone = getTimezoneForCountry(beneficiaryCountry);
+  const timeString = formatTimeInTimezone(expectedTime, timezone);
+
   const payload: NotificationPayload = {
-    title: 'Missed Check-in Alert',
-    body: `${caregiverName} has not checked in with ${elderlyCareRecipientName}. Expected at ${expectedTime.toLocaleTimeString()}`,
+    title: `${caregiverName} n'est pas arrivée`,
+    body: `${caregiverName} était attendue chez ${elderlyCareRecipientName} à ${timeString} et n'a pas encore pointé`,
     icon: '/icons/icon-192x192.png',
     badge: '/icons/badge-72x72.png',
     tag: 'missed-check-in',
@@ -200,6 +206,79 @@ export async function sendMissedCheckInNotification(
     },
   };
 
+  const promises = familyMemberIds.map(async (id) => ({
+    familyMemberId: id,
+    ...(await sendNotificationToFamilyMember(id, payload)),
+  }));
+
+  return Promise.all(promises);
+}
+
+/**
+ * Send notifications about a visit still open long after the check-in
+ */
+export async function sendForgottenCheckOutNotification(
+  caregiverName: string,
+  familyMemberIds: string[],
+  checkInTime: Date,
+  elderlyCareRecipientName: string,
+  beneficiaryCountry?: string
+): Promise<Array<{ familyMemberId: string; success: boolean; errors?: string[] }>> {
+  const timezone = getTimezoneForCountry(beneficiaryCountry);
+  const dateString = formatInTimeZone(checkInTime, timezone, 'dd/MM');
+  const timeString = formatTimeInTimezone(checkInTime, timezone);
+
+  const payload: NotificationPayload = {
+    title: `Départ de ${caregiverName} non pointé`,
+    body: `${caregiverName} est arrivée chez ${elderlyCareRecipientName} le ${dateString} à ${timeString} sans pointer son départ. Indiquez l'heure de fin réelle dans le tableau de bord.`,
+    icon: '/icons/icon-192x192.png',
+    badge: '/icons/badge-72x72.png',
+    tag: 'forgotten-check-out',
+    data: {
+      type: 'forgotten-check-out',
+      caregiverName,
+      timestamp: checkInTime.toISOString(),
+    },
+  };
+
+  const promises = familyMemberIds.map(async (id) => ({
+    familyMemberId: id,
+    ...(await sendNotificationToFamilyMember(id, payload)),
+  }));
+
+  return Promise.all(promises);
+}
+
+/**
+ * Send notifications when the APA/PCH plan reaches an alert threshold
+ */
+export async function sendApaThresholdNotification(
+  familyMemberIds: string[],
+  elderlyCareRecipientName: string,
+  threshold: number,
+  billedHours: number,
+  allocatedHours: number
+): Promise<void> {
+  const used = billedHours.toFixed(1).replace('.', ',');
+  const allocated = allocatedHours.toFixed(1).replace('.', ',');
+
+  const payload: NotificationPayload = {
+    title: threshold >= 100 ? 'Plan d\'aide dépassé' : `Plan d'aide consommé à ${threshold}%`,
+    body: threshold >= 100
+      ? `${elderlyCareRecipientName} a utilisé ${used}h sur ${allocated}h ce mois-ci. Les heures supplémentaires sont à la charge du bénéficiaire.`
+      : `${elderlyCareRecipientName} a utilisé ${used}h sur ${allocated}h du plan d'aide ce mois-ci.`,
+    icon: '/icons/icon-192x192.png',
+    badge: '/icons/badge-72x72.png',
+    tag: `apa-threshold-${threshold}`,
+    data: {
+      type: 'apa-threshold',
+      threshold,
+      billedHours,
+      allocatedHours,
+      urgent: threshold >= 100,
+    },
+  };
+
   const promises = familyMemberIds.map((id) =>
     sendNotificationToFamilyMember(id, payload)
   );
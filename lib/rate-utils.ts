@@ -1,25 +1,84 @@
 import { BeneficiaryRateHistory } from './supabase';
 import { formatInTimeZone } from 'date-fns-tz';
 
+// Reduced VAT rate for services à la personne in France
+export const DEFAULT_VAT_RATE = 5.5;
+
+/**
+ * Beneficiary-level VAT settings, used when a rate history row has no VAT rate of its own
+ */
+export type VatSettings = {
+  vatRate?: number; // VAT rate in percent (default: 5.5)
+  ratesIncludeVat?: boolean; // Rates were entered TTC; they are converted to HT for calculations
+};
+
+/**
+ * Build VAT settings from a beneficiary record
+ */
+export function getVatSettingsForBeneficiary(
+  beneficiary: { vat_rate?: number | null; rates_include_vat?: boolean | null } | null | undefined
+): Required<VatSettings> {
+  return {
+    vatRate: beneficiary?.vat_rate ?? DEFAULT_VAT_RATE,
+    ratesIncludeVat: !!beneficiary?.rates_include_vat,
+  };
+}
+
+/**
+ * Convert an entered rate to HT
+ * @param rate - Rate as entered by the beneficiary
+ * @param vatRate - VAT rate in percent
+ * @param ratesIncludeVat - true when the rate was entered TTC
+ */
+export function rateToHT(rate: number, vatRate: number, ratesIncludeVat?: boolean): number {
+  return ratesIncludeVat ? rate / (1 + vatRate / 100) : rate;
+}
+
+/**
+ * Split an HT amount into VAT and TTC
+ * @param ht - Amount excluding VAT
+ * @param vatRate - VAT rate in percent
+ */
+export function applyVat(ht: number, vatRate: number): { ht: number; vat: number; ttc: number } {
+  const vat = ht * (vatRate / 100);
+  return { ht, vat, ttc: ht + vat };
+}
+
+/**
+ * Format a VAT rate for labels, e.g. 'TVA (5,5%)' or 'VAT (20%)'
+ */
+export function formatVatRate(vatRate: number, language: 'fr' | 'en' = 'fr'): string {
+  const rounded = Math.round(vatRate * 10) / 10;
+  const formatted = Number.isInteger(rounded) ? rounded.toFixed(0) : rounded.toFixed(1);
+  return language === 'fr' ? formatted.replace('.', ',') : formatted;
+}
+
 /**
  * Gets the applicable rates for a beneficiary on a specific date.
  * Returns billing rate, conventioned rate, and APA monthly hours with the most recent effective_date that is <= the target date.
+ * Rates are always returned HT: when the beneficiary enters rates TTC they are converted with the VAT rate in effect.
  *
  * @param rateHistory - Array of rate history records for the beneficiary
  * @param targetDate - The date to get the rate for (can be Date object or ISO string)
  * @param fallbackRate - Fallback rate if no history is found (default: 15)
  * @param timezone - Timezone for date comparison (default: 'Europe/Paris')
- * @returns Object with billingRate, conventionedRate, and apaMonthlyHours. If conventionedRate is not set in history, defaults to billingRate.
+ * @param vatSettings - Beneficiary VAT rate and HT/TTC entry mode (default: 5.5%, rates entered HT)
+ * @returns Object with billingRate, conventionedRate, apaMonthlyHours and vatRate. If conventionedRate is not set in history, defaults to billingRate.
  */
 export function getRateForDate(
   rateHistory: BeneficiaryRateHistory[],
   targetDate: Date | string,
   fallbackRate: number = 15,
-  timezone: string = 'Europe/Paris'
-): { billingRate: number; conventionedRate: number; apaMonthlyHours?: number } {
+  timezone: string = 'Europe/Paris',
+  vatSettings: VatSettings = {}
+): { billingRate: number; conventionedRate: number; apaMonthlyHours?: number; vatRate: number } {
+  const defaultVatRate = vatSettings.vatRate ?? DEFAULT_VAT_RATE;
+  const toHT = (rate: number, vatRate: number) => rateToHT(rate, vatRate, vatSettings.ratesIncludeVat);
+
   // If no rate history, use fallback for both rates
   if (!rateHistory || rateHistory.length === 0) {
-    return { billingRate: fallbackRate, conventionedRate: fallbackRate, apaMonthlyHours: undefined };
+    const billingRate = toHT(fallbackRate, defaultVatRate);
+    return { billingRate, conventionedRate: billingRate, apaMonthlyHours: undefined, vatRate: defaultVatRate };
   }
 
   // Convert target date to YYYY-MM-DD string in the beneficiary's timezone
@@ -34,7 +93,8 @@ export function getRateForDate(
 
   // If no applicable rates found, use fallback
   if (applicableRates.length === 0) {
-    return { billingRate: fallbackRate, conventionedRate: fallbackRate, apaMonthlyHours: undefined };
+    const billingRate = toHT(fallbackRate, defaultVatRate);
+    return { billingRate, conventionedRate: billingRate, apaMonthlyHours: undefined, vatRate: defaultVatRate };
   }
 
   // Sort by effective_date descending and get the most recent
@@ -43,10 +103,12 @@ export function getRateForDate(
   );
 
   const mostRecentRate = sortedRates[0];
+  const vatRate = mostRecentRate.vat_rate ?? defaultVatRate;
   return {
-    billingRate: mostRecentRate.rate,
-    conventionedRate: mostRecentRate.conventioned_rate ?? mostRecentRate.rate,
-    apaMonthlyHours: mostRecentRate.apa_monthly_hours
+    billingRate: toHT(mostRecentRate.rate, vatRate),
+    conventionedRate: toHT(mostRecentRate.conventioned_rate ?? mostRecentRate.rate, vatRate),
+    apaMonthlyHours: mostRecentRate.apa_monthly_hours,
+    vatRate
   };
 }
 
@@ -0,0 +1,201 @@
+/**
+ * Server-side schedule alerts
+ * Scans the planned visits of yesterday and today for every beneficiary with a planning,
+ * detects no-shows, late arrivals and early departures (see detectScheduleAlerts) and
+ * records each one once in notifications_log. No-shows are pushed to the family members
+ * who enabled missed check-in alerts. Run periodically from /api/notifications/schedule-alerts.
+ */
+import { createClient } from '@supabase/supabase-js';
+import { formatInTimeZone } from 'date-fns-tz';
+import { getTimezoneForCountry } from './timezone-utils';
+import { ScheduleException, ScheduleSlot } from './supabase';
+import {
+  comparePlannedVisits,
+  detectScheduleAlerts,
+  getPlannedVisits,
+  ScheduleAlertType,
+} from './schedule';
+import { sendMissedCheckInNotification } from './push-notification-service';
+
+// Earliest check-in that can match a planned visit (see MATCH_EARLY_MINUTES in lib/schedule.ts)
+const CHECK_IN_LOOKBACK_MINUTES = 120;
+
+export type ScheduleAlertRunResult = {
+  beneficiaries: number; // Beneficiaries with a planning
+  plannedVisits: number; // Planned visits scanned (yesterday and today)
+  upcomingVisits: number; // Not started yet
+  alerts: Array<{
+    beneficiaryId: string;
+    type: ScheduleAlertType;
+    caregiverName: string;
+    plannedStart: string;
+    minutes: number;
+    notified: number; // Family members the push reached
+  }>;
+};
+
+function addDays(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map(part => parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Detect and report schedule alerts not reported yet
+ * @param now - Reference time (default: now)
+ * @param tolerances - Minutes allowed before a visit is late / cut short (default: 15 each)
+ * @returns Alerts newly recorded by this run
+ */
+export async function runScheduleAlerts(
+  now: Date = new Date(),
+  tolerances: { lateToleranceMinutes?: number; earlyToleranceMinutes?: number } = {}
+): Promise<ScheduleAlertRunResult> {
+  // Use service role key for server-side operations
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    }
+  );
+
+  // Wide enough for every timezone: each beneficiary then keeps its own yesterday and today
+  const utcToday = now.toISOString().slice(0, 10);
+  const [{ data: slotRows, error: slotsError }, { data: exceptionRows, error: exceptionsError }] = await Promise.all([
+    supabase
+      .from('schedule_slots')
+      .select('*')
+      .lte('effective_date', addDays(utcToday, 1))
+      .or(`end_date.is.null,end_date.gte.${addDays(utcToday, -2)}`),
+    supabase
+      .from('schedule_exceptions')
+      .select('*')
+      .gte('date', addDays(utcToday, -2))
+      .lte('date', addDays(utcToday, 1)),
+  ]);
+
+  if (slotsError || exceptionsError) {
+    throw new Error(`Failed to load schedules: ${(slotsError || exceptionsError)!.message}`);
+  }
+
+  const slots = (slotRows || []) as ScheduleSlot[];
+  const exceptions = (exceptionRows || []) as ScheduleException[];
+  const beneficiaryIds = Array.from(new Set([
+    ...slots.map(slot => slot.beneficiary_id),
+    ...exceptions.map(exception => exception.beneficiary_id),
+  ]));
+
+  const result: ScheduleAlertRunResult = { beneficiaries: beneficiaryIds.length, plannedVisits: 0, upcomingVisits: 0, alerts: [] };
+  if (beneficiaryIds.length === 0) return result;
+
+  const { data: beneficiaries } = await supabase
+    .from('beneficiaries')
+    .select('id, name, country')
+    .in('id', beneficiaryIds);
+
+  for (const beneficiary of beneficiaries || []) {
+    const timezone = getTimezoneForCountry(beneficiary.country);
+    const today = formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+    const planned = getPlannedVisits(
+      slots.filter(slot => slot.beneficiary_id === beneficiary.id),
+      exceptions.filter(exception => exception.beneficiary_id === beneficiary.id),
+      addDays(today, -1),
+      today,
+      timezone
+    );
+    result.plannedVisits += planned.length;
+    result.upcomingVisits += planned.filter(visit => visit.start > now).length;
+
+    const started = planned.filter(visit => visit.start <= now);
+    if (started.length === 0) continue;
+
+    const { data: checkIns } = await supabase
+      .from('check_in_outs')
+      .select('*')
+      .is('voided_at', null)
+      .eq('beneficiary_id', beneficiary.id)
+      .gte('timestamp', new Date(started[0].start.getTime() - CHECK_IN_LOOKBACK_MINUTES * 60 * 1000).toISOString())
+      .lte('timestamp', now.toISOString())
+      .order('timestamp', { ascending: true });
+
+    const { matches } = comparePlannedVisits(started, checkIns || [], now);
+    const alerts = detectScheduleAlerts(matches, now, tolerances);
+
+    let familyMemberIds: string[] | undefined;
+
+    for (const alert of alerts) {
+      const logEntry = {
+        beneficiary_id: beneficiary.id,
+        check_in_out_id: alert.checkInOutId || null,
+        alert_type: alert.type,
+        caregiver_name: alert.caregiverName,
+        planned_start: alert.planned.start.toISOString(),
+        alert_minutes: alert.minutes,
+      };
+
+      // The unique detection index makes this the report-once guard
+      const { error } = await supabase
+        .from('notifications_log')
+        .insert({ ...logEntry, family_member_id: null, notification_type: 'schedule', status: 'detected' });
+
+      if (error) {
+        if (error.code !== '23505') console.error('[Schedule] Error recording alert:', error);
+        continue;
+      }
+
+      let notified = 0;
+      if (alert.type === 'missed_check_in') {
+        if (!familyMemberIds) {
+          // Family members with push notifications and missed check-in alerts enabled
+          const { data: familyMembers } = await supabase
+            .from('family_members')
+            .select('id, notification_preferences')
+            .eq('beneficiary_id', beneficiary.id);
+
+          familyMemberIds = (familyMembers || [])
+            .filter(member => {
+              const preferences = member.notification_preferences || {};
+              return (preferences.push === true || preferences.push_enabled === true) && preferences.missed_check_in !== false;
+            })
+            .map(member => member.id);
+        }
+
+        if (familyMemberIds.length > 0) {
+          try {
+            const deliveries = await sendMissedCheckInNotification(
+              alert.caregiverName,
+              familyMemberIds,
+              alert.planned.start,
+              beneficiary.name,
+              beneficiary.country
+            );
+            notified = deliveries.filter(delivery => delivery.success).length;
+
+            await supabase.from('notifications_log').insert(deliveries.map(delivery => ({
+              ...logEntry,
+              family_member_id: delivery.familyMemberId,
+              notification_type: 'push',
+              status: delivery.success ? 'sent' : 'failed',
+              error_message: delivery.errors?.join('; ') || null,
+            })));
+          } catch (notifError) {
+            console.error('[Schedule] Error sending missed check-in notification:', notifError);
+          }
+        }
+      }
+
+      result.alerts.push({
+        beneficiaryId: beneficiary.id,
+        type: alert.type,
+        caregiverName: alert.caregiverName,
+        plannedStart: logEntry.planned_start,
+        minutes: alert.minutes,
+        notified,
+      });
+    }
+  }
+
+  return result;
+}
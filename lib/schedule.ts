@@ -0,0 +1,294 @@
+/**
+ * Planned visit schedule (planning)
+ * Each beneficiary has recurring weekly slots per caregiver (e.g. Mon–Fri 9:00–11:00)
+ * and one-off exceptions: a slot cancelled or moved on a given day, or an extra visit.
+ * Slots are expanded into planned visits in the beneficiary's timezone, then matched
+ * with the visits actually recorded by check-ins.
+ * Pure functions: safe on the client and in API routes.
+ */
+import { fromZonedTime } from 'date-fns-tz';
+import { ScheduleException, ScheduleSlot } from './supabase';
+import { BillableCheckIn, pairCheckInOuts, VisitPair } from './billing';
+
+// A check-in this long before a planned start still belongs to that visit
+const MATCH_EARLY_MINUTES = 120;
+
+// Default tolerances before a visit is reported as late / cut short
+export const LATE_TOLERANCE_MINUTES = 15;
+export const EARLY_DEPARTURE_TOLERANCE_MINUTES = 15;
+
+export type PlannedVisit = {
+  date: string; // yyyy-MM-dd in the beneficiary's timezone
+  caregiverName: string;
+  startTime: string; // 'HH:mm'
+  endTime: string; // 'HH:mm'
+  start: Date;
+  end: Date;
+  slotId?: string; // Recurring slot the visit comes from
+  exceptionId?: string; // Exception that moved or added the visit
+};
+
+export type PlannedVisitStatus =
+  | 'done' // Checked in and out
+  | 'in_progress' // Checked in, not out yet
+  | 'upcoming' // Not started yet
+  | 'pending' // Should have started, no check-in yet
+  | 'missed'; // Planned end passed without any check-in
+
+export type PlannedVisitMatch<T extends BillableCheckIn = BillableCheckIn> = {
+  planned: PlannedVisit;
+  status: PlannedVisitStatus;
+  visit?: VisitPair<T>; // Recorded visit matched with the planned one
+  startDelayMinutes?: number; // Check-in time minus planned start (negative = early)
+  substitute?: boolean; // Another caregiver came instead
+};
+
+export type ScheduleComparison<T extends BillableCheckIn = BillableCheckIn> = {
+  matches: PlannedVisitMatch<T>[]; // Chronological
+  unplanned: VisitPair<T>[]; // Recorded visits with no planned visit
+};
+
+export type ScheduleAlertType =
+  | 'missed_check_in' // No check-in once the late tolerance has passed
+  | 'late_arrival' // Check-in later than the tolerance
+  | 'early_departure'; // Check-out earlier than the tolerance before the planned end
+
+export type ScheduleAlert = {
+  type: ScheduleAlertType;
+  planned: PlannedVisit;
+  caregiverName: string; // Who was expected (missed) or who came (late, early)
+  minutes: number; // Minutes late, overdue or left early
+  checkInOutId?: string; // Check-in (late) or check-out (early) concerned
+};
+
+export const WEEKDAY_LABELS: { fr: string; en: string }[] = [
+  { fr: 'Dim', en: 'Sun' },
+  { fr: 'Lun', en: 'Mon' },
+  { fr: 'Mar', en: 'Tue' },
+  { fr: 'Mer', en: 'Wed' },
+  { fr: 'Jeu', en: 'Thu' },
+  { fr: 'Ven', en: 'Fri' },
+  { fr: 'Sam', en: 'Sat' },
+];
+
+function addDays(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map(part => parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function weekdayOf(dateStr: string): number {
+  const [year, month, day] = dateStr.split('-').map(part => parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function normalizeName(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
+
+function buildPlannedVisit(
+  date: string,
+  caregiverName: string,
+  startTime: string,
+  endTime: string,
+  timezone: string,
+  ids: { slotId?: string; exceptionId?: string }
+): PlannedVisit {
+  const start = fromZonedTime(`${date}T${startTime}:00`, timezone);
+  // An end earlier than the start is on the next day (night shift)
+  const endDate = endTime <= startTime ? addDays(date, 1) : date;
+  const end = fromZonedTime(`${endDate}T${endTime}:00`, timezone);
+  return { date, caregiverName, startTime, endTime, start, end, ...ids };
+}
+
+/**
+ * Whether a recurring slot is planned on a date
+ */
+export function isSlotActiveOn(slot: ScheduleSlot, date: string): boolean {
+  return slot.effective_date <= date
+    && (!slot.end_date || slot.end_date >= date)
+    && slot.weekdays.includes(weekdayOf(date));
+}
+
+/**
+ * Expand the schedule into planned visits
+ * @param slots - Recurring weekly slots of the beneficiary
+ * @param exceptions - One-off exceptions (any dates; only those in range are used)
+ * @param fromDate - First day (yyyy-MM-dd, beneficiary's timezone)
+ * @param toDate - Last day, inclusive
+ * @param timezone - Beneficiary's timezone
+ * @returns Planned visits sorted by start time
+ */
+export function getPlannedVisits(
+  slots: ScheduleSlot[],
+  exceptions: ScheduleException[],
+  fromDate: string,
+  toDate: string,
+  timezone: string
+): PlannedVisit[] {
+  const visits: PlannedVisit[] = [];
+
+  for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+    const dayExceptions = exceptions.filter(e => e.date === date);
+
+    slots.filter(slot => isSlotActiveOn(slot, date)).forEach(slot => {
+      const exception = dayExceptions.find(e => e.slot_id === slot.id && e.exception_type !== 'added');
+      if (exception?.exception_type === 'cancelled') return;
+
+      if (exception?.exception_type === 'modified') {
+        // New times only when both are given, so the visit never ends before it starts
+        const moved = !!exception.start_time && !!exception.end_time;
+        visits.push(buildPlannedVisit(
+          date,
+          exception.caregiver_name || slot.caregiver_name,
+          moved ? exception.start_time! : slot.start_time,
+          moved ? exception.end_time! : slot.end_time,
+          timezone,
+          { slotId: slot.id, exceptionId: exception.id }
+        ));
+        return;
+      }
+
+      visits.push(buildPlannedVisit(date, slot.caregiver_name, slot.start_time, slot.end_time, timezone, { slotId: slot.id }));
+    });
+
+    dayExceptions
+      .filter(e => e.exception_type === 'added' && e.caregiver_name && e.start_time && e.end_time)
+      .forEach(e => {
+        visits.push(buildPlannedVisit(date, e.caregiver_name!, e.start_time!, e.end_time!, timezone, { exceptionId: e.id }));
+      });
+  }
+
+  return visits.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Match planned visits with the visits recorded by check-ins
+ * A recorded visit matches a planned one when its check-in falls between 2 hours before
+ * the planned start and the planned end. The planned caregiver is preferred; a visit by
+ * another caregiver in the same window counts as a substitution.
+ * @param planned - Planned visits from getPlannedVisits
+ * @param checkIns - Check-ins covering the same period
+ * @param now - Reference time for visits without check-in (default: now)
+ */
+export function comparePlannedVisits<T extends BillableCheckIn>(
+  planned: PlannedVisit[],
+  checkIns: T[],
+  now: Date = new Date()
+): ScheduleComparison<T> {
+  const pairs = pairCheckInOuts(checkIns);
+  const matched = new Set<VisitPair<T>>();
+
+  const inWindow = (visit: PlannedVisit, pair: VisitPair<T>) => {
+    const checkInTime = new Date(pair.checkIn.timestamp).getTime();
+    return checkInTime >= visit.start.getTime() - MATCH_EARLY_MINUTES * 60 * 1000
+      && checkInTime < visit.end.getTime();
+  };
+  const closest = (visit: PlannedVisit, candidates: VisitPair<T>[]) =>
+    candidates.sort((a, b) =>
+      Math.abs(new Date(a.checkIn.timestamp).getTime() - visit.start.getTime())
+      - Math.abs(new Date(b.checkIn.timestamp).getTime() - visit.start.getTime())
+    )[0];
+
+  // Planned caregivers first, so a substitute never takes another caregiver's visit
+  const pairFor = new Map<PlannedVisit, VisitPair<T>>();
+  planned.forEach(visit => {
+    const candidates = pairs.filter(pair =>
+      !matched.has(pair)
+      && normalizeName(pair.checkIn.caregiver_name) === normalizeName(visit.caregiverName)
+      && inWindow(visit, pair)
+    );
+    const pair = closest(visit, candidates);
+    if (pair) {
+      matched.add(pair);
+      pairFor.set(visit, pair);
+    }
+  });
+  planned.forEach(visit => {
+    if (pairFor.has(visit)) return;
+    const pair = closest(visit, pairs.filter(p => !matched.has(p) && inWindow(visit, p)));
+    if (pair) {
+      matched.add(pair);
+      pairFor.set(visit, pair);
+    }
+  });
+
+  const matches = planned.map(visit => {
+    const pair = pairFor.get(visit);
+    if (!pair) {
+      const status: PlannedVisitStatus = now < visit.start ? 'upcoming' : now < visit.end ? 'pending' : 'missed';
+      return { planned: visit, status };
+    }
+    return {
+      planned: visit,
+      status: (pair.checkOut ? 'done' : 'in_progress') as PlannedVisitStatus,
+      visit: pair,
+      startDelayMinutes: Math.round((new Date(pair.checkIn.timestamp).getTime() - visit.start.getTime()) / 60000),
+      substitute: normalizeName(pair.checkIn.caregiver_name) !== normalizeName(visit.caregiverName),
+    };
+  });
+
+  return {
+    matches,
+    unplanned: pairs.filter(pair => !matched.has(pair)),
+  };
+}
+
+/**
+ * Planned hours of a list of planned visits
+ */
+export function getPlannedHours(planned: PlannedVisit[]): number {
+  return planned.reduce((sum, visit) => sum + (visit.end.getTime() - visit.start.getTime()) / (1000 * 60 * 60), 0);
+}
+
+/**
+ * Detect no-shows, late arrivals and early departures
+ * @param matches - Planned visits matched with recorded visits (comparePlannedVisits)
+ * @param now - Reference time (default: now)
+ * @param tolerances - Minutes allowed before reporting (default: 15 each)
+ */
+export function detectScheduleAlerts(
+  matches: PlannedVisitMatch[],
+  now: Date = new Date(),
+  {
+    lateToleranceMinutes = LATE_TOLERANCE_MINUTES,
+    earlyToleranceMinutes = EARLY_DEPARTURE_TOLERANCE_MINUTES,
+  }: { lateToleranceMinutes?: number; earlyToleranceMinutes?: number } = {}
+): ScheduleAlert[] {
+  const alerts: ScheduleAlert[] = [];
+
+  matches.forEach(({ planned, visit, startDelayMinutes }) => {
+    if (!visit) {
+      const overdueMinutes = Math.floor((now.getTime() - planned.start.getTime()) / 60000);
+      if (overdueMinutes > lateToleranceMinutes) {
+        alerts.push({ type: 'missed_check_in', planned, caregiverName: planned.caregiverName, minutes: overdueMinutes });
+      }
+      return;
+    }
+
+    if (startDelayMinutes !== undefined && startDelayMinutes > lateToleranceMinutes) {
+      alerts.push({
+        type: 'late_arrival',
+        planned,
+        caregiverName: visit.checkIn.caregiver_name,
+        minutes: startDelayMinutes,
+        checkInOutId: visit.checkIn.id,
+      });
+    }
+
+    if (visit.checkOut) {
+      const earlyMinutes = Math.round((planned.end.getTime() - new Date(visit.checkOut.timestamp).getTime()) / 60000);
+      if (earlyMinutes > earlyToleranceMinutes) {
+        alerts.push({
+          type: 'early_departure',
+          planned,
+          caregiverName: visit.checkOut.caregiver_name,
+          minutes: earlyMinutes,
+          // A corrected end has no check-out row of its own (synthetic id): point at the check-in
+          checkInOutId: visit.corrected ? visit.checkIn.id : visit.checkOut.id,
+        });
+      }
+    }
+  });
+
+  return alerts;
+}
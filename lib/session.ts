@@ -0,0 +1,138 @@
+/**
+ * Signed session cookie
+ * /api/auth/login (password) and /api/auth/session (magic link) issue an HTTP-only
+ * cookie holding the signed-in account, signed with HMAC-SHA256. proxy.ts checks it
+ * before serving /dashboard and /admin, and API routes read the caller from it instead
+ * of trusting ids sent in request bodies. The browser cannot read or edit it.
+ * The key (SESSION_SECRET) is used for nothing else and the `typ` claim names the token
+ * kind, so a check-in challenge token (lib/challenge-token.ts) is never read as a session.
+ * Server-only (node crypto).
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const SESSION_COOKIE = 'cg_session';
+
+// Family members stay signed in on their phone for a month
+export const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export type SessionUser = {
+  id: string; // Family member id when the account has one, otherwise users.id
+  user_id?: string | null; // users.id (password accounts)
+  family_member_id?: string | null; // family_members.id (push notifications)
+  email: string;
+  role: 'admin' | 'family';
+  name: string;
+  beneficiary_id?: string | null;
+};
+
+type SessionClaims = SessionUser & { typ: 'session'; exp: number };
+
+function getSigningKey(): string {
+  const key = process.env.SESSION_SECRET;
+  if (!key) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+  return key;
+}
+
+function sign(body: string): string {
+  return createHmac('sha256', getSigningKey()).update(body).digest('base64url');
+}
+
+/**
+ * Signed cookie value for an account
+ * @param user - Signed-in account
+ * @param now - Issue time (default: now)
+ */
+export function createSessionToken(user: SessionUser, now: Date = new Date()): string {
+  const claims: SessionClaims = {
+    ...user,
+    typ: 'session',
+    exp: Math.floor(now.getTime() / 1000) + SESSION_TTL_SECONDS,
+  };
+  const body = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * Account of a cookie value
+ * @returns The account, or null when the value is missing, forged or expired
+ */
+export function readSessionToken(token: string | null | undefined, now: Date = new Date()): SessionUser | null {
+  const [body, signature] = (token || '').split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  let claims: SessionClaims;
+  try {
+    claims = JSON.parse(Buffer.from(body, 'base64url').toString());
+  } catch {
+    return null;
+  }
+
+  const { typ, exp, ...user } = claims;
+  if (typ !== 'session' || typeof exp !== 'number' || now.getTime() / 1000 > exp) return null;
+  if (typeof user.id !== 'string' || !user.id || (user.role !== 'admin' && user.role !== 'family')) return null;
+
+  return user;
+}
+
+/**
+ * Signed-in account of a request
+ */
+export function getSessionUser(request: NextRequest): SessionUser | null {
+  return readSessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * Whether an account may see and manage a beneficiary
+ * Admins manage every beneficiary, families their own.
+ */
+export function canAccessBeneficiary(user: SessionUser | null, beneficiaryId: string | null | undefined): boolean {
+  if (!user || !beneficiaryId) return false;
+  return user.role === 'admin' || user.beneficiary_id === beneficiaryId;
+}
+
+/**
+ * Error response of an API route when the caller may not act on a beneficiary
+ * @returns 401 without a session, 403 for another family's beneficiary, null when allowed
+ */
+export function checkBeneficiaryAccess(request: NextRequest, beneficiaryId: string | null | undefined): NextResponse | null {
+  const user = getSessionUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  if (!canAccessBeneficiary(user, beneficiaryId)) {
+    return NextResponse.json(
+      { error: 'Access denied' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+export function setSessionCookie(response: NextResponse, user: SessionUser): NextResponse {
+  response.cookies.set(SESSION_COOKIE, createSessionToken(user), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+  return response;
+}
+
+export function clearSessionCookie(response: NextResponse): NextResponse {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+  return response;
+}
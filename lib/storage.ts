@@ -5,7 +5,7 @@ import { supabase } from './supabase';
  * @param base64Photo - Base64 encoded photo string (data:image/jpeg;base64,...)
  * @param beneficiaryId - ID of the elderly person
  * @param timestamp - Timestamp for unique filename
- * @returns Public URL of the uploaded photo or null if failed
+ * @returns URL of the uploaded photo (display it with getPhotoUrl) or null if failed
  */
 export async function uploadPhoto(
   base64Photo: string,
@@ -55,6 +55,31 @@ export async function uploadPhoto(
   }
 }
 
+/**
+ * URL to display a check-in photo
+ * The bucket is private: family members get a signed URL valid for an hour, allowed by
+ * the storage policies for their beneficiary's folder.
+ * @param photoUrl - URL stored in check_in_outs.photo_url (or a base64 photo)
+ * @returns Signed URL, or the stored value when it cannot be signed
+ */
+export async function getPhotoUrl(photoUrl: string): Promise<string> {
+  const urlParts = photoUrl.split('/caregiver-photos/');
+  if (isBase64Photo(photoUrl) || urlParts.length < 2) {
+    return photoUrl;
+  }
+
+  const { data, error } = await supabase.storage
+    .from('caregiver-photos')
+    .createSignedUrl(urlParts[1], 60 * 60);
+
+  if (error || !data) {
+    console.error('Error signing photo URL:', error);
+    return photoUrl;
+  }
+
+  return data.signedUrl;
+}
+
 /**
  * Delete a photo from Supabase Storage
  * @param photoUrl - Full URL of the photo to delete
@@ -46,6 +46,44 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
 });
 
 // Database Types
+// How a check-in/out was verified (check_in_outs.verification_flags)
+export type VerificationFlags = {
+  method?: string;
+  secret_validated?: boolean;
+  has_geolocation?: boolean;
+  geolocation_required?: boolean;
+  has_photo?: boolean;
+  added_by?: string | null; // Manual entries: who added the visit
+  within_geofence?: boolean | null; // null when the position or the home coordinates are missing
+  distance_meters?: number | null; // Distance to the beneficiary's home
+  gps_accuracy_meters?: number | null;
+  geofence_radius_meters?: number;
+  geofence_score?: 'inside' | 'imprecise' | 'outside' | 'unknown';
+  payload?: 'static' | 'hmac' | 'sdm' | null; // Kind of check-in URL (see lib/nfc-payload.ts)
+  tag_key_id?: string | null; // nfc_tags.key_id of the tapped tag
+  tap_counter?: number | null; // SDM tap counter
+};
+
+// Physical tag or rotating QR code of a beneficiary, with its signing keys
+export type NfcTag = {
+  id: string;
+  beneficiary_id: string;
+  key_id: string; // Public id carried in the URL (kid)
+  kind: 'hmac' | 'sdm';
+  hmac_key?: string | null; // hmac: signing key (hex)
+  sdm_meta_read_key?: string | null; // sdm: AES-128 keys set when personalising the tag (hex)
+  sdm_file_read_key?: string | null;
+  uid?: string | null; // sdm: tag UID, pinned on the first tap
+  last_counter?: number | null; // sdm: highest tap counter accepted
+  last_tap_at?: string | null;
+  label?: string | null; // Where the tag is (e.g. 'Porte d\'entrée')
+  revoked_at?: string | null; // Lost or replaced: taps are refused
+  created_at: string;
+};
+
+// Tag as sent to the dashboard, without its keys
+export type PublicNfcTag = Omit<NfcTag, 'hmac_key' | 'sdm_meta_read_key' | 'sdm_file_read_key'>;
+
 export type CheckInOut = {
   id: string;
   beneficiary_id: string;
@@ -55,9 +93,17 @@ export type CheckInOut = {
   photo_url?: string;
   latitude?: number;
   longitude?: number;
+  corrected_check_out_at?: string; // End set by a family member when the check-out was forgotten (check-in rows)
+  forgotten_check_out_flagged_at?: string; // When the open visit was reported as a forgotten check-out
+  verification_method?: string; // 'nfc', 'qr' or 'manual' (entered or corrected by hand)
+  voided_at?: string; // Voided by hand: kept for the audit trail, ignored everywhere else
+  verification_flags?: VerificationFlags;
   created_at: string;
 };
 
+// geocoder: from the address; device: family member's phone at the home
+export type LocationSource = 'geocoder' | 'device';
+
 export type Elderly = {
   id: string;
   name: string;
@@ -65,12 +111,19 @@ export type Elderly = {
   address: string;
   latitude?: number;
   longitude?: number;
+  country?: string;
+  holiday_region?: string; // Sub-region holiday calendar (e.g. 'ALSACE_MOSELLE')
   family_ids: string[];
   regular_rate: number;
   holiday_rate: number;
   conventioned_rate?: number; // Tarif de référence conventionné (HT) used for copay calculation
   apa_monthly_hours?: number; // Monthly hours allocation from APA/PCH plan
   apa_notes?: string; // Additional notes about APA coverage
+  vat_rate?: number; // Default VAT rate in percent (5.5 for French services à la personne)
+  rates_include_vat?: boolean; // true when rates are entered TTC instead of HT
+  forgotten_check_out_hours?: number; // Hours after which an open visit is a forgotten check-out (default 12)
+  geofence_radius_meters?: number; // Check-ins farther from the home are flagged out of zone (default 200)
+  location_source?: LocationSource | null; // How latitude/longitude were set
   currency: string;
   access_code: string;
   created_at: string;
@@ -81,6 +134,7 @@ export type FamilyMember = {
   name: string;
   email: string;
   phone?: string;
+  auth_user_id?: string | null; // Supabase auth user, for row-level security
   notification_preferences: {
     email: boolean;
     sms: boolean;
@@ -95,6 +149,136 @@ export type BeneficiaryRateHistory = {
   rate: number; // Billing rate (what company charges)
   conventioned_rate?: number; // APA/PCH reference rate for copay calculation
   apa_monthly_hours?: number; // Monthly hours allocation for this period
+  vat_rate?: number; // VAT rate in percent for this period (e.g. 5.5, 10, 20); defaults to the beneficiary's
   effective_date: string; // ISO date string (YYYY-MM-DD)
   created_at: string;
 };
+
+export type MajorationDayType = 'weekday' | 'saturday' | 'sunday' | 'holiday';
+
+export type MajorationRule = {
+  key: string; // Stable identifier, e.g. 'night' or 'saturday_afternoon'
+  labels: { fr: string; en: string };
+  percentage: number; // Surcharge over the base rate, e.g. 25 for +25%
+  day_types?: MajorationDayType[]; // Omitted = every day
+  holiday_keys?: string[]; // Restrict a 'holiday' rule to specific holidays (e.g. 'labour_day')
+  start_time?: string; // 'HH:mm' local time, inclusive (default 00:00)
+  end_time?: string; // 'HH:mm' local time, exclusive (default 24:00); earlier than start_time wraps past midnight
+};
+
+export type MajorationRuleSet = {
+  id: string;
+  beneficiary_id: string;
+  name: string;
+  regular_labels?: { fr: string; en: string }; // Describes hours no rule applies to
+  rules: MajorationRule[];
+  bill_overlaps_once?: boolean; // Time two caregivers are present together is billed once
+  effective_date: string; // ISO date string (YYYY-MM-DD)
+  created_at: string;
+};
+
+export type FunderType = 'apa' | 'pch' | 'caisse_retraite' | 'mutuelle' | 'other';
+
+export type BeneficiaryFunder = {
+  id: string;
+  beneficiary_id: string;
+  name: string; // e.g. 'APA Conseil départemental 75', 'CNAV', 'Mutuelle Harmonie'
+  funder_type: FunderType;
+  priority: number; // Lower pays first; each funder covers part of what the previous ones left
+  coverage_percentage: number; // Share of the eligible amount paid by this funder
+  monthly_hours_cap?: number; // Hours covered per month (omitted = all hours)
+  rate_cap?: number; // Hourly amount (HT) considered per hour; omitted = tarif conventionné for APA/PCH, no cap otherwise
+  effective_date: string; // ISO date string (YYYY-MM-DD)
+  end_date?: string; // Last covered day (YYYY-MM-DD), omitted = open-ended
+  created_at: string;
+};
+
+export type AgencyInvoice = {
+  id: string;
+  beneficiary_id: string;
+  month: string; // Invoiced month (YYYY-MM)
+  agency_name?: string;
+  invoice_number?: string;
+  total_amount?: number; // Invoice total HT, as printed
+  created_at: string;
+};
+
+export type AgencyInvoiceLine = {
+  id: string;
+  invoice_id: string;
+  date: string; // ISO date string (YYYY-MM-DD)
+  caregiver_name: string;
+  hours: number;
+  amount: number; // HT
+  rate?: number; // Hourly rate HT as printed; omitted = amount / hours
+  majoration_percentage?: number; // Majoration category billed (0 = regular hours); omitted = not itemised
+  created_at: string;
+};
+
+export type ScheduleSlot = {
+  id: string;
+  beneficiary_id: string;
+  caregiver_name: string;
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  start_time: string; // 'HH:mm' local time
+  end_time: string; // 'HH:mm' local time; earlier than start_time ends the next day
+  effective_date: string; // ISO date string (YYYY-MM-DD)
+  end_date?: string; // Last planned day (YYYY-MM-DD), omitted = open-ended
+  created_at: string;
+};
+
+export type ScheduleExceptionType = 'cancelled' | 'modified' | 'added';
+
+export type ScheduleException = {
+  id: string;
+  beneficiary_id: string;
+  date: string; // ISO date string (YYYY-MM-DD)
+  exception_type: ScheduleExceptionType;
+  slot_id?: string; // Recurring slot cancelled or modified that day; omitted for added visits
+  caregiver_name?: string; // Replacement or added caregiver (modified / added)
+  start_time?: string; // 'HH:mm' (modified / added)
+  end_time?: string; // 'HH:mm' (modified / added)
+  reason?: string;
+  created_at: string;
+};
+
+export type VisitAdjustmentType =
+  | 'close_visit' // End entered after a forgotten check-out
+  | 'edit' // Time or caregiver corrected
+  | 'add' // Visit entered by hand
+  | 'void'; // Visit cancelled (rows kept, ignored)
+
+export type VisitAdjustment = {
+  id: string;
+  beneficiary_id: string;
+  check_in_out_id: string;
+  adjustment_type: VisitAdjustmentType;
+  previous_values: Record<string, unknown>; // Fields before the change
+  new_values: Record<string, unknown>; // Fields after the change
+  reason: string;
+  adjusted_by?: string; // User who made the change
+  adjusted_by_name?: string;
+  created_at: string;
+};
+
+// Visit built from a check-in and the check-out of the same caregiver (visits table, maintained by trigger)
+export type VisitStatus =
+  | 'open' // No check-out yet
+  | 'closed' // Check-out recorded
+  | 'corrected'; // End entered by a family member
+
+export type VisitFlag = 'manual' | 'forgotten_check_out' | 'long_visit';
+
+export type Visit = {
+  check_in_id: string;
+  check_out_id?: string | null;
+  beneficiary_id: string;
+  caregiver_name: string;
+  started_at: string;
+  ended_at?: string | null;
+  duration_hours?: number | null;
+  status: VisitStatus;
+  is_training: boolean;
+  flags: VisitFlag[];
+  updated_at: string;
+};
@@ -0,0 +1,129 @@
+/**
+ * Annual tax credit statement (crédit d'impôt services à la personne)
+ * Families can deduct 50% of what they actually paid for home care during the year,
+ * after the contributions of the APA and other funders. The statement adds up, month by
+ * month, the amount billed by the shared billing engine (TTC), subtracts each month's
+ * funder split (see lib/funders.ts) and applies the rate to the net paid, within the
+ * annual expense ceiling. Pure functions: safe on the client and in API routes.
+ */
+import { BillableCheckIn, BillingInput, computeBilling, getBilledVatRate } from './billing';
+import { getRateForDate, rateToHT } from './rate-utils';
+import { getDefaultFunders, getFundersForMonth, splitAmongFunders } from './funders';
+import { BeneficiaryFunder } from './supabase';
+
+// Share of the net amount paid that is refunded as a tax credit
+export const TAX_CREDIT_RATE = 50;
+
+// Base annual expense ceiling; the household may be entitled to more (dependants, disability)
+export const TAX_CREDIT_EXPENSE_CEILING = 12000;
+
+export type TaxCreditMonth = {
+  month: string; // yyyy-MM
+  hours: number;
+  billedAmount: number; // HT
+  vatAmount: number;
+  billedTTC: number;
+  fundedTTC: number; // Paid by APA and the other funders
+  paidTTC: number; // Net paid by the beneficiary
+};
+
+export type TaxCreditStatement = {
+  year: number;
+  months: TaxCreditMonth[]; // January to December
+  totals: Omit<TaxCreditMonth, 'month'>;
+  funders: Array<{ name: string; amountTTC: number }>; // Contributions over the year, by funder
+  expenseCeiling: number;
+  eligibleExpenses: number; // Net paid, within the ceiling
+  taxCredit: number;
+};
+
+export type TaxCreditInput<T extends BillableCheckIn = BillableCheckIn> = BillingInput<T> & {
+  year: number;
+  copayPercentage: number; // Ticket modérateur, used when no funders are recorded
+  conventionedRate?: number; // Beneficiary tarif conventionné, as entered (used when there is no rate history)
+  funders?: BeneficiaryFunder[];
+  expenseCeiling?: number; // Household ceiling (default: base ceiling)
+};
+
+/**
+ * Compute the annual statement of a beneficiary
+ * Visits are attributed to the local date of their check-in, like the monthly summaries.
+ * Each month is split between funders with the rates in effect on the 1st of the month,
+ * so every month matches the financial tab.
+ */
+export function computeTaxCreditStatement<T extends BillableCheckIn>({
+  year,
+  copayPercentage,
+  conventionedRate,
+  funders,
+  expenseCeiling = TAX_CREDIT_EXPENSE_CEILING,
+  ...billingInput
+}: TaxCreditInput<T>): TaxCreditStatement {
+  const { months: billedMonths } = computeBilling(billingInput);
+  const { rateHistory, fallbackRate, timezone, vat } = billingInput;
+  const funderTotals = new Map<string, number>();
+
+  const months = Array.from({ length: 12 }, (_, i) => {
+    const month = `${year}-${String(i + 1).padStart(2, '0')}`;
+    const billed = billedMonths.find(m => m.month === month);
+    if (!billed) {
+      return { month, hours: 0, billedAmount: 0, vatAmount: 0, billedTTC: 0, fundedTTC: 0, paidTTC: 0 };
+    }
+
+    // Same conventioned rate and funders as the financial tab for that month
+    const rateData = getRateForDate(rateHistory || [], `${month}-01`, fallbackRate, timezone, vat);
+    const monthConventionedRate = rateHistory && rateHistory.length > 0
+      ? rateData.conventionedRate
+      : conventionedRate !== undefined
+        ? rateToHT(conventionedRate, rateData.vatRate, vat?.ratesIncludeVat)
+        : rateData.billingRate;
+    const monthFunders = getFundersForMonth(funders, new Date(year, i, 1));
+    const split = splitAmongFunders({
+      hours: billed.totalHours,
+      amount: billed.totalAmount,
+      funders: monthFunders.length > 0 ? monthFunders : getDefaultFunders(copayPercentage),
+      conventionedRate: monthConventionedRate,
+    });
+
+    // Funders pay their share TTC, at the VAT rate billed that month
+    const ttcFactor = 1 + getBilledVatRate(billed, rateData.vatRate) / 100;
+    split.shares.forEach(share => {
+      funderTotals.set(share.funder.name, (funderTotals.get(share.funder.name) || 0) + share.amount * ttcFactor);
+    });
+
+    const billedTTC = billed.totalAmount + billed.vatAmount;
+    const fundedTTC = split.fundedAmount * ttcFactor;
+    return {
+      month,
+      hours: billed.totalHours,
+      billedAmount: billed.totalAmount,
+      vatAmount: billed.vatAmount,
+      billedTTC,
+      fundedTTC,
+      paidTTC: billedTTC - fundedTTC,
+    };
+  });
+
+  const totals = months.reduce(
+    (sum, m) => ({
+      hours: sum.hours + m.hours,
+      billedAmount: sum.billedAmount + m.billedAmount,
+      vatAmount: sum.vatAmount + m.vatAmount,
+      billedTTC: sum.billedTTC + m.billedTTC,
+      fundedTTC: sum.fundedTTC + m.fundedTTC,
+      paidTTC: sum.paidTTC + m.paidTTC,
+    }),
+    { hours: 0, billedAmount: 0, vatAmount: 0, billedTTC: 0, fundedTTC: 0, paidTTC: 0 }
+  );
+
+  const eligibleExpenses = Math.min(Math.max(0, totals.paidTTC), expenseCeiling);
+  return {
+    year,
+    months,
+    totals,
+    funders: Array.from(funderTotals.entries()).map(([name, amountTTC]) => ({ name, amountTTC })),
+    expenseCeiling,
+    eligibleExpenses,
+    taxCredit: eligibleExpenses * (TAX_CREDIT_RATE / 100),
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Manual visit corrections (edit, add, void) with audit trail
+ * Families fix wrong times, add visits the phone did not record and void duplicates.
+ * Every change is stored in visit_adjustments with the values before and after, who made
+ * it and why; changed or added rows are marked verification_method 'manual' so exports
+ * tell corrected data from data verified at the beneficiary's home. Voided rows are kept
+ * (voided_at) and ignored by pairing and billing.
+ * Pure functions: they plan the row changes, /api/visits/adjustments writes them.
+ */
+import { BillableCheckIn, VisitPair } from './billing';
+import { VisitAdjustmentType } from './supabase';
+
+export type AdjustableCheckIn = BillableCheckIn & {
+  beneficiary_id: string;
+  verification_method?: string | null;
+  voided_at?: string | null;
+};
+
+export type CheckInOutUpdate = {
+  id: string;
+  values: Record<string, string | null>;
+};
+
+export type PlannedAdjustment = {
+  check_in_out_id: string;
+  adjustment_type: VisitAdjustmentType;
+  previous_values: Record<string, string | null>;
+  new_values: Record<string, string | null>;
+};
+
+export type VisitChanges = {
+  caregiverName: string;
+  start: Date;
+  end?: Date; // Omitted: the visit stays open
+  recordedEnd?: Date; // Recorded check-out of an edited visit, kept when end is omitted
+};
+
+export const ADJUSTMENT_TYPE_LABELS: Record<VisitAdjustmentType, { fr: string; en: string }> = {
+  close_visit: { fr: 'Visite clôturée', en: 'Visit closed' },
+  edit: { fr: 'Modification', en: 'Edit' },
+  add: { fr: 'Ajout', en: 'Added' },
+  void: { fr: 'Annulation', en: 'Voided' },
+};
+
+/**
+ * Check the times of an edited or added visit
+ * An edited visit whose end is omitted keeps its recorded check-out, which must stay after the start.
+ * @returns Error message, or null when valid
+ */
+export function validateVisitChanges(changes: VisitChanges, language: 'fr' | 'en', now: Date = new Date()): string | null {
+  if (!changes.caregiverName.trim()) {
+    return language === 'fr' ? 'Indiquez l\'intervenant(e)' : 'Enter the caregiver';
+  }
+  if (isNaN(changes.start.getTime()) || (changes.end && isNaN(changes.end.getTime()))) {
+    return language === 'fr' ? 'Heure invalide' : 'Invalid time';
+  }
+  const end = changes.end ?? changes.recordedEnd;
+  if (end && end <= changes.start) {
+    return language === 'fr' ? 'Le départ doit être après l\'arrivée' : 'The end must be after the start';
+  }
+  if (changes.start > now || (changes.end && changes.end > now)) {
+    return language === 'fr' ? 'Une visite ne peut pas être dans le futur' : 'A visit cannot be in the future';
+  }
+  return null;
+}
+
+/**
+ * Time of the check-out row recorded for a visit (not a corrected end), checked by
+ * validateVisitChanges when an edit leaves the end out
+ */
+export function getRecordedEnd<T extends AdjustableCheckIn>(pair: VisitPair<T>): Date | undefined {
+  return pair.checkOut && !pair.corrected ? new Date(pair.checkOut.timestamp) : undefined;
+}
+
+// Record one row change: only the fields that actually change
+function planRowChange(
+  row: AdjustableCheckIn,
+  values: Record<string, string | null>,
+  adjustmentType: VisitAdjustmentType,
+  updates: CheckInOutUpdate[],
+  adjustments: PlannedAdjustment[]
+) {
+  const current = row as unknown as Record<string, string | null | undefined>;
+  const changed = Object.keys(values).filter(key => (current[key] ?? null) !== values[key]);
+  if (changed.length === 0) return;
+
+  const newValues = Object.fromEntries(changed.map(key => [key, values[key]]));
+  const previousValues = Object.fromEntries(changed.map(key => [key, current[key] ?? null]));
+
+  // A changed time or caregiver is no longer what was verified on site
+  if (adjustmentType === 'edit' && row.verification_method !== 'manual') {
+    newValues.verification_method = 'manual';
+    previousValues.verification_method = row.verification_method ?? null;
+  }
+
+  updates.push({ id: row.id, values: newValues });
+  adjustments.push({
+    check_in_out_id: row.id,
+    adjustment_type: adjustmentType,
+    previous_values: previousValues,
+    new_values: newValues,
+  });
+}
+
+/**
+ * Plan the row updates of an edited visit
+ * The recorded check-out row is edited when there is one; otherwise the end is stored
+ * as the corrected end of the check-in (like a visit closed after a forgotten check-out).
+ */
+export function planVisitEdit<T extends AdjustableCheckIn>(
+  pair: VisitPair<T>,
+  changes: VisitChanges
+): { updates: CheckInOutUpdate[]; adjustments: PlannedAdjustment[] } {
+  const updates: CheckInOutUpdate[] = [];
+  const adjustments: PlannedAdjustment[] = [];
+  const caregiverName = changes.caregiverName.trim();
+  const recordedCheckOut = pair.checkOut && !pair.corrected ? pair.checkOut : undefined;
+
+  const checkInValues: Record<string, string | null> = {
+    caregiver_name: caregiverName,
+    timestamp: changes.start.toISOString(),
+  };
+  if (!recordedCheckOut) {
+    checkInValues.corrected_check_out_at = changes.end ? changes.end.toISOString() : null;
+  }
+  planRowChange(pair.checkIn, normalizeTimestamps(pair.checkIn, checkInValues), 'edit', updates, adjustments);
+
+  if (recordedCheckOut) {
+    const checkOutValues: Record<string, string | null> = { caregiver_name: caregiverName };
+    if (changes.end) checkOutValues.timestamp = changes.end.toISOString();
+    planRowChange(recordedCheckOut, normalizeTimestamps(recordedCheckOut, checkOutValues), 'edit', updates, adjustments);
+  }
+
+  return { updates, adjustments };
+}
+
+/**
+ * Plan voiding a visit: both rows are kept but ignored
+ */
+export function planVisitVoid<T extends AdjustableCheckIn>(
+  pair: VisitPair<T>,
+  at: Date = new Date()
+): { updates: CheckInOutUpdate[]; adjustments: PlannedAdjustment[] } {
+  const updates: CheckInOutUpdate[] = [];
+  const adjustments: PlannedAdjustment[] = [];
+  const rows = pair.checkOut && !pair.corrected ? [pair.checkIn, pair.checkOut] : [pair.checkIn];
+  rows.forEach(row => planRowChange(row, { voided_at: at.toISOString() }, 'void', updates, adjustments));
+  return { updates, adjustments };
+}
+
+/**
+ * Plan closing a forgotten visit at the real end time, stored as the corrected end of the check-in
+ */
+export function planVisitClose<T extends AdjustableCheckIn>(
+  checkIn: T,
+  end: Date
+): { updates: CheckInOutUpdate[]; adjustments: PlannedAdjustment[] } {
+  const updates: CheckInOutUpdate[] = [];
+  const adjustments: PlannedAdjustment[] = [];
+  planRowChange(
+    checkIn,
+    normalizeTimestamps(checkIn, { corrected_check_out_at: end.toISOString() }),
+    'close_visit',
+    updates,
+    adjustments
+  );
+  return { updates, adjustments };
+}
+
+/**
+ * Rows to insert for a visit added by hand
+ */
+export function buildManualVisitRows(beneficiaryId: string, changes: VisitChanges, addedBy?: string) {
+  const base = {
+    beneficiary_id: beneficiaryId,
+    caregiver_name: changes.caregiverName.trim(),
+    verification_method: 'manual',
+    verification_flags: { method: 'manual', added_by: addedBy ?? null },
+  };
+  const rows: Array<typeof base & { action: 'check-in' | 'check-out'; timestamp: string }> = [
+    { ...base, action: 'check-in', timestamp: changes.start.toISOString() },
+  ];
+  if (changes.end) rows.push({ ...base, action: 'check-out', timestamp: changes.end.toISOString() });
+  return rows;
+}
+
+// Timestamps come back from the database as '+00:00' strings: compare instants, not text
+function normalizeTimestamps(row: AdjustableCheckIn, values: Record<string, string | null>): Record<string, string | null> {
+  const current = row as unknown as Record<string, string | null | undefined>;
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => {
+    const previous = current[key];
+    const sameInstant = (key === 'timestamp' || key === 'corrected_check_out_at')
+      && value && previous
+      && new Date(value).getTime() === new Date(previous).getTime();
+    return [key, sameInstant ? previous : value];
+  }));
+}
@@ -0,0 +1,89 @@
+/**
+ * Visit segmentation
+ * Slices a visit at every majoration boundary: rule window start/end times and local
+ * midnight (where day types, holidays and rule set versions change). Boundaries are
+ * resolved as absolute instants in the beneficiary's timezone, so a DST change makes
+ * the night one hour shorter or longer instead of shifting the boundaries.
+ */
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { MajorationRuleSet } from './supabase';
+import { frenchHolidayCalendar, HolidayCalendar } from './holidays';
+import {
+  getMajorationDay,
+  getMajorationPercentage,
+  getMajorationRuleSetForDate,
+  getRuleBoundaries,
+} from './majoration-rules';
+
+export type VisitSegment = {
+  start: Date;
+  end: Date;
+  date: string; // yyyy-MM-dd in the beneficiary's timezone
+  startMinute: number; // Local minutes since midnight at the segment start
+  minutes: number; // Elapsed minutes (DST-aware)
+  percentage: number; // Majoration applied to the whole segment
+};
+
+export type SegmentOptions = {
+  timezone: string;
+  majorationRuleSets?: MajorationRuleSet[];
+  holidays?: HolidayCalendar;
+};
+
+function formatMinutes(minuteOfDay: number): string {
+  const hours = Math.floor(minuteOfDay / 60);
+  const minutes = minuteOfDay % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+function nextDateString(dateStr: string): string {
+  const [year, month, day] = dateStr.split('-').map(part => parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
+
+/**
+ * Split a visit into segments billed at a single majoration each
+ * @param start - Check-in time
+ * @param end - Check-out time
+ * @param options - Beneficiary timezone, rule set versions and holiday calendar
+ * @returns Consecutive segments covering [start, end), in chronological order
+ */
+export function segmentVisit(
+  start: Date,
+  end: Date,
+  { timezone, majorationRuleSets, holidays = frenchHolidayCalendar }: SegmentOptions
+): VisitSegment[] {
+  const segments: VisitSegment[] = [];
+  let cursor = start;
+
+  while (cursor.getTime() < end.getTime()) {
+    const date = formatInTimeZone(cursor, timezone, 'yyyy-MM-dd');
+    const [hours, minutes, seconds] = formatInTimeZone(cursor, timezone, 'HH:mm:ss')
+      .split(':')
+      .map(part => parseInt(part, 10));
+    const startMinute = hours * 60 + minutes + seconds / 60;
+    const ruleSet = getMajorationRuleSetForDate(majorationRuleSets, date);
+
+    // Next boundary after the cursor: a rule window edge today, or local midnight
+    const candidates = getRuleBoundaries(ruleSet)
+      .filter(boundary => boundary > startMinute)
+      .map(boundary => fromZonedTime(`${date}T${formatMinutes(boundary)}:00`, timezone));
+    candidates.push(fromZonedTime(`${nextDateString(date)}T00:00:00`, timezone));
+    const nextBoundary = candidates
+      .filter(candidate => candidate.getTime() > cursor.getTime())
+      .reduce((earliest, candidate) => (candidate.getTime() < earliest.getTime() ? candidate : earliest));
+
+    const segmentEnd = nextBoundary.getTime() < end.getTime() ? nextBoundary : end;
+    segments.push({
+      start: cursor,
+      end: segmentEnd,
+      date,
+      startMinute,
+      minutes: (segmentEnd.getTime() - cursor.getTime()) / (1000 * 60),
+      percentage: getMajorationPercentage(ruleSet, getMajorationDay(date, holidays), startMinute),
+    });
+    cursor = segmentEnd;
+  }
+
+  return segments;
+}
@@ -0,0 +1,95 @@
+/**
+ * Visits read from the visits table
+ * The database pairs check-ins and check-outs (see supabase/migration_add_visits.sql) with
+ * the same rules as pairCheckInOuts; this module turns the rows, loaded with their
+ * check-in and check-out, into the VisitPair shape billing and the dashboard consume.
+ * Every billing figure (financial tab, CSV/PDF exports, APA plan, reconciliation, tax
+ * credit) is computed from these pairs so they all agree.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BillableCheckIn, VisitPair } from './billing';
+import { Visit, VisitFlag, VisitStatus } from './supabase';
+
+// Select string embedding both check_in_outs rows of each visit
+export const VISIT_SELECT = '*, check_in:check_in_outs!visits_check_in_id_fkey(*), check_out:check_in_outs!visits_check_out_id_fkey(*)';
+
+export type VisitWithRows<T extends BillableCheckIn = BillableCheckIn> = Visit & {
+  check_in: T;
+  check_out?: T | null;
+};
+
+export const VISIT_STATUS_LABELS: Record<VisitStatus, { fr: string; en: string }> = {
+  open: { fr: 'En cours', en: 'Open' },
+  closed: { fr: 'Terminée', en: 'Closed' },
+  corrected: { fr: 'Corrigée', en: 'Corrected' },
+};
+
+export const VISIT_FLAG_LABELS: Record<VisitFlag, { fr: string; en: string }> = {
+  manual: { fr: 'Saisie manuelle', en: 'Manual entry' },
+  forgotten_check_out: { fr: 'Départ oublié', en: 'Forgotten check-out' },
+  long_visit: { fr: 'Visite trop longue', en: 'Over the visit limit' },
+};
+
+/**
+ * Convert a visit row to a pair
+ * A corrected visit ends on a synthetic check-out at the corrected time, as in pairCheckInOuts.
+ */
+export function visitToPair<T extends BillableCheckIn>(visit: VisitWithRows<T>): VisitPair<T> {
+  if (visit.status === 'corrected' && visit.ended_at) {
+    return {
+      checkIn: visit.check_in,
+      checkOut: { ...visit.check_in, id: `${visit.check_in.id}:corrected`, action: 'check-out', timestamp: visit.ended_at },
+      corrected: true,
+    };
+  }
+  return { checkIn: visit.check_in, checkOut: visit.check_out ?? undefined };
+}
+
+/**
+ * Convert visit rows to pairs sorted by check-in time
+ */
+export function visitsToPairs<T extends BillableCheckIn>(visits: VisitWithRows<T>[]): VisitPair<T>[] {
+  return visits
+    .map(visitToPair)
+    .sort((a, b) => new Date(a.checkIn.timestamp).getTime() - new Date(b.checkIn.timestamp).getTime());
+}
+
+/**
+ * Load the visits started in a period as pairs
+ * @param client - Browser client (row-level security) or service role client
+ * @param beneficiaryId - Beneficiary
+ * @param from - Period start
+ * @param to - Period end (inclusive)
+ * @returns Pairs sorted by check-in time, or undefined when the visits cannot be read
+ *          (callers then pair the check-ins themselves)
+ */
+export async function fetchVisitPairs<T extends BillableCheckIn>(
+  client: SupabaseClient,
+  beneficiaryId: string,
+  from: Date,
+  to: Date
+): Promise<VisitPair<T>[] | undefined> {
+  const { data, error } = await client
+    .from('visits')
+    .select(VISIT_SELECT)
+    .eq('beneficiary_id', beneficiaryId)
+    .gte('started_at', from.toISOString())
+    .lte('started_at', to.toISOString());
+
+  if (error) {
+    console.error('Error loading visits:', error);
+    return undefined;
+  }
+  return visitsToPairs((data || []) as unknown as VisitWithRows<T>[]);
+}
+
+/**
+ * Pairs of several periods loaded with fetchVisitPairs (one query per month stays under the row limit)
+ * @returns All pairs sorted by check-in time, or undefined when any period could not be read
+ */
+export function mergeVisitPairs<T extends BillableCheckIn>(periods: (VisitPair<T>[] | undefined)[]): VisitPair<T>[] | undefined {
+  if (periods.some(pairs => !pairs)) return undefined;
+  return (periods as VisitPair<T>[][])
+    .flat()
+    .sort((a, b) => new Date(a.checkIn.timestamp).getTime() - new Date(b.checkIn.timestamp).getTime());
+}
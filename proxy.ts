@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canAccessBeneficiary, getSessionUser } from '@/lib/session';
+
+/**
+ * Server-side protection of the family dashboard and the admin pages
+ * Without a valid session cookie (lib/session.ts) the browser is sent to /login; families
+ * only reach the dashboard of their own beneficiary, and /admin is reserved to admins.
+ */
+export function proxy(request: NextRequest) {
+  const user = getSessionUser(request);
+  const { pathname } = request.nextUrl;
+
+  if (!user) {
+    return NextResponse.redirect(new URL('/login', request.url));
+  }
+
+  const ownDashboard = new URL(`/dashboard/${user.beneficiary_id ?? ''}`, request.url);
+
+  if (pathname.startsWith('/admin') && user.role !== 'admin') {
+    return NextResponse.redirect(ownDashboard);
+  }
+
+  // /dashboard/[beneficiaryId]/...
+  const beneficiaryId = pathname.split('/')[2];
+  if (beneficiaryId && !canAccessBeneficiary(user, beneficiaryId)) {
+    return NextResponse.redirect(ownDashboard);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/dashboard/:path*', '/admin/:path*'],
+};
@@ -0,0 +1,47 @@
+-- Migration: Add agency_invoices and agency_invoice_lines tables for invoice reconciliation
+-- Families enter (or import as CSV) the lines of the agency's end-of-month invoice.
+-- The dashboard matches them per day and caregiver against the visits recorded by
+-- check-ins and flags missing visits, over-billed minutes, wrong rates and hours billed
+-- in the wrong majoration category.
+
+-- One invoice per beneficiary and month
+CREATE TABLE IF NOT EXISTS agency_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  beneficiary_id UUID NOT NULL REFERENCES beneficiaries(id) ON DELETE CASCADE,
+  month TEXT NOT NULL,
+  agency_name TEXT,
+  invoice_number TEXT,
+  total_amount NUMERIC(10, 2),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT agency_invoices_month_format CHECK (month ~ '^\d{4}-\d{2}$')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agency_invoices_beneficiary_month
+  ON agency_invoices(beneficiary_id, month);
+
+-- Invoice lines, as printed by the agency
+CREATE TABLE IF NOT EXISTS agency_invoice_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES agency_invoices(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  caregiver_name TEXT NOT NULL,
+  hours NUMERIC(10, 2) NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL,
+  rate NUMERIC(10, 2),
+  majoration_percentage NUMERIC(5, 2),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT agency_invoice_lines_hours CHECK (hours >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agency_invoice_lines_invoice
+  ON agency_invoice_lines(invoice_id, date);
+
+-- Add comments
+COMMENT ON TABLE agency_invoices IS 'Agency end-of-month invoices, reconciled against recorded visits';
+COMMENT ON COLUMN agency_invoices.month IS 'Invoiced month (YYYY-MM)';
+COMMENT ON COLUMN agency_invoices.total_amount IS 'Invoice total before VAT, as printed';
+COMMENT ON TABLE agency_invoice_lines IS 'Lines of an agency invoice (one visit or one majoration category of a visit)';
+COMMENT ON COLUMN agency_invoice_lines.date IS 'Visit date as invoiced';
+COMMENT ON COLUMN agency_invoice_lines.amount IS 'Line amount before VAT';
+COMMENT ON COLUMN agency_invoice_lines.rate IS 'Hourly rate before VAT as printed (NULL = amount / hours)';
+COMMENT ON COLUMN agency_invoice_lines.majoration_percentage IS 'Majoration category billed, 0 = regular hours (NULL = not itemised)';
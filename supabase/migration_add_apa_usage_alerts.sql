@@ -0,0 +1,30 @@
+-- Migration: Add apa_usage_alerts table for APA/PCH plan consumption alerts
+-- After each check-out the month's billed hours are compared with the plan's monthly
+-- hours (apa_monthly_hours, from rate history when recorded). Family members get a push
+-- notification the first time usage reaches 80% and 100%.
+-- One row per beneficiary, month and threshold: the unique index guarantees each alert
+-- is sent only once, even when two check-outs are recorded at the same time.
+
+-- Create the alerts table
+CREATE TABLE IF NOT EXISTS apa_usage_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  beneficiary_id UUID NOT NULL REFERENCES beneficiaries(id) ON DELETE CASCADE,
+  month TEXT NOT NULL,
+  threshold INTEGER NOT NULL,
+  billed_hours NUMERIC(10, 2) NOT NULL,
+  allocated_hours NUMERIC(10, 2) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT apa_usage_alerts_month_format CHECK (month ~ '^\d{4}-\d{2}$')
+);
+
+-- Only one alert per beneficiary, month and threshold
+CREATE UNIQUE INDEX IF NOT EXISTS idx_apa_usage_alerts_unique
+  ON apa_usage_alerts(beneficiary_id, month, threshold);
+
+-- Add comments
+COMMENT ON TABLE apa_usage_alerts IS 'APA/PCH plan usage alerts already sent (80% / 100% of monthly hours)';
+COMMENT ON COLUMN apa_usage_alerts.month IS 'Month in the beneficiary timezone (YYYY-MM)';
+COMMENT ON COLUMN apa_usage_alerts.threshold IS 'Usage percentage reached: 80 or 100';
+COMMENT ON COLUMN apa_usage_alerts.billed_hours IS 'Billed hours of the month when the threshold was reached';
+COMMENT ON COLUMN apa_usage_alerts.allocated_hours IS 'Monthly hours of the plan at that time';
+COMMENT ON COLUMN apa_usage_alerts.created_at IS 'When the alert was sent';
@@ -0,0 +1,44 @@
+-- Migration: Add beneficiary_funders table for multi-funder cost splits
+-- A beneficiary's care can be paid by several funders: APA or PCH from the département,
+-- a caisse de retraite, a mutuelle... Funders are applied in priority order: each one
+-- pays its coverage percentage of the part of the remaining amount it is eligible for,
+-- within its monthly hours cap and hourly rate cap. The rest is left to the beneficiary.
+-- Beneficiaries without funders keep the single APA split based on ticket_moderateur.
+
+-- Create the funders table
+CREATE TABLE IF NOT EXISTS beneficiary_funders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  beneficiary_id UUID NOT NULL REFERENCES beneficiaries(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  funder_type TEXT NOT NULL DEFAULT 'other',
+  priority INTEGER NOT NULL DEFAULT 1,
+  coverage_percentage NUMERIC(5, 2) NOT NULL,
+  monthly_hours_cap NUMERIC(10, 2),
+  rate_cap NUMERIC(10, 2),
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT beneficiary_funders_type CHECK (funder_type IN ('apa', 'pch', 'caisse_retraite', 'mutuelle', 'other')),
+  CONSTRAINT beneficiary_funders_coverage CHECK (coverage_percentage >= 0 AND coverage_percentage <= 100),
+  CONSTRAINT beneficiary_funders_dates CHECK (end_date IS NULL OR end_date >= effective_date)
+);
+
+-- Funders are always read per beneficiary, in priority order
+CREATE INDEX IF NOT EXISTS idx_beneficiary_funders_priority
+  ON beneficiary_funders(beneficiary_id, priority);
+
+-- Add comments
+COMMENT ON TABLE beneficiary_funders IS 'Funders sharing the cost of care (APA, PCH, caisse de retraite, mutuelle), applied by priority';
+COMMENT ON COLUMN beneficiary_funders.funder_type IS 'apa, pch, caisse_retraite, mutuelle or other';
+COMMENT ON COLUMN beneficiary_funders.priority IS 'Order in which funders are applied (1 = first)';
+COMMENT ON COLUMN beneficiary_funders.coverage_percentage IS 'Percentage of the eligible remaining amount paid by the funder';
+COMMENT ON COLUMN beneficiary_funders.monthly_hours_cap IS 'Maximum hours covered per month (NULL = no cap)';
+COMMENT ON COLUMN beneficiary_funders.rate_cap IS 'Maximum hourly amount covered, HT (NULL = tarif conventionné for APA/PCH, no cap otherwise)';
+COMMENT ON COLUMN beneficiary_funders.effective_date IS 'First day the funder applies';
+COMMENT ON COLUMN beneficiary_funders.end_date IS 'Last day the funder applies (NULL = ongoing)';
+
+-- Example: APA covering 77.78% up to the tarif conventionné, then a mutuelle paying half of the rest
+-- INSERT INTO beneficiary_funders (beneficiary_id, name, funder_type, priority, coverage_percentage, monthly_hours_cap, effective_date)
+-- SELECT id, 'APA Paris', 'apa', 1, 77.78, apa_monthly_hours, '2025-01-01' FROM beneficiaries WHERE name = 'Brigitte';
+-- INSERT INTO beneficiary_funders (beneficiary_id, name, funder_type, priority, coverage_percentage, effective_date)
+-- SELECT id, 'Mutuelle', 'mutuelle', 2, 50, '2025-01-01' FROM beneficiaries WHERE name = 'Brigitte';
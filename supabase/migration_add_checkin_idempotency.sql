@@ -0,0 +1,16 @@
+-- Migration: Idempotent check-ins
+-- The check-in page sends an idempotency key with each submission; /api/checkin/nfc
+-- returns the row already recorded for a key instead of inserting a second one, so a
+-- double tap or a retry on a slow network records the visit once. The same route
+-- rejects a check-in while the caregiver's visit is in progress, a check-out without
+-- one and a check-out within minutes of the check-in (see lib/checkin-state.ts).
+
+ALTER TABLE check_in_outs
+ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_check_in_outs_idempotency_key
+  ON check_in_outs(beneficiary_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+-- Add comments
+COMMENT ON COLUMN check_in_outs.idempotency_key IS 'Client-generated key of the submission that created the row (retries return this row)';
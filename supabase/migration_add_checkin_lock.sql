@@ -0,0 +1,65 @@
+-- Migration: Serialized check-in/out submissions
+-- /api/checkin/nfc validates an action against the caregiver's recent check-ins
+-- (lib/checkin-state.ts) and then inserts it. Two submissions read at the same time
+-- could both pass, e.g. two check-ins from two phones. record_check_in_out inserts the
+-- row under a lock per caregiver and beneficiary, only if the caregiver's latest
+-- check-in/out is still the one the route validated against; otherwise it raises
+-- serialization_failure and the route asks the caregiver to try again. The challenge
+-- token id is recorded in nfc_used_tokens in the same transaction, so a refused
+-- submission does not use up the tap.
+
+CREATE OR REPLACE FUNCTION record_check_in_out(
+  check_in JSONB,
+  since TIMESTAMPTZ,
+  last_seen_id UUID,
+  challenge_jti TEXT
+)
+RETURNS check_in_outs AS $$
+DECLARE
+  row_data check_in_outs := jsonb_populate_record(NULL::check_in_outs, check_in);
+  latest_id UUID;
+  inserted check_in_outs;
+BEGIN
+  -- Held until the end of the transaction: submissions of one caregiver run one at a time
+  PERFORM pg_advisory_xact_lock(hashtext(row_data.beneficiary_id::TEXT || ':' || row_data.caregiver_name));
+
+  SELECT id INTO latest_id
+  FROM check_in_outs
+  WHERE beneficiary_id = row_data.beneficiary_id
+    AND caregiver_name = row_data.caregiver_name
+    AND voided_at IS NULL
+    AND timestamp >= since
+  ORDER BY timestamp DESC, id DESC
+  LIMIT 1;
+
+  IF latest_id IS DISTINCT FROM last_seen_id THEN
+    RAISE EXCEPTION 'Check-ins of % changed since they were validated', row_data.caregiver_name
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  -- A token already used hits the unique constraint (unique_violation)
+  INSERT INTO nfc_used_tokens (challenge_token, beneficiary_id)
+  VALUES (challenge_jti, row_data.beneficiary_id);
+
+  INSERT INTO check_in_outs (
+    beneficiary_id, caregiver_id, caregiver_name, action, is_training, photo_url,
+    latitude, longitude, verification_method, nfc_challenge_token, idempotency_key,
+    tap_timestamp, is_verified, verification_flags
+  )
+  VALUES (
+    row_data.beneficiary_id, row_data.caregiver_id, row_data.caregiver_name, row_data.action,
+    COALESCE(row_data.is_training, false), row_data.photo_url, row_data.latitude, row_data.longitude,
+    row_data.verification_method, row_data.nfc_challenge_token, row_data.idempotency_key,
+    row_data.tap_timestamp, COALESCE(row_data.is_verified, false), row_data.verification_flags
+  )
+  RETURNING * INTO inserted;
+
+  RETURN inserted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the check-in route (service role) records check-ins this way
+REVOKE EXECUTE ON FUNCTION record_check_in_out(JSONB, TIMESTAMPTZ, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Add comments
+COMMENT ON FUNCTION record_check_in_out(JSONB, TIMESTAMPTZ, UUID, TEXT) IS 'Record a challenge token and insert its check-in/out if the caregiver''s latest row since the given time is still last_seen_id (serialized per caregiver)';
@@ -0,0 +1,68 @@
+-- Migration: Forgotten check-out detection and audited visit closing
+-- A visit still open after forgotten_check_out_hours is flagged and the family is alerted.
+-- A family member then closes it with the real end time: the time is stored on the
+-- check-in row (corrected_check_out_at) and the change is audited in visit_adjustments,
+-- instead of inserting a check-out row that was never recorded by the caregiver.
+
+-- Open-visit limit per beneficiary
+ALTER TABLE beneficiaries
+ADD COLUMN IF NOT EXISTS forgotten_check_out_hours NUMERIC(5,2) DEFAULT 12;
+
+ALTER TABLE beneficiaries
+DROP CONSTRAINT IF EXISTS beneficiaries_forgotten_check_out_hours;
+
+ALTER TABLE beneficiaries
+ADD CONSTRAINT beneficiaries_forgotten_check_out_hours
+CHECK (forgotten_check_out_hours IS NULL OR forgotten_check_out_hours > 0);
+
+-- Corrected end and alert flag on check-in rows
+ALTER TABLE check_in_outs
+ADD COLUMN IF NOT EXISTS corrected_check_out_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS forgotten_check_out_flagged_at TIMESTAMPTZ;
+
+ALTER TABLE check_in_outs
+DROP CONSTRAINT IF EXISTS check_in_outs_corrected_check_out;
+
+ALTER TABLE check_in_outs
+ADD CONSTRAINT check_in_outs_corrected_check_out
+CHECK (corrected_check_out_at IS NULL OR (action = 'check-in' AND corrected_check_out_at > timestamp));
+
+CREATE INDEX IF NOT EXISTS idx_check_in_outs_open_visits
+  ON check_in_outs(timestamp)
+  WHERE action = 'check-in' AND corrected_check_out_at IS NULL AND forgotten_check_out_flagged_at IS NULL;
+
+-- Audit trail of manual changes to visits
+CREATE TABLE IF NOT EXISTS visit_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  beneficiary_id UUID NOT NULL REFERENCES beneficiaries(id) ON DELETE CASCADE,
+  check_in_out_id UUID NOT NULL REFERENCES check_in_outs(id) ON DELETE CASCADE,
+  adjustment_type TEXT NOT NULL,
+  previous_values JSONB NOT NULL DEFAULT '{}'::jsonb,
+  new_values JSONB NOT NULL DEFAULT '{}'::jsonb,
+  reason TEXT NOT NULL,
+  adjusted_by UUID,
+  adjusted_by_name TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT visit_adjustments_type CHECK (adjustment_type IN ('close_visit'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_visit_adjustments_beneficiary
+  ON visit_adjustments(beneficiary_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_visit_adjustments_check_in_out
+  ON visit_adjustments(check_in_out_id);
+
+-- Forgotten check-outs are logged with the schedule alerts
+ALTER TABLE notifications_log
+DROP CONSTRAINT IF EXISTS notifications_log_alert_type;
+
+ALTER TABLE notifications_log
+ADD CONSTRAINT notifications_log_alert_type
+CHECK (alert_type IS NULL OR alert_type IN ('missed_check_in', 'late_arrival', 'early_departure', 'forgotten_check_out'));
+
+-- Add comments
+COMMENT ON COLUMN beneficiaries.forgotten_check_out_hours IS 'Hours after which a visit without check-out is reported as a forgotten check-out';
+COMMENT ON COLUMN check_in_outs.corrected_check_out_at IS 'End of visit entered by a family member when the check-out was forgotten (check-in rows only)';
+COMMENT ON COLUMN check_in_outs.forgotten_check_out_flagged_at IS 'When the open visit was reported as a forgotten check-out';
+COMMENT ON TABLE visit_adjustments IS 'Audit trail of manual corrections to visits: who, when, why, values before and after';
+COMMENT ON COLUMN visit_adjustments.adjusted_by IS 'User (users.id or family_members.id) who made the change';
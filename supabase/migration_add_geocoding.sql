@@ -0,0 +1,20 @@
+-- Migration: Geocoded home position
+-- Signup and address changes (/api/beneficiaries/address) geocode the beneficiary's
+-- address with the geocoder selected by the GEOCODER environment variable (see
+-- lib/geocoding.ts) to fill latitude / longitude for the check-in geofence. When the
+-- address cannot be found, a family member at the home can save their phone's position
+-- from the dashboard instead.
+
+ALTER TABLE beneficiaries
+ADD COLUMN IF NOT EXISTS location_source TEXT;
+
+ALTER TABLE beneficiaries
+DROP CONSTRAINT IF EXISTS beneficiaries_location_source;
+
+ALTER TABLE beneficiaries
+ADD CONSTRAINT beneficiaries_location_source CHECK (location_source IN ('geocoder', 'device'));
+
+-- Add comments
+COMMENT ON COLUMN beneficiaries.latitude IS 'Home latitude used by the check-in geofence';
+COMMENT ON COLUMN beneficiaries.longitude IS 'Home longitude used by the check-in geofence';
+COMMENT ON COLUMN beneficiaries.location_source IS 'How latitude/longitude were set: geocoder (from the address) or device (family member on site); NULL when unknown';
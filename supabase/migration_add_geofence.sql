@@ -0,0 +1,23 @@
+-- Migration: Geofence verification of check-ins
+-- /api/checkin/nfc compares the caregiver's position with the beneficiary's home
+-- (beneficiaries.latitude / longitude) and stores the result in
+-- check_in_outs.verification_flags. Out-of-zone check-ins are recorded and flagged
+-- on the dashboard, not rejected. The radius is set per beneficiary by the family.
+
+ALTER TABLE beneficiaries
+ADD COLUMN IF NOT EXISTS geofence_radius_meters INTEGER NOT NULL DEFAULT 200;
+
+ALTER TABLE beneficiaries
+DROP CONSTRAINT IF EXISTS beneficiaries_geofence_radius_positive;
+
+ALTER TABLE beneficiaries
+ADD CONSTRAINT beneficiaries_geofence_radius_positive CHECK (geofence_radius_meters > 0);
+
+-- Add comments
+COMMENT ON COLUMN beneficiaries.geofence_radius_meters IS 'Radius in meters around the home within which check-ins are considered on site (default 200)';
+COMMENT ON COLUMN check_in_outs.verification_flags IS 'JSON object with verification details: {method, secret_validated, has_geolocation, has_photo, within_geofence, distance_meters, gps_accuracy_meters, geofence_radius_meters, geofence_score (inside, imprecise, outside, unknown)}';
+
+-- Example: set the home position and a wider zone for a rural address
+-- UPDATE beneficiaries
+-- SET latitude = 48.8566, longitude = 2.3522, geofence_radius_meters = 500
+-- WHERE id = '<beneficiary-uuid>';
@@ -0,0 +1,14 @@
+-- Migration: Add holiday_region to beneficiaries
+-- Selects a sub-region public holiday calendar on top of the beneficiary's country
+-- (e.g. country 'FR' + holiday_region 'ALSACE_MOSELLE' adds Good Friday and St Stephen's Day).
+-- NULL means the national calendar for the country.
+
+ALTER TABLE beneficiaries
+ADD COLUMN IF NOT EXISTS holiday_region TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN beneficiaries.holiday_region IS
+  'Optional sub-region holiday calendar code (e.g. ALSACE_MOSELLE for Bas-Rhin, Haut-Rhin and Moselle). '
+  'Combined with country to select the calendar used for holiday display and majorations.';
+
+-- Example: beneficiary living in Strasbourg
+-- UPDATE beneficiaries SET holiday_region = 'ALSACE_MOSELLE' WHERE id = '<beneficiary-uuid>';
@@ -0,0 +1,49 @@
+-- Migration: Add beneficiary_majoration_rule_sets table for contract-specific majorations
+-- Each row is one version of the beneficiary's majoration rules, active from effective_date
+-- Visits are billed with the rule set that was effective on the visit date
+-- Beneficiaries without any rule set use the standard contract:
+--   +25% Sundays, public holidays, before 8h and after 20h; +100% May 1st and Dec 25th
+
+-- Create the rule set table
+CREATE TABLE IF NOT EXISTS beneficiary_majoration_rule_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  beneficiary_id UUID NOT NULL REFERENCES beneficiaries(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  regular_labels JSONB DEFAULT NULL,
+  rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+  effective_date DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT rules_is_array CHECK (jsonb_typeof(rules) = 'array')
+);
+
+-- Add index for efficient lookups by beneficiary and date
+CREATE INDEX IF NOT EXISTS idx_majoration_rule_sets_beneficiary_date
+  ON beneficiary_majoration_rule_sets(beneficiary_id, effective_date DESC);
+
+-- Only one rule set version per beneficiary per date
+CREATE UNIQUE INDEX IF NOT EXISTS idx_majoration_rule_sets_unique_beneficiary_date
+  ON beneficiary_majoration_rule_sets(beneficiary_id, effective_date);
+
+-- Add comments
+COMMENT ON TABLE beneficiary_majoration_rule_sets IS 'Versioned majoration rules from the agency contract, per beneficiary';
+COMMENT ON COLUMN beneficiary_majoration_rule_sets.name IS 'Display name of the contract rule set (e.g. "Contrat 2025")';
+COMMENT ON COLUMN beneficiary_majoration_rule_sets.regular_labels IS 'Description of non-majorated hours: {"fr": "...", "en": "..."}';
+COMMENT ON COLUMN beneficiary_majoration_rule_sets.rules IS 'Array of rules: {key, labels: {fr, en}, percentage, day_types?: [weekday|saturday|sunday|holiday], holiday_keys?, start_time?: "HH:mm", end_time?: "HH:mm"}. The highest matching percentage applies.';
+COMMENT ON COLUMN beneficiary_majoration_rule_sets.effective_date IS 'The date when this rule set becomes active';
+COMMENT ON COLUMN beneficiary_majoration_rule_sets.created_at IS 'When this rule set record was created (audit trail)';
+
+-- Example: night rate from 21h and Saturday afternoon surcharge
+-- INSERT INTO beneficiary_majoration_rule_sets (beneficiary_id, name, regular_labels, rules, effective_date)
+-- VALUES (
+--   '<beneficiary-uuid>',
+--   'Contrat 2025',
+--   '{"fr": "Jours de semaine 7h-21h", "en": "Weekdays 7 AM-9 PM"}',
+--   '[
+--     {"key": "holiday_double", "labels": {"fr": "1er mai et 25 décembre", "en": "May 1st and December 25th"}, "percentage": 100, "day_types": ["holiday"], "holiday_keys": ["labour_day", "christmas"]},
+--     {"key": "holiday", "labels": {"fr": "Jours fériés", "en": "Public holidays"}, "percentage": 25, "day_types": ["holiday"]},
+--     {"key": "sunday", "labels": {"fr": "Dimanches", "en": "Sundays"}, "percentage": 25, "day_types": ["sunday"]},
+--     {"key": "saturday_afternoon", "labels": {"fr": "Samedi après-midi", "en": "Saturday afternoon"}, "percentage": 10, "day_types": ["saturday"], "start_time": "12:00"},
+--     {"key": "night", "labels": {"fr": "Nuit 21h-7h", "en": "Night 9 PM-7 AM"}, "percentage": 25, "start_time": "21:00", "end_time": "07:00"}
+--   ]',
+--   '2025-01-01'
+-- );
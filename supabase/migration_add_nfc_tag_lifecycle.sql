@@ -0,0 +1,25 @@
+-- Migration: NFC tag lifecycle
+-- Families manage the check-in tags of a beneficiary from the dashboard info tab
+-- (see /api/nfc/tags): register several tags, name them, rotate their keys and revoke
+-- a lost or replaced one. A revoked tag is kept for history but refused at check-in.
+-- The legacy static secret can also be revoked once old cards are replaced: its row in
+-- beneficiary_nfc_secrets (where migration_add_rls_policies.sql moves it out of
+-- beneficiaries) is deleted and /api/nfc/challenge refuses static payloads.
+
+ALTER TABLE nfc_tags
+  ADD COLUMN IF NOT EXISTS label TEXT,
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ;
+
+-- Until migration_add_rls_policies.sql moves the secret, a beneficiary may have none
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'beneficiaries' AND column_name = 'nfc_secret'
+  ) THEN
+    ALTER TABLE beneficiaries ALTER COLUMN nfc_secret DROP NOT NULL;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN nfc_tags.label IS 'Name given by the family (e.g. front door)';
+COMMENT ON COLUMN nfc_tags.revoked_at IS 'When the tag was revoked; revoked tags are refused at check-in';
@@ -0,0 +1,59 @@
+-- Migration: Signed NFC/QR payloads
+-- Check-in URLs no longer need the beneficiary's static nfc_secret. Each tag (physical
+-- NFC card or rotating QR code) has its own keys, identified in the URL by key_id:
+--   * hmac: the server signs `qr_code.key_id.timestamp`; the dashboard shows a QR code
+--     renewed every 30 seconds (see /api/nfc/payload);
+--   * sdm: NTAG 424 DNA tag personalised with SUN/SDM mirroring; each tap produces a new
+--     picc_data (encrypted UID + counter) and cmac, and the highest counter accepted is
+--     kept in last_counter so a copied URL is refused.
+-- Verification is in lib/nfc-payload.ts and lib/nfc-tags.ts. Cards still carrying the
+-- static secret keep working until they are replaced.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS nfc_tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  beneficiary_id UUID NOT NULL REFERENCES beneficiaries(id) ON DELETE CASCADE,
+  key_id TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(4), 'hex'),
+  kind TEXT NOT NULL,
+  hmac_key TEXT,
+  sdm_meta_read_key TEXT,
+  sdm_file_read_key TEXT,
+  uid TEXT,
+  last_counter INTEGER,
+  last_tap_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT nfc_tags_kind CHECK (kind IN ('hmac', 'sdm')),
+  CONSTRAINT nfc_tags_keys CHECK (
+    (kind = 'hmac' AND hmac_key IS NOT NULL)
+    OR (kind = 'sdm' AND sdm_meta_read_key IS NOT NULL AND sdm_file_read_key IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_nfc_tags_beneficiary ON nfc_tags(beneficiary_id);
+
+-- Keys are only read by API routes with the service role: no policy for clients
+ALTER TABLE nfc_tags ENABLE ROW LEVEL SECURITY;
+
+-- One signing key per beneficiary for the rotating QR code
+INSERT INTO nfc_tags (beneficiary_id, kind, hmac_key)
+SELECT b.id, 'hmac', encode(gen_random_bytes(32), 'hex')
+FROM beneficiaries b
+WHERE NOT EXISTS (
+  SELECT 1 FROM nfc_tags t WHERE t.beneficiary_id = b.id AND t.kind = 'hmac'
+);
+
+-- Add comments
+COMMENT ON TABLE nfc_tags IS 'NFC tags and rotating QR codes of a beneficiary with their signing keys';
+COMMENT ON COLUMN nfc_tags.key_id IS 'Public key id carried in check-in URLs (kid)';
+COMMENT ON COLUMN nfc_tags.hmac_key IS 'hmac: HMAC-SHA256 key (hex) signing qr_code.key_id.timestamp';
+COMMENT ON COLUMN nfc_tags.sdm_meta_read_key IS 'sdm: AES-128 SDM meta read key (hex) decrypting picc_data';
+COMMENT ON COLUMN nfc_tags.sdm_file_read_key IS 'sdm: AES-128 SDM file read key (hex) deriving the CMAC session key';
+COMMENT ON COLUMN nfc_tags.uid IS 'sdm: tag UID, pinned on the first accepted tap';
+COMMENT ON COLUMN nfc_tags.last_counter IS 'sdm: highest tap counter accepted; lower or equal counters are replays';
+
+-- Example: register an NTAG 424 DNA tag written with the URL
+--   https://<app>/checkin?qr_code=<qr_code>&kid=<key_id>&picc_data=00000000000000000000000000000000&cmac=0000000000000000&method=nfc
+-- (picc_data and cmac mirrored by SDM, CMAC input offset = CMAC offset)
+-- INSERT INTO nfc_tags (beneficiary_id, key_id, kind, sdm_meta_read_key, sdm_file_read_key)
+-- VALUES ('<beneficiary-uuid>', '<key_id>', 'sdm', '<meta read key hex>', '<file read key hex>');
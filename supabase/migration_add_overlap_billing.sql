@@ -0,0 +1,16 @@
+-- Migration: Bill concurrent presence once
+-- Two caregivers can be present at the same time (binôme, handover). By default each
+-- caregiver is billed for the full visit; contracts that bill that time only once set
+-- bill_overlaps_once on their majoration rule set version: the later arrival is then
+-- only billed for the time not already covered by another caregiver's visit.
+
+ALTER TABLE beneficiary_majoration_rule_sets
+ADD COLUMN IF NOT EXISTS bill_overlaps_once BOOLEAN NOT NULL DEFAULT false;
+
+-- Add comments
+COMMENT ON COLUMN beneficiary_majoration_rule_sets.bill_overlaps_once IS 'Bill the time two caregivers are present together once (later arrival not billed for the overlap)';
+
+-- Example: contract from 2026 billing concurrent presence once
+-- UPDATE beneficiary_majoration_rule_sets
+-- SET bill_overlaps_once = true
+-- WHERE beneficiary_id = '<beneficiary-uuid>' AND effective_date = '2026-01-01';
@@ -0,0 +1,289 @@
+-- Migration: Row-level security tied to Supabase auth users
+-- Replaces the `USING (true)` policies and migration_disable_rls.sql. With the anon key
+-- a client now only reaches rows through its Supabase session:
+--   * family members (family_members.auth_user_id) and primary contacts (users.auth_user_id)
+--     see and edit the rows of their beneficiary; check-ins, visits and their audit trail are
+--     read-only, corrections go through /api/visits/adjustments (service role);
+--   * admins (users.role = 'admin') see and edit everything;
+--   * caregivers are not signed in: the check-in form goes through /api/nfc/challenge,
+--     /api/checkin/context, /api/checkin/caregivers and /api/checkin/nfc, which use the
+--     service role, so they cannot read or insert rows themselves;
+--   * the legacy NFC secret moves to beneficiary_nfc_secrets, which has no policy at all.
+-- Password logins get a Supabase session from /api/auth/login (magic link token exchanged
+-- by the browser), magic link logins already have one.
+
+-- ---------------------------------------------------------------------------
+-- Auth users of family members and primary contacts
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE family_members ADD COLUMN IF NOT EXISTS auth_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS auth_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_family_members_auth_user ON family_members(auth_user_id);
+CREATE INDEX IF NOT EXISTS idx_users_auth_user ON users(auth_user_id);
+
+-- Link existing accounts by email. Only confirmed auth users: anyone can sign up with an
+-- email address they do not own, and the link grants that family's rows.
+UPDATE family_members fm
+SET auth_user_id = au.id
+FROM auth.users au
+WHERE fm.auth_user_id IS NULL AND lower(fm.email) = lower(au.email)
+  AND au.email_confirmed_at IS NOT NULL;
+
+UPDATE users u
+SET auth_user_id = au.id
+FROM auth.users au
+WHERE u.auth_user_id IS NULL AND lower(u.email) = lower(au.email)
+  AND au.email_confirmed_at IS NOT NULL;
+
+-- An auth user (magic link, password login) is linked to the rows with its email once the
+-- email is confirmed: at creation by the API routes (email_confirm), or when the link is opened
+CREATE OR REPLACE FUNCTION link_auth_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.family_members SET auth_user_id = NEW.id
+  WHERE auth_user_id IS NULL AND lower(email) = lower(NEW.email);
+
+  UPDATE public.users SET auth_user_id = NEW.id
+  WHERE auth_user_id IS NULL AND lower(email) = lower(NEW.email);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_created_link ON auth.users;
+DROP TRIGGER IF EXISTS on_auth_user_confirmed_link ON auth.users;
+CREATE TRIGGER on_auth_user_confirmed_link
+  AFTER INSERT OR UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION link_auth_user();
+
+-- ...and a family member added later is linked to an existing auth user
+CREATE OR REPLACE FUNCTION link_existing_auth_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.auth_user_id IS NULL AND NEW.email IS NOT NULL THEN
+    SELECT id INTO NEW.auth_user_id FROM auth.users
+    WHERE lower(email) = lower(NEW.email) AND email_confirmed_at IS NOT NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS link_family_member_auth_user ON family_members;
+CREATE TRIGGER link_family_member_auth_user
+  BEFORE INSERT ON family_members
+  FOR EACH ROW EXECUTE FUNCTION link_existing_auth_user();
+
+DROP TRIGGER IF EXISTS link_user_auth_user ON users;
+CREATE TRIGGER link_user_auth_user
+  BEFORE INSERT ON users
+  FOR EACH ROW EXECUTE FUNCTION link_existing_auth_user();
+
+-- ---------------------------------------------------------------------------
+-- Access helpers (SECURITY DEFINER: they read users/family_members past their policies)
+-- ---------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users WHERE auth_user_id = auth.uid() AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_access_beneficiary(p_beneficiary_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT auth.uid() IS NOT NULL AND (
+    is_admin()
+    OR EXISTS (
+      SELECT 1 FROM family_members
+      WHERE auth_user_id = auth.uid() AND beneficiary_id = p_beneficiary_id
+    )
+    OR EXISTS (
+      SELECT 1 FROM users
+      WHERE auth_user_id = auth.uid() AND beneficiary_id = p_beneficiary_id
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ---------------------------------------------------------------------------
+-- Legacy NFC secret out of reach of clients
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS beneficiary_nfc_secrets (
+  beneficiary_id UUID PRIMARY KEY REFERENCES beneficiaries(id) ON DELETE CASCADE,
+  nfc_secret TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'beneficiaries' AND column_name = 'nfc_secret'
+  ) THEN
+    INSERT INTO beneficiary_nfc_secrets (beneficiary_id, nfc_secret)
+    SELECT id, nfc_secret FROM beneficiaries WHERE nfc_secret IS NOT NULL
+    ON CONFLICT (beneficiary_id) DO NOTHING;
+
+    ALTER TABLE beneficiaries DROP COLUMN nfc_secret;
+  END IF;
+END $$;
+
+-- ---------------------------------------------------------------------------
+-- Policies
+-- ---------------------------------------------------------------------------
+
+-- Start from scratch: drop every policy of the public schema and enable RLS everywhere
+DO $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN SELECT policyname, tablename FROM pg_policies WHERE schemaname = 'public' LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', r.policyname, r.tablename);
+  END LOOP;
+
+  FOR r IN SELECT tablename FROM pg_tables WHERE schemaname = 'public' LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', r.tablename);
+  END LOOP;
+END $$;
+
+-- Check-ins, visits and the audit trail: read-only, so a correction is always audited and an
+-- audit entry cannot be edited or removed
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['check_in_outs', 'visits', 'visit_adjustments'] LOOP
+    IF to_regclass('public.' || t) IS NOT NULL THEN
+      EXECUTE format(
+        'CREATE POLICY "Family members view their beneficiary''s rows" ON %I FOR SELECT TO authenticated
+           USING (can_access_beneficiary(beneficiary_id))',
+        t
+      );
+    END IF;
+  END LOOP;
+END $$;
+
+-- Other tables with a beneficiary_id: family members of that beneficiary and admins
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'caregivers', 'caregiver_reviews',
+    'day_notes', 'schedule_slots', 'schedule_exceptions', 'beneficiary_rate_history',
+    'beneficiary_majoration_rule_sets', 'beneficiary_funders', 'agency_invoices',
+    'apa_usage_alerts', 'notifications_log'
+  ] LOOP
+    IF to_regclass('public.' || t) IS NOT NULL THEN
+      EXECUTE format(
+        'CREATE POLICY "Family members access their beneficiary''s rows" ON %I FOR ALL TO authenticated
+           USING (can_access_beneficiary(beneficiary_id)) WITH CHECK (can_access_beneficiary(beneficiary_id))',
+        t
+      );
+    END IF;
+  END LOOP;
+END $$;
+
+CREATE POLICY "Family members access their beneficiary's invoice lines"
+ON agency_invoice_lines FOR ALL TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM agency_invoices i
+  WHERE i.id = agency_invoice_lines.invoice_id AND can_access_beneficiary(i.beneficiary_id)
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM agency_invoices i
+  WHERE i.id = agency_invoice_lines.invoice_id AND can_access_beneficiary(i.beneficiary_id)
+));
+
+-- Beneficiaries are created by /api/auth/signup; families read and edit their own
+CREATE POLICY "Family members view their beneficiary"
+ON beneficiaries FOR SELECT TO authenticated
+USING (can_access_beneficiary(id));
+
+CREATE POLICY "Family members update their beneficiary"
+ON beneficiaries FOR UPDATE TO authenticated
+USING (can_access_beneficiary(id)) WITH CHECK (can_access_beneficiary(id));
+
+CREATE POLICY "Admins manage beneficiaries"
+ON beneficiaries FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+-- Family members are added by /api/family-members/add and /api/auth/signup
+CREATE POLICY "Family members view the family"
+ON family_members FOR SELECT TO authenticated
+USING (can_access_beneficiary(beneficiary_id));
+
+CREATE POLICY "Admins manage family members"
+ON family_members FOR ALL TO authenticated
+USING (is_admin()) WITH CHECK (is_admin());
+
+CREATE POLICY "Users view their own account"
+ON users FOR SELECT TO authenticated
+USING (auth_user_id = auth.uid());
+
+CREATE POLICY "Admins view users"
+ON users FOR SELECT TO authenticated
+USING (is_admin());
+
+-- Accounts are created and edited by the API routes; clients may read every column but
+-- the password hash
+DO $$
+DECLARE
+  readable TEXT;
+BEGIN
+  SELECT string_agg(quote_ident(column_name), ', ') INTO readable
+  FROM information_schema.columns
+  WHERE table_schema = 'public' AND table_name = 'users' AND column_name <> 'password_hash';
+
+  REVOKE ALL ON users FROM anon, authenticated;
+  EXECUTE format('GRANT SELECT (%s) ON users TO authenticated', readable);
+END $$;
+
+CREATE POLICY "Family members manage their push subscriptions"
+ON push_subscriptions FOR ALL TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM family_members fm
+  WHERE fm.id = push_subscriptions.family_member_id AND fm.auth_user_id = auth.uid()
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM family_members fm
+  WHERE fm.id = push_subscriptions.family_member_id AND fm.auth_user_id = auth.uid()
+));
+
+-- nfc_tags, nfc_used_tokens and beneficiary_nfc_secrets: no policy, service role only
+
+-- ---------------------------------------------------------------------------
+-- Check-in photos: private bucket, folders named after the beneficiary id
+-- ---------------------------------------------------------------------------
+-- The beneficiaries subquery runs under its own policies: only the user's beneficiaries
+
+UPDATE storage.buckets SET public = false WHERE id = 'caregiver-photos';
+
+DROP POLICY IF EXISTS "Caregivers upload check-in photos" ON storage.objects;
+CREATE POLICY "Caregivers upload check-in photos"
+ON storage.objects FOR INSERT TO anon, authenticated
+WITH CHECK (bucket_id = 'caregiver-photos');
+
+DROP POLICY IF EXISTS "Family members view their beneficiary's photos" ON storage.objects;
+CREATE POLICY "Family members view their beneficiary's photos"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'caregiver-photos'
+  AND (storage.foldername(name))[1] IN (SELECT id::text FROM beneficiaries)
+);
+
+DROP POLICY IF EXISTS "Family members delete their beneficiary's photos" ON storage.objects;
+CREATE POLICY "Family members delete their beneficiary's photos"
+ON storage.objects FOR DELETE TO authenticated
+USING (
+  bucket_id = 'caregiver-photos'
+  AND (storage.foldername(name))[1] IN (SELECT id::text FROM beneficiaries)
+);
+
+COMMENT ON COLUMN family_members.auth_user_id IS 'Supabase auth user of the family member (row-level security)';
+COMMENT ON COLUMN users.auth_user_id IS 'Supabase auth user of the account (row-level security)';
+COMMENT ON TABLE beneficiary_nfc_secrets IS 'Static secret of NFC cards written before signed payloads; service role only, row deleted when the family revokes it';
+COMMENT ON FUNCTION can_access_beneficiary(UUID) IS 'Whether the signed-in user is an admin or a family member of the beneficiary';
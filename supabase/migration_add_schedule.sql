@@ -0,0 +1,58 @@
+-- Migration: Add schedule_slots and schedule_exceptions tables for planned visits
+-- Each beneficiary gets a weekly planning: recurring slots per caregiver
+-- (e.g. Mon–Fri 09:00–11:00) plus one-off exceptions (a visit cancelled, moved to
+-- another time or caregiver, or an extra visit). The calendar compares planned
+-- visits with the visits actually recorded by check-ins.
+
+-- Recurring weekly slots
+CREATE TABLE IF NOT EXISTS schedule_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  beneficiary_id UUID NOT NULL REFERENCES beneficiaries(id) ON DELETE CASCADE,
+  caregiver_name TEXT NOT NULL,
+  weekdays SMALLINT[] NOT NULL,
+  start_time TEXT NOT NULL,
+  end_time TEXT NOT NULL,
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT schedule_slots_weekdays CHECK (weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[] AND cardinality(weekdays) > 0),
+  CONSTRAINT schedule_slots_start_time CHECK (start_time ~ '^([01]\d|2[0-3]):[0-5]\d$'),
+  CONSTRAINT schedule_slots_end_time CHECK (end_time ~ '^([01]\d|2[0-3]):[0-5]\d$'),
+  CONSTRAINT schedule_slots_dates CHECK (end_date IS NULL OR end_date >= effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_slots_beneficiary
+  ON schedule_slots(beneficiary_id, effective_date);
+
+-- One-off exceptions
+CREATE TABLE IF NOT EXISTS schedule_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  beneficiary_id UUID NOT NULL REFERENCES beneficiaries(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  exception_type TEXT NOT NULL,
+  slot_id UUID REFERENCES schedule_slots(id) ON DELETE CASCADE,
+  caregiver_name TEXT,
+  start_time TEXT,
+  end_time TEXT,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT schedule_exceptions_type CHECK (exception_type IN ('cancelled', 'modified', 'added')),
+  CONSTRAINT schedule_exceptions_slot CHECK ((exception_type = 'added') = (slot_id IS NULL)),
+  CONSTRAINT schedule_exceptions_added CHECK (
+    exception_type <> 'added' OR (caregiver_name IS NOT NULL AND start_time IS NOT NULL AND end_time IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_exceptions_beneficiary_date
+  ON schedule_exceptions(beneficiary_id, date);
+
+-- Add comments
+COMMENT ON TABLE schedule_slots IS 'Recurring weekly visit slots per caregiver (planning)';
+COMMENT ON COLUMN schedule_slots.weekdays IS 'Days of the week: 0 = Sunday ... 6 = Saturday';
+COMMENT ON COLUMN schedule_slots.start_time IS 'Planned start, HH:mm in the beneficiary timezone';
+COMMENT ON COLUMN schedule_slots.end_time IS 'Planned end, HH:mm; earlier than start_time ends the next day';
+COMMENT ON COLUMN schedule_slots.effective_date IS 'First planned day';
+COMMENT ON COLUMN schedule_slots.end_date IS 'Last planned day (NULL = ongoing)';
+COMMENT ON TABLE schedule_exceptions IS 'One-off changes to the planning: cancelled, modified or added visits';
+COMMENT ON COLUMN schedule_exceptions.slot_id IS 'Recurring slot cancelled or modified that day (NULL for added visits)';
+COMMENT ON COLUMN schedule_exceptions.caregiver_name IS 'Replacement caregiver (modified) or caregiver of the added visit';
@@ -0,0 +1,28 @@
+-- Migration: Record schedule alerts (missed / late check-ins, early departures) in notifications_log
+-- /api/notifications/schedule-alerts compares planned visits (schedule_slots /
+-- schedule_exceptions) with check-ins. Each alert is recorded once as a 'detected' row
+-- without family member; push deliveries for missed check-ins are logged per family member.
+
+ALTER TABLE notifications_log
+ADD COLUMN IF NOT EXISTS alert_type TEXT,
+ADD COLUMN IF NOT EXISTS caregiver_name TEXT,
+ADD COLUMN IF NOT EXISTS planned_start TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS alert_minutes INTEGER;
+
+ALTER TABLE notifications_log
+DROP CONSTRAINT IF EXISTS notifications_log_alert_type;
+
+ALTER TABLE notifications_log
+ADD CONSTRAINT notifications_log_alert_type
+CHECK (alert_type IS NULL OR alert_type IN ('missed_check_in', 'late_arrival', 'early_departure'));
+
+-- One detection per alert, whatever the number of runs
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_log_schedule_alert
+  ON notifications_log(beneficiary_id, alert_type, planned_start, caregiver_name)
+  WHERE alert_type IS NOT NULL AND family_member_id IS NULL;
+
+-- Add comments
+COMMENT ON COLUMN notifications_log.alert_type IS 'Schedule alert: missed_check_in, late_arrival or early_departure (NULL for other notifications)';
+COMMENT ON COLUMN notifications_log.caregiver_name IS 'Caregiver expected (missed check-in) or who came (late arrival, early departure)';
+COMMENT ON COLUMN notifications_log.planned_start IS 'Start of the planned visit the alert is about';
+COMMENT ON COLUMN notifications_log.alert_minutes IS 'Minutes overdue, late or left early';
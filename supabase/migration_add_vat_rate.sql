@@ -0,0 +1,32 @@
+-- Migration: Add configurable VAT rate and HT/TTC rate entry to beneficiaries
+-- Services à la personne are billed at 5.5% in France, but some services (or other
+-- countries) use 10% or 20%. The rate can also change over time, so rate history
+-- rows may carry their own VAT rate.
+-- Amounts are always calculated HT; rates entered TTC are converted with the VAT rate
+-- in effect on the visit date.
+
+-- Step 1: Beneficiary default VAT rate and entry mode
+ALTER TABLE beneficiaries
+ADD COLUMN IF NOT EXISTS vat_rate NUMERIC(5, 2) DEFAULT 5.5;
+
+ALTER TABLE beneficiaries
+ADD COLUMN IF NOT EXISTS rates_include_vat BOOLEAN DEFAULT false;
+
+COMMENT ON COLUMN beneficiaries.vat_rate IS
+  'Default VAT rate in percent (5.5 for services à la personne in France)';
+COMMENT ON COLUMN beneficiaries.rates_include_vat IS
+  'true when regular_rate, conventioned_rate and rate history are entered TTC instead of HT';
+
+-- Step 2: Per-period VAT rate in rate history
+ALTER TABLE beneficiary_rate_history
+ADD COLUMN IF NOT EXISTS vat_rate NUMERIC(5, 2) DEFAULT NULL;
+
+COMMENT ON COLUMN beneficiary_rate_history.vat_rate IS
+  'VAT rate in percent for this period. NULL = use the beneficiary vat_rate';
+
+-- Verification query:
+-- SELECT name, regular_rate, vat_rate, rates_include_vat,
+--        CASE WHEN rates_include_vat
+--             THEN ROUND(regular_rate / (1 + vat_rate / 100), 2)
+--             ELSE regular_rate END AS regular_rate_ht
+-- FROM beneficiaries;
@@ -0,0 +1,25 @@
+-- Migration: Manual visit corrections (edit, add, void)
+-- Families fix wrong times, add visits the phone did not record and void duplicates.
+-- Each change is audited in visit_adjustments; edited or added rows are marked
+-- verification_method = 'manual'. Voided rows are kept for the audit trail and ignored
+-- by hours, billing and exports.
+
+-- Voided rows
+ALTER TABLE check_in_outs
+ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_check_in_outs_not_voided
+  ON check_in_outs(beneficiary_id, timestamp)
+  WHERE voided_at IS NULL;
+
+-- Edit, add and void join the forgotten check-out closing
+ALTER TABLE visit_adjustments
+DROP CONSTRAINT IF EXISTS visit_adjustments_type;
+
+ALTER TABLE visit_adjustments
+ADD CONSTRAINT visit_adjustments_type
+CHECK (adjustment_type IN ('close_visit', 'edit', 'add', 'void'));
+
+-- Add comments
+COMMENT ON COLUMN check_in_outs.voided_at IS 'When the row was voided by a manual correction (kept for the audit trail, ignored everywhere else)';
+COMMENT ON COLUMN visit_adjustments.adjustment_type IS 'close_visit (forgotten check-out), edit, add or void';
@@ -0,0 +1,209 @@
+-- Migration: Visits maintained from check-ins and check-outs
+-- Each visit links a check-in to the check-out of the same caregiver, so overlapping
+-- caregivers no longer steal each other's check-outs. The table is rebuilt per
+-- caregiver by a trigger on check_in_outs (insert, edit, void, delete) with the same
+-- rules as pairCheckInOuts in lib/billing.ts:
+--   * a check-out closes the caregiver's open check-in if it is later;
+--   * a new check-in leaves the previous one open (forgotten check-out);
+--   * a check-in closed by a family member ends at corrected_check_out_at;
+--   * voided rows are ignored;
+--   * a visit longer than the beneficiary's forgotten_check_out_hours (12 by default) is
+--     flagged long_visit, the limit used by the forgotten check-out alerts.
+
+CREATE TABLE IF NOT EXISTS visits (
+  check_in_id UUID PRIMARY KEY REFERENCES check_in_outs(id) ON DELETE CASCADE,
+  check_out_id UUID UNIQUE REFERENCES check_in_outs(id) ON DELETE SET NULL,
+  beneficiary_id UUID NOT NULL REFERENCES beneficiaries(id) ON DELETE CASCADE,
+  caregiver_name TEXT NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ,
+  duration_hours NUMERIC GENERATED ALWAYS AS (EXTRACT(EPOCH FROM (ended_at - started_at)) / 3600) STORED,
+  status TEXT NOT NULL,
+  is_training BOOLEAN NOT NULL DEFAULT false,
+  flags TEXT[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT visits_status CHECK (status IN ('open', 'closed', 'corrected')),
+  CONSTRAINT visits_ended CHECK ((status = 'open') = (ended_at IS NULL)),
+  CONSTRAINT visits_flags CHECK (flags <@ ARRAY['manual', 'forgotten_check_out', 'long_visit']::TEXT[])
+);
+
+CREATE INDEX IF NOT EXISTS idx_visits_beneficiary_started
+  ON visits(beneficiary_id, started_at);
+
+CREATE INDEX IF NOT EXISTS idx_visits_open
+  ON visits(beneficiary_id)
+  WHERE status = 'open';
+
+-- Insert one visit (helper of refresh_visits)
+CREATE OR REPLACE FUNCTION insert_visit(
+  check_in check_in_outs,
+  check_out check_in_outs,
+  visit_end TIMESTAMPTZ,
+  visit_status TEXT
+)
+RETURNS void AS $$
+DECLARE
+  visit_flags TEXT[] := '{}';
+  limit_hours NUMERIC;
+BEGIN
+  SELECT COALESCE(forgotten_check_out_hours, 12) INTO limit_hours
+  FROM beneficiaries
+  WHERE id = check_in.beneficiary_id;
+
+  IF check_in.verification_method = 'manual' OR check_out.verification_method = 'manual' THEN
+    visit_flags := visit_flags || 'manual';
+  END IF;
+  IF check_in.forgotten_check_out_flagged_at IS NOT NULL THEN
+    visit_flags := visit_flags || 'forgotten_check_out';
+  END IF;
+  IF visit_end IS NOT NULL AND visit_end - check_in.timestamp > make_interval(secs => COALESCE(limit_hours, 12) * 3600) THEN
+    visit_flags := visit_flags || 'long_visit';
+  END IF;
+
+  INSERT INTO visits (check_in_id, check_out_id, beneficiary_id, caregiver_name, started_at, ended_at, status, is_training, flags)
+  VALUES (
+    check_in.id,
+    check_out.id,
+    check_in.beneficiary_id,
+    check_in.caregiver_name,
+    check_in.timestamp,
+    visit_end,
+    visit_status,
+    COALESCE(check_in.is_training, false),
+    visit_flags
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rebuild the visits of one caregiver at one beneficiary
+CREATE OR REPLACE FUNCTION refresh_visits(beneficiary_uuid UUID, caregiver TEXT)
+RETURNS void AS $$
+DECLARE
+  row_item check_in_outs;
+  open_check_in check_in_outs;
+  no_check_out check_in_outs;
+BEGIN
+  DELETE FROM visits
+  WHERE beneficiary_id = beneficiary_uuid AND caregiver_name = caregiver;
+
+  FOR row_item IN
+    SELECT * FROM check_in_outs
+    WHERE beneficiary_id = beneficiary_uuid
+      AND caregiver_name = caregiver
+      AND voided_at IS NULL
+    ORDER BY timestamp ASC
+  LOOP
+    IF row_item.action = 'check-in' THEN
+      -- A new check-in leaves the previous visit open
+      IF open_check_in.id IS NOT NULL THEN
+        PERFORM insert_visit(open_check_in, no_check_out, NULL, 'open');
+        open_check_in := NULL;
+      END IF;
+
+      IF row_item.corrected_check_out_at IS NOT NULL THEN
+        PERFORM insert_visit(row_item, no_check_out, row_item.corrected_check_out_at, 'corrected');
+      ELSE
+        open_check_in := row_item;
+      END IF;
+    ELSIF open_check_in.id IS NOT NULL AND row_item.timestamp > open_check_in.timestamp THEN
+      PERFORM insert_visit(open_check_in, row_item, row_item.timestamp, 'closed');
+      open_check_in := NULL;
+    END IF;
+  END LOOP;
+
+  IF open_check_in.id IS NOT NULL THEN
+    PERFORM insert_visit(open_check_in, no_check_out, NULL, 'open');
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_visits_on_check_in_out()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_visits(OLD.beneficiary_id, OLD.caregiver_name);
+  END IF;
+
+  -- Also rebuild the new caregiver when a visit was reassigned
+  IF TG_OP = 'INSERT'
+    OR (TG_OP = 'UPDATE' AND (NEW.beneficiary_id, NEW.caregiver_name) IS DISTINCT FROM (OLD.beneficiary_id, OLD.caregiver_name)) THEN
+    PERFORM refresh_visits(NEW.beneficiary_id, NEW.caregiver_name);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_visits_on_check_in_out ON check_in_outs;
+CREATE TRIGGER refresh_visits_on_check_in_out
+  AFTER INSERT OR UPDATE OR DELETE ON check_in_outs
+  FOR EACH ROW EXECUTE FUNCTION refresh_visits_on_check_in_out();
+
+-- A new limit re-flags the beneficiary's visits
+CREATE OR REPLACE FUNCTION refresh_visits_on_forgotten_check_out_hours()
+RETURNS TRIGGER AS $$
+DECLARE
+  caregiver TEXT;
+BEGIN
+  FOR caregiver IN SELECT DISTINCT caregiver_name FROM check_in_outs WHERE beneficiary_id = NEW.id LOOP
+    PERFORM refresh_visits(NEW.id, caregiver);
+  END LOOP;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_visits_on_forgotten_check_out_hours ON beneficiaries;
+CREATE TRIGGER refresh_visits_on_forgotten_check_out_hours
+  AFTER UPDATE OF forgotten_check_out_hours ON beneficiaries
+  FOR EACH ROW
+  WHEN (OLD.forgotten_check_out_hours IS DISTINCT FROM NEW.forgotten_check_out_hours)
+  EXECUTE FUNCTION refresh_visits_on_forgotten_check_out_hours();
+
+-- Build visits for existing check-ins
+DO $$
+DECLARE
+  pair RECORD;
+BEGIN
+  FOR pair IN SELECT DISTINCT beneficiary_id, caregiver_name FROM check_in_outs LOOP
+    PERFORM refresh_visits(pair.beneficiary_id, pair.caregiver_name);
+  END LOOP;
+END $$;
+
+-- Monthly report from visits instead of pairing each check-in with the next check-out
+DROP FUNCTION IF EXISTS get_monthly_report(uuid, integer, integer);
+
+CREATE OR REPLACE FUNCTION get_monthly_report(
+  beneficiary_uuid UUID,
+  report_month INTEGER,
+  report_year INTEGER
+)
+RETURNS TABLE (
+  date DATE,
+  caregiver_name TEXT,
+  check_in_time TIMESTAMPTZ,
+  check_out_time TIMESTAMPTZ,
+  hours_worked DECIMAL,
+  has_discrepancy BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    DATE(v.started_at) AS date,
+    v.caregiver_name,
+    v.started_at AS check_in_time,
+    v.ended_at AS check_out_time,
+    v.duration_hours::DECIMAL AS hours_worked,
+    (v.status <> 'closed' OR 'long_visit' = ANY(v.flags)) AS has_discrepancy
+  FROM visits v
+  WHERE v.beneficiary_id = beneficiary_uuid
+    AND EXTRACT(MONTH FROM v.started_at) = report_month
+    AND EXTRACT(YEAR FROM v.started_at) = report_year
+  ORDER BY v.started_at;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON TABLE visits IS 'One row per visit, rebuilt from check_in_outs by trigger (same pairing as lib/billing.ts pairCheckInOuts)';
+COMMENT ON COLUMN visits.check_out_id IS 'Check-out row closing the visit (NULL when open or closed by a corrected end)';
+COMMENT ON COLUMN visits.status IS 'open (no check-out yet), closed (check-out recorded) or corrected (end entered by a family member)';
+COMMENT ON COLUMN visits.flags IS 'manual (entered or corrected by hand), forgotten_check_out (reported open), long_visit (longer than the beneficiary''s forgotten_check_out_hours)';
@@ -0,0 +1,84 @@
+-- Migration: Visit corrections written in one transaction
+-- /api/visits/adjustments plans an edit, an added visit or a void from the rows in the
+-- database (lib/visit-adjustments.ts) and hands the row changes and their audit entries
+-- to apply_visit_adjustments, so a correction is never saved without its audit entry.
+-- The author comes from the caller's session, not from the browser.
+
+CREATE OR REPLACE FUNCTION apply_visit_adjustments(
+  beneficiary_uuid UUID,
+  updates JSONB, -- [{ id, values }]: changed columns of existing rows
+  new_rows JSONB, -- Rows of a visit added by hand, audited as 'add'
+  adjustments JSONB, -- [{ check_in_out_id, adjustment_type, previous_values, new_values }] of the updates
+  adjustment_reason TEXT,
+  author_id UUID,
+  author_name TEXT
+)
+RETURNS void AS $$
+DECLARE
+  item JSONB;
+  inserted check_in_outs;
+BEGIN
+  -- Only the columns a correction may change are taken from the values
+  FOR item IN SELECT * FROM jsonb_array_elements(updates) LOOP
+    UPDATE check_in_outs c
+    SET (caregiver_name, timestamp, corrected_check_out_at, voided_at, verification_method) = (
+      SELECT r.caregiver_name, r.timestamp, r.corrected_check_out_at, r.voided_at, r.verification_method
+      FROM jsonb_populate_record(c, item->'values') r
+    )
+    WHERE c.id = (item->>'id')::UUID
+      AND c.beneficiary_id = beneficiary_uuid;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Check-in/out % not found', item->>'id' USING ERRCODE = 'no_data_found';
+    END IF;
+  END LOOP;
+
+  INSERT INTO visit_adjustments (
+    beneficiary_id, check_in_out_id, adjustment_type, previous_values, new_values,
+    reason, adjusted_by, adjusted_by_name
+  )
+  SELECT
+    beneficiary_uuid,
+    (a->>'check_in_out_id')::UUID,
+    a->>'adjustment_type',
+    COALESCE(a->'previous_values', '{}'::jsonb),
+    COALESCE(a->'new_values', '{}'::jsonb),
+    adjustment_reason,
+    author_id,
+    author_name
+  FROM jsonb_array_elements(adjustments) a;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(new_rows) LOOP
+    INSERT INTO check_in_outs (beneficiary_id, caregiver_name, action, timestamp, verification_method, verification_flags)
+    SELECT beneficiary_uuid, r.caregiver_name, r.action, r.timestamp, r.verification_method, r.verification_flags
+    FROM jsonb_populate_record(NULL::check_in_outs, item) r
+    RETURNING * INTO inserted;
+
+    INSERT INTO visit_adjustments (
+      beneficiary_id, check_in_out_id, adjustment_type, previous_values, new_values,
+      reason, adjusted_by, adjusted_by_name
+    )
+    VALUES (
+      beneficiary_uuid,
+      inserted.id,
+      'add',
+      '{}'::jsonb,
+      jsonb_build_object(
+        'action', inserted.action,
+        'caregiver_name', inserted.caregiver_name,
+        'timestamp', inserted.timestamp,
+        'verification_method', inserted.verification_method
+      ),
+      adjustment_reason,
+      author_id,
+      author_name
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the API route (service role) applies corrections
+REVOKE EXECUTE ON FUNCTION apply_visit_adjustments(UUID, JSONB, JSONB, JSONB, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Add comments
+COMMENT ON FUNCTION apply_visit_adjustments(UUID, JSONB, JSONB, JSONB, TEXT, UUID, TEXT) IS 'Apply a manual visit correction (row updates, added rows) and its visit_adjustments entries atomically';
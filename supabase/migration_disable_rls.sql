@@ -1,3 +1,5 @@
+-- SUPERSEDED by migration_add_rls_policies.sql: do not run, it exposes every table to the anon key
+
 -- Disable RLS on all tables since we're using anon key without auth
 -- This is acceptable for this app since access control is handled at the application level
 
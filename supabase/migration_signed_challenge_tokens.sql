@@ -0,0 +1,14 @@
+-- Migration: Signed check-in challenge tokens
+-- /api/nfc/challenge now returns a token signed by the server (lib/challenge-token.ts)
+-- carrying the beneficiary, the verified tap and an expiry 15 minutes after the tap.
+-- /api/checkin/nfc verifies it and records its id in nfc_used_tokens; the tap time
+-- stored in check_in_outs.tap_timestamp comes from the token, not from the phone.
+-- The SQL functions below checked a client-supplied tap timestamp and are not used.
+
+DROP FUNCTION IF EXISTS generate_nfc_challenge(UUID, VARCHAR);
+DROP FUNCTION IF EXISTS validate_nfc_checkin(UUID, VARCHAR, VARCHAR, TIMESTAMPTZ);
+
+COMMENT ON TABLE nfc_used_tokens IS 'Ids of challenge tokens already used for a check-in (single use)';
+COMMENT ON COLUMN nfc_used_tokens.challenge_token IS 'Id (jti) of the signed challenge token';
+COMMENT ON COLUMN check_in_outs.nfc_challenge_token IS 'Id (jti) of the signed challenge token used for the check-in';
+COMMENT ON COLUMN check_in_outs.tap_timestamp IS 'Time the server accepted the tap (from the challenge token)';